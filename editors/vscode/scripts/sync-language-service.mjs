@@ -107,6 +107,58 @@ const formatterTargetDir = path.resolve(
   toolsTargetDir,
   'formatter',
 );
+const instrumentsSourceDir = path.resolve(
+  __dirname,
+  '..',
+  '..',
+  '..',
+  'tools',
+  'instruments',
+  'src',
+);
+const instrumentsTargetDir = path.resolve(
+  toolsTargetDir,
+  'instruments',
+);
+const checkerSourceDir = path.resolve(
+  __dirname,
+  '..',
+  '..',
+  '..',
+  'tools',
+  'checker',
+  'src',
+);
+const checkerTargetDir = path.resolve(
+  toolsTargetDir,
+  'checker',
+);
+const transformsSourceDir = path.resolve(
+  __dirname,
+  '..',
+  '..',
+  '..',
+  'tools',
+  'transforms',
+  'src',
+);
+const transformsTargetDir = path.resolve(
+  toolsTargetDir,
+  'transforms',
+);
+const timelineSourceDir = path.resolve(
+  __dirname,
+  '..',
+  '..',
+  '..',
+  'tools',
+  'timeline',
+  'src',
+);
+const timelineTargetDir = path.resolve(
+  toolsTargetDir,
+  'timeline',
+);
 
 await rm(targetDir, { recursive: true, force: true });
 await cp(sourceDir, targetDir, { recursive: true });
@@ -120,6 +172,10 @@ await cp(musicXmlConverterSourceDir, musicXmlConverterTargetDir, { recursive: tr
 await cp(guitarProConverterSourceDir, guitarProConverterTargetDir, { recursive: true });
 await cp(asciiImporterSourceDir, asciiImporterTargetDir, { recursive: true });
 await cp(formatterSourceDir, formatterTargetDir, { recursive: true });
+await cp(instrumentsSourceDir, instrumentsTargetDir, { recursive: true });
+await cp(checkerSourceDir, checkerTargetDir, { recursive: true });
+await cp(transformsSourceDir, transformsTargetDir, { recursive: true });
+await cp(timelineSourceDir, timelineTargetDir, { recursive: true });
 
 console.log(`Synced language-service from ${sourceDir} to ${targetDir}.`);
 console.log(`Synced parser from ${parserSourceDir} to ${parserTargetDir}.`);
@@ -142,3 +198,15 @@ console.log(
 console.log(
   `Synced formatter from ${formatterSourceDir} to ${formatterTargetDir}.`,
 );
+console.log(
+  `Synced instruments from ${instrumentsSourceDir} to ${instrumentsTargetDir}.`,
+);
+console.log(
+  `Synced checker from ${checkerSourceDir} to ${checkerTargetDir}.`,
+);
+console.log(
+  `Synced transforms from ${transformsSourceDir} to ${transformsTargetDir}.`,
+);
+console.log(
+  `Synced timeline from ${timelineSourceDir} to ${timelineTargetDir}.`,
+);
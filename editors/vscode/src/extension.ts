@@ -1,3 +1,4 @@
+import { readFileSync } from 'node:fs';
 import path from 'node:path';
 import { spawn } from 'node:child_process';
 import * as vscode from 'vscode';
@@ -10,7 +11,18 @@ import { toMusicXml } from './opentab-tools/converters-musicxml/index.js';
 import { toMidi } from './opentab-tools/converters-midi/index.js';
 import { toSvgTab } from './opentab-tools/converters-svg/index.js';
 import { importAsciiTab } from './opentab-tools/importers-ascii/index.js';
-import { OpenTabParseError, parseOpenTab } from './opentab-tools/parser/index.js';
+import { rewriteOpenTab } from './opentab-tools/formatter/index.js';
+import {
+  OpenTabParseError,
+  parseOpenTab,
+  type DuplicateMeasurePolicy,
+} from './opentab-tools/parser/index.js';
+import {
+  applyCapo,
+  retune,
+  transpose,
+  type TransformResult,
+} from './opentab-tools/transforms/index.js';
 import { hasPreviewPanel, showPreview, updatePreview } from './preview/previewPanel';
 
 export function activate(context: vscode.ExtensionContext): void {
@@ -53,7 +65,7 @@ export function activate(context: vscode.ExtensionContext): void {
       if (!editor || editor.document.languageId !== 'opentab') {
         return;
       }
-      showPreview(context, editor.document);
+      showPreview(context, editor.document, parseOptionsFor(editor.document));
     },
   );
 
@@ -256,6 +268,92 @@ export function activate(context: vscode.ExtensionContext): void {
     },
   );
 
+  const transposeCommand = vscode.commands.registerCommand(
+    'opentab.transpose',
+    async () => {
+      const document = getActiveOpenTabDocument();
+      if (!document) {
+        return;
+      }
+      const parsed = parseActiveDocument(document);
+      if (!parsed) {
+        return;
+      }
+      const semitones = await promptForInteger(
+        'Semitones to transpose by (negative to go down)',
+        '-1',
+      );
+      if (semitones === undefined) {
+        return;
+      }
+      await applyTransform(document, 'Transpose', (current) =>
+        transpose(current, semitones),
+      );
+    },
+  );
+
+  const retuneCommand = vscode.commands.registerCommand(
+    'opentab.retune',
+    async () => {
+      const document = getActiveOpenTabDocument();
+      if (!document) {
+        return;
+      }
+      const parsed = parseActiveDocument(document);
+      if (!parsed) {
+        return;
+      }
+      const track = await promptForFrettedTrack(parsed);
+      if (!track) {
+        return;
+      }
+      const tuning = await vscode.window.showInputBox({
+        prompt: `New tuning for ${track.id}, lowest string first`,
+        placeHolder: 'D2,A2,D3,G3,B3,E4',
+        value: track.tuning?.join(','),
+      });
+      if (!tuning) {
+        return;
+      }
+      await applyTransform(document, 'Retune', (current) =>
+        retune(
+          current,
+          track.id,
+          tuning.split(',').map((note) => note.trim()),
+        ),
+      );
+    },
+  );
+
+  const setCapoCommand = vscode.commands.registerCommand(
+    'opentab.setCapo',
+    async () => {
+      const document = getActiveOpenTabDocument();
+      if (!document) {
+        return;
+      }
+      const parsed = parseActiveDocument(document);
+      if (!parsed) {
+        return;
+      }
+      const track = await promptForFrettedTrack(parsed);
+      if (!track) {
+        return;
+      }
+      const capo = await promptForInteger(
+        `Capo fret for ${track.id} (0 to remove the capo)`,
+        '2',
+        String(track.capo ?? 0),
+      );
+      if (capo === undefined) {
+        return;
+      }
+      await applyTransform(document, 'Capo change', (current) =>
+        applyCapo(current, track.id, capo),
+      );
+    },
+  );
+
   const changeDisposable = vscode.workspace.onDidChangeTextDocument((event) => {
     const editor = vscode.window.activeTextEditor;
     if (!editor || editor.document.uri.toString() !== event.document.uri.toString()) {
@@ -268,7 +366,7 @@ export function activate(context: vscode.ExtensionContext): void {
       clearTimeout(previewUpdateTimeout);
     }
     previewUpdateTimeout = setTimeout(() => {
-      updatePreview(event.document.getText());
+      updatePreview(event.document.getText(), parseOptionsFor(event.document));
     }, previewDebounceMs);
   });
 
@@ -278,7 +376,23 @@ export function activate(context: vscode.ExtensionContext): void {
         return;
       }
       if (hasPreviewPanel()) {
-        showPreview(context, editor.document);
+        showPreview(context, editor.document, parseOptionsFor(editor.document));
+      }
+    },
+  );
+
+  const configurationDisposable = vscode.workspace.onDidChangeConfiguration(
+    (event) => {
+      if (
+        !event.affectsConfiguration('opentab.duplicateMeasures') &&
+        !event.affectsConfiguration('opentab.autoNumber')
+      ) {
+        return;
+      }
+      for (const document of vscode.workspace.textDocuments) {
+        if (document.languageId === 'opentab') {
+          updateDiagnostics(document, diagnostics);
+        }
       }
     },
   );
@@ -298,8 +412,12 @@ export function activate(context: vscode.ExtensionContext): void {
     playMidiCommand,
     importGuitarProCommand,
     importAsciiCommand,
+    transposeCommand,
+    retuneCommand,
+    setCapoCommand,
     changeDisposable,
     activeEditorDisposable,
+    configurationDisposable,
   );
 }
 
@@ -307,7 +425,7 @@ function updateDiagnostics(
   document: vscode.TextDocument,
   diagnostics: vscode.DiagnosticCollection,
 ): void {
-  const results = validate(document.getText());
+  const results = validate(document.getText(), parseOptionsFor(document));
   const vscodeDiagnostics = results.map((result) => {
     const line = Math.max(0, Math.min(result.line, document.lineCount - 1));
     const lineText = document.lineAt(line).text;
@@ -317,14 +435,70 @@ function updateDiagnostics(
     const diagnostic = new vscode.Diagnostic(
       range,
       result.message,
-      vscode.DiagnosticSeverity.Error,
+      result.severity === 'warning'
+        ? vscode.DiagnosticSeverity.Warning
+        : vscode.DiagnosticSeverity.Error,
     );
+    diagnostic.code = result.code;
+    diagnostic.source = 'opentab';
+    if (result.related) {
+      diagnostic.relatedInformation = result.related.map(
+        (related) =>
+          new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(
+              related.file ? vscode.Uri.file(related.file) : document.uri,
+              new vscode.Range(
+                related.line,
+                related.startCol,
+                related.line,
+                related.endCol,
+              ),
+            ),
+            related.message,
+          ),
+      );
+    }
     return diagnostic;
   });
 
   diagnostics.set(document.uri, vscodeDiagnostics);
 }
 
+function resolveInclude(
+  includePath: string,
+  from: string | undefined,
+): { file: string; source: string } | undefined {
+  if (!from) {
+    return undefined;
+  }
+  const file = path.resolve(path.dirname(from), includePath);
+  const open = vscode.workspace.textDocuments.find(
+    (candidate) => candidate.uri.fsPath === file,
+  );
+  if (open) {
+    return { file, source: open.getText() };
+  }
+  try {
+    return { file, source: readFileSync(file, 'utf8') };
+  } catch {
+    return undefined;
+  }
+}
+
+function parseOptionsFor(document: vscode.TextDocument) {
+  const config = vscode.workspace.getConfiguration('opentab', document.uri);
+  const settings = {
+    duplicateMeasures: config.get<DuplicateMeasurePolicy>(
+      'duplicateMeasures',
+      'warn',
+    ),
+    autoNumber: config.get<boolean>('autoNumber', false),
+  };
+  return document.uri.scheme === 'file'
+    ? { ...settings, file: document.uri.fsPath, resolveInclude }
+    : settings;
+}
+
 function formatText(document: vscode.TextDocument): string {
   const eol = document.eol === vscode.EndOfLine.LF ? '\n' : '\r\n';
   const formatted = format(document.getText());
@@ -347,7 +521,7 @@ function parseActiveDocument(
   document: vscode.TextDocument,
 ): ReturnType<typeof parseOpenTab> | null {
   try {
-    return parseOpenTab(document.getText());
+    return parseOpenTab(document.getText(), parseOptionsFor(document));
   } catch (error) {
     if (error instanceof OpenTabParseError) {
       void vscode.window.showErrorMessage(`OpenTab parse error: ${error.message}`);
@@ -558,6 +732,84 @@ async function getDefaultImportTargetUri(
   return targetUri;
 }
 
+type OpenTabAst = ReturnType<typeof parseOpenTab>;
+
+async function promptForInteger(
+  prompt: string,
+  placeHolder: string,
+  value?: string,
+): Promise<number | undefined> {
+  const input = await vscode.window.showInputBox({
+    prompt,
+    placeHolder,
+    value,
+    validateInput: (text) =>
+      /^[+-]?\d+$/.test(text.trim()) ? undefined : 'Enter a whole number.',
+  });
+  return input === undefined ? undefined : Number(input.trim());
+}
+
+async function promptForFrettedTrack(
+  parsed: OpenTabAst,
+): Promise<OpenTabAst['tracks'][number] | undefined> {
+  const tracks = parsed.tracks.filter((track) => track.kind !== 'percussion');
+  if (tracks.length === 0) {
+    void vscode.window.showWarningMessage('OpenTab: No fretted tracks to change.');
+    return undefined;
+  }
+  if (tracks.length === 1) {
+    return tracks[0];
+  }
+  const picked = await vscode.window.showQuickPick(
+    tracks.map((track) => ({
+      label: track.id,
+      description: track.name ?? track.instrument,
+      track,
+    })),
+    { placeHolder: 'Track to change' },
+  );
+  return picked?.track;
+}
+
+async function applyTransform(
+  document: vscode.TextDocument,
+  label: string,
+  run: (parsed: OpenTabAst) => TransformResult,
+): Promise<void> {
+  const source = document.getText();
+  let result: TransformResult;
+  let rewritten: string;
+  try {
+    const parsed = parseOpenTab(source, {
+      ...parseOptionsFor(document),
+      positions: true,
+    });
+    result = run(parsed);
+    rewritten = rewriteOpenTab(source, parsed, result.document);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : `${label} failed.`;
+    void vscode.window.showErrorMessage(`OpenTab: ${message}`);
+    return;
+  }
+  const lastLine = Math.max(document.lineCount - 1, 0);
+  const fullRange = new vscode.Range(
+    0,
+    0,
+    lastLine,
+    document.lineAt(lastLine).text.length,
+  );
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(document.uri, fullRange, rewritten);
+  await vscode.workspace.applyEdit(edit);
+
+  const issues = result.issues.map((issue) => issue.message);
+  if (issues.length > 0) {
+    void vscode.window.showWarningMessage(
+      `OpenTab: ${label} left ${issues.length} note(s) as written. ${formatImportWarnings(issues)}`,
+    );
+  }
+}
+
 function formatImportWarnings(warnings: string[]): string {
   const previewCount = 3;
   const displayed = warnings.slice(0, previewCount).join(' ');
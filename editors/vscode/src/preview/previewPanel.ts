@@ -2,9 +2,18 @@ import path from 'node:path';
 
 import * as vscode from 'vscode';
 
-import { validate } from '../language-service/index.js';
 import { toMidi } from '../opentab-tools/converters-midi/index';
-import { parseOpenTab } from '../opentab-tools/parser/index';
+import { resolveInstrument } from '../opentab-tools/instruments/index';
+import {
+  parseOpenTabWithDiagnostics,
+  type ParseOptions,
+} from '../opentab-tools/parser/index';
+import {
+  buildTimeline,
+  type TimedEvent,
+  type Timeline,
+} from '../opentab-tools/timeline/index';
+import { diagnosticsFor } from '../language-service/index.js';
 
 const PANEL_TITLE = 'OpenTab Preview';
 
@@ -241,10 +250,41 @@ type NoteRef = {
   fret: number;
 };
 
+type Lyric = {
+  text: string;
+  syllabic: 'single' | 'begin' | 'middle' | 'end';
+  extend?: boolean;
+};
+
+type ChordStroke = {
+  type: 'strum' | 'arpeggio';
+  direction?: 'down' | 'up';
+};
+
+type DrumHit = {
+  lane: string;
+  note: number;
+  articulation?: 'accent' | 'ghost';
+};
+
 type Event =
   | { type: 'rest'; duration: Duration }
-  | { type: 'note'; duration: Duration; note: NoteRef }
-  | { type: 'chord'; duration: Duration; chord: NoteRef[] };
+  | { type: 'hit'; duration: Duration; hits: DrumHit[]; grace?: string }
+  | {
+      type: 'note';
+      duration: Duration;
+      note: NoteRef;
+      grace?: string;
+      lyric?: Lyric;
+    }
+  | {
+      type: 'chord';
+      duration: Duration;
+      chord: NoteRef[];
+      grace?: string;
+      stroke?: ChordStroke;
+      lyric?: Lyric;
+    };
 
 type TrackMeasure = {
   voices: Record<string, Event[]>;
@@ -255,12 +295,26 @@ type Track = {
   name?: string;
   tuning?: string[];
   capo?: number;
+  kind?: 'stringed' | 'percussion';
+};
+
+type Measure = {
+  index: number;
+  time_signature?: TimeSignature;
+  tempo_bpm?: number;
+  repeat_start?: boolean;
+  repeat_end?: boolean;
+  repeat_times?: number;
+  ending?: number[];
+  markers?: ('segno' | 'coda' | 'fine' | 'to_coda')[];
+  jump?: { to: 'start' | 'segno'; until?: 'fine' | 'coda' };
+  tracks: Record<string, TrackMeasure>;
 };
 
 type OpenTabDocument = {
   header: { tempo_bpm?: number; time_signature?: TimeSignature };
   tracks: Track[];
-  measures: { index: number; tracks: Record<string, TrackMeasure> }[];
+  measures: Measure[];
 };
 
 type TimingEntry = {
@@ -277,74 +331,13 @@ type TimingMap = {
   measures: TimingEntry[];
 };
 
-const DEFAULT_STRING_COUNT = 6;
-const DEFAULT_TIME_SIGNATURE = { numerator: 4, denominator: 4 } as const;
-const PPQ = 480;
+const CYMBAL_NOTES = new Set([42, 44, 46, 49, 51, 52, 53, 55, 57, 59]);
 
 const sanitizeId = (value: string): string =>
   value.replace(/[^a-zA-Z0-9_-]/g, '-');
 
-const durationToTicks = (duration: Duration, ppq = PPQ): number => {
-  const baseTicks: Record<Duration['base'], number> = {
-    w: ppq * 4,
-    h: ppq * 2,
-    q: ppq,
-    e: ppq / 2,
-    s: ppq / 4,
-    t: ppq / 8,
-  };
-
-  let ticks = baseTicks[duration.base];
-  const dots = duration.dots ?? 0;
-  let dotFactor = 1;
-  let current = 1;
-  for (let i = 0; i < dots; i += 1) {
-    current *= 0.5;
-    dotFactor += current;
-  }
-  ticks *= dotFactor;
-
-  if (duration.tuplet) {
-    ticks *= 2 / duration.tuplet;
-  }
-
-  return Math.max(1, Math.round(ticks));
-};
-
-const getTrackStringCount = (track: Track, document: OpenTabDocument): number => {
-  if (track.tuning && track.tuning.length > 0) {
-    return track.tuning.length;
-  }
-
-  let maxString = 0;
-  for (const measure of document.measures) {
-    const trackMeasure = measure.tracks[track.id];
-    if (!trackMeasure) {
-      continue;
-    }
-    for (const events of Object.values(trackMeasure.voices)) {
-      for (const event of events) {
-        if (event.type === 'note') {
-          maxString = Math.max(maxString, event.note.string);
-        } else if (event.type === 'chord') {
-          for (const note of event.chord) {
-            maxString = Math.max(maxString, note.string);
-          }
-        }
-      }
-    }
-  }
-
-  return maxString || DEFAULT_STRING_COUNT;
-};
-
-const getLineLabels = (track: Track, stringCount: number): string[] => {
-  if (track.tuning && track.tuning.length > 0) {
-    return [...track.tuning].reverse();
-  }
-
-  return Array.from({ length: stringCount }, (_, index) => `S${index + 1}`);
-};
+const getLineLabels = (track: Track): string[] =>
+  [...resolveInstrument(track).tuning].reverse();
 
 const noteToSegment = (note: NoteRef, width: number, lineIndex: number): string =>
   lineIndex === note.string - 1 ? String(note.fret).padEnd(width, '-') : '-'.repeat(width);
@@ -361,6 +354,10 @@ const renderEventSegments = (event: Event, stringCount: number): string[] => {
     );
   }
 
+  if (event.type === 'hit') {
+    return Array.from({ length: stringCount }, () => '-');
+  }
+
   const widths = event.chord.map((note) => String(note.fret).length);
   const width = Math.max(...widths, 1);
   return Array.from({ length: stringCount }, (_, lineIndex) => {
@@ -372,51 +369,142 @@ const renderEventSegments = (event: Event, stringCount: number): string[] => {
   });
 };
 
-const buildMeasureTimings = (
-  document: OpenTabDocument,
-): Map<number, { startTick: number; endTick: number }> => {
-  const timeSignature = document.header.time_signature ?? DEFAULT_TIME_SIGNATURE;
-  const beatsPerMeasure = timeSignature.numerator * (4 / timeSignature.denominator);
-  const expectedMeasureTicks = PPQ * beatsPerMeasure;
-
-  let measureStart = 0;
-  const measureTimings = new Map<number, { startTick: number; endTick: number }>();
+type DrumLane = { lane: string; note: number };
 
+const getDrumLanes = (track: Track, document: OpenTabDocument): DrumLane[] => {
+  const lanes = new Map<string, number>();
   for (const measure of document.measures) {
-    let maxVoiceEnd = measureStart;
-    for (const trackMeasure of Object.values(measure.tracks)) {
-      for (const events of Object.values(trackMeasure.voices)) {
-        let cursor = measureStart;
-        for (const event of events) {
-          cursor += durationToTicks(event.duration);
-        }
-        if (cursor > maxVoiceEnd) {
-          maxVoiceEnd = cursor;
+    const voices = measure.tracks[track.id]?.voices ?? {};
+    for (const events of Object.values(voices)) {
+      for (const event of events) {
+        if (event.type === 'hit') {
+          event.hits.forEach((hit) => lanes.set(hit.lane, hit.note));
         }
       }
     }
+  }
 
-    const measureLength = Math.max(expectedMeasureTicks, maxVoiceEnd - measureStart);
-    measureTimings.set(measure.index, {
-      startTick: measureStart,
-      endTick: measureStart + measureLength,
-    });
-    measureStart += measureLength;
+  const cymbal = (lane: DrumLane): number => (CYMBAL_NOTES.has(lane.note) ? 1 : 0);
+  return [...lanes]
+    .map(([lane, note]) => ({ lane, note }))
+    .sort((left, right) => cymbal(right) - cymbal(left) || right.note - left.note);
+};
+
+const formatHit = (hit: DrumHit): string => {
+  if (hit.articulation === 'ghost') {
+    return 'g';
   }
+  const symbol = CYMBAL_NOTES.has(hit.note) ? 'x' : 'o';
+  return hit.articulation === 'accent' ? symbol.toUpperCase() : symbol;
+};
+
+const renderHitSegments = (event: Event, lanes: DrumLane[]): string[] =>
+  lanes.map(({ lane }) => {
+    const hit =
+      event.type === 'hit'
+        ? event.hits.find((candidate) => candidate.lane === lane)
+        : undefined;
+    return hit ? formatHit(hit) : '-';
+  });
+
+const formatLyric = (event: Event): string => {
+  if (event.type === 'rest' || event.type === 'hit' || !event.lyric) {
+    return '';
+  }
+  const { text, syllabic, extend } = event.lyric;
+  const hyphen = syllabic === 'begin' || syllabic === 'middle' ? '-' : '';
+  return `${text}${hyphen}${extend ? '_' : ''}`;
+};
 
+const STROKE_ARROWS = {
+  strum: { down: '↓', up: '↑' },
+  arpeggio: { down: '⇣', up: '⇡' },
+};
+
+const formatStroke = (event: Event): string => {
+  if (event.type !== 'chord' || !event.stroke) {
+    return '';
+  }
+  const { type, direction } = event.stroke;
+  return direction ? STROKE_ARROWS[type][direction] : '≀';
+};
+
+type MeasureTiming = { startTick: number; endTick: number };
+
+/** Every pass through each measure, keyed by measure number. */
+const buildMeasureTimings = (timeline: Timeline): Map<number, MeasureTiming[]> => {
+  const measureTimings = new Map<number, MeasureTiming[]>();
+  for (const entry of timeline.measures) {
+    const timings = measureTimings.get(entry.measure.index) ?? [];
+    timings.push({ startTick: entry.tick, endTick: entry.tick + entry.length });
+    measureTimings.set(entry.measure.index, timings);
+  }
   return measureTimings;
 };
 
+const eventTimingKey = (
+  track: string,
+  voice: string,
+  measure: number,
+  index: number,
+): string => `${track}:${voice}:${measure}:${index}`;
+
+/** Every pass through each event of every track and voice. */
+const buildEventTimings = (timeline: Timeline): Map<string, TimedEvent[]> => {
+  const eventTimings = new Map<string, TimedEvent[]>();
+  for (const timed of timeline.events) {
+    const key = eventTimingKey(timed.track, timed.voice, timed.measure, timed.index);
+    eventTimings.set(key, [...(eventTimings.get(key) ?? []), timed]);
+  }
+  return eventTimings;
+};
+
+const formatMeasureLabel = (measure: Measure): string => {
+  const parts = [`m${measure.index}`];
+  if (measure.time_signature) {
+    parts.push(
+      `@time ${measure.time_signature.numerator}/${measure.time_signature.denominator}`,
+    );
+  }
+  if (measure.tempo_bpm !== undefined) {
+    parts.push(`@tempo ${measure.tempo_bpm}`);
+  }
+  if (measure.repeat_start) {
+    parts.push('|:');
+  }
+  if (measure.ending) {
+    parts.push(`@ending ${measure.ending.join(',')}`);
+  }
+  for (const marker of measure.markers ?? []) {
+    parts.push(marker === 'to_coda' ? '@tocoda' : `@${marker}`);
+  }
+  if (measure.jump) {
+    const jump = measure.jump.to === 'start' ? '@dc' : '@ds';
+    parts.push(measure.jump.until ? `${jump} al ${measure.jump.until}` : jump);
+  }
+  if (measure.repeat_end) {
+    parts.push(measure.repeat_times ? `:|x${measure.repeat_times}` : ':|');
+  }
+  return parts.join(' ');
+};
+
 const buildPreviewContent = (
   document: OpenTabDocument,
 ): { html: string; timingMap: TimingMap } => {
-  const measureTimings = buildMeasureTimings(document);
+  const timeline = buildTimeline(document);
+  const measureTimings = buildMeasureTimings(timeline);
+  const eventTimings = buildEventTimings(timeline);
   const timingMap: TimingMap = { events: [], measures: [] };
   const htmlParts: string[] = [];
 
   document.tracks.forEach((track, trackIndex) => {
-    const stringCount = getTrackStringCount(track, document);
-    const lineLabels = getLineLabels(track, stringCount);
+    const lanes =
+      track.kind === 'percussion' ? getDrumLanes(track, document) : undefined;
+    const lineLabels = lanes
+      ? lanes.map((lane) => lane.lane)
+      : getLineLabels(track);
+    const stringCount = lineLabels.length;
+    const labelWidth = Math.max(3, ...lineLabels.map((label) => label.length));
     const trackKey = sanitizeId(track.id || `track-${trackIndex}`);
 
     htmlParts.push('<div class="track">');
@@ -427,70 +515,121 @@ const buildPreviewContent = (
     );
 
     for (const measure of document.measures) {
-      const timing = measureTimings.get(measure.index);
-      if (!timing) {
-        continue;
-      }
+      const timings = measureTimings.get(measure.index) ?? [];
       const stableMeasureId = `measure-${measure.index}`;
       const measureId = `measure-${trackKey}-${measure.index}`;
-      timingMap.measures.push({
-        id: stableMeasureId,
-        startTick: timing.startTick,
-        endTick: timing.endTick,
-        elementIds: [measureId],
-        type: 'measure',
-        measureIndex: measure.index,
+      timings.forEach((timing) => {
+        timingMap.measures.push({
+          id: stableMeasureId,
+          startTick: timing.startTick,
+          endTick: timing.endTick,
+          elementIds: [measureId],
+          type: 'measure',
+          measureIndex: measure.index,
+        });
       });
 
       htmlParts.push(
-        `<div class="measure" id="${measureId}" data-measure-id="${stableMeasureId}" data-measure-index="${measure.index}"><div class="measure-label">// m${measure.index}</div>`,
+        `<div class="measure" id="${measureId}" data-measure-id="${stableMeasureId}" data-measure-index="${measure.index}"><div class="measure-label">// ${escapeHtml(formatMeasureLabel(measure))}</div>`,
       );
 
-      const trackMeasure = measure.tracks[track.id];
-      const events = trackMeasure?.voices?.v1 ?? [];
-      const lineSegments: string[][] = Array.from({ length: stringCount }, () => []);
+      const voices = measure.tracks[track.id]?.voices ?? {};
+      const voiceIds = Object.keys(voices).sort();
+      if (voiceIds.length === 0) {
+        voiceIds.push('v1');
+      }
 
-      let cursor = timing.startTick;
-      if (events.length === 0) {
-        for (let lineIndex = 0; lineIndex < stringCount; lineIndex += 1) {
-          lineSegments[lineIndex].push('-');
+      voiceIds.forEach((voice) => {
+        const events = voices[voice] ?? [];
+        if (voiceIds.length > 1) {
+          htmlParts.push(`<div class="voice-label">${escapeHtml(voice)}</div>`);
         }
-      } else {
-        events.forEach((event, eventIndex) => {
-          const segments = renderEventSegments(event, stringCount);
-          const separator = eventIndex === events.length - 1 ? '' : '-';
-          const eventId = `event-${trackKey}-${measure.index}-${eventIndex}`;
-          const elementIds: string[] = [];
-          const durationTicks = durationToTicks(event.duration);
+        const lineSegments: string[][] = Array.from({ length: stringCount }, () => []);
+        const lyricSegments: string[] = [];
+        const strokeSegments: string[] = [];
 
+        if (events.length === 0) {
           for (let lineIndex = 0; lineIndex < stringCount; lineIndex += 1) {
-            const elementId = `${eventId}-line-${lineIndex}`;
-            elementIds.push(elementId);
-            lineSegments[lineIndex].push(
-              `<span id="${elementId}" class="event-segment" data-event-id="${eventId}">${escapeHtml(
-                segments[lineIndex],
-              )}</span>${separator}`,
-            );
+            lineSegments[lineIndex].push('-');
           }
+        } else {
+          events.forEach((event, eventIndex) => {
+            const segments = lanes
+              ? renderHitSegments(event, lanes)
+              : renderEventSegments(event, stringCount);
+            const lyric = formatLyric(event);
+            const width = Math.max(segments[0]?.length ?? 1, lyric.length);
+            const separator = eventIndex === events.length - 1 ? '' : '-';
+            const eventId = `event-${trackKey}-${measure.index}-${sanitizeId(voice)}-${eventIndex}`;
+            const elementIds: string[] = [];
+
+            for (let lineIndex = 0; lineIndex < stringCount; lineIndex += 1) {
+              const elementId = `${eventId}-line-${lineIndex}`;
+              elementIds.push(elementId);
+              lineSegments[lineIndex].push(
+                `<span id="${elementId}" class="event-segment" data-event-id="${eventId}">${escapeHtml(
+                  segments[lineIndex].padEnd(width, '-'),
+                )}</span>${separator}`,
+              );
+            }
 
-          timingMap.events.push({
-            id: eventId,
-            startTick: cursor,
-            endTick: cursor + durationTicks,
-            elementIds,
-            type: 'event',
+            const stroke = formatStroke(event);
+            const strokeId = `${eventId}-stroke`;
+            if (stroke) {
+              elementIds.push(strokeId);
+            }
+            strokeSegments.push(
+              `<span id="${strokeId}" class="event-segment" data-event-id="${eventId}">${escapeHtml(
+                stroke.padEnd(width, ' '),
+              )}</span>${separator ? ' ' : ''}`,
+            );
+
+            const lyricId = `${eventId}-lyric`;
+            if (lyric) {
+              elementIds.push(lyricId);
+            }
+            lyricSegments.push(
+              `<span id="${lyricId}" class="event-segment" data-event-id="${eventId}">${escapeHtml(
+                lyric.padEnd(width, ' '),
+              )}</span>${separator ? ' ' : ''}`,
+            );
+
+            const timedEvents =
+              eventTimings.get(
+                eventTimingKey(track.id, voice, measure.index, eventIndex),
+              ) ?? [];
+            timedEvents.forEach((timed) => {
+              timingMap.events.push({
+                id: eventId,
+                startTick: timed.tick,
+                endTick: timed.tick + timed.duration,
+                elementIds,
+                type: 'event',
+              });
+            });
           });
-          cursor += durationTicks;
+        }
+
+        if (events.some((event) => formatStroke(event))) {
+          htmlParts.push(
+            `<div class="tab-line stroke-line">${' '.repeat(labelWidth + 1)}${strokeSegments.join('')}</div>`,
+          );
+        }
+
+        lineSegments.forEach((segments, lineIndex) => {
+          const label = lineLabels[lineIndex] ?? `S${lineIndex + 1}`;
+          htmlParts.push(
+            `<div class="tab-line">${escapeHtml(
+              label.padEnd(labelWidth, ' '),
+            )}|${segments.join('')}|</div>`,
+          );
         });
-      }
 
-      lineSegments.forEach((segments, lineIndex) => {
-        const label = lineLabels[lineIndex] ?? `S${lineIndex + 1}`;
-        htmlParts.push(
-          `<div class="tab-line">${escapeHtml(
-            label.padEnd(3, ' '),
-          )}|${segments.join('')}|</div>`,
-        );
+        if (events.some((event) => formatLyric(event))) {
+          htmlParts.push(
+            `<div class="tab-line lyric-line">${' '.repeat(labelWidth + 1)}${lyricSegments.join('')}</div>`,
+          );
+        }
       });
 
       htmlParts.push('</div>');
@@ -603,6 +742,14 @@ const renderPreviewPanel = (
       .tab-line {
         font-family: inherit;
       }
+      .voice-label {
+        color: var(--vscode-descriptionForeground);
+        margin-top: 4px;
+      }
+      .lyric-line,
+      .stroke-line {
+        color: var(--vscode-descriptionForeground);
+      }
       .event-segment {
         border-radius: 3px;
         padding: 1px 0;
@@ -1228,6 +1375,7 @@ const getFilename = (): string => {
 export const showPreview = (
   context: vscode.ExtensionContext,
   document: vscode.TextDocument,
+  options: ParseOptions = {},
 ): void => {
   activeDocument = document;
 
@@ -1251,23 +1399,30 @@ export const showPreview = (
     panel.reveal(vscode.ViewColumn.Beside, true);
   }
 
-  updatePreview(document.getText());
+  updatePreview(document.getText(), options);
 };
 
 const toBase64 = (value: Uint8Array): string =>
   Buffer.from(value).toString('base64');
 
-export const updatePreview = (documentText: string): void => {
+export const updatePreview = (
+  documentText: string,
+  options: ParseOptions = {},
+): void => {
   if (!panel) {
     return;
   }
 
   const filename = getFilename();
-  const diagnostics = validate(documentText) as ValidationIssue[];
+  const result = parseOpenTabWithDiagnostics(documentText, {
+    ...options,
+    positions: true,
+  });
+  const diagnostics: ValidationIssue[] = diagnosticsFor(result);
   const validationHtml = renderValidationSection(documentText, diagnostics);
 
   try {
-    const document = parseOpenTab(documentText) as OpenTabDocument;
+    const document = result.document as OpenTabDocument;
     const { html, timingMap } = buildPreviewContent(document);
     const midiBytes = toMidi(document);
     panel.webview.html = renderPreviewPanel(filename, html, validationHtml);
@@ -1,9 +1,14 @@
-const { validate } = require('./language-service/index.js');
+const { format, validate } = require('./language-service/index.js');
 
 function validateText(text) {
   return validate(text);
 }
 
+function formatText(text) {
+  return format(text);
+}
+
 module.exports = {
   validateText,
+  formatText,
 };
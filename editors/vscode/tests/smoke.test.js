@@ -1,16 +1,16 @@
 const assert = require('assert');
-const { format, validate } = require('../src/language-service/index.js');
+const { formatText, validateText } = require('../dist/validator.js');
 
 const sample = [
   'format="opentab"',
-  'version="0.1"',
+  'version="0.2"',
   '---',
   '@track gtr1',
   'm1: | q (6:3) |',
 ].join('\n');
 
-const formatted = format(sample);
-const diagnostics = validate(sample);
+const formatted = formatText(sample);
+const diagnostics = validateText(sample);
 
 assert.ok(typeof formatted === 'string');
 assert.ok(Array.isArray(diagnostics));
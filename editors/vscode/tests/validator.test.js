@@ -1,5 +1,5 @@
 const assert = require('assert');
-const { validateText } = require('../src/validator');
+const { validateText } = require('../dist/validator.js');
 
 function findMessage(diagnostics, message) {
   return diagnostics.some((diag) => diag.message.includes(message));
@@ -8,7 +8,7 @@ function findMessage(diagnostics, message) {
 function testMissingHeaderAndDelimiter() {
   const text = 'title=\"Example\"\n';
   const diagnostics = validateText(text);
-  assert.ok(findMessage(diagnostics, 'Missing --- delimiter'));
+  assert.ok(findMessage(diagnostics, 'Missing header delimiter'));
   assert.ok(findMessage(diagnostics, 'Missing required header key: format'));
   assert.ok(findMessage(diagnostics, 'Missing required header key: version'));
 }
@@ -16,13 +16,13 @@ function testMissingHeaderAndDelimiter() {
 function testTrackSelectionMissing() {
   const text = [
     'format=\"opentab\"',
-    'version=\"0.1\"',
+    'version=\"0.2\"',
     '---',
     'm1: | q (6:3) |',
   ].join('\n');
   const diagnostics = validateText(text);
   assert.ok(
-    findMessage(diagnostics, 'Track selection'),
+    findMessage(diagnostics, 'before selecting track/voice'),
     `Expected track selection diagnostic. Got: ${JSON.stringify(diagnostics)}`,
   );
 }
@@ -30,33 +30,59 @@ function testTrackSelectionMissing() {
 function testMeasureFormatAndDelimiters() {
   const text = [
     'format=\"opentab\"',
-    'version=\"0.1\"',
+    'version=\"0.2\"',
     '---',
     '@track gtr1',
     'm1: q (6:3)',
     'm2: | q (6:3 ] |',
   ].join('\n');
   const diagnostics = validateText(text);
-  assert.ok(findMessage(diagnostics, 'Invalid measure line format'));
-  assert.ok(findMessage(diagnostics, 'Unbalanced brackets'));
+  assert.ok(findMessage(diagnostics, 'Invalid measure line'));
+  assert.ok(findMessage(diagnostics, 'Invalid note token'));
 }
 
 function testInvalidTokens() {
   const text = [
     'format=\"opentab\"',
-    'version=\"0.1\"',
+    'version=\"0.2\"',
     '---',
     '@track gtr1',
     'm1: | q.. (6) e/ |',
   ].join('\n');
   const diagnostics = validateText(text);
-  assert.ok(findMessage(diagnostics, 'Invalid duration token'));
-  assert.ok(findMessage(diagnostics, 'Invalid note token'));
+  assert.ok(findMessage(diagnostics, 'Invalid duration: q..'));
+  assert.ok(findMessage(diagnostics, 'Invalid duration: e/'));
+}
+
+function testSemanticChecks() {
+  const text = [
+    'format=\"opentab\"',
+    'version=\"0.2\"',
+    '',
+    '[[tracks]]',
+    'id=\"gtr1\"',
+    '---',
+    '@track gtr1',
+    'm1: | h (6:3) (6:5) q (6:7) |',
+    'm2: | q (6:3) (6:x5) |',
+  ].join('\n');
+  const diagnostics = validateText(text);
+  const overfull = diagnostics.find((diag) => diag.code === 'overfull-measure');
+  assert.ok(overfull, `Expected overfull diagnostic. Got: ${JSON.stringify(diagnostics)}`);
+  assert.deepStrictEqual(
+    [overfull.line, overfull.startCol, overfull.endCol],
+    [7, 8, 27],
+  );
+  assert.ok(
+    !diagnostics.some((diag) => diag.code === 'underfull-measure'),
+    'Expected no underfull diagnostic on a line with a parse error',
+  );
 }
 
 testMissingHeaderAndDelimiter();
 testTrackSelectionMissing();
 testMeasureFormatAndDelimiters();
 testInvalidTokens();
+testSemanticChecks();
 
 console.log('validator tests passed');
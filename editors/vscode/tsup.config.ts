@@ -11,9 +11,48 @@ const formatterEntry = path.resolve(
   'formatter',
   'index.ts',
 );
+const parserEntry = path.resolve(
+  __dirname,
+  'src',
+  'opentab-tools',
+  'parser',
+  'index.ts',
+);
+
+const instrumentsEntry = path.resolve(
+  __dirname,
+  'src',
+  'opentab-tools',
+  'instruments',
+  'index.ts',
+);
+
+const checkerEntry = path.resolve(
+  __dirname,
+  'src',
+  'opentab-tools',
+  'checker',
+  'index.ts',
+);
+
+const transformsEntry = path.resolve(
+  __dirname,
+  'src',
+  'opentab-tools',
+  'transforms',
+  'index.ts',
+);
+
+const timelineEntry = path.resolve(
+  __dirname,
+  'src',
+  'opentab-tools',
+  'timeline',
+  'index.ts',
+);
 
 export default defineConfig({
-  entry: ['src/extension.ts'],
+  entry: ['src/extension.ts', 'src/validator.js'],
   format: ['cjs'],
   platform: 'node',
   target: 'node16',
@@ -34,6 +73,21 @@ export default defineConfig({
         build.onResolve({ filter: /^@opentab\/formatter$/ }, () => ({
           path: formatterEntry,
         }));
+        build.onResolve({ filter: /^@opentab\/parser$/ }, () => ({
+          path: parserEntry,
+        }));
+        build.onResolve({ filter: /^@opentab\/instruments$/ }, () => ({
+          path: instrumentsEntry,
+        }));
+        build.onResolve({ filter: /^@opentab\/checker$/ }, () => ({
+          path: checkerEntry,
+        }));
+        build.onResolve({ filter: /^@opentab\/transforms$/ }, () => ({
+          path: transformsEntry,
+        }));
+        build.onResolve({ filter: /^@opentab\/timeline$/ }, () => ({
+          path: timelineEntry,
+        }));
       },
     },
   ],
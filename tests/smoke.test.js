@@ -75,7 +75,7 @@ const { parseOpenTab, toAsciiTab, toMidi } = require(outputPath);
 
 const sample = [
   'format="opentab"',
-  'version="0.1"',
+  'version="0.2"',
   'title="Smoke Test"',
   "tempo_bpm=120",
   'time_signature="4/4"',
@@ -1,6 +1,12 @@
 import { describe, expect, it } from "vitest";
 
-import { validateAst } from "./index.js";
+import {
+  LATEST_SPEC_VERSION,
+  migrate,
+  OpenTabMigrationError,
+  validateAst,
+  type OpenTabDocument,
+} from "./index.js";
 
 describe("validateAst", () => {
   it("accepts a minimal OpenTab AST", () => {
@@ -52,3 +58,79 @@ describe("validateAst", () => {
     expect(result.errors).toBeUndefined();
   });
 });
+
+describe("migrate", () => {
+  const legacyDocument = (): OpenTabDocument => ({
+    format: "opentab",
+    version: "0.1",
+    header: {},
+    tracks: [{ id: "gtr1" }],
+    measures: [
+      {
+        index: 1,
+        tracks: {
+          gtr1: {
+            voices: {
+              v1: [
+                {
+                  type: "note",
+                  duration: { base: "h" },
+                  note: { string: 1, fret: 12 },
+                  annotations: { harmonic: "natural", let_ring: true },
+                },
+                {
+                  type: "chord",
+                  duration: { base: "h" },
+                  chord: [
+                    { string: 6, fret: 0 },
+                    { string: 5, fret: 2 },
+                  ],
+                  annotations: { pm: true, text: "chug" },
+                },
+              ],
+            },
+          },
+        },
+      },
+    ],
+  });
+
+  it("turns legacy technique annotations into typed techniques", () => {
+    const original = legacyDocument();
+    const migrated = migrate(original);
+
+    expect(migrated.version).toBe(LATEST_SPEC_VERSION);
+    expect(migrated.measures[0].tracks.gtr1.voices.v1).toEqual([
+      {
+        type: "note",
+        duration: { base: "h" },
+        note: {
+          string: 1,
+          fret: 12,
+          inlineTechniques: [
+            { type: "let_ring" },
+            { type: "harmonic", harmonicType: "natural" },
+          ],
+        },
+      },
+      {
+        type: "chord",
+        duration: { base: "h" },
+        chord: [
+          { string: 6, fret: 0, inlineTechniques: [{ type: "palm_mute" }] },
+          { string: 5, fret: 2, inlineTechniques: [{ type: "palm_mute" }] },
+        ],
+        annotations: { text: "chug" },
+      },
+    ]);
+    expect(validateAst(migrated).ok).toBe(true);
+    expect(original).toEqual(legacyDocument());
+  });
+
+  it("refuses to downgrade", () => {
+    const current = migrate(legacyDocument());
+
+    expect(migrate(current, "0.2")).toEqual(current);
+    expect(() => migrate(current, "0.1")).toThrow(OpenTabMigrationError);
+  });
+});
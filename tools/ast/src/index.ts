@@ -1,7 +1,7 @@
 import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
-import Ajv2020 from "ajv/dist/2020";
+import Ajv2020 from "ajv/dist/2020.js";
 import { type AnySchema, type ErrorObject } from "ajv";
 
 export const packageName = "@opentab/ast";
@@ -13,6 +13,49 @@ export interface TimeSignature {
   denominator: 1 | 2 | 4 | 8 | 16 | 32;
 }
 
+export type KeyMode = "major" | "minor";
+
+/** Sharps (positive) or flats (negative) in the key signature. */
+export interface KeySignature {
+  fifths: number;
+  mode: KeyMode;
+}
+
+/** 1-based line and column; span ends are exclusive. */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface SourceSpan {
+  start: SourcePosition;
+  end: SourcePosition;
+  /** The included file the span is in; absent for the parsed source. */
+  file?: string;
+  /** The directive that brought the span into the parsed source. */
+  from?: SourceOrigin;
+}
+
+/**
+ * The `@include` line an included file's spans came from, or the `@use` line
+ * a macro's measures were expanded at.
+ */
+export interface SourceOrigin {
+  directive: "include" | "use";
+  /** The macro's name, for `@use`. */
+  macro?: string;
+  span: SourceSpan;
+}
+
+/** Header or track keys the format does not define, kept as read. */
+export type ExtensionValue =
+  | string
+  | number
+  | boolean
+  | ExtensionValue[]
+  | { [key: string]: ExtensionValue };
+export type Extensions = Record<string, ExtensionValue>;
+
 export interface Header {
   title?: string;
   artist?: string;
@@ -22,15 +65,48 @@ export interface Header {
   copyright?: string;
   tempo_bpm?: number;
   time_signature?: TimeSignature;
+  key?: KeySignature;
   swing?: "none" | "eighth";
+  extensions?: Extensions;
 }
 
+export type TrackKind = "stringed" | "percussion";
+
 export interface Track {
   id: string;
   name?: string;
   instrument?: string;
+  /** Defaults to "stringed". */
+  kind?: TrackKind;
   tuning?: string[];
   capo?: number;
+  /**
+   * Percussion lanes added to or overriding the General MIDI kit, mapped to
+   * MIDI drum notes (channel 10).
+   */
+  kit?: Record<string, number>;
+  extensions?: Extensions;
+  position?: SourceSpan;
+}
+
+export interface ChordBarre {
+  fret: number;
+  from: number;
+  to: number;
+}
+
+/**
+ * A named voicing from the `[[chords]]` header table. `frets` and `fingers`
+ * are listed from the lowest string to the highest, like `tuning`; "x" marks
+ * a muted string and finger 0 an open or unfingered one. The barre spans
+ * string numbers `from` to `to`.
+ */
+export interface ChordDefinition {
+  name: string;
+  frets: Array<number | "x">;
+  fingers?: number[];
+  barre?: ChordBarre;
+  extensions?: Extensions;
 }
 
 export interface Duration {
@@ -42,68 +118,228 @@ export interface Duration {
 export type AnnotationValue = string | number | boolean;
 export type Annotations = Record<string, AnnotationValue>;
 
+/**
+ * One point of a bend curve. `position` is a percentage (0-100) of the note
+ * duration and `value` is the bend amount in quarter tones. The value of the
+ * last point holds until the note ends.
+ */
+export interface BendPoint {
+  position: number;
+  value: number;
+}
+
+export type BendType = "bend" | "bend_release" | "prebend" | "prebend_release";
+
+export type HarmonicType = "natural" | "artificial" | "pinch" | "tap";
+
+export type TechniqueType =
+  | "hammer_on"
+  | "pull_off"
+  | "slide"
+  | "vibrato"
+  | "bend"
+  | "palm_mute"
+  | "let_ring"
+  | "dead_note"
+  | "ghost_note"
+  | "accent"
+  | "staccato"
+  | "tap"
+  | "harmonic"
+  | "tremolo_picking"
+  | "trill"
+  | "slap"
+  | "pop";
+
 export interface Technique {
-  type: "hammer_on" | "pull_off" | "slide" | "vibrato";
+  type: TechniqueType;
   fromFret?: number;
   toFret?: number;
   direction?: "up" | "down";
+  bendType?: BendType;
+  releaseFret?: number;
+  points?: BendPoint[];
+  harmonicType?: HarmonicType;
+  marks?: number;
 }
 
+/** Set by the parser from `_`: "start" ties into the next note on the string. */
+export type TieType = "start" | "stop" | "continue";
+
 export interface NoteRef {
   string: number;
   fret: number;
   inlineTechniques?: Technique[];
+  tie?: TieType;
   annotations?: Annotations;
+  position?: SourceSpan;
+}
+
+/**
+ * Grace notes take no time in the measure. An acciaccatura is played just
+ * before the beat, an appoggiatura on the beat, delaying the next event.
+ */
+export type GraceType = "acciaccatura" | "appoggiatura";
+
+export type Syllabic = "single" | "begin" | "middle" | "end";
+
+/** A sung syllable; `extend` holds it over the following events (melisma). */
+export interface Lyric {
+  text: string;
+  syllabic: Syllabic;
+  extend?: boolean;
+}
+
+export type DynamicLevel =
+  | "ppp"
+  | "pp"
+  | "p"
+  | "mp"
+  | "mf"
+  | "f"
+  | "ff"
+  | "fff";
+
+export type HairpinType = "crescendo" | "diminuendo";
+
+/**
+ * Dynamics that take effect at an event. A hairpin runs from the event that
+ * starts it to the next event in the voice with `hairpin_end`.
+ */
+export interface DynamicMarks {
+  dynamic?: DynamicLevel;
+  hairpin?: HairpinType;
+  hairpin_end?: boolean;
 }
 
-export interface NoteEvent {
+export interface NoteEvent extends DynamicMarks {
   type: "note";
   duration: Duration;
   note: NoteRef;
+  grace?: GraceType;
+  lyric?: Lyric;
   annotations?: Annotations;
+  position?: SourceSpan;
 }
 
-export interface ChordEvent {
+/**
+ * How a chord is attacked. `direction` is the picking-hand motion: "down"
+ * plays from the lowest string to the highest. Arpeggios may omit it.
+ */
+export interface ChordStroke {
+  type: "strum" | "arpeggio";
+  direction?: "down" | "up";
+}
+
+export interface ChordEvent extends DynamicMarks {
   type: "chord";
   duration: Duration;
   chord: NoteRef[];
+  name?: string;
+  grace?: GraceType;
+  stroke?: ChordStroke;
+  lyric?: Lyric;
+  annotations?: Annotations;
+  position?: SourceSpan;
+}
+
+export type DrumArticulation = "accent" | "ghost";
+
+/** One hit on a percussion lane; `note` is the lane's resolved MIDI note. */
+export interface DrumHit {
+  lane: string;
+  note: number;
+  articulation?: DrumArticulation;
+  position?: SourceSpan;
+}
+
+export interface HitEvent extends DynamicMarks {
+  type: "hit";
+  duration: Duration;
+  hits: DrumHit[];
+  grace?: GraceType;
   annotations?: Annotations;
+  position?: SourceSpan;
 }
 
-export interface RestEvent {
+export interface RestEvent extends DynamicMarks {
   type: "rest";
   duration: Duration;
   annotations?: Annotations;
+  position?: SourceSpan;
 }
 
-export type Event = NoteEvent | ChordEvent | RestEvent;
+export type Event = NoteEvent | ChordEvent | HitEvent | RestEvent;
+
+/**
+ * Compact notation a voice was written with. The measures are expanded in
+ * `voices` either way; this records how to print them.
+ */
+export interface MeasureShorthand {
+  /** `repeat`: `%`/`%N` sign; `rest`: multi-measure rest starting here. */
+  type: "repeat" | "rest";
+  measures: number;
+}
 
 export interface TrackMeasure {
   voices: Record<VoiceId, Event[]>;
+  shorthand?: Record<VoiceId, MeasureShorthand>;
+}
+
+export type NavigationMarker = "segno" | "coda" | "fine" | "to_coda";
+
+export interface NavigationJump {
+  to: "start" | "segno";
+  until?: "fine" | "coda";
 }
 
 export interface Measure {
   index: number;
+  time_signature?: TimeSignature;
+  tempo_bpm?: number;
+  key?: KeySignature;
+  repeat_start?: boolean;
+  repeat_end?: boolean;
+  repeat_times?: number;
+  ending?: number[];
+  markers?: NavigationMarker[];
+  jump?: NavigationJump;
   tracks: Record<string, TrackMeasure>;
+  position?: SourceSpan;
+}
+
+/** Spec versions this package has a schema for, oldest first. */
+export const SPEC_VERSIONS = ["0.1", "0.2"] as const;
+export type SpecVersion = (typeof SPEC_VERSIONS)[number];
+export const LATEST_SPEC_VERSION: SpecVersion = "0.2";
+
+export function isSpecVersion(value: unknown): value is SpecVersion {
+  return SPEC_VERSIONS.includes(value as SpecVersion);
 }
 
 export interface OpenTabDocument {
   format: "opentab";
-  version: "0.1";
+  version: SpecVersion;
   header: Header;
   tracks: Track[];
+  chords?: ChordDefinition[];
   measures: Measure[];
 }
 
-const SCHEMA_RELATIVE_PATH = path.join("spec", "opentab-ast-schema-v0.1.json");
 type Validator = ReturnType<InstanceType<typeof Ajv2020>["compile"]>;
-let cachedValidator: Validator | null = null;
+const cachedValidators = new Map<SpecVersion, Validator>();
 
-export function getSchemaPath(): string {
+const schemaRelativePath = (version: SpecVersion): string =>
+  path.join("spec", `opentab-ast-schema-v${version}.json`);
+
+export function getSchemaPath(
+  version: SpecVersion = LATEST_SPEC_VERSION
+): string {
+  const relativePath = schemaRelativePath(version);
   let currentDir = path.dirname(fileURLToPath(import.meta.url));
 
   while (true) {
-    const candidate = path.join(currentDir, SCHEMA_RELATIVE_PATH);
+    const candidate = path.join(currentDir, relativePath);
     if (fs.existsSync(candidate)) {
       return candidate;
     }
@@ -116,34 +352,165 @@ export function getSchemaPath(): string {
   }
 
   throw new Error(
-    `Unable to locate ${SCHEMA_RELATIVE_PATH}. Expected to find it relative to the repo root.`
+    `Unable to locate ${relativePath}. Expected to find it relative to the repo root.`
   );
 }
 
-export function loadSchema(): unknown {
-  const schemaPath = getSchemaPath();
+export function loadSchema(version: SpecVersion = LATEST_SPEC_VERSION): unknown {
+  const schemaPath = getSchemaPath(version);
   const raw = fs.readFileSync(schemaPath, "utf8");
   return JSON.parse(raw);
 }
 
+function getValidator(version: SpecVersion): Validator {
+  let validator = cachedValidators.get(version);
+  if (!validator) {
+    const ajv = new Ajv2020({ allErrors: true, strict: false });
+    validator = ajv.compile(loadSchema(version) as AnySchema);
+    cachedValidators.set(version, validator);
+  }
+  return validator;
+}
+
+/**
+ * Validates a document against the schema of the spec version it declares.
+ * Documents with an unknown or missing version are checked against the
+ * latest schema, which reports the version mismatch.
+ */
 export function validateAst(document: unknown): {
   ok: boolean;
   errors?: string[];
 } {
-  if (!cachedValidator) {
-    const ajv = new Ajv2020({ allErrors: true, strict: false });
-    cachedValidator = ajv.compile(loadSchema() as AnySchema);
-  }
+  const declared =
+    document && typeof document === "object"
+      ? (document as { version?: unknown }).version
+      : undefined;
+  const validator = getValidator(
+    isSpecVersion(declared) ? declared : LATEST_SPEC_VERSION
+  );
 
-  const ok = cachedValidator(document) as boolean;
+  const ok = validator(document) as boolean;
   if (ok) {
     return { ok };
   }
 
-  const errors = cachedValidator.errors?.map((error: ErrorObject) => {
+  const errors = validator.errors?.map((error: ErrorObject) => {
     const location = error.instancePath || "(root)";
     return `${location} ${error.message ?? "is invalid"}`.trim();
   });
 
   return { ok: false, errors };
 }
+
+export class OpenTabMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OpenTabMigrationError";
+  }
+}
+
+type MigrationStep = (document: OpenTabDocument) => void;
+
+/**
+ * Annotations that v0.1 files used for techniques the spec now types. They
+ * are moved onto the annotated note, or every note of an annotated chord, in
+ * this order.
+ */
+const LEGACY_TECHNIQUE_ANNOTATIONS: [
+  string,
+  (value: AnnotationValue) => Technique | null
+][] = [
+  ["pm", (value) => (value === true ? { type: "palm_mute" } : null)],
+  ["let_ring", (value) => (value === true ? { type: "let_ring" } : null)],
+  [
+    "harmonic",
+    (value) =>
+      value === "natural" || value === "pinch"
+        ? { type: "harmonic", harmonicType: value }
+        : null,
+  ],
+];
+
+function promoteLegacyAnnotations(
+  owner: { annotations?: Annotations },
+  notes: NoteRef[]
+): void {
+  const annotations = owner.annotations;
+  if (!annotations) {
+    return;
+  }
+  for (const [key, toTechnique] of LEGACY_TECHNIQUE_ANNOTATIONS) {
+    const technique =
+      key in annotations ? toTechnique(annotations[key]) : null;
+    if (!technique) {
+      continue;
+    }
+    for (const note of notes) {
+      note.inlineTechniques = [
+        ...(note.inlineTechniques ?? []),
+        { ...technique },
+      ];
+    }
+    delete annotations[key];
+  }
+  if (Object.keys(annotations).length === 0) {
+    delete owner.annotations;
+  }
+}
+
+/** Steps that upgrade a document from the version before to the keyed one. */
+const MIGRATION_STEPS: Record<Exclude<SpecVersion, "0.1">, MigrationStep> = {
+  "0.2": (document) => {
+    for (const measure of document.measures) {
+      for (const trackMeasure of Object.values(measure.tracks)) {
+        for (const events of Object.values(trackMeasure.voices)) {
+          for (const event of events) {
+            if (event.type === "note") {
+              promoteLegacyAnnotations(event.note, [event.note]);
+              promoteLegacyAnnotations(event, [event.note]);
+            } else if (event.type === "chord") {
+              for (const note of event.chord) {
+                promoteLegacyAnnotations(note, [note]);
+              }
+              promoteLegacyAnnotations(event, event.chord);
+            }
+          }
+        }
+      }
+    }
+  },
+};
+
+/**
+ * Upgrades a document to `targetVersion`, one spec version at a time. The
+ * input is left untouched; downgrades are not supported.
+ */
+export function migrate(
+  document: OpenTabDocument,
+  targetVersion: SpecVersion = LATEST_SPEC_VERSION
+): OpenTabDocument {
+  if (!isSpecVersion(document.version)) {
+    throw new OpenTabMigrationError(
+      `Unsupported spec version: ${String(document.version)}`
+    );
+  }
+  if (!isSpecVersion(targetVersion)) {
+    throw new OpenTabMigrationError(
+      `Unsupported target version: ${String(targetVersion)}`
+    );
+  }
+  const from = SPEC_VERSIONS.indexOf(document.version);
+  const to = SPEC_VERSIONS.indexOf(targetVersion);
+  if (to < from) {
+    throw new OpenTabMigrationError(
+      `Cannot migrate from ${document.version} down to ${targetVersion}`
+    );
+  }
+
+  const migrated = structuredClone(document);
+  for (const version of SPEC_VERSIONS.slice(from + 1, to + 1)) {
+    MIGRATION_STEPS[version as Exclude<SpecVersion, "0.1">](migrated);
+    migrated.version = version;
+  }
+  return migrated;
+}
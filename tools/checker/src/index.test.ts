@@ -0,0 +1,292 @@
+import type { OpenTabDocument } from "@opentab/ast";
+import {
+  parseOpenTab,
+  parseOpenTabWithDiagnostics,
+  type ParseOptions,
+} from "@opentab/parser";
+import { describe, expect, it } from "vitest";
+
+import { checkDocument, checkParseResult } from "./index.js";
+
+const sourceOf = (body: string[], header: string[] = []) =>
+  [
+    "format=\"opentab\"",
+    "version=\"0.2\"",
+    "time_signature=\"4/4\"",
+    ...header,
+    "",
+    "[[tracks]]",
+    "id=\"gtr1\"",
+    "---",
+    ...body,
+  ].join("\n");
+
+const parse = (body: string[], header: string[] = []) =>
+  parseOpenTab(sourceOf(body, header), { positions: true });
+
+const check = (body: string[], options: ParseOptions = {}) =>
+  checkParseResult(
+    parseOpenTabWithDiagnostics(sourceOf(body), {
+      ...options,
+      positions: true,
+    })
+  );
+
+describe("checkDocument measure lengths", () => {
+  it("accepts voices that fill their measures", () => {
+    const document = parse([
+      "@track gtr1",
+      "m1: | q (6:0) e (5:2) (5:3) h r |",
+      "@time 3/4",
+      "m2: | w r |",
+      "m3: | e/3 (3:2) (3:4) (3:5) q (3:7) g(3:4) q (3:5) |",
+      "m4: | q/3 (3:5) e/3 (3:7) h r |",
+      "@track gtr1 voice v2",
+      "m3: | q. (6:0) q. (6:0) |",
+    ]);
+
+    expect(checkDocument(document)).toEqual([]);
+  });
+
+  it("reports overfull and underfull voices with their span", () => {
+    const document = parse([
+      "@track gtr1",
+      "m1: | h (6:0) (6:3) q (6:5) |",
+      "m2: | q (6:0) (6:3) (6:5) |",
+    ]);
+
+    expect(checkDocument(document)).toEqual([
+      {
+        code: "overfull-measure",
+        message: "Measure 1 in track gtr1 voice v1 is overfull: 5 beats in 4/4",
+        severity: "error",
+        measure: 1,
+        track: "gtr1",
+        voice: "v1",
+        position: {
+          start: { line: 9, column: 9 },
+          end: { line: 9, column: 28 },
+        },
+      },
+      expect.objectContaining({
+        code: "underfull-measure",
+        message:
+          "Measure 2 in track gtr1 voice v1 is underfull: 3 beats in 4/4",
+        severity: "warning",
+        measure: 2,
+      }),
+    ]);
+  });
+});
+
+describe("checkDocument tuplets", () => {
+  it("reports tuplet groups that stop short", () => {
+    const document = parse([
+      "@track gtr1",
+      "m1: | e/3 (3:2) (3:4) q (3:5) h r |",
+    ]);
+
+    expect(checkDocument(document)).toEqual([
+      expect.objectContaining({
+        code: "underfull-measure",
+        message:
+          "Measure 1 in track gtr1 voice v1 is underfull: 3.667 beats in 4/4",
+      }),
+      expect.objectContaining({
+        code: "incomplete-tuplet",
+        message: "Incomplete /3 tuplet in measure 1, track gtr1 voice v1",
+        position: {
+          start: { line: 9, column: 11 },
+          end: { line: 9, column: 22 },
+        },
+      }),
+    ]);
+  });
+});
+
+describe("checkDocument tracks and instruments", () => {
+  it("reports undeclared tracks once", () => {
+    const document = parse([
+      "@track bass",
+      "m1: | w (4:0) |",
+      "m2: | w (4:0) |",
+    ]);
+
+    expect(checkDocument(document)).toEqual([
+      {
+        code: "undeclared-track",
+        message: "Track bass is not declared in the header",
+        severity: "error",
+        measure: 1,
+        track: "bass",
+        position: {
+          start: { line: 9, column: 9 },
+          end: { line: 9, column: 14 },
+        },
+      },
+    ]);
+  });
+
+  it("checks notes against the track instrument", () => {
+    const document: OpenTabDocument = {
+      format: "opentab",
+      version: "0.2",
+      header: {},
+      tracks: [{ id: "bass", instrument: "bass" }],
+      measures: [
+        {
+          index: 1,
+          tracks: {
+            bass: {
+              voices: {
+                v1: [
+                  {
+                    type: "chord",
+                    duration: { base: "h" },
+                    chord: [
+                      { string: 5, fret: 0 },
+                      { string: 1, fret: 25 },
+                    ],
+                  },
+                  {
+                    type: "note",
+                    duration: { base: "h" },
+                    note: { string: 4, fret: 24 },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      ],
+    };
+
+    expect(checkDocument(document).map((diagnostic) => diagnostic.message))
+      .toEqual([
+        "String 5 does not exist on track bass (4 strings)",
+        "Fret 25 is not playable on string 1 of track bass (24 frets)",
+      ]);
+  });
+});
+
+describe("checkParseResult", () => {
+  it("follows parse diagnostics with checks off their lines", () => {
+    const diagnostics = check([
+      "@track gtr1",
+      "m1: | h (6:0) ?? |",
+      "m2: | w (6:0) q (6:3) |",
+    ]);
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ line: 9, severity: "error" }),
+      {
+        code: "overfull-measure",
+        message: "Measure 2 in track gtr1 voice v1 is overfull: 5 beats in 4/4",
+        severity: "error",
+        line: 10,
+        column: 9,
+        endColumn: 22,
+      },
+    ]);
+  });
+
+  it("reports checks in included files on the include line", () => {
+    const files: Record<string, string> = {
+      "b.otab": "@track gtr1\n\nm2: | w (6:0) q (6:3) |",
+    };
+    const diagnostics = check(["@include b.otab"], {
+      file: "main.otab",
+      resolveInclude: (file) => ({ file, source: files[file] }),
+    });
+
+    expect(diagnostics).toEqual([
+      {
+        code: "overfull-measure",
+        message: "Measure 2 in track gtr1 voice v1 is overfull: 5 beats in 4/4",
+        severity: "error",
+        line: 8,
+        column: 1,
+        endColumn: 16,
+        related: [
+          {
+            message: "Included file",
+            file: "b.otab",
+            line: 3,
+            column: 9,
+            endColumn: 22,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("reports checks in macros with the use site", () => {
+    const files: Record<string, string> = {
+      "riffs.otab": "@define wide | w (6:0) q (6:3) |",
+    };
+    const diagnostics = check(
+      [
+        "@define riff | w (6:0) q (6:3) |",
+        "@include riffs.otab",
+        "@track gtr1",
+        "@use riff",
+        "@use riff",
+        "@use wide",
+      ],
+      {
+        file: "main.otab",
+        resolveInclude: (file) => ({ file, source: files[file] }),
+      }
+    );
+
+    expect(
+      diagnostics.map(({ message, line, column, related }) => ({
+        message,
+        line,
+        column,
+        related,
+      }))
+    ).toEqual([
+      {
+        message: "Measure 1 in track gtr1 voice v1 is overfull: 5 beats in 4/4",
+        line: 8,
+        column: 18,
+        related: [
+          {
+            message: "Expanded from @use riff",
+            line: 11,
+            column: 1,
+            endColumn: 10,
+          },
+        ],
+      },
+      {
+        message: "Measure 2 in track gtr1 voice v1 is overfull: 5 beats in 4/4",
+        line: 8,
+        column: 18,
+        related: [
+          {
+            message: "Expanded from @use riff",
+            line: 12,
+            column: 1,
+            endColumn: 10,
+          },
+        ],
+      },
+      {
+        message: "Measure 3 in track gtr1 voice v1 is overfull: 5 beats in 4/4",
+        line: 13,
+        column: 1,
+        related: [
+          {
+            message: "In macro wide",
+            file: "riffs.otab",
+            line: 1,
+            column: 18,
+            endColumn: 31,
+          },
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,395 @@
+import type {
+  Duration,
+  Event,
+  Measure,
+  NoteRef,
+  OpenTabDocument,
+  SourceSpan,
+  TimeSignature,
+  Track,
+} from "@opentab/ast";
+import {
+  isPlayableFret,
+  resolveInstrument,
+  type ResolvedInstrument,
+} from "@opentab/instruments";
+import type {
+  OpenTabDiagnostic,
+  OpenTabDiagnosticCode,
+  OpenTabParseResult,
+  OpenTabRelatedLocation,
+} from "@opentab/parser";
+import { isWholeMeasureRest } from "@opentab/timeline";
+
+export const packageName = "@opentab/checker";
+
+export type CheckDiagnosticCode =
+  | "overfull-measure"
+  | "underfull-measure"
+  | "undeclared-track"
+  | "string-out-of-range"
+  | "fret-out-of-range"
+  | "incomplete-tuplet";
+
+export type CheckDiagnosticSeverity = "error" | "warning";
+
+export interface CheckDiagnostic {
+  code: CheckDiagnosticCode;
+  message: string;
+  severity: CheckDiagnosticSeverity;
+  measure: number;
+  track: string;
+  voice?: string;
+  /** Present when the document was parsed with `positions`. */
+  position?: SourceSpan;
+}
+
+/** A parse or check diagnostic, located the way the parser reports one. */
+export interface SourceDiagnostic extends Omit<OpenTabDiagnostic, "code"> {
+  code: OpenTabDiagnosticCode | CheckDiagnosticCode;
+}
+
+const DEFAULT_TIME_SIGNATURE: TimeSignature = {
+  numerator: 4,
+  denominator: 4,
+};
+
+/** An exact length in whole notes, kept as a reduced fraction. */
+type Fraction = [numerator: number, denominator: number];
+
+const gcd = (left: number, right: number): number =>
+  right === 0 ? Math.abs(left) : gcd(right, left % right);
+
+const fraction = (numerator: number, denominator: number): Fraction => {
+  const divisor = gcd(numerator, denominator) || 1;
+  return [numerator / divisor, denominator / divisor];
+};
+
+const add = (left: Fraction, right: Fraction): Fraction =>
+  fraction(left[0] * right[1] + right[0] * left[1], left[1] * right[1]);
+
+const compare = (left: Fraction, right: Fraction): number =>
+  left[0] * right[1] - right[0] * left[1];
+
+const BASE_DENOMINATORS: Record<Duration["base"], number> = {
+  w: 1,
+  h: 2,
+  q: 4,
+  e: 8,
+  s: 16,
+  t: 32,
+};
+
+/** Length as written, before any tuplet scaling. */
+function nominalLength(duration: Duration): Fraction {
+  const dots = duration.dots ?? 0;
+  // Each dot adds half of the previous value: 1 + 1/2 + 1/4 ...
+  return fraction(
+    2 ** (dots + 1) - 1,
+    BASE_DENOMINATORS[duration.base] * 2 ** dots
+  );
+}
+
+/** Playing length; `/n` fits n notes in the time of two. */
+function durationLength(duration: Duration): Fraction {
+  const [numerator, denominator] = nominalLength(duration);
+  return duration.tuplet
+    ? fraction(numerator * 2, denominator * duration.tuplet)
+    : [numerator, denominator];
+}
+
+const formatBeats = (
+  length: Fraction,
+  timeSignature: TimeSignature
+): string => {
+  const beats = (length[0] * timeSignature.denominator) / length[1];
+  const rounded = Number(beats.toFixed(3));
+  return `${rounded} beat${rounded === 1 ? "" : "s"}`;
+};
+
+const spanOf = (events: Event[]): SourceSpan | undefined => {
+  const first = events[0]?.position;
+  const last = events[events.length - 1]?.position;
+  return first && last ? { ...first, end: last.end } : undefined;
+};
+
+/** Grace notes take no time in the measure. */
+const timedEvents = (events: Event[]): Event[] =>
+  events.filter((event) => !("grace" in event && event.grace));
+
+interface VoiceContext {
+  measure: Measure;
+  track: string;
+  voice: string;
+  report(
+    diagnostic: Omit<CheckDiagnostic, "measure" | "track" | "voice">
+  ): void;
+}
+
+function checkMeasureLength(
+  events: Event[],
+  timeSignature: TimeSignature,
+  context: VoiceContext
+): void {
+  if (events.length === 0 || isWholeMeasureRest(events)) {
+    return;
+  }
+  const length = timedEvents(events).reduce<Fraction>(
+    (total, event) => add(total, durationLength(event.duration)),
+    [0, 1]
+  );
+  const { numerator, denominator } = timeSignature;
+  const difference = compare(length, fraction(numerator, denominator));
+  if (difference === 0) {
+    return;
+  }
+  const overfull = difference > 0;
+  context.report({
+    code: overfull ? "overfull-measure" : "underfull-measure",
+    message:
+      `Measure ${context.measure.index} in track ${context.track} voice ` +
+      `${context.voice} is ${overfull ? "overfull" : "underfull"}: ` +
+      `${formatBeats(length, timeSignature)} in ${numerator}/${denominator}`,
+    severity: overfull ? "error" : "warning",
+    position: spanOf(events),
+  });
+}
+
+/**
+ * Consecutive events with the same tuplet form a group. A group is complete
+ * when its written length is a whole number of n-note units of its shortest
+ * value, such as three `e/3` or a `q/3` followed by an `e/3`.
+ */
+function checkTuplets(events: Event[], context: VoiceContext): void {
+  const timed = timedEvents(events);
+  let index = 0;
+  while (index < timed.length) {
+    const tuplet = timed[index].duration.tuplet;
+    let end = index + 1;
+    while (end < timed.length && timed[end].duration.tuplet === tuplet) {
+      end += 1;
+    }
+    if (tuplet) {
+      const group = timed.slice(index, end);
+      const written = group.reduce<Fraction>(
+        (total, event) => add(total, nominalLength(event.duration)),
+        [0, 1]
+      );
+      const shortest = Math.max(
+        ...group.map((event) => BASE_DENOMINATORS[event.duration.base])
+      );
+      const [numerator, denominator] = fraction(
+        written[0] * shortest,
+        written[1] * tuplet
+      );
+      if (denominator !== 1 || numerator === 0) {
+        context.report({
+          code: "incomplete-tuplet",
+          message:
+            `Incomplete /${tuplet} tuplet in measure ` +
+            `${context.measure.index}, track ${context.track} voice ` +
+            context.voice,
+          severity: "error",
+          position: spanOf(group),
+        });
+      }
+    }
+    index = end;
+  }
+}
+
+function checkNoteRange(
+  events: Event[],
+  instrument: ResolvedInstrument,
+  context: VoiceContext
+): void {
+  const notes = events.flatMap((event): NoteRef[] => {
+    if (event.type === "note") {
+      return [event.note];
+    }
+    return event.type === "chord" ? event.chord : [];
+  });
+  for (const note of notes) {
+    if (note.string < 1 || note.string > instrument.strings) {
+      context.report({
+        code: "string-out-of-range",
+        message:
+          `String ${note.string} does not exist on track ${context.track} ` +
+          `(${instrument.strings} strings)`,
+        severity: "error",
+        position: note.position,
+      });
+    } else if (!isPlayableFret(instrument, note.string, note.fret)) {
+      context.report({
+        code: "fret-out-of-range",
+        message:
+          `Fret ${note.fret} is not playable on string ${note.string} of ` +
+          `track ${context.track} (${instrument.frets} frets)`,
+        severity: "error",
+        position: note.position,
+      });
+    }
+  }
+}
+
+/**
+ * Checks what the grammar cannot: that every voice fills its measure, tuplet
+ * groups are complete, measures only use declared tracks, and notes fit the
+ * track's instrument. Works on any document, parsed or built in code.
+ */
+export function checkDocument(document: OpenTabDocument): CheckDiagnostic[] {
+  const diagnostics: CheckDiagnostic[] = [];
+  const tracks = new Map<string, Track>(
+    document.tracks.map((track) => [track.id, track])
+  );
+  const instruments = new Map<string, ResolvedInstrument>();
+  const reportedTracks = new Set<string>();
+  let timeSignature = document.header.time_signature ?? DEFAULT_TIME_SIGNATURE;
+
+  const measures = [...document.measures].sort((a, b) => a.index - b.index);
+  for (const measure of measures) {
+    timeSignature = measure.time_signature ?? timeSignature;
+    for (const [trackId, trackMeasure] of Object.entries(measure.tracks)) {
+      const track = tracks.get(trackId);
+      if (!track) {
+        if (!reportedTracks.has(trackId)) {
+          reportedTracks.add(trackId);
+          diagnostics.push({
+            code: "undeclared-track",
+            message: `Track ${trackId} is not declared in the header`,
+            severity: "error",
+            measure: measure.index,
+            track: trackId,
+            position:
+              spanOf(Object.values(trackMeasure.voices)[0] ?? []) ??
+              measure.position,
+          });
+        }
+        continue;
+      }
+      let instrument = instruments.get(trackId);
+      if (!instrument && track.kind !== "percussion") {
+        instrument = resolveInstrument(track);
+        instruments.set(trackId, instrument);
+      }
+
+      for (const [voice, events] of Object.entries(trackMeasure.voices)) {
+        const context: VoiceContext = {
+          measure,
+          track: trackId,
+          voice,
+          report(diagnostic) {
+            diagnostics.push({
+              ...diagnostic,
+              measure: measure.index,
+              track: trackId,
+              voice,
+            });
+          },
+        };
+        checkMeasureLength(events, timeSignature, context);
+        checkTuplets(events, context);
+        if (instrument) {
+          checkNoteRange(events, instrument, context);
+        }
+      }
+    }
+  }
+  return diagnostics;
+}
+
+/** Line, start column and end column, as the parser reports a range. */
+const rangeOf = ({ start, end }: SourceSpan) => ({
+  line: start.line,
+  column: start.column,
+  endColumn: end.line === start.line ? end.column : start.column + 1,
+});
+
+const relatedAt = (
+  message: string,
+  span: SourceSpan
+): OpenTabRelatedLocation => ({
+  message,
+  ...(span.file !== undefined ? { file: span.file } : {}),
+  ...rangeOf(span),
+});
+
+/**
+ * Where the parser would report a span: spans from an included file on the
+ * `@include` line, with the included location as related, and a macro's on
+ * its definition with the `@use` line as related. A macro defined in another
+ * file is reported on the `@use` line instead.
+ */
+function locate(span: SourceSpan): {
+  span: SourceSpan;
+  related: OpenTabRelatedLocation[];
+} {
+  const { from } = span;
+  if (!from) {
+    return { span, related: [] };
+  }
+  if (from.directive === "include") {
+    const outer = locate(from.span);
+    return {
+      span: outer.span,
+      related: [...outer.related, relatedAt("Included file", span)],
+    };
+  }
+  if (span.file === from.span.file) {
+    const outer = locate({ ...span, from: from.span.from });
+    return {
+      span: outer.span,
+      related: [
+        ...outer.related,
+        relatedAt(`Expanded from @use ${from.macro}`, from.span),
+      ],
+    };
+  }
+  const outer = locate(from.span);
+  return {
+    span: outer.span,
+    related: [...outer.related, relatedAt(`In macro ${from.macro}`, span)],
+  };
+}
+
+function toSourceDiagnostic(diagnostic: CheckDiagnostic): SourceDiagnostic {
+  const { span, related } = locate(
+    diagnostic.position ?? {
+      start: { line: 1, column: 1 },
+      end: { line: 1, column: 2 },
+    }
+  );
+  return {
+    code: diagnostic.code,
+    message: diagnostic.message,
+    severity: diagnostic.severity,
+    ...rangeOf(span),
+    ...(related.length > 0 ? { related } : {}),
+  };
+}
+
+/**
+ * The parser's diagnostics followed by `checkDocument`'s, as the CLI and the
+ * editors report them. Parse with `positions` so checks have a location;
+ * checks in included files and macros are located as parse errors there are.
+ */
+export function checkParseResult({
+  document,
+  diagnostics,
+}: OpenTabParseResult): SourceDiagnostic[] {
+  const results: SourceDiagnostic[] = [...diagnostics];
+  // A token the parser skipped makes its measure look short, so semantic
+  // checks on a line with a parse error would only repeat it.
+  const parseErrorLines = new Set(
+    diagnostics
+      .filter((diagnostic) => diagnostic.severity === "error")
+      .map((diagnostic) => diagnostic.line)
+  );
+  for (const diagnostic of checkDocument(document)) {
+    const result = toSourceDiagnostic(diagnostic);
+    if (!parseErrorLines.has(result.line)) {
+      results.push(result);
+    }
+  }
+  return results;
+}
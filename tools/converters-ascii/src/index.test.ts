@@ -38,6 +38,103 @@ describe("toAsciiTab", () => {
     `);
   });
 
+  it("prints bends in the usual ASCII tab spelling", () => {
+    const document = parseOpenTab(loadSample("bends.otab"));
+    const lines = toAsciiTab(document).split("\n");
+
+    expect(lines.slice(1, 8)).toEqual([
+      "// m1",
+      "E4 |-----------------------|",
+      "B3 |----------8pb10-8pb10r8|",
+      "G3 |7b9-7b9r7--------------|",
+      "D3 |-----------------------|",
+      "A2 |-----------------------|",
+      "E2 |-----------------------|",
+    ]);
+    expect(lines[11]).toBe("G3 |------------7b10r9~|");
+  });
+
+  it("prints dead notes as x and modifiers in their DSL spelling", () => {
+    const document = parseOpenTab(loadSample("techniques.otab"));
+    const lines = toAsciiTab(document).split("\n");
+
+    expect(lines).toContain("A2 |x-3.gh-3.ac-3.st--------------------|");
+    expect(lines).toContain("G3 |12.nh-5.ah17-5.ph-5.th17|");
+    expect(lines).toContain("E2 |0.tp2-5.slap-------x|");
+  });
+
+  it("shows tied frets in parentheses", () => {
+    const document = parseOpenTab(loadSample("ties.otab"));
+    const lines = toAsciiTab(document).split("\n");
+
+    expect(lines).toContain("G3 |7-5-(5)-7|");
+    expect(lines).toContain("G3 |(7)-(7)--|");
+  });
+
+  it("prints lyrics under the tab, widening events to fit", () => {
+    const document = parseOpenTab(loadSample("lyrics.otab"));
+    const lines = toAsciiTab(document).split("\n");
+
+    expect(lines).toContain("G3 |0----2------------|");
+    expect(lines).toContain("    Hel- lo dark- ness");
+    expect(lines).toContain("    friend_   a- gain");
+    expect(lines.filter((line) => line.startsWith("    "))).toHaveLength(3);
+  });
+
+  it("keeps measure repeats and multi-measure rests compact", () => {
+    const document = parseOpenTab(loadSample("measure-repeats.otab"));
+    const lines = toAsciiTab(document).split("\n");
+
+    expect(lines.filter((line) => line.startsWith("//"))).toEqual([
+      "// m1-m4",
+      "// m5",
+      "// m6",
+      "// m7",
+      "// m8",
+      "// m9-m10",
+      "// m11 |:",
+      "// m12 :|",
+    ]);
+    expect(lines).toContain("G3 |-4 bars rest-|");
+    expect(lines).toContain("G3 |-%2-|");
+    expect(lines).toContain("E2 |---|");
+  });
+
+  it("draws percussion tracks as a drum grid with one row per lane", () => {
+    const document = parseOpenTab(loadSample("drums.otab"));
+    const lines = toAsciiTab(document).split("\n");
+    const start = lines.indexOf("# Track: Drums");
+
+    expect(lines.slice(start + 1, start + 11)).toEqual([
+      "// m1",
+      "crash    |x--------------|",
+      "hh_open  |------------x--|",
+      "hh_closed|--x-x-x-x------|",
+      "tom_high |---------------|",
+      "tom_low  |---------------|",
+      "tom_floor|---------------|",
+      "snare    |----O-------o-g|",
+      "rim      |---------------|",
+      "kick     |o-------o-o----|",
+    ]);
+  });
+
+  it("labels lines from the instrument registry when tuning is omitted", () => {
+    const document = parseOpenTab(loadSample("instruments.otab"));
+    const lines = toAsciiTab(document).split("\n");
+    const labels = (track: string) => {
+      const start = lines.indexOf(`# Track: ${track}`) + 2;
+      const end = lines.findIndex(
+        (line, index) => index >= start && line.startsWith("//")
+      );
+      return lines.slice(start, end).map((line) => line.split(" ")[0]);
+    };
+
+    expect(labels("Bass")).toEqual(["G2", "D2", "A1", "E1", "B0"]);
+    expect(labels("Ukulele")).toEqual(["A4", "E4", "C4", "G4"]);
+    expect(labels("Banjo")).toEqual(["D4", "B3", "G3", "D3", "G4"]);
+  });
+
   it("renders all samples without throwing", () => {
     const sampleFiles = fs
       .readdirSync(samplesDir)
@@ -1,51 +1,111 @@
-import type { Event, NoteRef, OpenTabDocument, Track } from "@opentab/ast";
+import type {
+  DrumHit,
+  Event,
+  Measure,
+  MeasureShorthand,
+  NoteRef,
+  OpenTabDocument,
+  Technique,
+  TechniqueType,
+  Track,
+} from "@opentab/ast";
+import { resolveInstrument } from "@opentab/instruments";
 
 export const packageName = "@opentab/converters-ascii";
 
 type RenderedMeasure = {
   lines: string[];
+  lyrics?: string;
   measureIndex: number;
+  label: string;
 };
 
-const DEFAULT_STRING_COUNT = 6;
+type TrackLayout = {
+  labels: string[];
+  renderSegments: (event: Event) => string[];
+};
 
-const getTrackStringCount = (track: Track, document: OpenTabDocument): number => {
-  if (track.tuning && track.tuning.length > 0) {
-    return track.tuning.length;
-  }
+type DrumLane = { lane: string; note: number };
 
-  let maxString = 0;
-  for (const measure of document.measures) {
-    const trackMeasure = measure.tracks[track.id];
-    if (!trackMeasure) {
-      continue;
-    }
-    for (const events of Object.values(trackMeasure.voices) as Event[][]) {
-      for (const event of events) {
-        if (event.type === "note") {
-          maxString = Math.max(maxString, event.note.string);
-        } else if (event.type === "chord") {
-          for (const note of event.chord) {
-            maxString = Math.max(maxString, note.string);
-          }
-        }
-      }
-    }
+// General MIDI cymbal and hi-hat notes, drawn as `x` in the drum grid.
+const CYMBAL_NOTES = new Set([42, 44, 46, 49, 51, 52, 53, 55, 57, 59]);
+
+const getLineLabels = (track: Track): string[] =>
+  [...resolveInstrument(track).tuning].reverse();
+
+const formatBend = (fret: number, technique: Technique): string => {
+  const values = (technique.points ?? []).map((point) => point.value);
+  const peak = Math.max(0, ...values);
+  const last = values[values.length - 1] ?? peak;
+  const prefix = (values[0] ?? 0) > 0 ? "pb" : "b";
+  const target = technique.toFret ?? fret + Math.round(peak / 2);
+  if (last >= peak) {
+    return `${prefix}${target}`;
   }
+  const release = technique.releaseFret ?? fret + Math.round(last / 2);
+  return `${prefix}${target}r${release}`;
+};
 
-  return maxString || DEFAULT_STRING_COUNT;
+const MODIFIER_SUFFIXES: Partial<Record<TechniqueType, string>> = {
+  palm_mute: ".pm",
+  let_ring: ".lr",
+  ghost_note: ".gh",
+  accent: ".ac",
+  staccato: ".st",
+  tap: ".tap",
+  slap: ".slap",
+  pop: ".pop",
 };
 
-const getLineLabels = (track: Track, stringCount: number): string[] => {
-  if (track.tuning && track.tuning.length > 0) {
-    return [...track.tuning].reverse();
+const HARMONIC_SUFFIXES = {
+  natural: ".nh",
+  artificial: ".ah",
+  pinch: ".ph",
+  tap: ".th",
+} as const;
+
+const formatTechnique = (fret: number, technique: Technique): string => {
+  switch (technique.type) {
+    case "hammer_on":
+      return `h${technique.toFret ?? ""}`;
+    case "pull_off":
+      return `p${technique.toFret ?? ""}`;
+    case "slide":
+      return `${technique.direction === "down" ? "\\" : "/"}${
+        technique.toFret ?? ""
+      }`;
+    case "vibrato":
+      return "~";
+    case "bend":
+      return formatBend(technique.fromFret ?? fret, technique);
+    case "dead_note":
+      return "";
+    case "harmonic":
+      return `${HARMONIC_SUFFIXES[technique.harmonicType ?? "natural"]}${
+        technique.toFret ?? ""
+      }`;
+    case "tremolo_picking":
+      return `.tp${technique.marks ?? ""}`;
+    case "trill":
+      return `.tr${technique.toFret ?? ""}`;
+    default:
+      return MODIFIER_SUFFIXES[technique.type] ?? "";
   }
+};
 
-  return Array.from({ length: stringCount }, (_, index) => `S${index + 1}`);
+const formatNote = (note: NoteRef): string => {
+  const techniques = note.inlineTechniques ?? [];
+  const dead = techniques.some((technique) => technique.type === "dead_note");
+  const fret = dead ? "x" : String(note.fret);
+  const tied = note.tie === "stop" || note.tie === "continue";
+  return [
+    tied ? `(${fret})` : fret,
+    ...techniques.map((technique) => formatTechnique(note.fret, technique)),
+  ].join("");
 };
 
 const noteToSegment = (note: NoteRef, width: number, lineIndex: number): string =>
-  lineIndex === note.string - 1 ? String(note.fret).padEnd(width, "-") : "-".repeat(width);
+  lineIndex === note.string - 1 ? formatNote(note).padEnd(width, "-") : "-".repeat(width);
 
 const renderEventSegments = (event: Event, stringCount: number): string[] => {
   if (event.type === "rest") {
@@ -53,13 +113,17 @@ const renderEventSegments = (event: Event, stringCount: number): string[] => {
   }
 
   if (event.type === "note") {
-    const width = String(event.note.fret).length;
+    const width = formatNote(event.note).length;
     return Array.from({ length: stringCount }, (_, lineIndex) =>
       noteToSegment(event.note, width, lineIndex)
     );
   }
 
-  const widths = event.chord.map((note: NoteRef) => String(note.fret).length);
+  if (event.type === "hit") {
+    return Array.from({ length: stringCount }, () => "-");
+  }
+
+  const widths = event.chord.map((note: NoteRef) => formatNote(note).length);
   const width = Math.max(...widths, 1);
   return Array.from({ length: stringCount }, (_, lineIndex) => {
     const note = event.chord.find(
@@ -68,37 +132,184 @@ const renderEventSegments = (event: Event, stringCount: number): string[] => {
     if (!note) {
       return "-".repeat(width);
     }
-    return String(note.fret).padEnd(width, "-");
+    return formatNote(note).padEnd(width, "-");
   });
 };
 
-const renderMeasure = (events: Event[], stringCount: number): string[] => {
+const getDrumLanes = (track: Track, document: OpenTabDocument): DrumLane[] => {
+  const lanes = new Map<string, number>();
+  for (const measure of document.measures) {
+    const voices = measure.tracks[track.id]?.voices ?? {};
+    for (const events of Object.values(voices) as Event[][]) {
+      for (const event of events) {
+        if (event.type === "hit") {
+          event.hits.forEach((hit) => lanes.set(hit.lane, hit.note));
+        }
+      }
+    }
+  }
+
+  // Cymbals above drums, each from high to low note like a drum staff.
+  const cymbal = (lane: DrumLane): number => (CYMBAL_NOTES.has(lane.note) ? 1 : 0);
+  return [...lanes]
+    .map(([lane, note]) => ({ lane, note }))
+    .sort((left, right) => cymbal(right) - cymbal(left) || right.note - left.note);
+};
+
+const formatHit = (hit: DrumHit): string => {
+  if (hit.articulation === "ghost") {
+    return "g";
+  }
+  const symbol = CYMBAL_NOTES.has(hit.note) ? "x" : "o";
+  return hit.articulation === "accent" ? symbol.toUpperCase() : symbol;
+};
+
+const renderHitSegments = (event: Event, lanes: DrumLane[]): string[] =>
+  lanes.map(({ lane }) => {
+    const hit =
+      event.type === "hit"
+        ? event.hits.find((candidate) => candidate.lane === lane)
+        : undefined;
+    return hit ? formatHit(hit) : "-";
+  });
+
+const getTrackLayout = (track: Track, document: OpenTabDocument): TrackLayout => {
+  if (track.kind === "percussion") {
+    const lanes = getDrumLanes(track, document);
+    return {
+      labels: lanes.map((lane) => lane.lane),
+      renderSegments: (event) => renderHitSegments(event, lanes),
+    };
+  }
+
+  const labels = getLineLabels(track);
+  return {
+    labels,
+    renderSegments: (event) => renderEventSegments(event, labels.length),
+  };
+};
+
+const formatLyric = (event: Event): string => {
+  if (event.type === "rest" || event.type === "hit" || !event.lyric) {
+    return "";
+  }
+  const { text, syllabic, extend } = event.lyric;
+  const hyphen = syllabic === "begin" || syllabic === "middle" ? "-" : "";
+  return `${text}${hyphen}${extend ? "_" : ""}`;
+};
+
+const renderMeasure = (
+  events: Event[],
+  layout: TrackLayout
+): { lines: string[]; lyrics?: string } => {
+  const stringCount = layout.labels.length;
   if (events.length === 0) {
-    return Array.from({ length: stringCount }, () => "-");
+    return { lines: Array.from({ length: stringCount }, () => "-") };
   }
 
   const segments = Array.from({ length: stringCount }, () => "");
+  let lyrics = "";
 
   events.forEach((event, index) => {
-    const eventSegments = renderEventSegments(event, stringCount);
+    const eventSegments = layout.renderSegments(event);
+    const lyric = formatLyric(event);
+    const width = Math.max(eventSegments[0]?.length ?? 1, lyric.length);
     const separator = index === events.length - 1 ? "" : "-";
     for (let lineIndex = 0; lineIndex < stringCount; lineIndex += 1) {
-      segments[lineIndex] += `${eventSegments[lineIndex]}${separator}`;
+      segments[lineIndex] += `${eventSegments[lineIndex].padEnd(
+        width,
+        "-"
+      )}${separator}`;
     }
+    lyrics += `${lyric.padEnd(width)}${separator ? " " : ""}`;
   });
 
-  return segments;
+  return lyrics.trim()
+    ? { lines: segments, lyrics: lyrics.trimEnd() }
+    : { lines: segments };
+};
+
+const renderShorthand = (
+  shorthand: MeasureShorthand,
+  stringCount: number
+): string[] => {
+  const sign =
+    shorthand.type === "rest"
+      ? `${shorthand.measures} bars rest`
+      : shorthand.measures > 1
+        ? `%${shorthand.measures}`
+        : "%";
+  const middle = Math.floor((stringCount - 1) / 2);
+  return Array.from({ length: stringCount }, (_, lineIndex) =>
+    lineIndex === middle ? `-${sign}-` : "-".repeat(sign.length + 2)
+  );
+};
+
+const formatMeasureLabel = (measure: Measure, last = measure): string => {
+  const parts = [
+    last === measure ? `m${measure.index}` : `m${measure.index}-m${last.index}`,
+  ];
+  if (measure.time_signature) {
+    parts.push(
+      `@time ${measure.time_signature.numerator}/${measure.time_signature.denominator}`
+    );
+  }
+  if (measure.tempo_bpm !== undefined) {
+    parts.push(`@tempo ${measure.tempo_bpm}`);
+  }
+  if (measure.repeat_start) {
+    parts.push("|:");
+  }
+  if (measure.ending) {
+    parts.push(`@ending ${measure.ending.join(",")}`);
+  }
+  for (const marker of measure.markers ?? []) {
+    parts.push(marker === "to_coda" ? "@tocoda" : `@${marker}`);
+  }
+  if (measure.jump) {
+    const jump = measure.jump.to === "start" ? "@dc" : "@ds";
+    parts.push(measure.jump.until ? `${jump} al ${measure.jump.until}` : jump);
+  }
+  if (last.repeat_end) {
+    parts.push(last.repeat_times ? `:|x${last.repeat_times}` : ":|");
+  }
+  return parts.join(" ");
 };
 
-const renderTrackMeasures = (track: Track, document: OpenTabDocument): RenderedMeasure[] => {
-  const stringCount = getTrackStringCount(track, document);
+const renderTrackMeasures = (
+  track: Track,
+  document: OpenTabDocument,
+  layout: TrackLayout
+): RenderedMeasure[] => {
   const measures: RenderedMeasure[] = [];
 
-  for (const measure of document.measures) {
+  for (let position = 0; position < document.measures.length; position += 1) {
+    const measure = document.measures[position];
     const trackMeasure = measure.tracks[track.id];
+    const shorthand = trackMeasure?.shorthand?.v1;
+    if (shorthand) {
+      // A `%N` sign or multi-measure rest covers its whole group of measures.
+      const last =
+        document.measures.find(
+          (candidate) =>
+            candidate.index === measure.index + shorthand.measures - 1
+        ) ?? measure;
+      position = document.measures.indexOf(last);
+      measures.push({
+        lines: renderShorthand(shorthand, layout.labels.length),
+        measureIndex: measure.index,
+        label: formatMeasureLabel(measure, last),
+      });
+      continue;
+    }
     const events = trackMeasure?.voices?.v1 ?? [];
-    const lines = renderMeasure(events, stringCount);
-    measures.push({ lines, measureIndex: measure.index });
+    const { lines, lyrics } = renderMeasure(events, layout);
+    measures.push({
+      lines,
+      lyrics,
+      measureIndex: measure.index,
+      label: formatMeasureLabel(measure),
+    });
   }
 
   return measures;
@@ -108,20 +319,23 @@ export const toAsciiTab = (document: OpenTabDocument): string => {
   const output: string[] = [];
 
   for (const track of document.tracks) {
-    const stringCount = getTrackStringCount(track, document);
-    const lineLabels = getLineLabels(track, stringCount);
+    const layout = getTrackLayout(track, document);
+    const labelWidth = Math.max(3, ...layout.labels.map((label) => label.length));
 
     output.push(`# Track: ${track.name ?? track.id}`);
 
-    const measures = renderTrackMeasures(track, document);
+    const measures = renderTrackMeasures(track, document, layout);
 
     for (const measure of measures) {
-      output.push(`// m${measure.measureIndex}`);
+      output.push(`// ${measure.label}`);
 
       measure.lines.forEach((line, lineIndex) => {
-        const label = lineLabels[lineIndex] ?? `S${lineIndex + 1}`;
-        output.push(`${label.padEnd(3, " ")}|${line}|`);
+        const label = layout.labels[lineIndex] ?? `S${lineIndex + 1}`;
+        output.push(`${label.padEnd(labelWidth, " ")}|${line}|`);
       });
+      if (measure.lyrics) {
+        output.push(`${"".padEnd(labelWidth, " ")} ${measure.lyrics}`);
+      }
     }
   }
 
@@ -1,13 +1,22 @@
+import type {
+  Duration,
+  Event,
+  Measure,
+  NoteRef,
+  TimeSignature,
+  Track,
+} from "@opentab/ast";
+import { printOpenTab } from "@opentab/formatter";
 import JSZip from "jszip";
 import { XMLParser } from "fast-xml-parser";
 
 export const packageName = "@opentab/converters-guitarpro";
 
 const DEFAULT_TEMPO_BPM = 120;
-const DEFAULT_TIME_SIGNATURE = "4/4";
+const DEFAULT_TIME_SIGNATURE: TimeSignature = { numerator: 4, denominator: 4 };
 const DEFAULT_INSTRUMENT = "electric_guitar";
 
-const DURATION_MAP: Record<number, string> = {
+const DURATION_MAP: Record<number, Duration["base"]> = {
   1: "w",
   2: "h",
   4: "q",
@@ -18,13 +27,8 @@ const DURATION_MAP: Record<number, string> = {
 
 type GpifEntity = Record<string, unknown>;
 
-type NoteRef = {
-  string: number;
-  fret: number;
-};
-
 type BeatData = {
-  duration: string;
+  duration: Duration;
   notes: NoteRef[];
   isRest: boolean;
 };
@@ -119,7 +123,7 @@ const midiToNoteName = (midi: number): string => {
   return `${name}${octave}`;
 };
 
-const resolveDuration = (beat: GpifEntity, warnings: string[]): string => {
+const resolveDuration = (beat: GpifEntity, warnings: string[]): Duration => {
   const durationNode = findKeyInsensitive(beat, "Duration") as GpifEntity | undefined;
   const value = toNumber(
     (durationNode && (findKeyInsensitive(durationNode, "Value") ?? durationNode.value)) ??
@@ -137,9 +141,14 @@ const resolveDuration = (beat: GpifEntity, warnings: string[]): string => {
     (durationNode && (findKeyInsensitive(durationNode, "Tuplet") ?? durationNode.tuplet)) ??
       findKeyInsensitive(beat, "Tuplet")
   );
-  const dotSuffix = dots && dots > 0 ? ".".repeat(Math.min(2, dots)) : "";
-  const tupletSuffix = tuplet && tuplet > 0 ? `/${tuplet}` : "";
-  return `${base ?? "q"}${dotSuffix}${tupletSuffix}`;
+  const duration: Duration = { base: base ?? "q" };
+  if (dots && dots > 0) {
+    duration.dots = Math.min(2, dots);
+  }
+  if (tuplet && tuplet > 0) {
+    duration.tuplet = tuplet;
+  }
+  return duration;
 };
 
 const resolveNotes = (beat: GpifEntity, noteMap: Map<string, GpifEntity>): GpifEntity[] => {
@@ -174,24 +183,19 @@ const detectEffects = (entity: GpifEntity): boolean => {
   return Boolean(effects);
 };
 
-const escapeOtabString = (value: string): string => value.replace(/"/g, "\\\"");
-
-const formatNoteToken = (noteRef: NoteRef): string => `(${noteRef.string}:${noteRef.fret})`;
-
-const formatBeat = (beat: BeatData): string => {
-  const duration = beat.duration;
+const beatEvent = (beat: BeatData): Event => {
+  const { duration } = beat;
   if (beat.isRest || beat.notes.length === 0) {
-    return `${duration} r`;
+    return { type: "rest", duration };
   }
   if (beat.notes.length === 1) {
-    return `${duration} ${formatNoteToken(beat.notes[0])}`;
+    return { type: "note", duration, note: beat.notes[0] };
   }
-  const sorted = [...beat.notes].sort((a, b) => b.string - a.string);
-  const chordNotes = sorted.map((note) => formatNoteToken(note)).join(" ");
-  return `${duration} [ ${chordNotes} ]`;
+  const chord = [...beat.notes].sort((a, b) => b.string - a.string);
+  return { type: "chord", duration, chord };
 };
 
-const parseGpif = (gpifXml: string): { tracks: TrackData[]; warnings: string[]; tempo: number; timeSignature: string; title: string } => {
+const parseGpif = (gpifXml: string): { tracks: TrackData[]; warnings: string[]; tempo: number; timeSignature: TimeSignature; title: string } => {
   const warnings: string[] = [];
   const parser = new XMLParser({
     ignoreAttributes: false,
@@ -233,16 +237,21 @@ const parseGpif = (gpifXml: string): { tracks: TrackData[]; warnings: string[];
         }
         const numerator = toNumber(findKeyInsensitive(ts, "Numerator"));
         const denominator = toNumber(findKeyInsensitive(ts, "Denominator"));
-        if (!numerator || !denominator) {
+        if (!numerator || !denominator || !DURATION_MAP[denominator]) {
           return null;
         }
-        return `${numerator}/${denominator}`;
+        return {
+          numerator,
+          denominator: denominator as TimeSignature["denominator"],
+        };
       })
-      .filter((value): value is string => Boolean(value));
+      .filter((value): value is TimeSignature => Boolean(value));
     if (signatures.length > 0) {
       timeSignature = signatures[0];
     }
-    const uniqueSignatures = new Set(signatures);
+    const uniqueSignatures = new Set(
+      signatures.map(({ numerator, denominator }) => `${numerator}/${denominator}`)
+    );
     if (uniqueSignatures.size > 1) {
       warnings.push("Multiple time signatures detected; only the first is used.");
     }
@@ -335,6 +344,10 @@ const parseGpif = (gpifXml: string): { tracks: TrackData[]; warnings: string[];
       });
     });
 
+    if (measures.length === 0) {
+      warnings.push(`${trackName} contains no measures.`);
+    }
+
     return {
       id: trackId,
       name: trackName,
@@ -357,23 +370,11 @@ const parseGpif = (gpifXml: string): { tracks: TrackData[]; warnings: string[];
   };
 };
 
-const renderWarnings = (warnings: string[]): string[] => {
-  const unique = Array.from(new Set(warnings));
-  return unique.map((warning) => `# warning: ${warning}`);
-};
-
-const renderTrackMeasures = (track: TrackData): string[] => {
-  const lines: string[] = [];
-  lines.push(`@track ${track.id} voice v1`);
-  track.measures.forEach((beats, index) => {
-    const tokens = beats.map((beat) => formatBeat(beat)).join(" ");
-    lines.push(`m${index + 1}: | ${tokens} |`);
-  });
-  if (track.measures.length === 0) {
-    lines.push("# warning: track contains no measures");
-  }
-  return lines;
-};
+const trackMeasures = (track: TrackData): Measure[] =>
+  track.measures.map((beats, index) => ({
+    index: index + 1,
+    tracks: { [track.id]: { voices: { v1: beats.map(beatEvent) } } },
+  }));
 
 export const fromGpx = async (data: Buffer | Uint8Array | ArrayBuffer): Promise<string> => {
   const zip = await JSZip.loadAsync(data);
@@ -384,29 +385,39 @@ export const fromGpx = async (data: Buffer | Uint8Array | ArrayBuffer): Promise<
   const gpifXml = await gpifEntry.async("string");
   const { tracks, warnings, tempo, timeSignature, title } = parseGpif(gpifXml);
 
-  const lines: string[] = [];
-  lines.push("format=\"opentab\"", "version=\"0.1\"", `title=\"${escapeOtabString(title)}\"`);
-  lines.push(`tempo_bpm=${tempo}`, `time_signature=\"${timeSignature}\"`, "");
-
-  const warningLines = renderWarnings(warnings);
-  if (warningLines.length > 0) {
-    lines.push(...warningLines, "");
+  const measures = new Map<number, Measure>();
+  for (const track of tracks) {
+    for (const measure of trackMeasures(track)) {
+      const existing = measures.get(measure.index);
+      if (existing) {
+        Object.assign(existing.tracks, measure.tracks);
+      } else {
+        measures.set(measure.index, measure);
+      }
+    }
   }
 
-  tracks.forEach((track) => {
-    lines.push("[[tracks]]");
-    lines.push(`id=\"${escapeOtabString(track.id)}\"`);
-    lines.push(`name=\"${escapeOtabString(track.name)}\"`);
-    lines.push(`instrument=\"${escapeOtabString(track.instrument)}\"`);
-    lines.push(`tuning=[${track.tuning.map((note) => `\"${note}\"`).join(",")}]`);
-    lines.push("");
-  });
-
-  lines.push("---");
-
-  tracks.forEach((track) => {
-    lines.push(...renderTrackMeasures(track), "");
-  });
-
-  return lines.join("\n").trimEnd() + "\n";
+  return printOpenTab(
+    {
+      format: "opentab",
+      version: "0.2",
+      header: {
+        title,
+        tempo_bpm: tempo,
+        time_signature: timeSignature,
+      },
+      tracks: tracks.map(
+        (track): Track => ({
+          id: track.id,
+          name: track.name,
+          instrument: track.instrument,
+          tuning: track.tuning,
+        })
+      ),
+      measures: [...measures.values()],
+    },
+    {
+      headerComments: Array.from(new Set(warnings), (warning) => `warning: ${warning}`),
+    }
+  );
 };
@@ -2,11 +2,12 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { parseMidi } from "midi-file";
 import { describe, expect, it } from "vitest";
 
 import { parseOpenTab } from "@opentab/parser";
 
-import { toMidi } from "./index.js";
+import { getPlaybackOrder, toMidi } from "./index.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -31,4 +32,382 @@ describe("toMidi", () => {
     expect(signature).toBe("MThd");
     expect(fs.existsSync(outputPath)).toBe(true);
   });
+
+  it("writes tempo and time signature changes at measure boundaries", () => {
+    const document = parseOpenTab(loadSample("meter-tempo-changes.otab"));
+
+    const midi = parseMidi(toMidi(document));
+
+    let tick = 0;
+    const metaEvents: Array<{ tick: number; type: string; value: string }> = [];
+    for (const event of midi.tracks[0]) {
+      tick += event.deltaTime;
+      if (event.type === "setTempo") {
+        metaEvents.push({
+          tick,
+          type: event.type,
+          value: String(Math.round(60_000_000 / event.microsecondsPerBeat)),
+        });
+      }
+      if (event.type === "timeSignature") {
+        metaEvents.push({
+          tick,
+          type: event.type,
+          value: `${event.numerator}/${event.denominator}`,
+        });
+      }
+    }
+
+    expect(metaEvents).toEqual([
+      { tick: 0, type: "setTempo", value: "120" },
+      { tick: 0, type: "timeSignature", value: "4/4" },
+      { tick: 1920, type: "timeSignature", value: "7/8" },
+      { tick: 3600, type: "setTempo", value: "90" },
+      { tick: 3600, type: "timeSignature", value: "4/4" },
+    ]);
+  });
+
+  it("writes key signature meta events for the header key and changes", () => {
+    const document = parseOpenTab(loadSample("key-signatures.otab"));
+
+    const midi = parseMidi(toMidi(document));
+
+    let tick = 0;
+    const keys: Array<{ tick: number; key: number; scale: number }> = [];
+    for (const event of midi.tracks[0]) {
+      tick += event.deltaTime;
+      if (event.type === "keySignature") {
+        keys.push({ tick, key: event.key, scale: event.scale });
+      }
+    }
+
+    expect(keys).toEqual([
+      { tick: 0, key: -1, scale: 0 },
+      { tick: 1920, key: 6, scale: 0 },
+      { tick: 3840, key: -6, scale: 1 },
+    ]);
+  });
+
+  it("sets velocity from dynamics, hairpins, accents and ghost notes", () => {
+    const document = parseOpenTab(loadSample("dynamics.otab"));
+
+    const midi = parseMidi(toMidi(document));
+    const velocities = midi.tracks[0].flatMap((event) =>
+      event.type === "noteOn" ? [event.velocity] : []
+    );
+
+    expect(velocities).toEqual([48, 48, 58, 67, 77, 86, 96, 96, 91, 85, 112, 50]);
+  });
+
+  it("unrolls repeats, endings and D.S. al Coda into playback order", () => {
+    const document = parseOpenTab(loadSample("repeats-navigation.otab"));
+
+    const order = getPlaybackOrder(document).map(
+      (position) => document.measures[position].index
+    );
+
+    expect(order).toEqual([1, 2, 1, 3, 4, 5, 6, 4, 5, 7]);
+  });
+
+  it("repeats a section the requested number of times", () => {
+    const document = parseOpenTab(
+      [
+        "format=\"opentab\"",
+        "version=\"0.2\"",
+        "",
+        "[[tracks]]",
+        "id=\"gtr1\"",
+        "---",
+        "@track gtr1",
+        "m1: | w (6:0) |",
+        "m2: |: w (6:3) :|x3",
+        "@dc al fine",
+        "@fine",
+        "m3: | w (6:5) |",
+      ].join("\n")
+    );
+
+    const order = getPlaybackOrder(document).map(
+      (position) => document.measures[position].index
+    );
+
+    expect(order).toEqual([1, 2, 2, 2, 3, 1, 2, 3]);
+  });
+
+  it("writes pitch-bend events that follow bend curves", () => {
+    const document = parseOpenTab(loadSample("bends.otab"));
+
+    const midi = parseMidi(toMidi(document));
+
+    let tick = 0;
+    const controllers: number[] = [];
+    const bends: Array<{ tick: number; value: number }> = [];
+    for (const event of midi.tracks[0]) {
+      tick += event.deltaTime;
+      if (event.type === "controller") {
+        controllers.push(event.controllerType, event.value);
+      }
+      if (event.type === "pitchBend" && tick < 960) {
+        bends.push({ tick, value: event.value });
+      }
+    }
+
+    expect(controllers).toEqual([101, 0, 100, 0, 6, 12, 38, 0]);
+    expect(bends[0]).toEqual({ tick: 0, value: 0 });
+    expect(bends).toContainEqual({ tick: 240, value: 1365 });
+    expect(bends).toContainEqual({ tick: 480, value: 0 });
+    expect(bends).toContainEqual({ tick: 600, value: 1365 });
+    expect(bends[bends.length - 1]).toEqual({ tick: 840, value: 0 });
+  });
+
+  it("merges tied notes into one note across the barline", () => {
+    const document = parseOpenTab(loadSample("ties.otab"));
+
+    const midi = parseMidi(toMidi(document));
+
+    let tick = 0;
+    const open = new Map<number, number>();
+    const notes: Array<{ note: number; start: number; end: number }> = [];
+    for (const event of midi.tracks[0]) {
+      tick += event.deltaTime;
+      if (event.type === "noteOn") {
+        open.set(event.noteNumber, tick);
+      }
+      if (event.type === "noteOff") {
+        notes.push({
+          note: event.noteNumber,
+          start: open.get(event.noteNumber) ?? -1,
+          end: tick,
+        });
+      }
+    }
+
+    expect(notes).toEqual([
+      { note: 62, start: 0, end: 480 },
+      { note: 60, start: 480, end: 960 },
+      { note: 64, start: 960, end: 1920 },
+      { note: 57, start: 960, end: 2880 },
+      { note: 66, start: 1920, end: 2880 },
+      { note: 62, start: 960, end: 3360 },
+    ]);
+  });
+
+  it("plays grace notes by taking time from a neighbouring note", () => {
+    const document = parseOpenTab(loadSample("grace-notes.otab"));
+
+    const midi = parseMidi(toMidi(document));
+
+    let tick = 0;
+    const open = new Map<number, number>();
+    const notes: Array<{ note: number; start: number; end: number }> = [];
+    for (const event of midi.tracks[0]) {
+      tick += event.deltaTime;
+      if (event.type === "noteOn") {
+        open.set(event.noteNumber, tick);
+      }
+      if (event.type === "noteOff") {
+        notes.push({
+          note: event.noteNumber,
+          start: open.get(event.noteNumber) ?? -1,
+          end: tick,
+        });
+      }
+    }
+
+    expect(notes.slice(0, 5)).toEqual([
+      { note: 60, start: 0, end: 60 },
+      { note: 62, start: 60, end: 480 },
+      { note: 60, start: 480, end: 960 },
+      { note: 67, start: 960, end: 1020 },
+      { note: 69, start: 1020, end: 1440 },
+    ]);
+    expect(notes.slice(5, 8)).toEqual([
+      { note: 57, start: 1920, end: 2100 },
+      { note: 55, start: 2100, end: 2160 },
+      { note: 57, start: 2160, end: 2400 },
+    ]);
+  });
+
+  it("staggers strummed and arpeggiated chords in string order", () => {
+    const document = parseOpenTab(loadSample("strums.otab"));
+    const noteOnTicks = (bytes: Uint8Array) => {
+      let tick = 0;
+      const ticks: number[] = [];
+      for (const event of parseMidi(bytes).tracks[0]) {
+        tick += event.deltaTime;
+        if (event.type === "noteOn") {
+          ticks.push(tick);
+        }
+      }
+      return ticks;
+    };
+
+    const ticks = noteOnTicks(toMidi(document));
+    expect(ticks.slice(0, 6)).toEqual([0, 15, 30, 45, 60, 75]);
+    expect(ticks.slice(-8)).toEqual([
+      3840, 3900, 3960, 4020, 4080, 4800, 4860, 4920,
+    ]);
+    const wide = noteOnTicks(
+      toMidi(document, { strumSpread: 40, arpeggioSpread: 0 })
+    );
+    expect(wide.slice(0, 6)).toEqual([0, 40, 80, 120, 160, 200]);
+    expect(wide.slice(-3)).toEqual([4800, 4800, 4800]);
+  });
+
+  it("writes lyric meta events at the start of each sung note", () => {
+    const document = parseOpenTab(loadSample("lyrics.otab"));
+
+    const midi = parseMidi(toMidi(document));
+
+    let tick = 0;
+    const lyrics: Array<{ text: string; tick: number }> = [];
+    for (const event of midi.tracks[0]) {
+      tick += event.deltaTime;
+      if (event.type === "lyrics") {
+        lyrics.push({ text: event.text, tick });
+      }
+    }
+
+    expect(lyrics).toEqual([
+      { text: "Hel-", tick: 0 },
+      { text: "lo", tick: 480 },
+      { text: "dark-", tick: 960 },
+      { text: "ness", tick: 1440 },
+      { text: "my", tick: 1920 },
+      { text: "old", tick: 3360 },
+      { text: "friend", tick: 5760 },
+      { text: "a-", tick: 6720 },
+      { text: "gain", tick: 7200 },
+    ]);
+  });
+
+  it("shapes notes from articulations, harmonics and tremolo picking", () => {
+    const document = parseOpenTab(
+      [
+        "format=\"opentab\"",
+        "version=\"0.2\"",
+        "",
+        "[[tracks]]",
+        "id=\"gtr1\"",
+        "---",
+        "@track gtr1",
+        "m1: | q (1:5.ac) (1:5.gh) (1:5.st) (6:12.nh) |",
+        "m2: | q (6:x) (6:0.tp2) h (2:5.lr) |",
+      ].join("\n")
+    );
+
+    const midi = parseMidi(toMidi(document));
+
+    let tick = 0;
+    const notes: Array<{ tick: number; note: number; velocity: number }> = [];
+    const offs: number[] = [];
+    for (const event of midi.tracks[0]) {
+      tick += event.deltaTime;
+      if (event.type === "noteOn") {
+        notes.push({ tick, note: event.noteNumber, velocity: event.velocity });
+      }
+      if (event.type === "noteOff") {
+        offs.push(tick);
+      }
+    }
+
+    expect(notes.slice(0, 4)).toEqual([
+      { tick: 0, note: 69, velocity: 96 },
+      { tick: 480, note: 69, velocity: 40 },
+      { tick: 960, note: 69, velocity: 64 },
+      { tick: 1440, note: 52, velocity: 64 },
+    ]);
+    expect(offs.slice(0, 4)).toEqual([480, 960, 1200, 1920]);
+    expect(notes[4]).toEqual({ tick: 1920, note: 40, velocity: 40 });
+    expect(offs[4]).toBe(1950);
+    expect(notes.slice(5, 9).map((note) => note.tick)).toEqual([
+      2400, 2520, 2640, 2760,
+    ]);
+    expect(offs[offs.length - 1]).toBe(3840);
+  });
+
+  it("plays percussion hits on channel 10 with kit notes", () => {
+    const document = parseOpenTab(
+      [
+        "format=\"opentab\"",
+        "version=\"0.2\"",
+        "",
+        "[[tracks]]",
+        "id=\"gtr1\"",
+        "",
+        "[[tracks]]",
+        "id=\"drums\"",
+        "kind=\"percussion\"",
+        "kit={ snare=40 }",
+        "---",
+        "@track gtr1",
+        "m1: | w (1:0) |",
+        "@track drums",
+        "m1: | q [ (kick) (hh_closed) ] (snare.ac) (hh_closed.gh) r |",
+      ].join("\n")
+    );
+
+    const midi = parseMidi(toMidi(document));
+
+    expect(midi.tracks).toHaveLength(3);
+    const guitarNotes = midi.tracks[1].filter(
+      (event) => event.type === "noteOn"
+    );
+    expect(guitarNotes.map((event) => event.channel)).toEqual([0]);
+
+    let tick = 0;
+    const hits: Array<Record<string, number>> = [];
+    for (const event of midi.tracks[2]) {
+      tick += event.deltaTime;
+      if (event.type === "noteOn") {
+        hits.push({
+          tick,
+          note: event.noteNumber,
+          channel: event.channel,
+          velocity: event.velocity,
+        });
+      }
+    }
+    expect(hits).toEqual([
+      { tick: 0, note: 36, channel: 9, velocity: 64 },
+      { tick: 0, note: 42, channel: 9, velocity: 64 },
+      { tick: 480, note: 40, channel: 9, velocity: 96 },
+      { tick: 960, note: 42, channel: 9, velocity: 40 },
+    ]);
+  });
+
+  it("takes the program and open strings from the instrument registry", () => {
+    const document = parseOpenTab(
+      [
+        "format=\"opentab\"",
+        "version=\"0.2\"",
+        "",
+        "[[tracks]]",
+        "id=\"bass\"",
+        "instrument=\"bass_5\"",
+        "",
+        "[[tracks]]",
+        "id=\"uke\"",
+        "instrument=\"ukulele\"",
+        "---",
+        "@track bass",
+        "m1: | h (5:0) (1:5) |",
+        "@track uke",
+        "m1: | q (4:0) (3:0) (2:0) (1:0) |",
+      ].join("\n")
+    );
+
+    const midi = parseMidi(toMidi(document));
+
+    const summarize = (events: (typeof midi.tracks)[number]) =>
+      events.flatMap((event): (string | number)[] =>
+        event.type === "programChange"
+          ? [`program ${event.programNumber}`]
+          : event.type === "noteOn"
+            ? [event.noteNumber]
+            : []
+      );
+    expect(summarize(midi.tracks[1])).toEqual(["program 33", 23, 48]);
+    expect(summarize(midi.tracks[2])).toEqual(["program 24", 67, 60, 64, 69]);
+  });
 });
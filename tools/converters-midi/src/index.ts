@@ -1,19 +1,67 @@
 import type {
-  Duration,
+  DynamicLevel,
+  Event,
+  HitEvent,
+  KeySignature,
+  Lyric,
+  Measure,
   NoteRef,
   OpenTabDocument,
+  Technique,
   TimeSignature,
   Track,
 } from "@opentab/ast";
+import { resolveInstrument, stringPitch } from "@opentab/instruments";
+import { buildTimeline, PPQ, type TimedEvent } from "@opentab/timeline";
 import { type MidiData, writeMidi } from "midi-file";
 
 export const packageName = "@opentab/converters-midi";
 
+export { getPlaybackOrder } from "@opentab/timeline";
+
 const DEFAULT_TEMPO_BPM = 120;
 const DEFAULT_TIME_SIGNATURE = { numerator: 4, denominator: 4 } as const;
-const DEFAULT_TUNING = ["E2", "A2", "D3", "G3", "B3", "E4"];
-const PPQ = 480;
 const DEFAULT_VELOCITY = 64;
+const ACCENT_VELOCITY_BOOST = 32;
+const GHOST_VELOCITY_SCALE = 0.625;
+const DYNAMIC_VELOCITIES: Record<DynamicLevel, number> = {
+  ppp: 16,
+  pp: 32,
+  p: 48,
+  mp: 64,
+  mf: 80,
+  f: 96,
+  ff: 112,
+  fff: 127,
+};
+const HAIRPIN_VELOCITY_STEP = 16;
+const DEAD_NOTE_TICKS = PPQ / 16;
+const TRILL_STEP_TICKS = PPQ / 8;
+const GRACE_NOTE_TICKS = PPQ / 8;
+const PINCH_HARMONIC_INTERVAL = 19;
+const HARMONIC_INTERVALS: Record<number, number> = {
+  3: 31,
+  4: 28,
+  5: 24,
+  7: 19,
+  9: 28,
+  12: 12,
+  16: 28,
+  19: 19,
+  24: 24,
+};
+const PITCH_BEND_RANGE = 12;
+const PITCH_BEND_STEP_TICKS = PPQ / 16;
+const PERCUSSION_CHANNEL = 9;
+const DEFAULT_STRUM_SPREAD = PPQ / 32;
+const DEFAULT_ARPEGGIO_SPREAD = PPQ / 8;
+
+export interface MidiOptions {
+  /** Ticks between strings of a strummed chord (480 ticks per quarter). */
+  strumSpread?: number;
+  /** Ticks between strings of an arpeggiated (rolled) chord. */
+  arpeggioSpread?: number;
+}
 
 interface MidiNoteEvent {
   tick: number;
@@ -23,12 +71,93 @@ interface MidiNoteEvent {
   velocity: number;
 }
 
-interface MidiMetaEvent {
+interface ScheduledEvent {
+  event: Event;
+  tick: number;
+  durationTicks: number;
+}
+
+interface SoundingNote {
+  tick: number;
+  durationTicks: number;
+  pitch: number;
+  velocity: number;
+}
+
+interface MidiPitchBendEvent {
+  tick: number;
+  type: "pitchBend";
+  channel: number;
+  value: number;
+}
+
+interface MidiControllerEvent {
+  tick: number;
+  type: "controller";
+  channel: number;
+  controllerType: number;
+  value: number;
+}
+
+interface MidiProgramChangeEvent {
+  tick: number;
+  type: "programChange";
+  channel: number;
+  programNumber: number;
+}
+
+type MidiChannelEvent =
+  | MidiNoteEvent
+  | MidiPitchBendEvent
+  | MidiControllerEvent
+  | MidiProgramChangeEvent;
+
+interface MidiTempoEvent {
+  tick: number;
+  type: "tempo";
+  bpm: number;
+}
+
+interface MidiTimeSignatureEvent {
+  tick: number;
+  type: "timeSignature";
+  numerator: number;
+  denominator: number;
+}
+
+interface MidiKeySignatureEvent {
   tick: number;
-  type: "tempo" | "timeSignature";
+  type: "keySignature";
+  key: KeySignature;
 }
 
-type MidiEvent = MidiNoteEvent | MidiMetaEvent;
+interface MidiLyricEvent {
+  tick: number;
+  type: "lyrics";
+  text: string;
+}
+
+type MidiMetaEvent =
+  | MidiTempoEvent
+  | MidiTimeSignatureEvent
+  | MidiKeySignatureEvent
+  | MidiLyricEvent;
+
+type MidiEvent = MidiChannelEvent | MidiMetaEvent;
+
+interface MeasureLayout {
+  measure: Measure;
+  startTick: number;
+  lengthTicks: number;
+  timeSignature: { numerator: number; denominator: number };
+  tempoBpm: number;
+  key?: KeySignature;
+  timeSignatureChanged: boolean;
+  tempoChanged: boolean;
+  keyChanged: boolean;
+  /** The timeline's events in this pass of the measure, for every track. */
+  events: TimedEvent[];
+}
 
 function normalizeTimeSignature(
   timeSignature?: TimeSignature
@@ -49,188 +178,678 @@ function normalizeTimeSignature(
   };
 }
 
-function durationToTicks(duration: Duration, ppq = PPQ): number {
-  const baseTicks: Record<Duration["base"], number> = {
-    w: ppq * 4,
-    h: ppq * 2,
-    q: ppq,
-    e: ppq / 2,
-    s: ppq / 4,
-    t: ppq / 8,
-  };
+function resolveStringPitch(track: Track, noteRef: NoteRef): number | null {
+  const fretted = stringPitch(
+    resolveInstrument(track),
+    noteRef.string,
+    noteRef.fret
+  );
+  if (fretted === null) {
+    return null;
+  }
+  const pitch = fretted + (track.capo ?? 0);
+  if (pitch < 0 || pitch > 127) {
+    return null;
+  }
+  return pitch;
+}
 
-  let ticks = baseTicks[duration.base];
-  const dots = duration.dots ?? 0;
-  let dotFactor = 1;
-  let current = 1;
-  for (let i = 0; i < dots; i += 1) {
-    current *= 0.5;
-    dotFactor += current;
+function buildMeasureLayout(document: OpenTabDocument): MeasureLayout[] {
+  const timeline = buildTimeline(document, { ppq: PPQ });
+  const layout = timeline.measures.map((entry, index): MeasureLayout => {
+    const previous = timeline.measures[index - 1];
+    const timeSignature = normalizeTimeSignature(entry.timeSignature);
+    const previousTimeSignature =
+      previous && normalizeTimeSignature(previous.timeSignature);
+    return {
+      measure: entry.measure,
+      startTick: entry.tick,
+      lengthTicks: entry.length,
+      timeSignature,
+      tempoBpm: entry.tempoBpm,
+      key: entry.key,
+      timeSignatureChanged:
+        !previousTimeSignature ||
+        timeSignature.numerator !== previousTimeSignature.numerator ||
+        timeSignature.denominator !== previousTimeSignature.denominator,
+      tempoChanged: !previous || entry.tempoBpm !== previous.tempoBpm,
+      keyChanged:
+        entry.key !== undefined &&
+        (!previous ||
+          entry.key.fifths !== previous.key?.fifths ||
+          entry.key.mode !== previous.key?.mode),
+      events: [],
+    };
+  });
+  for (const timed of timeline.events) {
+    layout[timed.bar].events.push(timed);
   }
-  ticks *= dotFactor;
+  return layout;
+}
+
+/** One track's events in a measure, by voice and in written order. */
+function trackVoices(
+  events: TimedEvent[],
+  trackId: string
+): Map<string, TimedEvent[]> {
+  const voices = new Map<string, TimedEvent[]>();
+  for (const timed of events) {
+    if (timed.track === trackId) {
+      voices.set(timed.voice, [...(voices.get(timed.voice) ?? []), timed]);
+    }
+  }
+  for (const voice of voices.values()) {
+    voice.sort((a, b) => a.index - b.index);
+  }
+  return voices;
+}
 
-  if (duration.tuplet) {
-    ticks *= 2 / duration.tuplet;
+function collectMetaEvents(document: OpenTabDocument): MidiMetaEvent[] {
+  const layout = buildMeasureLayout(document);
+  if (layout.length === 0) {
+    const timeSignature = normalizeTimeSignature(document.header.time_signature);
+    return [
+      {
+        tick: 0,
+        type: "tempo",
+        bpm: document.header.tempo_bpm ?? DEFAULT_TEMPO_BPM,
+      },
+      { tick: 0, type: "timeSignature", ...timeSignature },
+      ...(document.header.key
+        ? [{ tick: 0, type: "keySignature" as const, key: document.header.key }]
+        : []),
+    ];
   }
 
-  return Math.max(1, Math.round(ticks));
+  const events: MidiMetaEvent[] = [];
+  for (const entry of layout) {
+    if (entry.tempoChanged) {
+      events.push({ tick: entry.startTick, type: "tempo", bpm: entry.tempoBpm });
+    }
+    if (entry.timeSignatureChanged) {
+      events.push({
+        tick: entry.startTick,
+        type: "timeSignature",
+        ...entry.timeSignature,
+      });
+    }
+    if (entry.keyChanged && entry.key) {
+      events.push({ tick: entry.startTick, type: "keySignature", key: entry.key });
+    }
+  }
+  return events;
 }
 
-function parsePitch(note: string): number | null {
-  const match = note.trim().match(/^([A-Ga-g])([#b]?)(-?\d+)$/);
-  if (!match) {
-    return null;
+function harmonicPitch(
+  pitch: number,
+  noteRef: NoteRef,
+  harmonic: Technique
+): number {
+  if (harmonic.harmonicType === "pinch") {
+    return pitch + PINCH_HARMONIC_INTERVAL;
   }
-  const [, letterRaw, accidental, octaveRaw] = match;
-  const letter = letterRaw.toUpperCase();
-  const octave = Number(octaveRaw);
-  const baseMap: Record<string, number> = {
-    C: 0,
-    D: 2,
-    E: 4,
-    F: 5,
-    G: 7,
-    A: 9,
-    B: 11,
-  };
-  const base = baseMap[letter];
-  if (base === undefined || Number.isNaN(octave)) {
-    return null;
+  if (harmonic.harmonicType === "natural" || harmonic.toFret === undefined) {
+    const interval = HARMONIC_INTERVALS[noteRef.fret];
+    return interval === undefined ? pitch : pitch - noteRef.fret + interval;
   }
-  const accidentalOffset = accidental === "#" ? 1 : accidental === "b" ? -1 : 0;
-  const midi = (octave + 1) * 12 + base + accidentalOffset;
-  if (midi < 0 || midi > 127) {
-    return null;
+  return pitch + (HARMONIC_INTERVALS[harmonic.toFret - noteRef.fret] ?? 12);
+}
+
+function clampVelocity(velocity: number): number {
+  return Math.min(127, Math.max(1, Math.round(velocity)));
+}
+
+function accentVelocity(baseVelocity: number): number {
+  return clampVelocity(baseVelocity + ACCENT_VELOCITY_BOOST);
+}
+
+function ghostVelocity(baseVelocity: number): number {
+  return clampVelocity(baseVelocity * GHOST_VELOCITY_SCALE);
+}
+
+/**
+ * Turns one note into the MIDI notes it sounds as: articulations change the
+ * length and velocity, harmonics the pitch, and tremolo picking and trills
+ * split it into repeated notes.
+ */
+function resolveSoundingNotes(
+  track: Track,
+  noteRef: NoteRef,
+  tick: number,
+  durationTicks: number,
+  ringTicks: number,
+  baseVelocity: number
+): SoundingNote[] {
+  const fretted = resolveStringPitch(track, noteRef);
+  if (fretted === null) {
+    return [];
   }
-  return midi;
+  const techniques = noteRef.inlineTechniques ?? [];
+  const find = (type: Technique["type"]) =>
+    techniques.find((technique) => technique.type === type);
+
+  let velocity = baseVelocity;
+  if (find("accent") || find("slap") || find("pop")) {
+    velocity = accentVelocity(baseVelocity);
+  }
+  if (find("ghost_note") || find("dead_note")) {
+    velocity = ghostVelocity(baseVelocity);
+  }
+  let length = durationTicks;
+  if (find("staccato") || find("palm_mute")) {
+    length = Math.max(1, Math.round(durationTicks / 2));
+  }
+  if (find("dead_note")) {
+    length = Math.min(length, DEAD_NOTE_TICKS);
+  }
+  if (find("let_ring")) {
+    length = Math.max(length, ringTicks);
+  }
+  const harmonic = find("harmonic");
+  const pitch = Math.min(
+    127,
+    harmonic ? harmonicPitch(fretted, noteRef, harmonic) : fretted
+  );
+
+  const tremolo = find("tremolo_picking");
+  const trill = find("trill");
+  if (!tremolo && !(trill && trill.toFret !== undefined)) {
+    return [{ tick, durationTicks: length, pitch, velocity }];
+  }
+  const step = tremolo
+    ? Math.max(1, PPQ / 2 ** (tremolo.marks ?? 3))
+    : TRILL_STEP_TICKS;
+  const trillPitch =
+    trill?.toFret !== undefined
+      ? Math.min(127, pitch - noteRef.fret + trill.toFret)
+      : pitch;
+  const sounds: SoundingNote[] = [];
+  for (let offset = 0; offset < length; offset += step) {
+    sounds.push({
+      tick: tick + offset,
+      durationTicks: Math.min(step, length - offset),
+      pitch: !tremolo && sounds.length % 2 === 1 ? trillPitch : pitch,
+      velocity,
+    });
+  }
+  return sounds;
 }
 
-function resolveStringPitch(track: Track, noteRef: NoteRef): number | null {
-  const tuning = track.tuning ?? DEFAULT_TUNING;
-  const tuningIndex = noteRef.string - 1;
-  if (tuningIndex < 0 || tuningIndex >= tuning.length) {
-    return null;
+function pitchBendValue(quarterTones: number): number {
+  const value = Math.round((quarterTones / 2 / PITCH_BEND_RANGE) * 8192);
+  return Math.max(-8192, Math.min(8191, value));
+}
+
+function findBend(notes: NoteRef[]): Technique | undefined {
+  for (const note of notes) {
+    const bend = note.inlineTechniques?.find(
+      (technique) => technique.type === "bend"
+    );
+    if (bend) {
+      return bend;
+    }
   }
-  const basePitch = parsePitch(tuning[tuningIndex]);
-  if (basePitch === null) {
-    return null;
+  return undefined;
+}
+
+/**
+ * Samples a bend curve into pitch-bend events across the note, ending with a
+ * reset so the next note starts unbent.
+ */
+function collectBendEvents(
+  bend: Technique,
+  startTick: number,
+  durationTicks: number,
+  channel: number
+): MidiPitchBendEvent[] {
+  const events: MidiPitchBendEvent[] = [];
+  const push = (tick: number, quarterTones: number) => {
+    const value = pitchBendValue(quarterTones);
+    const previous = events[events.length - 1];
+    if (previous && previous.value === value) {
+      return;
+    }
+    events.push({ tick, type: "pitchBend", channel, value });
+  };
+  const tickAt = (position: number) =>
+    startTick + Math.round((durationTicks * position) / 100);
+
+  const points = bend.points ?? [];
+  points.forEach((point, index) => {
+    const previous = points[index - 1];
+    const tick = tickAt(point.position);
+    if (previous) {
+      const fromTick = tickAt(previous.position);
+      for (
+        let step = fromTick + PITCH_BEND_STEP_TICKS;
+        step < tick;
+        step += PITCH_BEND_STEP_TICKS
+      ) {
+        const ratio = (step - fromTick) / (tick - fromTick);
+        push(step, previous.value + (point.value - previous.value) * ratio);
+      }
+    }
+    push(tick, point.value);
+  });
+  push(startTick + durationTicks, 0);
+
+  return events;
+}
+
+function pitchBendRangeEvents(channel: number): MidiControllerEvent[] {
+  return [
+    [101, 0],
+    [100, 0],
+    [6, PITCH_BEND_RANGE],
+    [38, 0],
+  ].map(([controllerType, value]) => ({
+    tick: 0,
+    type: "controller",
+    channel,
+    controllerType,
+    value,
+  }));
+}
+
+/**
+ * Turns a voice's timeline into playing times. Grace notes take no time of
+ * their own: acciaccaturas are squeezed in before the beat, taking time from
+ * the previous event, and appoggiaturas (or acciaccaturas that open a voice)
+ * start on the beat and delay the next event.
+ */
+function scheduleVoice(timed: TimedEvent[]): ScheduledEvent[] {
+  const scheduled: ScheduledEvent[] = [];
+  let delay = 0;
+  let index = 0;
+
+  while (index < timed.length) {
+    const { event, tick, duration } = timed[index];
+    if (event.type === "rest" || !event.grace) {
+      scheduled.push({
+        event,
+        tick: tick + delay,
+        durationTicks: Math.max(1, duration - delay),
+      });
+      delay = 0;
+      index += 1;
+      continue;
+    }
+
+    const graces: Event[] = [];
+    while (index < timed.length && timed[index].duration === 0) {
+      graces.push(timed[index].event);
+      index += 1;
+    }
+    const previous = scheduled[scheduled.length - 1];
+    const before = event.grace === "acciaccatura" && previous !== undefined;
+    const next = timed[index];
+    const hostTicks = before
+      ? previous.durationTicks
+      : next
+        ? next.duration
+        : GRACE_NOTE_TICKS * 2 * graces.length;
+    const graceTicks = Math.max(
+      1,
+      Math.min(GRACE_NOTE_TICKS, Math.floor(hostTicks / 2 / graces.length))
+    );
+    const total = graceTicks * graces.length;
+    if (before) {
+      previous.durationTicks -= total;
+    }
+    const graceStart = before ? tick - total : tick + delay;
+    graces.forEach((grace, offset) => {
+      scheduled.push({
+        event: grace,
+        tick: graceStart + offset * graceTicks,
+        durationTicks: graceTicks,
+      });
+    });
+    if (!before) {
+      delay += total;
+    }
   }
-  const capo = track.capo ?? 0;
-  const pitch = basePitch + noteRef.fret + capo;
-  if (pitch < 0 || pitch > 127) {
-    return null;
+
+  return scheduled;
+}
+
+/**
+ * Note-on delays for a chord's notes, in string order of the stroke: "down"
+ * starts on the lowest string. Delays never reach past the chord's length,
+ * and every note still ends with the chord.
+ */
+function strokeOffsets(
+  event: Event,
+  durationTicks: number,
+  options: Required<MidiOptions>
+): Map<NoteRef, number> {
+  const offsets = new Map<NoteRef, number>();
+  if (event.type !== "chord" || !event.stroke) {
+    return offsets;
   }
-  return pitch;
+  const { type, direction } = event.stroke;
+  const order = [...event.chord].sort((a, b) =>
+    direction === "up" ? a.string - b.string : b.string - a.string
+  );
+  const spread = Math.min(
+    type === "strum" ? options.strumSpread : options.arpeggioSpread,
+    Math.floor(durationTicks / order.length)
+  );
+  order.forEach((noteRef, index) => offsets.set(noteRef, index * spread));
+  return offsets;
+}
+
+function collectHits(
+  event: HitEvent,
+  tick: number,
+  durationTicks: number,
+  channel: number,
+  baseVelocity: number
+): MidiNoteEvent[] {
+  return event.hits.flatMap((hit) => {
+    const velocity =
+      hit.articulation === "accent"
+        ? accentVelocity(baseVelocity)
+        : hit.articulation === "ghost"
+          ? ghostVelocity(baseVelocity)
+          : baseVelocity;
+    return [
+      { tick, type: "noteOn", noteNumber: hit.note, channel, velocity },
+      {
+        tick: tick + durationTicks,
+        type: "noteOff",
+        noteNumber: hit.note,
+        channel,
+        velocity,
+      },
+    ] satisfies MidiNoteEvent[];
+  });
+}
+
+/**
+ * The dynamic velocity of every event in a track's voices, keyed by voice and
+ * start tick. A dynamic holds until the next one; a hairpin ramps from the
+ * level where it starts to the dynamic where it ends, or one step up or down
+ * when it ends without one.
+ */
+function buildVoiceVelocities(
+  layout: MeasureLayout[],
+  track: Track
+): Map<string, Map<number, number>> {
+  const scheduledByVoice = new Map<string, ScheduledEvent[]>();
+  for (const { events } of layout) {
+    for (const [voiceId, timed] of trackVoices(events, track.id)) {
+      const scheduled = scheduledByVoice.get(voiceId) ?? [];
+      scheduled.push(...scheduleVoice(timed));
+      scheduledByVoice.set(voiceId, scheduled);
+    }
+  }
+
+  const velocities = new Map<string, Map<number, number>>();
+  scheduledByVoice.forEach((scheduled, voiceId) => {
+    const byTick = new Map<number, number>();
+    let level = DEFAULT_VELOCITY;
+    let ramp: { from: number; to: number; start: number; end: number } | null =
+      null;
+    scheduled.forEach(({ event, tick }, index) => {
+      if (event.hairpin_end && ramp) {
+        level = ramp.to;
+        ramp = null;
+      }
+      if (event.dynamic) {
+        level = DYNAMIC_VELOCITIES[event.dynamic];
+      }
+      if (event.hairpin) {
+        const end = scheduled
+          .slice(index + 1)
+          .find((entry) => entry.event.hairpin_end);
+        const step =
+          event.hairpin === "crescendo"
+            ? HAIRPIN_VELOCITY_STEP
+            : -HAIRPIN_VELOCITY_STEP;
+        ramp = end
+          ? {
+              from: level,
+              to: end.event.dynamic
+                ? DYNAMIC_VELOCITIES[end.event.dynamic]
+                : clampVelocity(level + step),
+              start: tick,
+              end: end.tick,
+            }
+          : null;
+      }
+      byTick.set(
+        tick,
+        ramp && ramp.end > ramp.start
+          ? clampVelocity(
+              ramp.from +
+                ((ramp.to - ramp.from) * (tick - ramp.start)) /
+                  (ramp.end - ramp.start)
+            )
+          : level
+      );
+    });
+    velocities.set(voiceId, byTick);
+  });
+  return velocities;
+}
+
+function lyricText(lyric: Lyric): string {
+  return lyric.syllabic === "begin" || lyric.syllabic === "middle"
+    ? `${lyric.text}-`
+    : lyric.text;
 }
 
 function collectNotes(
   document: OpenTabDocument,
   track: Track,
-  channel: number
+  channel: number,
+  options: Required<MidiOptions>
 ): MidiEvent[] {
   const events: MidiEvent[] = [];
-  const timeSignature = normalizeTimeSignature(document.header.time_signature);
-  const beatsPerMeasure =
-    timeSignature.numerator * (4 / timeSignature.denominator);
-  const expectedMeasureTicks = Math.max(1, Math.round(PPQ * beatsPerMeasure));
-
-  let measureStart = 0;
-  for (const measure of document.measures) {
-    const trackMeasure = measure.tracks[track.id];
-    if (!trackMeasure) {
-      measureStart += expectedMeasureTicks;
-      continue;
-    }
-
-    let maxVoiceEnd = measureStart;
-    for (const voiceEvents of Object.values(trackMeasure.voices)) {
-      let cursor = measureStart;
-      for (const event of voiceEvents) {
-        const durationTicks = durationToTicks(event.duration);
+  const layout = buildMeasureLayout(document);
+  const velocities = buildVoiceVelocities(layout, track);
+  const heldByVoice = new Map<string, Map<number, MidiNoteEvent>>();
+
+  layout.forEach(({ startTick: measureStart, lengthTicks, events: timed }) => {
+    const measureEnd = measureStart + lengthTicks;
+
+    for (const [voiceId, voiceEvents] of trackVoices(timed, track.id)) {
+      const held = heldByVoice.get(voiceId) ?? new Map<number, MidiNoteEvent>();
+      heldByVoice.set(voiceId, held);
+      for (const { event, tick: cursor, durationTicks } of scheduleVoice(
+        voiceEvents
+      )) {
         if (event.type === "rest") {
-          cursor += durationTicks;
           continue;
         }
+        const velocity = velocities.get(voiceId)?.get(cursor) ?? DEFAULT_VELOCITY;
+        if (event.type === "hit") {
+          events.push(
+            ...collectHits(event, cursor, durationTicks, channel, velocity)
+          );
+          continue;
+        }
+        if (event.lyric) {
+          events.push({
+            tick: cursor,
+            type: "lyrics",
+            text: lyricText(event.lyric),
+          });
+        }
 
-        if (event.type === "note") {
-          const pitch = resolveStringPitch(track, event.note);
-          if (pitch !== null) {
+        const notes = event.type === "note" ? [event.note] : event.chord;
+        const bend = findBend(notes);
+        if (bend) {
+          events.push(
+            ...collectBendEvents(bend, cursor, durationTicks, channel)
+          );
+        }
+        const offsets = strokeOffsets(event, durationTicks, options);
+        for (const noteRef of notes) {
+          const tiedFrom = held.get(noteRef.string);
+          held.delete(noteRef.string);
+          if (
+            tiedFrom &&
+            (noteRef.tie === "stop" || noteRef.tie === "continue")
+          ) {
+            tiedFrom.tick = cursor + durationTicks;
+            if (noteRef.tie === "continue") {
+              held.set(noteRef.string, tiedFrom);
+            }
+            continue;
+          }
+          const offset = offsets.get(noteRef) ?? 0;
+          const sounds = resolveSoundingNotes(
+            track,
+            noteRef,
+            cursor + offset,
+            durationTicks - offset,
+            measureEnd - cursor - offset,
+            velocity
+          );
+          for (const sound of sounds) {
             events.push({
-              tick: cursor,
+              tick: sound.tick,
               type: "noteOn",
-              noteNumber: pitch,
+              noteNumber: sound.pitch,
               channel,
-              velocity: DEFAULT_VELOCITY,
+              velocity: sound.velocity,
             });
-            events.push({
-              tick: cursor + durationTicks,
+            const noteOff: MidiNoteEvent = {
+              tick: sound.tick + sound.durationTicks,
               type: "noteOff",
-              noteNumber: pitch,
+              noteNumber: sound.pitch,
               channel,
-              velocity: DEFAULT_VELOCITY,
-            });
-          }
-          cursor += durationTicks;
-          continue;
-        }
-
-        if (event.type === "chord") {
-          for (const noteRef of event.chord) {
-            const pitch = resolveStringPitch(track, noteRef);
-            if (pitch !== null) {
-              events.push({
-                tick: cursor,
-                type: "noteOn",
-                noteNumber: pitch,
-                channel,
-                velocity: DEFAULT_VELOCITY,
-              });
-              events.push({
-                tick: cursor + durationTicks,
-                type: "noteOff",
-                noteNumber: pitch,
-                channel,
-                velocity: DEFAULT_VELOCITY,
-              });
+              velocity: sound.velocity,
+            };
+            events.push(noteOff);
+            if (noteRef.tie === "start" || noteRef.tie === "continue") {
+              held.set(noteRef.string, noteOff);
             }
           }
-          cursor += durationTicks;
         }
       }
-      if (cursor > maxVoiceEnd) {
-        maxVoiceEnd = cursor;
-      }
     }
+  });
 
-    const measureLength = Math.max(expectedMeasureTicks, maxVoiceEnd - measureStart);
-    measureStart += measureLength;
+  if (events.some((event) => event.type === "pitchBend")) {
+    events.unshift(...pitchBendRangeEvents(channel));
+  }
+  if (track.kind !== "percussion") {
+    events.unshift({
+      tick: 0,
+      type: "programChange",
+      channel,
+      programNumber: resolveInstrument(track).midiProgram,
+    });
   }
 
   return events;
 }
 
-function buildMetaTrackEvents(
-  document: OpenTabDocument
-): MidiData["tracks"][number] {
-  const tempo = document.header.tempo_bpm ?? DEFAULT_TEMPO_BPM;
-  const timeSignature = normalizeTimeSignature(document.header.time_signature);
-  const metaEvents: MidiEvent[] = [
-    { tick: 0, type: "tempo" },
-    { tick: 0, type: "timeSignature" },
-  ];
-  const sortWeight = (event: MidiEvent) => {
-    if (event.type === "tempo" || event.type === "timeSignature") {
+function eventSortWeight(event: MidiEvent): number {
+  switch (event.type) {
+    case "tempo":
+    case "timeSignature":
+    case "keySignature":
+    case "lyrics":
       return 0;
-    }
-    return event.type === "noteOff" ? 1 : 2;
+    case "programChange":
+    case "controller":
+      return 1;
+    case "noteOff":
+      return 2;
+    case "pitchBend":
+      return 3;
+    case "noteOn":
+      return 4;
+  }
+}
+
+function compareEvents(a: MidiEvent, b: MidiEvent): number {
+  if (a.tick !== b.tick) {
+    return a.tick - b.tick;
+  }
+  return eventSortWeight(a) - eventSortWeight(b);
+}
+
+function toChannelTrackEvent(
+  event: MidiChannelEvent,
+  deltaTime: number
+): MidiData["tracks"][number][number] {
+  if (event.type === "pitchBend") {
+    return {
+      deltaTime,
+      type: "pitchBend",
+      channel: event.channel,
+      value: event.value,
+    };
+  }
+  if (event.type === "programChange") {
+    return {
+      deltaTime,
+      type: "programChange",
+      channel: event.channel,
+      programNumber: event.programNumber,
+    };
+  }
+  if (event.type === "controller") {
+    return {
+      deltaTime,
+      type: "controller",
+      channel: event.channel,
+      controllerType: event.controllerType,
+      value: event.value,
+    };
+  }
+  return {
+    deltaTime,
+    type: event.type,
+    channel: event.channel,
+    noteNumber: event.noteNumber,
+    velocity: event.velocity,
   };
+}
 
-  metaEvents.sort((a, b) => {
-    if (a.tick !== b.tick) {
-      return a.tick - b.tick;
-    }
-    return sortWeight(a) - sortWeight(b);
-  });
+function toMetaTrackEvent(
+  event: MidiMetaEvent,
+  deltaTime: number
+): MidiData["tracks"][number][number] {
+  if (event.type === "tempo") {
+    return {
+      deltaTime,
+      type: "setTempo",
+      meta: true,
+      microsecondsPerBeat: Math.round(60_000_000 / event.bpm),
+    };
+  }
+  if (event.type === "lyrics") {
+    return { deltaTime, type: "lyrics", meta: true, text: event.text };
+  }
+  if (event.type === "keySignature") {
+    return {
+      deltaTime,
+      type: "keySignature",
+      meta: true,
+      key: event.key.fifths,
+      scale: event.key.mode === "minor" ? 1 : 0,
+    };
+  }
+  return {
+    deltaTime,
+    type: "timeSignature",
+    meta: true,
+    numerator: event.numerator,
+    denominator: event.denominator,
+    metronome: 24,
+    thirtyseconds: 8,
+  };
+}
+
+function buildMetaTrackEvents(
+  document: OpenTabDocument
+): MidiData["tracks"][number] {
+  const metaEvents = collectMetaEvents(document);
 
   let lastTick = 0;
   const trackEvents: MidiData["tracks"][number] = [];
@@ -238,27 +857,7 @@ function buildMetaTrackEvents(
   for (const event of metaEvents) {
     const deltaTime = event.tick - lastTick;
     lastTick = event.tick;
-    if (event.type === "tempo") {
-      trackEvents.push({
-        deltaTime,
-        type: "setTempo",
-        meta: true,
-        microsecondsPerBeat: Math.round(60_000_000 / tempo),
-      });
-      continue;
-    }
-    if (event.type === "timeSignature") {
-      trackEvents.push({
-        deltaTime,
-        type: "timeSignature",
-        meta: true,
-        numerator: timeSignature.numerator,
-        denominator: timeSignature.denominator,
-        metronome: 24,
-        thirtyseconds: 8,
-      });
-      continue;
-    }
+    trackEvents.push(toMetaTrackEvent(event, deltaTime));
   }
 
   trackEvents.push({
@@ -273,29 +872,13 @@ function buildMetaTrackEvents(
 function buildSingleTrackEvents(
   document: OpenTabDocument,
   track: Track,
-  channel: number
+  channel: number,
+  options: Required<MidiOptions>
 ): MidiData["tracks"][number] {
-  const tempo = document.header.tempo_bpm ?? DEFAULT_TEMPO_BPM;
-  const timeSignature = normalizeTimeSignature(document.header.time_signature);
-  const metaEvents: MidiEvent[] = [
-    { tick: 0, type: "tempo" },
-    { tick: 0, type: "timeSignature" },
-  ];
-  const noteEvents = collectNotes(document, track, channel);
+  const metaEvents = collectMetaEvents(document);
+  const noteEvents = collectNotes(document, track, channel, options);
   const combined = [...metaEvents, ...noteEvents];
-  const sortWeight = (event: MidiEvent) => {
-    if (event.type === "tempo" || event.type === "timeSignature") {
-      return 0;
-    }
-    return event.type === "noteOff" ? 1 : 2;
-  };
-
-  combined.sort((a, b) => {
-    if (a.tick !== b.tick) {
-      return a.tick - b.tick;
-    }
-    return sortWeight(a) - sortWeight(b);
-  });
+  combined.sort(compareEvents);
 
   let lastTick = 0;
   const trackEvents: MidiData["tracks"][number] = [];
@@ -303,46 +886,16 @@ function buildSingleTrackEvents(
   for (const event of combined) {
     const deltaTime = event.tick - lastTick;
     lastTick = event.tick;
-    if (event.type === "tempo") {
-      trackEvents.push({
-        deltaTime,
-        type: "setTempo",
-        meta: true,
-        microsecondsPerBeat: Math.round(60_000_000 / tempo),
-      });
-      continue;
-    }
-    if (event.type === "timeSignature") {
-      trackEvents.push({
-        deltaTime,
-        type: "timeSignature",
-        meta: true,
-        numerator: timeSignature.numerator,
-        denominator: timeSignature.denominator,
-        metronome: 24,
-        thirtyseconds: 8,
-      });
+    if (
+      event.type === "tempo" ||
+      event.type === "timeSignature" ||
+      event.type === "keySignature" ||
+      event.type === "lyrics"
+    ) {
+      trackEvents.push(toMetaTrackEvent(event, deltaTime));
       continue;
     }
-    if (event.type === "noteOn") {
-      trackEvents.push({
-        deltaTime,
-        type: "noteOn",
-        channel: event.channel,
-        noteNumber: event.noteNumber,
-        velocity: event.velocity,
-      });
-      continue;
-    }
-    if (event.type === "noteOff") {
-      trackEvents.push({
-        deltaTime,
-        type: "noteOff",
-        channel: event.channel,
-        noteNumber: event.noteNumber,
-        velocity: event.velocity,
-      });
-    }
+    trackEvents.push(toChannelTrackEvent(event, deltaTime));
   }
 
   trackEvents.push({
@@ -357,15 +910,11 @@ function buildSingleTrackEvents(
 function buildNoteTrackEvents(
   document: OpenTabDocument,
   track: Track,
-  channel: number
+  channel: number,
+  options: Required<MidiOptions>
 ): MidiData["tracks"][number] {
-  const noteEvents = collectNotes(document, track, channel);
-  noteEvents.sort((a, b) => {
-    if (a.tick !== b.tick) {
-      return a.tick - b.tick;
-    }
-    return a.type === "noteOff" ? 0 : 1;
-  });
+  const noteEvents = collectNotes(document, track, channel, options);
+  noteEvents.sort(compareEvents);
 
   let lastTick = 0;
   const trackEvents: MidiData["tracks"][number] = [];
@@ -373,25 +922,18 @@ function buildNoteTrackEvents(
   for (const event of noteEvents) {
     const deltaTime = event.tick - lastTick;
     lastTick = event.tick;
-    if (event.type === "noteOn") {
-      trackEvents.push({
-        deltaTime,
-        type: "noteOn",
-        channel: event.channel,
-        noteNumber: event.noteNumber,
-        velocity: event.velocity,
-      });
+    if (
+      event.type === "tempo" ||
+      event.type === "timeSignature" ||
+      event.type === "keySignature"
+    ) {
       continue;
     }
-    if (event.type === "noteOff") {
-      trackEvents.push({
-        deltaTime,
-        type: "noteOff",
-        channel: event.channel,
-        noteNumber: event.noteNumber,
-        velocity: event.velocity,
-      });
+    if (event.type === "lyrics") {
+      trackEvents.push(toMetaTrackEvent(event, deltaTime));
+      continue;
     }
+    trackEvents.push(toChannelTrackEvent(event, deltaTime));
   }
 
   trackEvents.push({
@@ -403,22 +945,44 @@ function buildNoteTrackEvents(
   return trackEvents;
 }
 
-export function toMidi(document: OpenTabDocument): Uint8Array {
+/** Percussion plays on channel 10 (index 9); other tracks skip it. */
+function assignChannels(tracks: Track[]): number[] {
+  let next = 0;
+  return tracks.map((track) => {
+    if (track.kind === "percussion") {
+      return PERCUSSION_CHANNEL;
+    }
+    const channel = next % 15;
+    next += 1;
+    return channel < PERCUSSION_CHANNEL ? channel : channel + 1;
+  });
+}
+
+export function toMidi(
+  document: OpenTabDocument,
+  options: MidiOptions = {}
+): Uint8Array {
+  const resolved: Required<MidiOptions> = {
+    strumSpread: options.strumSpread ?? DEFAULT_STRUM_SPREAD,
+    arpeggioSpread: options.arpeggioSpread ?? DEFAULT_ARPEGGIO_SPREAD,
+  };
   let tracks: MidiData["tracks"];
   let format: MidiData["header"]["format"];
 
   if (document.tracks.length <= 1) {
     const track = document.tracks[0];
     if (track) {
-      tracks = [buildSingleTrackEvents(document, track, 0)];
+      const [channel] = assignChannels([track]);
+      tracks = [buildSingleTrackEvents(document, track, channel, resolved)];
     } else {
       tracks = [buildMetaTrackEvents(document)];
     }
     format = 0;
   } else {
     const metaTrack = buildMetaTrackEvents(document);
+    const channels = assignChannels(document.tracks);
     const noteTracks = document.tracks.map((track, index) =>
-      buildNoteTrackEvents(document, track, index % 16)
+      buildNoteTrackEvents(document, track, channels[index], resolved)
     );
     tracks = [metaTrack, ...noteTracks];
     format = 1;
@@ -26,4 +26,361 @@ describe("toMusicXml", () => {
     expect(xml).toContain("<string>6</string>");
     expect(xml).toContain("<fret>3</fret>");
   });
+
+  it("emits per-measure time signature and tempo changes", () => {
+    const document = parseOpenTab(loadSample("meter-tempo-changes.otab"));
+
+    const xml = toMusicXml(document);
+    const measures = xml.split("<measure ").slice(1);
+
+    expect(measures[1]).toContain("<beats>7</beats>");
+    expect(measures[1]).toContain("<beat-type>8</beat-type>");
+    expect(measures[1]).not.toContain("<metronome>");
+    expect(measures[2]).toContain("<beats>4</beats>");
+    expect(measures[2]).toContain("<per-minute>90</per-minute>");
+  });
+
+  it("writes key signatures and spells pitches to fit the key", () => {
+    const document = parseOpenTab(loadSample("key-signatures.otab"));
+
+    const xml = toMusicXml(document);
+    const measures = xml.split("<measure ").slice(1);
+    const pitches = measures.map((measure) =>
+      Array.from(
+        measure.matchAll(
+          /<step>(\w)<\/step>\s*(?:<alter>(-?\d)<\/alter>\s*)?<octave>(\d)/g
+        ),
+        ([, step, alter, octave]) =>
+          `${step}${alter === "1" ? "#" : alter === "-1" ? "b" : ""}${octave}`
+      )
+    );
+
+    expect(measures[0]).toContain("<fifths>-1</fifths>");
+    expect(measures[0]).toContain("<mode>major</mode>");
+    expect(measures[1]).toContain("<fifths>6</fifths>");
+    expect(measures[2]).toContain("<fifths>-6</fifths>");
+    expect(measures[2]).toContain("<mode>minor</mode>");
+    expect(pitches).toEqual([
+      ["Bb4", "F4"],
+      ["A#4", "E#4"],
+      ["Cb5", "Bb4"],
+    ]);
+  });
+
+  it("writes dynamics and hairpins as direction marks", () => {
+    const document = parseOpenTab(loadSample("dynamics.otab"));
+
+    const xml = toMusicXml(document);
+    const directions = Array.from(
+      xml.matchAll(/<direction placement="below">([\s\S]*?)<\/direction>/g),
+      ([, body]) =>
+        Array.from(body.matchAll(/<(wedge type="\w+"|p|f)\/>/g), (m) => m[1])
+    );
+
+    expect(directions).toEqual([
+      ["p"],
+      ['wedge type="crescendo"'],
+      ['wedge type="stop"', "f"],
+      ['wedge type="diminuendo"'],
+      ['wedge type="stop"'],
+    ]);
+  });
+
+  it("emits repeat barlines, endings and navigation marks", () => {
+    const document = parseOpenTab(loadSample("repeats-navigation.otab"));
+
+    const xml = toMusicXml(document);
+    const measures = xml.split("<measure ").slice(1);
+
+    expect(measures[0]).toContain("<repeat direction=\"forward\"/>");
+    expect(measures[1]).toContain(
+      "<ending number=\"1\" type=\"start\">1.</ending>"
+    );
+    expect(measures[1]).toContain("<repeat direction=\"backward\"/>");
+    expect(measures[2]).toContain(
+      "<ending number=\"2\" type=\"start\">2.</ending>"
+    );
+    expect(measures[2]).toContain(
+      "<ending number=\"2\" type=\"discontinue\"/>"
+    );
+    expect(measures[3]).toContain("<segno/>");
+    expect(measures[5]).toContain("dalsegno=\"segno\"");
+    expect(measures[6]).toContain("<coda/>");
+  });
+
+  it("marks measure repeats and multi-measure rests with measure-style", () => {
+    const document = parseOpenTab(loadSample("measure-repeats.otab"));
+
+    const xml = toMusicXml(document);
+    const measures = xml.split("<measure ").slice(1);
+
+    expect(measures).toHaveLength(12);
+    expect(measures[0]).toContain("<multiple-rest>4</multiple-rest>");
+    expect(measures[3]).toContain("<rest measure=\"yes\"/>");
+    expect(measures[5]).toContain(
+      "<measure-repeat type=\"start\">1</measure-repeat>"
+    );
+    expect(measures[5]).toContain("<fret>3</fret>");
+    expect(measures[6]).toContain("<measure-repeat type=\"stop\"/>");
+    expect(measures[8]).toContain(
+      "<measure-repeat type=\"start\">2</measure-repeat>"
+    );
+    expect(measures[10]).toContain("<measure-repeat type=\"stop\"/>");
+    expect(measures[11]).toContain(
+      "<measure-repeat type=\"start\">1</measure-repeat>"
+    );
+  });
+
+  it("emits bends, releases and pre-bends as bend-alter steps", () => {
+    const document = parseOpenTab(loadSample("bends.otab"));
+
+    const xml = toMusicXml(document);
+    const notes = xml.split("<note>").slice(1);
+    const bendPattern = /<bend-alter>(-?[\d.]+)<\/bend-alter>(\s*<[\w-]+\/>)?/g;
+    const bends = (note: string) =>
+      [...note.matchAll(bendPattern)].map(
+        (match) => `${match[1]}${match[2]?.trim() ?? ""}`
+      );
+
+    expect(bends(notes[0])).toEqual(["2"]);
+    expect(bends(notes[1])).toEqual(["2", "-2<release/>"]);
+    expect(bends(notes[2])).toEqual(["2<pre-bend/>"]);
+    expect(bends(notes[3])).toEqual(["2<pre-bend/>", "-2<release/>"]);
+    expect(bends(notes[4])).toEqual(["1", "1"]);
+    expect(bends(notes[5])).toEqual(["1"]);
+  });
+
+  it("emits tie and tied elements for tied notes", () => {
+    const document = parseOpenTab(loadSample("ties.otab"));
+
+    const xml = toMusicXml(document);
+    const notes = xml.split("<note>").slice(1);
+    const ties = (note: string) =>
+      [...note.matchAll(/<(tie|tied) type="(\w+)"\/>/g)].map(
+        (match) => `${match[1]}:${match[2]}`
+      );
+
+    expect(ties(notes[1])).toEqual(["tie:start", "tied:start"]);
+    expect(ties(notes[2])).toEqual(["tie:stop", "tied:stop"]);
+    expect(ties(notes[7])).toEqual([
+      "tie:stop",
+      "tie:start",
+      "tied:stop",
+      "tied:start",
+    ]);
+  });
+
+  it("renders grace notes without duration", () => {
+    const document = parseOpenTab(loadSample("grace-notes.otab"));
+
+    const xml = toMusicXml(document);
+    const notes = xml.split("<note>").slice(1);
+
+    expect(notes[0]).toContain("<grace slash=\"yes\"/>");
+    expect(notes[0]).not.toContain("<duration>");
+    expect(notes[0]).toContain("<type>16th</type>");
+    expect(notes[3]).toMatch(/^\s*<grace\/>/);
+    expect(notes[1]).toContain("<duration>");
+    expect(notes[11]).toMatch(/^\s*<grace\/>\s*<chord\/>/);
+    expect(xml).not.toContain("<backup>");
+  });
+
+  it("emits harmony symbols with fretboard frames for named chords", () => {
+    const document = parseOpenTab(loadSample("chord-library.otab"));
+
+    const xml = toMusicXml(document);
+    const harmonies = xml.split("<harmony>").slice(1);
+
+    expect(harmonies).toHaveLength(5);
+    expect(harmonies[0]).toContain("<kind text=\"sus2\">suspended-second</kind>");
+    expect(harmonies[0]).toContain("<frame-strings>6</frame-strings>");
+    expect(harmonies[0]).not.toContain("<string>5</string>");
+    expect(harmonies[2]).toMatch(
+      /<string>6<\/string>\s*<fret>1<\/fret>\s*<fingering>1<\/fingering>\s*<barre type="start"\/>/
+    );
+    expect(harmonies[2]).toContain("<barre type=\"stop\"/>");
+    expect(harmonies[4]).toContain("<root-alter>-1</root-alter>");
+    expect(harmonies[4]).toContain("<bass-step>D</bass-step>");
+    expect(harmonies[4]).toContain("<first-fret>3</first-fret>");
+  });
+
+  it("marks strums with bow marks and rolled chords with arpeggiate", () => {
+    const document = parseOpenTab(loadSample("strums.otab"));
+
+    const xml = toMusicXml(document);
+    const measures = xml.split("<measure ").slice(1);
+    const firstChord = measures[0].split("<note>").slice(1, 7);
+
+    expect(firstChord[0]).toContain("<down-bow/>");
+    expect(firstChord.slice(1).join("")).not.toContain("-bow/>");
+    expect(measures[0].match(/<up-bow\/>/g)).toHaveLength(2);
+    expect(measures[2].match(/<arpeggiate direction="up"\/>/g)).toHaveLength(5);
+    expect(measures[2].match(/<arpeggiate\/>/g)).toHaveLength(3);
+  });
+
+  it("attaches lyrics to the first note of each event", () => {
+    const document = parseOpenTab(loadSample("lyrics.otab"));
+
+    const xml = toMusicXml(document);
+    const lyrics = [
+      ...xml.matchAll(/<lyric number="1">([\s\S]*?)<\/lyric>/g),
+    ].map((match) => match[1].replace(/\s+/g, ""));
+
+    expect(lyrics).toEqual([
+      "<syllabic>begin</syllabic><text>Hel</text>",
+      "<syllabic>end</syllabic><text>lo</text>",
+      "<syllabic>begin</syllabic><text>dark</text>",
+      "<syllabic>end</syllabic><text>ness</text>",
+      "<syllabic>single</syllabic><text>my</text>",
+      "<syllabic>single</syllabic><text>old</text>",
+      "<syllabic>single</syllabic><text>friend</text><extend/>",
+      "<syllabic>begin</syllabic><text>a</text>",
+      "<syllabic>end</syllabic><text>gain</text>",
+    ]);
+    expect(xml.match(/<lyric /g)).toHaveLength(9);
+  });
+
+  it("maps typed techniques to noteheads, ornaments and articulations", () => {
+    const document = parseOpenTab(loadSample("techniques.otab"));
+
+    const xml = toMusicXml(document);
+    const measures = xml.split("<measure ").slice(1);
+
+    expect(measures[1]).toContain("<tied type=\"let-ring\"/>");
+    expect(measures[1]).toContain("<other-technical>P.M.</other-technical>");
+    expect(measures[3]).toContain("<notehead>x</notehead>");
+    expect(measures[3]).toContain(
+      "<notehead parentheses=\"yes\">normal</notehead>"
+    );
+    expect(measures[3]).toMatch(/<articulations>\s*<accent\/>/);
+    expect(measures[3]).toMatch(/<articulations>\s*<staccato\/>/);
+    expect(measures[3]).toContain("<tap/>");
+    expect(measures[3]).toContain("<trill-mark/>");
+    expect(measures[4]).toMatch(/<harmonic>\s*<natural\/>/);
+    expect(measures[4]).toMatch(/<harmonic>\s*<artificial\/>/);
+    expect(measures[4]).toContain("<other-technical>P.H.</other-technical>");
+    expect(measures[5]).toContain("<tremolo type=\"single\">2</tremolo>");
+    expect(measures[5]).toContain("<other-technical>slap</other-technical>");
+  });
+
+  it("backs up by each part's own measure length", () => {
+    const document = parseOpenTab(
+      [
+        "format=\"opentab\"",
+        "version=\"0.2\"",
+        "",
+        "[[tracks]]",
+        "id=\"gtr1\"",
+        "",
+        "[[tracks]]",
+        "id=\"bass\"",
+        "instrument=\"bass\"",
+        "---",
+        "@track gtr1",
+        "m1: | h (1:0) (1:2) |",
+        "@track gtr1 voice v2",
+        "m1: | w (6:0) |",
+        "@track bass",
+        "m1: | w. (4:0) |",
+      ].join("\n")
+    );
+
+    const xml = toMusicXml(document);
+    const [guitar, bass] = xml.split("<part id=").slice(1);
+
+    expect(guitar).toMatch(/<backup>\s*<duration>1920<\/duration>/);
+    expect(guitar).not.toMatch(/<rest\/>/);
+    expect(bass).toMatch(/<duration>2880<\/duration>/);
+  });
+
+  it("writes whole rests as measure rests of the meter's length", () => {
+    const document = parseOpenTab(
+      [
+        "format=\"opentab\"",
+        "version=\"0.2\"",
+        "time_signature=\"3/4\"",
+        "",
+        "[[tracks]]",
+        "id=\"gtr1\"",
+        "---",
+        "@track gtr1",
+        "m1: | h. (6:0) |",
+        "m2-m3: | w r |",
+      ].join("\n")
+    );
+
+    const xml = toMusicXml(document);
+    const measures = xml.split("<measure ").slice(1);
+
+    expect(measures[1]).toContain("<multiple-rest>2</multiple-rest>");
+    for (const measure of measures.slice(1)) {
+      expect(measure).toMatch(
+        /<rest measure="yes"\/>\s*<duration>1440<\/duration>/
+      );
+      expect(measure).not.toContain("<type>whole</type>");
+    }
+  });
+
+  it("writes percussion parts as unpitched notes with drum instruments", () => {
+    const document = parseOpenTab(loadSample("drums.otab"));
+
+    const xml = toMusicXml(document);
+    const part = xml.split("<part id=\"P2\">")[1];
+    const notes = part.split("<note>").slice(1);
+
+    expect(xml).toMatch(
+      /<midi-instrument id="P2-I41">\s*<midi-channel>10<\/midi-channel>\s*<midi-unpitched>41<\/midi-unpitched>/
+    );
+    expect(xml).toMatch(/<score-instrument id="P2-I38">\s*<instrument-name>rim</);
+    expect(part).toMatch(/<clef>\s*<sign>percussion<\/sign>/);
+    expect(part).not.toContain("<staff-details>");
+    expect(notes[0]).toMatch(
+      /<display-step>F<\/display-step>\s*<display-octave>4<\/display-octave>/
+    );
+    expect(notes[0]).toContain("<instrument id=\"P2-I37\"/>");
+    expect(notes[1]).toContain("<chord/>");
+    expect(notes[1]).toContain("<notehead>x</notehead>");
+    expect(notes[3]).toMatch(/<articulations>\s*<accent\/>/);
+    expect(notes[11]).toContain(
+      "<notehead parentheses=\"yes\">normal</notehead>"
+    );
+    expect(part).toContain("<grace slash=\"yes\"/>");
+  });
+
+  it("writes tuning, transposition and program from the instrument registry", () => {
+    const document = parseOpenTab(loadSample("instruments.otab"));
+
+    const xml = toMusicXml(document);
+    const parts = xml.split("<part id=").slice(1);
+    const tunings = parts.map((part) =>
+      [...part.matchAll(/<tuning-step>(\w)<\/tuning-step>\s*<tuning-octave>(\d)/g)]
+        .map((match) => `${match[1]}${match[2]}`)
+        .join(" ")
+    );
+    const firstPitch = (part: string): string => {
+      const match = part.match(
+        /<step>(\w)<\/step>\s*(?:<alter>-?\d<\/alter>\s*)?<octave>(\d)/
+      );
+      return match ? `${match[1]}${match[2]}` : "";
+    };
+
+    expect(tunings).toEqual([
+      "B0 E1 A1 D2 G2",
+      "G4 C4 E4 A4",
+      "G4 D3 G3 B3 D4",
+    ]);
+    expect(xml).toMatch(
+      /<instrument-name>5-String Bass<\/instrument-name>[\s\S]*?<midi-program>34<\/midi-program>/
+    );
+    expect(xml).toMatch(
+      /<instrument-name>Banjo<\/instrument-name>[\s\S]*?<midi-program>106<\/midi-program>/
+    );
+    expect(parts[0]).toContain("<octave-change>-1</octave-change>");
+    expect(parts[1]).not.toContain("<transpose>");
+    // Bass and banjo are written an octave above where they sound.
+    expect(parts.map(firstPitch)).toEqual(["B1", "G4", "G4"]);
+    expect(parts[2]).toMatch(
+      /<step>A<\/step>\s*<octave>5<\/octave>[\s\S]*?<string>5<\/string>\s*<fret>7<\/fret>/
+    );
+  });
 });
@@ -1,10 +1,37 @@
-import type { Duration, Event, NoteRef, OpenTabDocument, Track } from "@opentab/ast";
+import type {
+  ChordDefinition,
+  ChordStroke,
+  DrumHit,
+  Duration,
+  DynamicMarks,
+  Event,
+  GraceType,
+  HitEvent,
+  KeySignature,
+  Lyric,
+  Measure,
+  MeasureShorthand,
+  NoteRef,
+  OpenTabDocument,
+  Technique,
+  Track,
+} from "@opentab/ast";
+import {
+  parsePitch,
+  resolveInstrument,
+  stringPitch,
+} from "@opentab/instruments";
+import {
+  buildTimeline,
+  isWholeMeasureRest,
+  measureTicks,
+  type TimedEvent,
+} from "@opentab/timeline";
 
 export const packageName = "@opentab/converters-musicxml";
 
 const DEFAULT_TEMPO_BPM = 120;
 const DEFAULT_TIME_SIGNATURE = { numerator: 4, denominator: 4 } as const;
-const DEFAULT_TUNING = ["E2", "A2", "D3", "G3", "B3", "E4"];
 const DEFAULT_DIVISIONS = 480;
 
 type PitchParts = {
@@ -13,6 +40,9 @@ type PitchParts = {
   octave: number;
 };
 
+/** A note letter and its alteration in semitones. */
+type Spelling = [string, number];
+
 type RenderNote = {
   xml: string[];
   duration: number;
@@ -35,99 +65,64 @@ const escapeXml = (value: string): string =>
     .replace(/\"/g, "&quot;")
     .replace(/'/g, "&apos;");
 
-const durationToDivisions = (duration: Duration, divisions = DEFAULT_DIVISIONS): number => {
-  const baseDivisions: Record<Duration["base"], number> = {
-    w: divisions * 4,
-    h: divisions * 2,
-    q: divisions,
-    e: divisions / 2,
-    s: divisions / 4,
-    t: divisions / 8,
-  };
-
-  let value = baseDivisions[duration.base];
-  const dots = duration.dots ?? 0;
-  let dotFactor = 1;
-  let current = 1;
-  for (let i = 0; i < dots; i += 1) {
-    current *= 0.5;
-    dotFactor += current;
-  }
-  value *= dotFactor;
-
-  if (duration.tuplet) {
-    value *= 2 / duration.tuplet;
-  }
-
-  return Math.max(1, Math.round(value));
+const NATURAL_PITCH_CLASSES: Record<string, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
 };
+const SHARP_ORDER = ["F", "C", "G", "D", "A", "E", "B"];
+const SHARP_SPELLINGS: Spelling[] = [
+  ["C", 0], ["C", 1], ["D", 0], ["D", 1], ["E", 0], ["F", 0],
+  ["F", 1], ["G", 0], ["G", 1], ["A", 0], ["A", 1], ["B", 0],
+];
+const FLAT_SPELLINGS: Spelling[] = [
+  ["C", 0], ["D", -1], ["D", 0], ["E", -1], ["E", 0], ["F", 0],
+  ["G", -1], ["G", 0], ["A", -1], ["A", 0], ["B", -1], ["B", 0],
+];
 
-const parsePitch = (note: string): number | null => {
-  const match = note.trim().match(/^([A-Ga-g])([#b]?)(-?\d+)$/);
-  if (!match) {
-    return null;
-  }
-  const [, letterRaw, accidental, octaveRaw] = match;
-  const letter = letterRaw.toUpperCase();
-  const octave = Number(octaveRaw);
-  const baseMap: Record<string, number> = {
-    C: 0,
-    D: 2,
-    E: 4,
-    F: 5,
-    G: 7,
-    A: 9,
-    B: 11,
-  };
-  const base = baseMap[letter];
-  if (base === undefined || Number.isNaN(octave)) {
-    return null;
-  }
-  const accidentalOffset = accidental === "#" ? 1 : accidental === "b" ? -1 : 0;
-  const midi = (octave + 1) * 12 + base + accidentalOffset;
-  if (midi < 0 || midi > 127) {
-    return null;
-  }
-  return midi;
+/**
+ * Spells the twelve pitch classes for a key signature. Scale tones take the
+ * key's accidentals (E# in F# major, Cb in Gb major); other notes use sharps
+ * in sharp keys and flats in flat keys.
+ */
+const buildKeySpelling = (fifths: number): Spelling[] => {
+  const spelling = [...(fifths < 0 ? FLAT_SPELLINGS : SHARP_SPELLINGS)];
+  SHARP_ORDER.forEach((step, index) => {
+    const alter = index < fifths ? 1 : 6 - index < -fifths ? -1 : 0;
+    const semitone = (NATURAL_PITCH_CLASSES[step] + alter + 12) % 12;
+    spelling[semitone] = [step, alter];
+  });
+  return spelling;
 };
 
-const midiToPitchParts = (midi: number): PitchParts => {
+const midiToPitchParts = (midi: number, fifths = 0): PitchParts => {
   const semitone = ((midi % 12) + 12) % 12;
-  const octave = Math.floor(midi / 12) - 1;
-  const mapping: Record<number, PitchParts> = {
-    0: { step: "C", octave },
-    1: { step: "C", alter: 1, octave },
-    2: { step: "D", octave },
-    3: { step: "D", alter: 1, octave },
-    4: { step: "E", octave },
-    5: { step: "F", octave },
-    6: { step: "F", alter: 1, octave },
-    7: { step: "G", octave },
-    8: { step: "G", alter: 1, octave },
-    9: { step: "A", octave },
-    10: { step: "A", alter: 1, octave },
-    11: { step: "B", octave },
-  };
-
-  return mapping[semitone] ?? { step: "C", octave };
+  const [step, alter] = buildKeySpelling(fifths)[semitone];
+  const octave = (midi - alter - NATURAL_PITCH_CLASSES[step]) / 12 - 1;
+  return alter ? { step, alter, octave } : { step, octave };
 };
 
-const resolveStringPitch = (track: Track, noteRef: NoteRef): PitchParts | null => {
-  const tuning = track.tuning ?? DEFAULT_TUNING;
-  const tuningIndex = noteRef.string - 1;
-  if (tuningIndex < 0 || tuningIndex >= tuning.length) {
-    return null;
-  }
-  const basePitch = parsePitch(tuning[tuningIndex]);
-  if (basePitch === null) {
+const resolveStringPitch = (
+  track: Track,
+  noteRef: NoteRef,
+  fifths: number
+): PitchParts | null => {
+  const instrument = resolveInstrument(track);
+  const fretted = stringPitch(instrument, noteRef.string, noteRef.fret);
+  if (fretted === null) {
     return null;
   }
   const capo = track.capo ?? 0;
-  const pitch = basePitch + noteRef.fret + capo;
+  const pitch = fretted + capo;
   if (pitch < 0 || pitch > 127) {
     return null;
   }
-  return midiToPitchParts(pitch);
+  // <pitch> is the written note; <transpose> gives the sounding offset.
+  return midiToPitchParts(pitch - instrument.transpose, fifths);
 };
 
 const buildPitchXml = (parts: PitchParts): string[] => {
@@ -139,19 +134,168 @@ const buildPitchXml = (parts: PitchParts): string[] => {
   return pitchXml;
 };
 
-const buildTechnicalXml = (noteRef: NoteRef): string[] => [
-  "<notations>",
-  "  <technical>",
-  `    <string>${noteRef.string}</string>`,
-  `    <fret>${noteRef.fret}</fret>`,
-  "  </technical>",
-  "</notations>",
-];
+const buildBendXml = (bend: Technique): string[] => {
+  const output: string[] = [];
+  const points = bend.points ?? [];
+  points.forEach((point, index) => {
+    const change = point.value - (index === 0 ? 0 : points[index - 1].value);
+    if (change === 0) {
+      return;
+    }
+    output.push("<bend>", `  <bend-alter>${change / 2}</bend-alter>`);
+    if (index === 0) {
+      output.push("  <pre-bend/>");
+    } else if (change < 0) {
+      output.push("  <release/>");
+    }
+    output.push("</bend>");
+  });
+  return output;
+};
+
+const OTHER_TECHNICAL_TEXT: Partial<Record<Technique["type"], string>> = {
+  palm_mute: "P.M.",
+  slap: "slap",
+  pop: "pop",
+};
 
-const buildDurationXml = (duration: Duration, divisions: number): string[] => {
+const buildHarmonicXml = (harmonic: Technique): string[] => {
+  if (harmonic.harmonicType === "natural") {
+    return ["<harmonic>", "  <natural/>", "</harmonic>"];
+  }
+  const output = ["<harmonic>", "  <artificial/>", "</harmonic>"];
+  if (harmonic.harmonicType === "pinch") {
+    output.push("<other-technical>P.H.</other-technical>");
+  } else if (harmonic.harmonicType === "tap") {
+    output.push("<tap/>");
+  }
+  return output;
+};
+
+const buildNoteheadXml = (noteRef: NoteRef): string[] => {
+  const types = (noteRef.inlineTechniques ?? []).map(
+    (technique) => technique.type
+  );
+  if (types.includes("dead_note")) {
+    return ["<notehead>x</notehead>"];
+  }
+  if (types.includes("ghost_note")) {
+    return ['<notehead parentheses="yes">normal</notehead>'];
+  }
+  return [];
+};
+
+const tieTypes = (noteRef: NoteRef): string[] => {
+  switch (noteRef.tie) {
+    case "start":
+      return ["start"];
+    case "stop":
+      return ["stop"];
+    case "continue":
+      return ["stop", "start"];
+    default:
+      return [];
+  }
+};
+
+/**
+ * A down stroke sounds from the lowest string up, so it is an upward
+ * arpeggio in pitch. Strums get a bow mark on the chord's first note.
+ */
+const buildStrokeXml = (
+  stroke: ChordStroke | undefined,
+  leading: boolean
+): { technical: string[]; arpeggiate: string[] } => {
+  if (!stroke) {
+    return { technical: [], arpeggiate: [] };
+  }
+  if (stroke.type === "strum") {
+    const mark = stroke.direction === "up" ? "<up-bow/>" : "<down-bow/>";
+    return { technical: leading ? [mark] : [], arpeggiate: [] };
+  }
+  const direction =
+    stroke.direction === undefined
+      ? ""
+      : ` direction="${stroke.direction === "down" ? "up" : "down"}"`;
+  return { technical: [], arpeggiate: [`<arpeggiate${direction}/>`] };
+};
+
+const buildNotationsXml = (
+  noteRef: NoteRef,
+  stroke?: ChordStroke,
+  leading = true
+): string[] => {
+  const tied = tieTypes(noteRef).map((type) => `<tied type="${type}"/>`);
+  const ornaments: string[] = [];
+  const strokeXml = buildStrokeXml(stroke, leading);
+  const technical = [
+    ...strokeXml.technical,
+    `<string>${noteRef.string}</string>`,
+    `<fret>${noteRef.fret}</fret>`,
+  ];
+  const articulations: string[] = [];
+  for (const technique of noteRef.inlineTechniques ?? []) {
+    switch (technique.type) {
+      case "bend":
+        technical.push(...buildBendXml(technique));
+        break;
+      case "harmonic":
+        technical.push(...buildHarmonicXml(technique));
+        break;
+      case "tap":
+        technical.push("<tap/>");
+        break;
+      case "let_ring":
+        tied.push('<tied type="let-ring"/>');
+        break;
+      case "tremolo_picking":
+        ornaments.push(
+          `<tremolo type="single">${technique.marks ?? 3}</tremolo>`
+        );
+        break;
+      case "trill":
+        ornaments.push("<trill-mark/>");
+        break;
+      case "accent":
+      case "staccato":
+        articulations.push(`<${technique.type}/>`);
+        break;
+      default: {
+        const text = OTHER_TECHNICAL_TEXT[technique.type];
+        if (text) {
+          technical.push(`<other-technical>${text}</other-technical>`);
+        }
+      }
+    }
+  }
+
+  const wrap = (name: string, lines: string[]): string[] =>
+    lines.length === 0
+      ? []
+      : [`  <${name}>`, ...lines.map((line) => `    ${line}`), `  </${name}>`];
+  return [
+    "<notations>",
+    ...tied.map((line) => `  ${line}`),
+    ...wrap("ornaments", ornaments),
+    ...wrap("technical", technical),
+    ...wrap("articulations", articulations),
+    ...strokeXml.arpeggiate.map((line) => `  ${line}`),
+    "</notations>",
+  ];
+};
+
+/** `ticks` is the event's length in divisions, taken from the timeline. */
+const buildDurationXml = (
+  duration: Duration,
+  ticks: number,
+  ties: string[] = [],
+  grace = false
+): string[] => {
   const output: string[] = [];
-  const durationValue = durationToDivisions(duration, divisions);
-  output.push(`<duration>${durationValue}</duration>`);
+  if (!grace) {
+    output.push(`<duration>${ticks}</duration>`);
+  }
+  ties.forEach((type) => output.push(`<tie type="${type}"/>`));
   const type = NOTE_TYPE_MAP[duration.base];
   if (type) {
     output.push(`<type>${type}</type>`);
@@ -172,100 +316,364 @@ const buildDurationXml = (duration: Duration, divisions: number): string[] => {
   return output;
 };
 
+const buildLyricXml = (lyric: Lyric): string[] => {
+  const output = [
+    "<lyric number=\"1\">",
+    `  <syllabic>${lyric.syllabic}</syllabic>`,
+    `  <text>${escapeXml(lyric.text)}</text>`,
+  ];
+  if (lyric.extend) {
+    output.push("  <extend/>");
+  }
+  output.push("</lyric>");
+  return output;
+};
+
 const renderNote = (
   track: Track,
   noteRef: NoteRef,
   duration: Duration,
-  divisions: number,
+  ticks: number,
   voiceNumber: number,
-  isChord: boolean
+  fifths: number,
+  isChord: boolean,
+  grace?: GraceType,
+  lyric?: Lyric,
+  stroke?: ChordStroke
 ): RenderNote => {
-  const pitch = resolveStringPitch(track, noteRef);
+  const pitch = resolveStringPitch(track, noteRef, fifths);
   if (!pitch) {
-    if (isChord) {
+    if (isChord || grace) {
       return { xml: [], duration: 0 };
     }
-    return renderRest(duration, divisions, voiceNumber);
+    return renderRest(duration, ticks, voiceNumber);
   }
   const output: string[] = ["<note>"];
+  if (grace) {
+    output.push(
+      grace === "acciaccatura" ? '  <grace slash="yes"/>' : "  <grace/>"
+    );
+  }
   if (isChord) {
     output.push("  <chord/>");
   }
 
   buildPitchXml(pitch).forEach((line) => output.push(`  ${line}`));
 
-  buildDurationXml(duration, divisions).forEach((line) => output.push(`  ${line}`));
+  const ties = tieTypes(noteRef);
+  buildDurationXml(duration, ticks, ties, Boolean(grace)).forEach((line) =>
+    output.push(`  ${line}`)
+  );
+  buildNoteheadXml(noteRef).forEach((line) => output.push(`  ${line}`));
   output.push(`  <voice>${voiceNumber}</voice>`, "  <staff>1</staff>");
 
-  buildTechnicalXml(noteRef).forEach((line) => output.push(`  ${line}`));
+  buildNotationsXml(noteRef, stroke, !isChord).forEach((line) =>
+    output.push(`  ${line}`)
+  );
+  if (lyric) {
+    buildLyricXml(lyric).forEach((line) => output.push(`  ${line}`));
+  }
 
   output.push("</note>");
 
-  return { xml: output, duration: durationToDivisions(duration, divisions) };
+  return {
+    xml: output,
+    duration: grace ? 0 : ticks,
+  };
+};
+
+type DrumDisplay = { step: string; octave: number; notehead?: string };
+
+// Conventional drum-set staff positions, keyed by General MIDI drum note.
+const DRUM_DISPLAY: Record<number, DrumDisplay> = {
+  35: { step: "F", octave: 4 },
+  36: { step: "F", octave: 4 },
+  37: { step: "C", octave: 5, notehead: "x" },
+  38: { step: "C", octave: 5 },
+  39: { step: "C", octave: 5, notehead: "x" },
+  40: { step: "C", octave: 5 },
+  41: { step: "G", octave: 4 },
+  42: { step: "G", octave: 5, notehead: "x" },
+  43: { step: "A", octave: 4 },
+  44: { step: "D", octave: 4, notehead: "x" },
+  45: { step: "D", octave: 5 },
+  46: { step: "G", octave: 5, notehead: "circle-x" },
+  47: { step: "D", octave: 5 },
+  48: { step: "E", octave: 5 },
+  49: { step: "A", octave: 5, notehead: "x" },
+  50: { step: "E", octave: 5 },
+  51: { step: "F", octave: 5, notehead: "x" },
+  52: { step: "B", octave: 5, notehead: "x" },
+  53: { step: "F", octave: 5, notehead: "diamond" },
+  55: { step: "B", octave: 5, notehead: "x" },
+  57: { step: "A", octave: 5, notehead: "x" },
+  59: { step: "F", octave: 5, notehead: "x" },
+};
+const DEFAULT_DRUM_DISPLAY: DrumDisplay = { step: "C", octave: 5 };
+
+const drumInstrumentId = (partId: string, note: number): string =>
+  `${partId}-I${note + 1}`;
+
+const renderHit = (
+  partId: string,
+  hit: DrumHit,
+  event: HitEvent,
+  ticks: number,
+  voiceNumber: number,
+  isChord: boolean
+): RenderNote => {
+  const display = DRUM_DISPLAY[hit.note] ?? DEFAULT_DRUM_DISPLAY;
+  const output: string[] = ["<note>"];
+  if (event.grace) {
+    output.push(
+      event.grace === "acciaccatura" ? '  <grace slash="yes"/>' : "  <grace/>"
+    );
+  }
+  if (isChord) {
+    output.push("  <chord/>");
+  }
+  output.push(
+    "  <unpitched>",
+    `    <display-step>${display.step}</display-step>`,
+    `    <display-octave>${display.octave}</display-octave>`,
+    "  </unpitched>"
+  );
+  buildDurationXml(event.duration, ticks, [], Boolean(event.grace)).forEach(
+    (line) => output.push(`  ${line}`)
+  );
+  output.push(`  <instrument id="${drumInstrumentId(partId, hit.note)}"/>`);
+  const notehead = display.notehead ?? "normal";
+  if (hit.articulation === "ghost") {
+    output.push(`  <notehead parentheses="yes">${notehead}</notehead>`);
+  } else if (display.notehead) {
+    output.push(`  <notehead>${notehead}</notehead>`);
+  }
+  output.push(`  <voice>${voiceNumber}</voice>`, "  <staff>1</staff>");
+  if (hit.articulation === "accent") {
+    output.push(
+      "  <notations>",
+      "    <articulations>",
+      "      <accent/>",
+      "    </articulations>",
+      "  </notations>"
+    );
+  }
+  output.push("</note>");
+  return {
+    xml: output,
+    duration: event.grace ? 0 : ticks,
+  };
 };
 
+/** A whole-measure rest has no note type; it lasts whatever the meter does. */
 const renderRest = (
   duration: Duration,
-  divisions: number,
-  voiceNumber: number
+  ticks: number,
+  voiceNumber: number,
+  wholeMeasure = false
 ): RenderNote => {
   const output: string[] = ["<note>"];
-  output.push("  <rest/>");
-  buildDurationXml(duration, divisions).forEach((line) => output.push(`  ${line}`));
+  if (wholeMeasure) {
+    output.push("  <rest measure=\"yes\"/>", `  <duration>${ticks}</duration>`);
+  } else {
+    output.push("  <rest/>");
+    buildDurationXml(duration, ticks).forEach((line) => output.push(`  ${line}`));
+  }
   output.push(`  <voice>${voiceNumber}</voice>`, "  <staff>1</staff>", "</note>");
-  return { xml: output, duration: durationToDivisions(duration, divisions) };
+  return { xml: output, duration: ticks };
 };
 
 const renderEvent = (
   track: Track,
+  partId: string,
   event: Event,
-  divisions: number,
-  voiceNumber: number
+  ticks: number,
+  voiceNumber: number,
+  fifths: number
 ): RenderNote[] => {
   if (event.type === "rest") {
-    return [renderRest(event.duration, divisions, voiceNumber)];
+    return [renderRest(event.duration, ticks, voiceNumber)];
   }
-  if (event.type === "note") {
-    return [renderNote(track, event.note, event.duration, divisions, voiceNumber, false)];
+  if (event.type === "hit") {
+    return event.hits.map((hit, index) =>
+      renderHit(partId, hit, event, ticks, voiceNumber, index > 0)
+    );
   }
-
-  return event.chord.map((noteRef, index) =>
-    renderNote(track, noteRef, event.duration, divisions, voiceNumber, index > 0)
+  const notes = event.type === "note" ? [event.note] : event.chord;
+  return notes.map((noteRef, index) =>
+    renderNote(
+      track,
+      noteRef,
+      event.duration,
+      ticks,
+      voiceNumber,
+      fifths,
+      index > 0,
+      event.grace,
+      index === 0 ? event.lyric : undefined,
+      event.type === "chord" ? event.stroke : undefined
+    )
   );
 };
 
-const resolveMeasureDuration = (
-  measureEvents: Record<string, Event[]>,
-  divisions: number,
-  timeSignature: { numerator: number; denominator: number }
-): number => {
-  const expected =
-    divisions * timeSignature.numerator * (4 / timeSignature.denominator);
-  let maxDuration = expected;
-  for (const events of Object.values(measureEvents)) {
-    const voiceDuration = events.reduce(
-      (sum, event) => sum + durationToDivisions(event.duration, divisions),
-      0
+const HARMONY_KINDS: Record<string, string> = {
+  "": "major",
+  maj: "major",
+  m: "minor",
+  min: "minor",
+  "7": "dominant",
+  maj7: "major-seventh",
+  M7: "major-seventh",
+  m7: "minor-seventh",
+  min7: "minor-seventh",
+  dim: "diminished",
+  dim7: "diminished-seventh",
+  m7b5: "half-diminished",
+  aug: "augmented",
+  "+": "augmented",
+  sus2: "suspended-second",
+  sus: "suspended-fourth",
+  sus4: "suspended-fourth",
+  "5": "power",
+  "6": "major-sixth",
+  m6: "minor-sixth",
+  "9": "dominant-ninth",
+  maj9: "major-ninth",
+  m9: "minor-ninth",
+  "11": "dominant-11th",
+  "13": "dominant-13th",
+};
+
+const buildHarmonyStepXml = (
+  element: "root" | "bass",
+  step: string,
+  accidental: string
+): string[] => {
+  const output = [`  <${element}>`, `    <${element}-step>${step}</${element}-step>`];
+  if (accidental) {
+    output.push(
+      `    <${element}-alter>${accidental === "#" ? 1 : -1}</${element}-alter>`
+    );
+  }
+  output.push(`  </${element}>`);
+  return output;
+};
+
+const buildFrameXml = (definition: ChordDefinition): string[] => {
+  const stringCount = definition.frets.length;
+  const fretted = definition.frets.filter(
+    (fret): fret is number => fret !== "x" && fret > 0
+  );
+  const lowest = fretted.length > 0 ? Math.min(...fretted) : 1;
+  const highest = Math.max(...fretted, 1);
+  const firstFret = highest > 4 ? lowest : 1;
+  const output = [
+    "  <frame>",
+    `    <frame-strings>${stringCount}</frame-strings>`,
+    `    <frame-frets>${Math.max(4, highest - firstFret + 1)}</frame-frets>`,
+  ];
+  if (firstFret > 1) {
+    output.push(`    <first-fret>${firstFret}</first-fret>`);
+  }
+  definition.frets.forEach((fret, index) => {
+    if (fret === "x") {
+      return;
+    }
+    const string = stringCount - index;
+    output.push(
+      "    <frame-note>",
+      `      <string>${string}</string>`,
+      `      <fret>${fret}</fret>`
     );
-    if (voiceDuration > maxDuration) {
-      maxDuration = voiceDuration;
+    const finger = definition.fingers?.[index] ?? 0;
+    if (finger > 0) {
+      output.push(`      <fingering>${finger}</fingering>`);
     }
+    const barre = definition.barre;
+    if (barre && fret === barre.fret) {
+      if (string === barre.from) {
+        output.push("      <barre type=\"start\"/>");
+      } else if (string === barre.to) {
+        output.push("      <barre type=\"stop\"/>");
+      }
+    }
+    output.push("    </frame-note>");
+  });
+  output.push("  </frame>");
+  return output;
+};
+
+const buildHarmonyXml = (
+  name: string,
+  definition?: ChordDefinition
+): string[] => {
+  const match = name.match(/^([A-G])([#b]?)(.*?)(?:\/([A-G])([#b]?))?$/);
+  if (!match) {
+    return [];
+  }
+  const [, step, accidental, suffix, bassStep, bassAccidental] = match;
+  const output = ["<harmony>", ...buildHarmonyStepXml("root", step, accidental)];
+  const kind = HARMONY_KINDS[suffix] ?? "other";
+  output.push(`  <kind text=\"${escapeXml(suffix)}\">${kind}</kind>`);
+  if (bassStep) {
+    output.push(...buildHarmonyStepXml("bass", bassStep, bassAccidental));
+  }
+  if (definition) {
+    output.push(...buildFrameXml(definition));
   }
-  return Math.round(maxDuration);
+  output.push("</harmony>");
+  return output;
+};
+
+/** Wedge stop, dynamic and wedge start, in the order they take effect. */
+const buildDynamicsDirection = (marks: DynamicMarks): string[] => {
+  const types: string[] = [];
+  if (marks.hairpin_end) {
+    types.push("<wedge type=\"stop\"/>");
+  }
+  if (marks.dynamic) {
+    types.push(`<dynamics><${marks.dynamic}/></dynamics>`);
+  }
+  if (marks.hairpin) {
+    types.push(`<wedge type="${marks.hairpin}"/>`);
+  }
+  if (types.length === 0) {
+    return [];
+  }
+  return [
+    "<direction placement=\"below\">",
+    ...types.flatMap((type) => [
+      "  <direction-type>",
+      `    ${type}`,
+      "  </direction-type>",
+    ]),
+    "</direction>",
+  ];
 };
 
 const renderVoiceEvents = (
   track: Track,
-  events: Event[],
-  divisions: number,
-  voiceNumber: number
+  partId: string,
+  events: TimedEvent[],
+  voiceNumber: number,
+  fifths: number,
+  chords: Map<string, ChordDefinition>
 ): { xml: string[]; duration: number } => {
   const output: string[] = [];
+  const wholeMeasure = isWholeMeasureRest(events.map(({ event }) => event));
   let cursor = 0;
-  for (const event of events) {
-    const rendered = renderEvent(track, event, divisions, voiceNumber);
+  for (const { event, duration } of events) {
+    buildDynamicsDirection(event).forEach((line) => output.push(`  ${line}`));
+    if (event.type === "chord" && event.name) {
+      buildHarmonyXml(event.name, chords.get(event.name)).forEach((line) =>
+        output.push(`  ${line}`)
+      );
+    }
+    const rendered = wholeMeasure
+      ? [renderRest(event.duration, duration, voiceNumber, true)]
+      : renderEvent(track, partId, event, duration, voiceNumber, fifths);
     rendered.forEach((note) => output.push(...note.xml.map((line) => `  ${line}`)));
-    cursor += durationToDivisions(event.duration, divisions);
+    cursor += duration;
   }
 
   return { xml: output, duration: cursor };
@@ -279,10 +687,9 @@ const parseTuningStep = (note: string): PitchParts | null => {
   return midiToPitchParts(midi);
 };
 
-const buildStaffTuning = (track: Track, stringCount: number): string[] => {
-  const tuning = track.tuning ?? DEFAULT_TUNING;
+const buildStaffTuning = (tuning: string[]): string[] => {
   const output: string[] = [];
-  for (let i = 0; i < stringCount; i += 1) {
+  for (let i = 0; i < tuning.length; i += 1) {
     const pitch = parseTuningStep(tuning[i] ?? "");
     if (!pitch) {
       continue;
@@ -300,31 +707,73 @@ const buildStaffTuning = (track: Track, stringCount: number): string[] => {
   return output;
 };
 
+const buildTransposeXml = (transpose: number): string[] => {
+  if (transpose === 0) {
+    return [];
+  }
+  const octaves = Math.trunc(transpose / 12);
+  const output = [
+    "<transpose>",
+    `  <diatonic>${octaves * 7}</diatonic>`,
+    `  <chromatic>${transpose}</chromatic>`,
+  ];
+  if (octaves !== 0) {
+    output.push(`  <octave-change>${octaves}</octave-change>`);
+  }
+  output.push("</transpose>");
+  return output;
+};
+
+const buildKeyXml = (key: KeySignature | undefined): string[] => [
+  "<key>",
+  `  <fifths>${key?.fifths ?? 0}</fifths>`,
+  ...(key ? [`  <mode>${key.mode}</mode>`] : []),
+  "</key>",
+];
+
 const buildAttributes = (
   track: Track,
   divisions: number,
-  timeSignature: { numerator: number; denominator: number }
+  timeSignature: { numerator: number; denominator: number },
+  key: KeySignature | undefined,
+  measureStyle: string[] = []
 ): string[] => {
-  const stringCount = track.tuning?.length ?? DEFAULT_TUNING.length;
   const output: string[] = ["<attributes>", `  <divisions>${divisions}</divisions>`];
+  buildKeyXml(key).forEach((line) => output.push(`  ${line}`));
   output.push(
-    "  <key>",
-    "    <fifths>0</fifths>",
-    "  </key>",
     "  <time>",
     `    <beats>${timeSignature.numerator}</beats>`,
     `    <beat-type>${timeSignature.denominator}</beat-type>`,
-    "  </time>",
+    "  </time>"
+  );
+  if (track.kind === "percussion") {
+    output.push(
+      "  <clef>",
+      "    <sign>percussion</sign>",
+      "    <line>2</line>",
+      "  </clef>"
+    );
+    measureStyle.forEach((line) => output.push(`  ${line}`));
+    output.push("</attributes>");
+    return output;
+  }
+  const instrument = resolveInstrument(track);
+  output.push(
     "  <clef>",
     "    <sign>TAB</sign>",
     "    <line>5</line>",
     "  </clef>",
     "  <staff-details>",
-    `    <staff-lines>${stringCount}</staff-lines>`
+    `    <staff-lines>${instrument.strings}</staff-lines>`
   );
 
-  buildStaffTuning(track, stringCount).forEach((line) => output.push(`  ${line}`));
-  output.push("  </staff-details>", "</attributes>");
+  buildStaffTuning(instrument.tuning).forEach((line) => output.push(`  ${line}`));
+  output.push("  </staff-details>");
+  buildTransposeXml(instrument.transpose).forEach((line) =>
+    output.push(`  ${line}`)
+  );
+  measureStyle.forEach((line) => output.push(`  ${line}`));
+  output.push("</attributes>");
   return output;
 };
 
@@ -340,31 +789,291 @@ const buildTempoDirection = (tempo: number): string[] => [
   "</direction>",
 ];
 
-const renderPartMeasures = (document: OpenTabDocument, track: Track): string[] => {
+const buildTimeChangeAttributes = (
+  timeSignature: { numerator: number; denominator: number } | undefined,
+  key: KeySignature | undefined,
+  measureStyle: string[] = []
+): string[] => {
+  if (!timeSignature && !key && measureStyle.length === 0) {
+    return [];
+  }
+  const output = ["<attributes>"];
+  if (key) {
+    buildKeyXml(key).forEach((line) => output.push(`  ${line}`));
+  }
+  if (timeSignature) {
+    output.push(
+      "  <time>",
+      `    <beats>${timeSignature.numerator}</beats>`,
+      `    <beat-type>${timeSignature.denominator}</beat-type>`,
+      "  </time>"
+    );
+  }
+  measureStyle.forEach((line) => output.push(`  ${line}`));
+  output.push("</attributes>");
+  return output;
+};
+
+type ActiveMeasureRepeat = { span: number; end: number };
+
+/**
+ * Turns `%`/`%N` and multi-measure rest shorthand into `<measure-style>`.
+ * The repeated measures are still written out, as MusicXML requires.
+ */
+const buildMeasureStyle = (
+  measure: Measure,
+  shorthand: MeasureShorthand | undefined,
+  active: ActiveMeasureRepeat | null
+): { xml: string[]; active: ActiveMeasureRepeat | null } => {
+  const xml: string[] = [];
+  const style = (content: string) =>
+    xml.push("<measure-style>", `  ${content}`, "</measure-style>");
+  let next = active;
+  if (next && measure.index > next.end) {
+    if (shorthand?.type === "repeat" && shorthand.measures === next.span) {
+      return {
+        xml,
+        active: { span: next.span, end: measure.index + next.span - 1 },
+      };
+    }
+    style("<measure-repeat type=\"stop\"/>");
+    next = null;
+  }
+  if (shorthand?.type === "repeat" && !next) {
+    style(
+      `<measure-repeat type=\"start\">${shorthand.measures}</measure-repeat>`
+    );
+    next = {
+      span: shorthand.measures,
+      end: measure.index + shorthand.measures - 1,
+    };
+  }
+  if (shorthand?.type === "rest") {
+    style(`<multiple-rest>${shorthand.measures}</multiple-rest>`);
+  }
+  return { xml, active: next };
+};
+
+const isSameEnding = (left?: number[], right?: number[]): boolean =>
+  (left ?? []).join(",") === (right ?? []).join(",");
+
+const buildEndingXml = (
+  ending: number[],
+  type: "start" | "stop" | "discontinue"
+): string => {
+  const number = ending.join(", ");
+  return type === "start"
+    ? `  <ending number=\"${number}\" type=\"start\">${number}.</ending>`
+    : `  <ending number=\"${number}\" type=\"${type}\"/>`;
+};
+
+const buildLeftBarline = (measure: Measure, previous?: Measure): string[] => {
+  const startsEnding =
+    measure.ending && !isSameEnding(measure.ending, previous?.ending);
+  if (!measure.repeat_start && !startsEnding) {
+    return [];
+  }
+  const output: string[] = ["<barline location=\"left\">"];
+  if (measure.repeat_start) {
+    output.push("  <bar-style>heavy-light</bar-style>");
+  }
+  if (measure.ending && startsEnding) {
+    output.push(buildEndingXml(measure.ending, "start"));
+  }
+  if (measure.repeat_start) {
+    output.push("  <repeat direction=\"forward\"/>");
+  }
+  output.push("</barline>");
+  return output;
+};
+
+const buildRightBarline = (measure: Measure, next?: Measure): string[] => {
+  const content: string[] = [];
+  if (measure.repeat_end) {
+    content.push("  <bar-style>light-heavy</bar-style>");
+  }
+  if (measure.ending && !isSameEnding(measure.ending, next?.ending)) {
+    content.push(
+      buildEndingXml(measure.ending, measure.repeat_end ? "stop" : "discontinue")
+    );
+  }
+  if (measure.repeat_end) {
+    content.push(
+      measure.repeat_times
+        ? `  <repeat direction=\"backward\" times=\"${measure.repeat_times}\"/>`
+        : "  <repeat direction=\"backward\"/>"
+    );
+  }
+  if (content.length === 0) {
+    return [];
+  }
+  return ["<barline location=\"right\">", ...content, "</barline>"];
+};
+
+const buildWordsDirection = (words: string, sound: string): string[] => [
+  "<direction placement=\"above\">",
+  "  <direction-type>",
+  `    <words>${escapeXml(words)}</words>`,
+  "  </direction-type>",
+  `  <sound ${sound}/>`,
+  "</direction>",
+];
+
+const buildStartNavigation = (measure: Measure): string[] => {
+  const output: string[] = [];
+  const markers = measure.markers ?? [];
+  if (markers.includes("segno")) {
+    output.push(
+      "<direction placement=\"above\">",
+      "  <direction-type>",
+      "    <segno/>",
+      "  </direction-type>",
+      "  <sound segno=\"segno\"/>",
+      "</direction>"
+    );
+  }
+  if (markers.includes("coda")) {
+    output.push(
+      "<direction placement=\"above\">",
+      "  <direction-type>",
+      "    <coda/>",
+      "  </direction-type>",
+      "  <sound coda=\"coda\"/>",
+      "</direction>"
+    );
+  }
+  return output;
+};
+
+const JUMP_WORDS: Record<string, string> = {
+  "start:": "D.C.",
+  "start:fine": "D.C. al Fine",
+  "start:coda": "D.C. al Coda",
+  "segno:": "D.S.",
+  "segno:fine": "D.S. al Fine",
+  "segno:coda": "D.S. al Coda",
+};
+
+const buildEndNavigation = (measure: Measure): string[] => {
+  const output: string[] = [];
+  const markers = measure.markers ?? [];
+  if (markers.includes("fine")) {
+    output.push(...buildWordsDirection("Fine", "fine=\"yes\""));
+  }
+  if (markers.includes("to_coda")) {
+    output.push(...buildWordsDirection("To Coda", "tocoda=\"coda\""));
+  }
+  if (measure.jump) {
+    const words = JUMP_WORDS[`${measure.jump.to}:${measure.jump.until ?? ""}`];
+    const sound =
+      measure.jump.to === "start" ? "dacapo=\"yes\"" : "dalsegno=\"segno\"";
+    output.push(...buildWordsDirection(words, sound));
+  }
+  return output;
+};
+
+const isSameTimeSignature = (
+  left: { numerator: number; denominator: number },
+  right: { numerator: number; denominator: number }
+): boolean =>
+  left.numerator === right.numerator && left.denominator === right.denominator;
+
+const isSameKey = (
+  left: KeySignature | undefined,
+  right: KeySignature | undefined
+): boolean => left?.fifths === right?.fifths && left?.mode === right?.mode;
+
+const renderPartMeasures = (
+  document: OpenTabDocument,
+  track: Track,
+  partId: string
+): string[] => {
   const output: string[] = [];
   const divisions = DEFAULT_DIVISIONS;
-  const timeSignature = document.header.time_signature ?? DEFAULT_TIME_SIGNATURE;
-  const tempo = document.header.tempo_bpm ?? DEFAULT_TEMPO_BPM;
+  let timeSignature: { numerator: number; denominator: number } =
+    document.header.time_signature ?? DEFAULT_TIME_SIGNATURE;
+  let tempo = document.header.tempo_bpm ?? DEFAULT_TEMPO_BPM;
+  let key = document.header.key;
+  const chords = new Map(
+    (document.chords ?? []).map((chord) => [chord.name, chord])
+  );
+  const timeline = buildTimeline(document, {
+    ppq: divisions,
+    order: "written",
+  });
+  const timedVoices = timeline.measures.map(
+    () => new Map<string, TimedEvent[]>()
+  );
+  for (const timed of timeline.events) {
+    if (timed.track === track.id) {
+      const voices = timedVoices[timed.bar];
+      voices.set(timed.voice, [...(voices.get(timed.voice) ?? []), timed]);
+    }
+  }
+
+  let measureRepeat: ActiveMeasureRepeat | null = null;
 
   document.measures.forEach((measure, index) => {
     const measureNumber = measure.index ?? index + 1;
     output.push(`<measure number=\"${measureNumber}\">`);
 
+    const nextTimeSignature = measure.time_signature ?? timeSignature;
+    const nextTempo = measure.tempo_bpm ?? tempo;
+    const nextKey = measure.key ?? key;
+    const measureStyle = buildMeasureStyle(
+      measure,
+      measure.tracks[track.id]?.shorthand?.v1,
+      measureRepeat
+    );
+    measureRepeat = measureStyle.active;
+
     if (index === 0) {
-      buildAttributes(track, divisions, timeSignature).forEach((line) =>
-        output.push(`  ${line}`)
-      );
-      buildTempoDirection(tempo).forEach((line) => output.push(`  ${line}`));
+      buildAttributes(
+        track,
+        divisions,
+        nextTimeSignature,
+        nextKey,
+        measureStyle.xml
+      ).forEach((line) => output.push(`  ${line}`));
+      buildTempoDirection(nextTempo).forEach((line) => output.push(`  ${line}`));
+    } else {
+      buildTimeChangeAttributes(
+        isSameTimeSignature(nextTimeSignature, timeSignature)
+          ? undefined
+          : nextTimeSignature,
+        isSameKey(nextKey, key) ? undefined : nextKey,
+        measureStyle.xml
+      ).forEach((line) => output.push(`  ${line}`));
+      if (nextTempo !== tempo) {
+        buildTempoDirection(nextTempo).forEach((line) => output.push(`  ${line}`));
+      }
     }
+    timeSignature = nextTimeSignature;
+    tempo = nextTempo;
+    key = nextKey;
 
-    const trackMeasure = measure.tracks[track.id];
-    const voices = trackMeasure?.voices ?? {};
-    const voiceIds = Object.keys(voices).sort();
-    const measureDuration = resolveMeasureDuration(voices, divisions, timeSignature);
+    const previousMeasure = document.measures[index - 1];
+    const nextMeasure = document.measures[index + 1];
+    buildLeftBarline(measure, previousMeasure).forEach((line) =>
+      output.push(`  ${line}`)
+    );
+    buildStartNavigation(measure).forEach((line) => output.push(`  ${line}`));
+
+    const voices = timedVoices[index];
+    const voiceIds = [...voices.keys()].sort();
+    // The part's own length, which another part's longer voice does not
+    // stretch, so each <backup> returns to this part's measure start.
+    const measureStart = timeline.measures[index].tick;
+    const measureDuration = Math.max(
+      measureTicks(timeline.measures[index].timeSignature, divisions),
+      ...[...voices.values()].flatMap((timed) =>
+        timed.map((entry) => entry.tick + entry.duration - measureStart)
+      )
+    );
 
     if (voiceIds.length === 0) {
       output.push("  <note>");
-      output.push("    <rest/>");
+      output.push("    <rest measure=\"yes\"/>");
       output.push(`    <duration>${measureDuration}</duration>`);
       output.push("    <voice>1</voice>");
       output.push("    <staff>1</staff>");
@@ -372,8 +1081,17 @@ const renderPartMeasures = (document: OpenTabDocument, track: Track): string[] =
     } else {
       voiceIds.forEach((voiceId, voiceIndex) => {
         const voiceNumber = voiceIndex + 1;
-        const events = voices[voiceId] ?? [];
-        const rendered = renderVoiceEvents(track, events, divisions, voiceNumber);
+        const events = [...(voices.get(voiceId) ?? [])].sort(
+          (a, b) => a.index - b.index
+        );
+        const rendered = renderVoiceEvents(
+          track,
+          partId,
+          events,
+          voiceNumber,
+          key?.fifths ?? 0,
+          chords
+        );
         output.push(...rendered.xml);
         if (rendered.duration < measureDuration) {
           output.push("  <note>");
@@ -392,12 +1110,79 @@ const renderPartMeasures = (document: OpenTabDocument, track: Track): string[] =
       });
     }
 
+    buildEndNavigation(measure).forEach((line) => output.push(`  ${line}`));
+    buildRightBarline(measure, nextMeasure).forEach((line) =>
+      output.push(`  ${line}`)
+    );
+
     output.push("</measure>");
   });
 
   return output;
 };
 
+const collectDrumHits = (
+  document: OpenTabDocument,
+  track: Track
+): Map<number, string> => {
+  const lanes = new Map<number, string>();
+  for (const measure of document.measures) {
+    const voices = measure.tracks[track.id]?.voices ?? {};
+    for (const events of Object.values(voices)) {
+      for (const event of events) {
+        if (event.type !== "hit") {
+          continue;
+        }
+        event.hits.forEach((hit) => {
+          if (!lanes.has(hit.note)) {
+            lanes.set(hit.note, hit.lane);
+          }
+        });
+      }
+    }
+  }
+  return new Map([...lanes].sort(([left], [right]) => left - right));
+};
+
+const buildDrumInstrumentsXml = (
+  document: OpenTabDocument,
+  track: Track,
+  partId: string
+): string[] => {
+  const lanes = collectDrumHits(document, track);
+  const output: string[] = [];
+  lanes.forEach((lane, note) => {
+    const id = drumInstrumentId(partId, note);
+    output.push(
+      `<score-instrument id="${id}">`,
+      `  <instrument-name>${escapeXml(lane)}</instrument-name>`,
+      "</score-instrument>"
+    );
+  });
+  lanes.forEach((_lane, note) => {
+    output.push(
+      `<midi-instrument id="${drumInstrumentId(partId, note)}">`,
+      "  <midi-channel>10</midi-channel>",
+      `  <midi-unpitched>${note + 1}</midi-unpitched>`,
+      "</midi-instrument>"
+    );
+  });
+  return output;
+};
+
+const buildStringedInstrumentXml = (track: Track, partId: string): string[] => {
+  const instrument = resolveInstrument(track);
+  const id = `${partId}-I1`;
+  return [
+    `<score-instrument id="${id}">`,
+    `  <instrument-name>${escapeXml(instrument.name)}</instrument-name>`,
+    "</score-instrument>",
+    `<midi-instrument id="${id}">`,
+    `  <midi-program>${instrument.midiProgram + 1}</midi-program>`,
+    "</midi-instrument>",
+  ];
+};
+
 export const toMusicXml = (document: OpenTabDocument): string => {
   const output: string[] = [
     "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
@@ -429,6 +1214,11 @@ export const toMusicXml = (document: OpenTabDocument): string => {
     const partName = escapeXml(track.name ?? track.id ?? `Track ${index + 1}`);
     output.push(`    <score-part id=\"${partId}\">`);
     output.push(`      <part-name>${partName}</part-name>`);
+    const instrumentXml =
+      track.kind === "percussion"
+        ? buildDrumInstrumentsXml(document, track, partId)
+        : buildStringedInstrumentXml(track, partId);
+    instrumentXml.forEach((line) => output.push(`      ${line}`));
     output.push("    </score-part>");
   });
   output.push("  </part-list>");
@@ -436,7 +1226,7 @@ export const toMusicXml = (document: OpenTabDocument): string => {
   document.tracks.forEach((track, index) => {
     const partId = `P${index + 1}`;
     output.push(`  <part id=\"${partId}\">`);
-    renderPartMeasures(document, track).forEach((line) => output.push(`    ${line}`));
+    renderPartMeasures(document, track, partId).forEach((line) => output.push(`    ${line}`));
     output.push("  </part>");
   });
 
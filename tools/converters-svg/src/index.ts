@@ -1,4 +1,15 @@
-import type { Event, NoteRef, OpenTabDocument, Track } from "@opentab/ast";
+import type {
+  ChordDefinition,
+  DrumHit,
+  Event,
+  Measure,
+  NoteRef,
+  OpenTabDocument,
+  Technique,
+  TechniqueType,
+  Track,
+} from "@opentab/ast";
+import { resolveInstrument } from "@opentab/instruments";
 
 export const packageName = "@opentab/converters-svg";
 
@@ -8,6 +19,7 @@ export type SvgRenderOptions = {
   lineHeight?: number;
   padding?: number;
   background?: string | null;
+  chordDiagrams?: boolean;
 };
 
 export type SvgRenderResult = {
@@ -30,48 +42,97 @@ const escapeXml = (value: string): string =>
 
 type RenderedMeasure = {
   lines: string[];
+  lyrics?: string;
   measureIndex: number;
+  label: string;
 };
 
-const DEFAULT_STRING_COUNT = 6;
+type TrackLayout = {
+  labels: string[];
+  renderSegments: (event: Event) => string[];
+};
 
-const getTrackStringCount = (track: Track, document: OpenTabDocument): number => {
-  if (track.tuning && track.tuning.length > 0) {
-    return track.tuning.length;
-  }
+type DrumLane = { lane: string; note: number };
 
-  let maxString = 0;
-  for (const measure of document.measures) {
-    const trackMeasure = measure.tracks[track.id];
-    if (!trackMeasure) {
-      continue;
-    }
-    for (const events of Object.values(trackMeasure.voices) as Event[][]) {
-      for (const event of events) {
-        if (event.type === "note") {
-          maxString = Math.max(maxString, event.note.string);
-        } else if (event.type === "chord") {
-          for (const note of event.chord) {
-            maxString = Math.max(maxString, note.string);
-          }
-        }
-      }
-    }
+// General MIDI cymbal and hi-hat notes, drawn as `x` in the drum grid.
+const CYMBAL_NOTES = new Set([42, 44, 46, 49, 51, 52, 53, 55, 57, 59]);
+
+const getLineLabels = (track: Track): string[] =>
+  [...resolveInstrument(track).tuning].reverse();
+
+const formatBend = (fret: number, technique: Technique): string => {
+  const values = (technique.points ?? []).map((point) => point.value);
+  const peak = Math.max(0, ...values);
+  const last = values[values.length - 1] ?? peak;
+  const prefix = (values[0] ?? 0) > 0 ? "pb" : "b";
+  const target = technique.toFret ?? fret + Math.round(peak / 2);
+  if (last >= peak) {
+    return `${prefix}${target}`;
   }
+  const release = technique.releaseFret ?? fret + Math.round(last / 2);
+  return `${prefix}${target}r${release}`;
+};
 
-  return maxString || DEFAULT_STRING_COUNT;
+const MODIFIER_SUFFIXES: Partial<Record<TechniqueType, string>> = {
+  palm_mute: ".pm",
+  let_ring: ".lr",
+  ghost_note: ".gh",
+  accent: ".ac",
+  staccato: ".st",
+  tap: ".tap",
+  slap: ".slap",
+  pop: ".pop",
 };
 
-const getLineLabels = (track: Track, stringCount: number): string[] => {
-  if (track.tuning && track.tuning.length > 0) {
-    return [...track.tuning].reverse();
+const HARMONIC_SUFFIXES = {
+  natural: ".nh",
+  artificial: ".ah",
+  pinch: ".ph",
+  tap: ".th",
+} as const;
+
+const formatTechnique = (fret: number, technique: Technique): string => {
+  switch (technique.type) {
+    case "hammer_on":
+      return `h${technique.toFret ?? ""}`;
+    case "pull_off":
+      return `p${technique.toFret ?? ""}`;
+    case "slide":
+      return `${technique.direction === "down" ? "\\" : "/"}${
+        technique.toFret ?? ""
+      }`;
+    case "vibrato":
+      return "~";
+    case "bend":
+      return formatBend(technique.fromFret ?? fret, technique);
+    case "dead_note":
+      return "";
+    case "harmonic":
+      return `${HARMONIC_SUFFIXES[technique.harmonicType ?? "natural"]}${
+        technique.toFret ?? ""
+      }`;
+    case "tremolo_picking":
+      return `.tp${technique.marks ?? ""}`;
+    case "trill":
+      return `.tr${technique.toFret ?? ""}`;
+    default:
+      return MODIFIER_SUFFIXES[technique.type] ?? "";
   }
+};
 
-  return Array.from({ length: stringCount }, (_, index) => `S${index + 1}`);
+const formatNote = (note: NoteRef): string => {
+  const techniques = note.inlineTechniques ?? [];
+  const dead = techniques.some((technique) => technique.type === "dead_note");
+  const fret = dead ? "x" : String(note.fret);
+  const tied = note.tie === "stop" || note.tie === "continue";
+  return [
+    tied ? `(${fret})` : fret,
+    ...techniques.map((technique) => formatTechnique(note.fret, technique)),
+  ].join("");
 };
 
 const noteToSegment = (note: NoteRef, width: number, lineIndex: number): string =>
-  lineIndex === note.string - 1 ? String(note.fret).padEnd(width, "-") : "-".repeat(width);
+  lineIndex === note.string - 1 ? formatNote(note).padEnd(width, "-") : "-".repeat(width);
 
 const renderEventSegments = (event: Event, stringCount: number): string[] => {
   if (event.type === "rest") {
@@ -79,13 +140,17 @@ const renderEventSegments = (event: Event, stringCount: number): string[] => {
   }
 
   if (event.type === "note") {
-    const width = String(event.note.fret).length;
+    const width = formatNote(event.note).length;
     return Array.from({ length: stringCount }, (_, lineIndex) =>
       noteToSegment(event.note, width, lineIndex)
     );
   }
 
-  const widths = event.chord.map((note: NoteRef) => String(note.fret).length);
+  if (event.type === "hit") {
+    return Array.from({ length: stringCount }, () => "-");
+  }
+
+  const widths = event.chord.map((note: NoteRef) => formatNote(note).length);
   const width = Math.max(...widths, 1);
   return Array.from({ length: stringCount }, (_, lineIndex) => {
     const note = event.chord.find(
@@ -94,37 +159,149 @@ const renderEventSegments = (event: Event, stringCount: number): string[] => {
     if (!note) {
       return "-".repeat(width);
     }
-    return String(note.fret).padEnd(width, "-");
+    return formatNote(note).padEnd(width, "-");
+  });
+};
+
+const getDrumLanes = (track: Track, document: OpenTabDocument): DrumLane[] => {
+  const lanes = new Map<string, number>();
+  for (const measure of document.measures) {
+    const voices = measure.tracks[track.id]?.voices ?? {};
+    for (const events of Object.values(voices) as Event[][]) {
+      for (const event of events) {
+        if (event.type === "hit") {
+          event.hits.forEach((hit) => lanes.set(hit.lane, hit.note));
+        }
+      }
+    }
+  }
+
+  // Cymbals above drums, each from high to low note like a drum staff.
+  const cymbal = (lane: DrumLane): number => (CYMBAL_NOTES.has(lane.note) ? 1 : 0);
+  return [...lanes]
+    .map(([lane, note]) => ({ lane, note }))
+    .sort((left, right) => cymbal(right) - cymbal(left) || right.note - left.note);
+};
+
+const formatHit = (hit: DrumHit): string => {
+  if (hit.articulation === "ghost") {
+    return "g";
+  }
+  const symbol = CYMBAL_NOTES.has(hit.note) ? "x" : "o";
+  return hit.articulation === "accent" ? symbol.toUpperCase() : symbol;
+};
+
+const renderHitSegments = (event: Event, lanes: DrumLane[]): string[] =>
+  lanes.map(({ lane }) => {
+    const hit =
+      event.type === "hit"
+        ? event.hits.find((candidate) => candidate.lane === lane)
+        : undefined;
+    return hit ? formatHit(hit) : "-";
   });
+
+const getTrackLayout = (track: Track, document: OpenTabDocument): TrackLayout => {
+  if (track.kind === "percussion") {
+    const lanes = getDrumLanes(track, document);
+    return {
+      labels: lanes.map((lane) => lane.lane),
+      renderSegments: (event) => renderHitSegments(event, lanes),
+    };
+  }
+
+  const labels = getLineLabels(track);
+  return {
+    labels,
+    renderSegments: (event) => renderEventSegments(event, labels.length),
+  };
 };
 
-const renderMeasure = (events: Event[], stringCount: number): string[] => {
+const formatLyric = (event: Event): string => {
+  if (event.type === "rest" || event.type === "hit" || !event.lyric) {
+    return "";
+  }
+  const { text, syllabic, extend } = event.lyric;
+  const hyphen = syllabic === "begin" || syllabic === "middle" ? "-" : "";
+  return `${text}${hyphen}${extend ? "_" : ""}`;
+};
+
+const renderMeasure = (
+  events: Event[],
+  layout: TrackLayout
+): { lines: string[]; lyrics?: string } => {
+  const stringCount = layout.labels.length;
   if (events.length === 0) {
-    return Array.from({ length: stringCount }, () => "-");
+    return { lines: Array.from({ length: stringCount }, () => "-") };
   }
 
   const segments = Array.from({ length: stringCount }, () => "");
+  let lyrics = "";
 
   events.forEach((event, index) => {
-    const eventSegments = renderEventSegments(event, stringCount);
+    const eventSegments = layout.renderSegments(event);
+    const lyric = formatLyric(event);
+    const width = Math.max(eventSegments[0]?.length ?? 1, lyric.length);
     const separator = index === events.length - 1 ? "" : "-";
     for (let lineIndex = 0; lineIndex < stringCount; lineIndex += 1) {
-      segments[lineIndex] += `${eventSegments[lineIndex]}${separator}`;
+      segments[lineIndex] += `${eventSegments[lineIndex].padEnd(
+        width,
+        "-"
+      )}${separator}`;
     }
+    lyrics += `${lyric.padEnd(width)}${separator ? " " : ""}`;
   });
 
-  return segments;
+  return lyrics.trim()
+    ? { lines: segments, lyrics: lyrics.trimEnd() }
+    : { lines: segments };
 };
 
-const renderTrackMeasures = (track: Track, document: OpenTabDocument): RenderedMeasure[] => {
-  const stringCount = getTrackStringCount(track, document);
+const formatMeasureLabel = (measure: Measure): string => {
+  const parts = [`m${measure.index}`];
+  if (measure.time_signature) {
+    parts.push(
+      `@time ${measure.time_signature.numerator}/${measure.time_signature.denominator}`
+    );
+  }
+  if (measure.tempo_bpm !== undefined) {
+    parts.push(`@tempo ${measure.tempo_bpm}`);
+  }
+  if (measure.repeat_start) {
+    parts.push("|:");
+  }
+  if (measure.ending) {
+    parts.push(`@ending ${measure.ending.join(",")}`);
+  }
+  for (const marker of measure.markers ?? []) {
+    parts.push(marker === "to_coda" ? "@tocoda" : `@${marker}`);
+  }
+  if (measure.jump) {
+    const jump = measure.jump.to === "start" ? "@dc" : "@ds";
+    parts.push(measure.jump.until ? `${jump} al ${measure.jump.until}` : jump);
+  }
+  if (measure.repeat_end) {
+    parts.push(measure.repeat_times ? `:|x${measure.repeat_times}` : ":|");
+  }
+  return parts.join(" ");
+};
+
+const renderTrackMeasures = (
+  track: Track,
+  document: OpenTabDocument,
+  layout: TrackLayout
+): RenderedMeasure[] => {
   const measures: RenderedMeasure[] = [];
 
   for (const measure of document.measures) {
     const trackMeasure = measure.tracks[track.id];
     const events = trackMeasure?.voices?.v1 ?? [];
-    const lines = renderMeasure(events, stringCount);
-    measures.push({ lines, measureIndex: measure.index });
+    const { lines, lyrics } = renderMeasure(events, layout);
+    measures.push({
+      lines,
+      lyrics,
+      measureIndex: measure.index,
+      label: formatMeasureLabel(measure),
+    });
   }
 
   return measures;
@@ -134,26 +311,158 @@ const toAsciiTab = (document: OpenTabDocument): string => {
   const output: string[] = [];
 
   for (const track of document.tracks) {
-    const stringCount = getTrackStringCount(track, document);
-    const lineLabels = getLineLabels(track, stringCount);
+    const layout = getTrackLayout(track, document);
+    const labelWidth = Math.max(3, ...layout.labels.map((label) => label.length));
 
     output.push(`# Track: ${track.name ?? track.id}`);
 
-    const measures = renderTrackMeasures(track, document);
+    const measures = renderTrackMeasures(track, document, layout);
 
     for (const measure of measures) {
-      output.push(`// m${measure.measureIndex}`);
+      output.push(`// ${measure.label}`);
 
       measure.lines.forEach((line, lineIndex) => {
-        const label = lineLabels[lineIndex] ?? `S${lineIndex + 1}`;
-        output.push(`${label.padEnd(3, " ")}|${line}|`);
+        const label = layout.labels[lineIndex] ?? `S${lineIndex + 1}`;
+        output.push(`${label.padEnd(labelWidth, " ")}|${line}|`);
       });
+      if (measure.lyrics) {
+        output.push(`${"".padEnd(labelWidth, " ")} ${measure.lyrics}`);
+      }
     }
   }
 
   return output.join("\n");
 };
 
+type ChordDiagram = {
+  elements: string[];
+  width: number;
+  height: number;
+};
+
+const DIAGRAM_MIN_FRETS = 4;
+
+const collectUsedChords = (document: OpenTabDocument): ChordDefinition[] => {
+  const definitions = new Map(
+    (document.chords ?? []).map((chord) => [chord.name, chord])
+  );
+  const used = new Map<string, ChordDefinition>();
+  for (const measure of document.measures) {
+    for (const trackMeasure of Object.values(measure.tracks)) {
+      for (const events of Object.values(trackMeasure.voices)) {
+        for (const event of events) {
+          const definition =
+            event.type === "chord" && event.name
+              ? definitions.get(event.name)
+              : undefined;
+          if (definition && !used.has(definition.name)) {
+            used.set(definition.name, definition);
+          }
+        }
+      }
+    }
+  }
+  return [...used.values()];
+};
+
+const renderChordDiagram = (
+  chord: ChordDefinition,
+  x: number,
+  y: number,
+  fontSize: number
+): ChordDiagram => {
+  const stringCount = chord.frets.length;
+  const fretted = chord.frets.filter(
+    (fret): fret is number => fret !== "x" && fret > 0
+  );
+  const highest = Math.max(...fretted, 1);
+  const firstFret = highest > DIAGRAM_MIN_FRETS ? Math.min(...fretted) : 1;
+  const fretCount = Math.max(DIAGRAM_MIN_FRETS, highest - firstFret + 1);
+  const stringSpacing = fontSize;
+  const fretSpacing = Math.round(fontSize * 1.2);
+  const labelWidth = fontSize * 2;
+  const gridLeft = x + labelWidth;
+  const gridTop = y + Math.round(fontSize * 2.6);
+  const gridWidth = (stringCount - 1) * stringSpacing;
+  const gridHeight = fretCount * fretSpacing;
+  const stringX = (index: number): number => gridLeft + index * stringSpacing;
+  const fretY = (fret: number): number =>
+    gridTop + (fret - firstFret + 0.5) * fretSpacing;
+
+  const centerX = gridLeft + gridWidth / 2;
+  const elements: string[] = [
+    `<text x="${centerX}" y="${y}" text-anchor="middle">${escapeXml(
+      chord.name
+    )}</text>`,
+  ];
+  for (let index = 0; index < stringCount; index += 1) {
+    elements.push(
+      `<line x1="${stringX(index)}" y1="${gridTop}" x2="${stringX(index)}" y2="${
+        gridTop + gridHeight
+      }" stroke="#000" />`
+    );
+  }
+  for (let fret = 0; fret <= fretCount; fret += 1) {
+    const lineY = gridTop + fret * fretSpacing;
+    const strokeWidth = fret === 0 && firstFret === 1 ? 3 : 1;
+    elements.push(
+      `<line x1="${gridLeft}" y1="${lineY}" x2="${gridLeft + gridWidth}" y2="${
+        lineY
+      }" stroke="#000" stroke-width="${strokeWidth}" />`
+    );
+  }
+  if (firstFret > 1) {
+    elements.push(`<text x="${x}" y="${gridTop}">${firstFret}fr</text>`);
+  }
+
+  const radius = Math.round(stringSpacing * 0.35);
+  const barre = chord.barre;
+  if (barre) {
+    const left = stringX(stringCount - barre.from);
+    const right = stringX(stringCount - barre.to);
+    elements.push(
+      `<rect x="${Math.min(left, right) - radius}" y="${
+        fretY(barre.fret) - radius
+      }" width="${Math.abs(right - left) + radius * 2}" height="${
+        radius * 2
+      }" rx="${radius}" />`
+    );
+  }
+  chord.frets.forEach((fret, index) => {
+    const stringNumber = stringCount - index;
+    if (fret === "x" || fret === 0) {
+      elements.push(
+        `<text x="${stringX(index)}" y="${
+          y + Math.round(fontSize * 1.3)
+        }" text-anchor="middle">${fret === "x" ? "x" : "o"}</text>`
+      );
+    } else if (
+      !barre ||
+      fret !== barre.fret ||
+      stringNumber > Math.max(barre.from, barre.to) ||
+      stringNumber < Math.min(barre.from, barre.to)
+    ) {
+      elements.push(
+        `<circle cx="${stringX(index)}" cy="${fretY(fret)}" r="${radius}" />`
+      );
+    }
+    const finger = chord.fingers?.[index] ?? 0;
+    if (finger > 0) {
+      elements.push(
+        `<text x="${stringX(index)}" y="${
+          gridTop + gridHeight + Math.round(fontSize * 0.3)
+        }" text-anchor="middle">${finger}</text>`
+      );
+    }
+  });
+
+  return {
+    elements,
+    width: labelWidth + gridWidth + stringSpacing,
+    height: gridTop - y + gridHeight + Math.round(fontSize * 1.6),
+  };
+};
+
 export const toSvgTab = (
   document: OpenTabDocument,
   options: SvgRenderOptions = {},
@@ -176,12 +485,40 @@ export const toSvgTab = (
   );
   const charWidth = fontSize * DEFAULT_CHAR_WIDTH_RATIO;
 
-  const width = Math.max(1, Math.ceil(padding * 2 + maxLineLength * charWidth));
-  const height = Math.max(1, Math.ceil(padding * 2 + lines.length * lineHeight));
+  const diagrams: ChordDiagram[] = [];
+  if (options.chordDiagrams ?? true) {
+    let diagramX = padding;
+    for (const chord of collectUsedChords(document)) {
+      const diagram = renderChordDiagram(chord, diagramX, padding, fontSize);
+      diagrams.push(diagram);
+      diagramX += diagram.width + fontSize;
+    }
+  }
+  const diagramsWidth = diagrams.reduce(
+    (sum, diagram) => sum + diagram.width + fontSize,
+    0,
+  );
+  const diagramsHeight = diagrams.reduce(
+    (max, diagram) => Math.max(max, diagram.height),
+    0,
+  );
+
+  const width = Math.max(
+    1,
+    Math.ceil(padding * 2 + Math.max(maxLineLength * charWidth, diagramsWidth)),
+  );
+  const height = Math.max(
+    1,
+    Math.ceil(padding * 2 + diagramsHeight + lines.length * lineHeight),
+  );
+
+  const diagramElements = diagrams
+    .flatMap((diagram) => diagram.elements)
+    .join("");
 
   const textElements = lines
     .map((line, index) => {
-      const y = padding + index * lineHeight;
+      const y = padding + diagramsHeight + index * lineHeight;
       return `<text x="${padding}" y="${y}" xml:space="preserve">${escapeXml(
         line,
       )}</text>`;
@@ -202,6 +539,7 @@ export const toSvgTab = (
     }
   </style>
   ${backgroundRect}
+  ${diagramElements}
   ${textElements}
 </svg>`;
 
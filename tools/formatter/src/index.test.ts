@@ -6,7 +6,12 @@ import { describe, expect, it } from "vitest";
 
 import { parseOpenTab } from "../../parser/src/index.js";
 
-import { formatOtab } from "./index.js";
+import {
+  formatOtab,
+  OpenTabPrintError,
+  printOpenTab,
+  rewriteOpenTab,
+} from "./index.js";
 
 const currentDir = path.dirname(fileURLToPath(import.meta.url));
 const samplesDir = path.resolve(currentDir, "../../../samples");
@@ -30,7 +35,7 @@ describe("formatOtab", () => {
   it("expands duration carry consistently", () => {
     const input = [
       "format=\"opentab\"",
-      "version=\"0.1\"",
+      "version=\"0.2\"",
       "---",
       "@track gtr1",
       "m1: | q (6:3) (5:5) (4:5) (3:3) |",
@@ -43,4 +48,403 @@ describe("formatOtab", () => {
     );
     expect(formatOtab(formatted)).toBe(formatted);
   });
+
+  it("keeps dynamic marks without giving them durations", () => {
+    const input = [
+      "format=\"opentab\"",
+      "version=\"0.2\"",
+      "---",
+      "@track gtr1",
+      "m1: | !p q (3:0) !< (3:2) (3:4) !f (3:5) |",
+    ].join("\n");
+
+    expect(formatOtab(input)).toContain(
+      "m1: | !p q (3:0) !< q (3:2) q (3:4) !f q (3:5) |"
+    );
+  });
+
+  it("formats auto-numbered measures", () => {
+    const input = [
+      "format=\"opentab\"",
+      "version=\"0.2\"",
+      "---",
+      "@track gtr1",
+      "m+:  |  h (6:0) (5:2) |",
+    ].join("\n");
+
+    expect(formatOtab(input)).toContain("m+: | h (6:0) h (5:2) |");
+  });
+});
+
+/** Small seeded generator, so failures reproduce from the seed alone. */
+function mulberry32(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const TECHNIQUES = [
+  "h9", "p0", "/12", "\\1", "~", "b9", "b8r7", "pb9r7", "b[0:0,40:2,80:1]",
+  ".pm", ".lr", ".gh", ".ac", ".st", ".tap", ".slap", ".pop", ".nh", ".ph",
+  ".ah12", ".th17", ".tp", ".tp2", ".tr9",
+];
+
+/** Random source using every construct the printer has to write back. */
+function randomSource(seed: number): string {
+  const random = mulberry32(seed);
+  const chance = (probability: number): boolean => random() < probability;
+  const pick = <T>(items: readonly T[]): T =>
+    items[Math.floor(random() * items.length)];
+
+  const note = (): string => {
+    if (chance(0.1)) {
+      return `${pick([1, 2, 3, 4, 5, 6])}:x`;
+    }
+    const techniques = [
+      chance(0.5) ? pick(TECHNIQUES) : "",
+      chance(0.2) ? pick(["~", ".pm", ".lr", ".ac"]) : "",
+    ].join("");
+    return `${pick([1, 2, 3, 4, 5, 6])}:${pick([5, 7])}${techniques}`;
+  };
+  const annotations = (): string =>
+    chance(0.1) ? pick(['{text="Verse 1"}', "{bar=2, loud=true}"]) : "";
+  const event = (): string => {
+    const grace = chance(0.1) ? pick(["g", "ga"]) : "";
+    const roll = random();
+    if (roll < 0.15) {
+      return `r${annotations()}`;
+    }
+    if (roll < 0.3) {
+      const stroke = pick(["", "", ".down", ".up", ".arp", ".arp.down"]);
+      return `${grace}${pick(["[G]", "[Am]"])}${stroke}`;
+    }
+    if (roll < 0.4) {
+      return `${grace}[ (${note()}) (${note()}) ]${annotations()}`;
+    }
+    if (chance(0.15)) {
+      const tied = `${pick([1, 2, 3])}:${pick([5, 7])}`;
+      return `(${tied}_) (${tied}${chance(0.5) ? "_) (" + tied : ""})`;
+    }
+    return `${grace}(${note()})${annotations()}`;
+  };
+
+  let hairpin = false;
+  const measureContent = (): string => {
+    const tokens: string[] = [];
+    const count = 1 + Math.floor(random() * 5);
+    for (let index = 0; index < count; index += 1) {
+      if (hairpin && chance(0.5)) {
+        tokens.push(pick(["!", "!ff", "!>"]));
+        hairpin = tokens[tokens.length - 1] === "!>";
+      } else if (!hairpin && chance(0.15)) {
+        tokens.push(pick(["!p", "!mf", "!<"]));
+        hairpin = tokens[tokens.length - 1] === "!<";
+      }
+      if (index === 0 || chance(0.5)) {
+        tokens.push(pick(["w", "h", "q", "q.", "e", "e/3", "s", "q/5"]));
+      }
+      tokens.push(event());
+    }
+    return tokens.join(" ");
+  };
+
+  const voice = (
+    track: string,
+    voiceId: string,
+    content: () => string,
+    structure: boolean
+  ) => {
+    const lines = [`@track ${track} voice ${voiceId}`];
+    const written = new Set<number>();
+    let index = 1;
+    while (index <= 8) {
+      if (structure && chance(0.3)) {
+        lines.push(
+          pick(["@time 3/4", "@tempo 132", "@key F#m", "@segno", "@fine",
+            "@ending 1,2", "@dc al fine", "@ds al coda", "@coda", "@tocoda"])
+        );
+      }
+      const start = index;
+      const open = structure && chance(0.15) ? "|:" : "|";
+      const close =
+        structure && chance(0.15) ? pick([":|", ":|x3"]) : "|";
+      const roll = random();
+      if (roll < 0.1 && written.has(index - 1)) {
+        lines.push(`m${index}: ${open} % ${close}`);
+      } else if (
+        roll < 0.15 &&
+        written.has(index - 2) &&
+        written.has(index - 1)
+      ) {
+        lines.push(`m${index}: ${open} %2 ${close}`);
+        index += 1;
+      } else if (roll < 0.25) {
+        lines.push(`m${index}-m${index + 1}: ${open} w r ${close}`);
+        index += 1;
+      } else if (roll < 0.3) {
+        lines.push(`m${index}-m${index + 2}: ${open} ${content()} ${close}`);
+        index += 2;
+      } else if (roll > 0.95) {
+        lines.push(`m${index}: | |`);
+      } else {
+        lines.push(`m${index}: ${open} ${content()} ${close}`);
+      }
+      for (let measure = start; measure <= index; measure += 1) {
+        written.add(measure);
+      }
+      index += chance(0.1) ? 2 : 1;
+    }
+    return lines;
+  };
+
+  const guitar = voice("gtr1", "v1", measureContent, true);
+  if (hairpin) {
+    guitar.push("m20: | w !f (1:0) |");
+    hairpin = false;
+  }
+  guitar.push(
+    "m21: | q (1:0) (1:2) (1:3) (1:5) |",
+    "m22: | e (2:0) (2:1) g(2:2) (2:3) (2:5_) (2:5) q (3:2) |",
+    ...pick([
+      ["@lyrics gtr1 v1 m21: la _ li-la-lo _ _ love"],
+      ["@lyrics gtr1 v1 m21: oh", "@lyrics gtr1 v1 m22: yeah _ one two"],
+      [],
+    ])
+  );
+  const drums = voice("drums", "v2", () =>
+    ["[ (snare.ac) (hh_closed) ]", "g(snare.gh)", "(hh_open)"]
+      .filter(() => chance(0.7))
+      .reduce((content, hit) => `${content} ${hit}`, "e (kick)"),
+    false
+  );
+
+  return [
+    "# Generated",
+    'format="opentab"',
+    'version="0.2"',
+    `title=${JSON.stringify(`Song "${seed}" \\ é\t`)}`,
+    "tempo_bpm=96.5",
+    `time_signature="${pick(["4/4", "6/8"])}"`,
+    `key="${pick(["C", "Bb", "C#m"])}"`,
+    'swing="eighth"',
+    'label = { name = "x", "odd key" = [1, 2.5] }',
+    "",
+    "[[tracks]]",
+    'id="gtr1"',
+    'instrument="guitar"',
+    "capo=2",
+    "",
+    "[[tracks]]",
+    'id="drums"',
+    'kind="percussion"',
+    "",
+    "[[chords]]",
+    'name="G"',
+    "frets=[3,2,0,0,0,3]",
+    "",
+    "[[chords]]",
+    'name="Am"',
+    'frets=["x",0,2,2,1,0]',
+    "barre={ fret=1, from=2, to=1 }",
+    "---",
+    ...guitar,
+    ...drums,
+  ].join("\n");
+}
+
+const header = ['format="opentab"', 'version="0.2"', "---"];
+
+describe("printOpenTab", () => {
+  const sampleFiles = loadSampleFiles();
+
+  it.each(sampleFiles)("round-trips %s", (file) => {
+    const source = fs.readFileSync(path.join(samplesDir, file), "utf8");
+    const document = parseOpenTab(source);
+    const printed = printOpenTab(document);
+
+    expect(parseOpenTab(printed)).toEqual(document);
+    expect(formatOtab(printed)).toBe(printed);
+  });
+
+  it("round-trips generated documents", () => {
+    for (let seed = 1; seed <= 300; seed += 1) {
+      const document = parseOpenTab(randomSource(seed));
+      const printed = printOpenTab(document);
+
+      expect(parseOpenTab(printed), `seed ${seed}`).toEqual(document);
+      expect(formatOtab(printed), `seed ${seed}`).toBe(printed);
+    }
+  });
+
+  it("keeps measure shorthand and writes comments", () => {
+    const document = parseOpenTab(
+      [
+        ...header,
+        "@track gtr1",
+        "m1-m2: | q (6:0) (6:3) h (6:5) |",
+        "m3: | % |",
+        "m4-m6: | w r |",
+      ].join("\n")
+    );
+
+    expect(
+      printOpenTab(document, {
+        headerComments: ["Imported"],
+        measureComments: { 4: ["Outro"] },
+      })
+    ).toBe(
+      [
+        "# Imported",
+        ...header.slice(0, 2),
+        "tempo_bpm=120",
+        'time_signature="4/4"',
+        "",
+        "---",
+        "",
+        "@track gtr1 voice v1",
+        "m1-m3: | q (6:0) q (6:3) h (6:5) |",
+        "# Outro",
+        "m4-m6: | w r |",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("rejects documents with no source form", () => {
+    const document = parseOpenTab(
+      [...header, "@track gtr1", "m1: | w (6:0) |"].join("\n")
+    );
+    const [event] = document.measures[0].tracks.gtr1.voices.v1;
+    if (event.type === "note") {
+      event.note.annotations = { text: "here" };
+    }
+
+    expect(() => printOpenTab(document)).toThrow(OpenTabPrintError);
+  });
+});
+
+describe("rewriteOpenTab", () => {
+  const source = [
+    "format=\"opentab\"",
+    "version=\"0.2\"",
+    "",
+    "[[tracks]]",
+    "id=\"gtr1\"  # lead",
+    "---",
+    "# Riff",
+    "@define riff | q (6:0)  (6:3) h (6:5) |",
+    "@track gtr1",
+    "@key G",
+    "m1: | w   (4:2) |   ",
+    "@use riff",
+    "m3: | % |",
+  ].join("\n");
+  const parse = (text: string) => parseOpenTab(text, { positions: true });
+  const notesOf = (document: ReturnType<typeof parse>) =>
+    document.measures.flatMap((measure) => measure.tracks.gtr1.voices.v1);
+  const moveUp = (document: ReturnType<typeof parse>) => {
+    const changed = structuredClone(document);
+    for (const event of notesOf(changed)) {
+      if (event.type === "note") {
+        event.note.fret += 2;
+      }
+    }
+    return changed;
+  };
+
+  it("rewrites only the tokens, directives and header that change", () => {
+    const original = parse(source);
+    const changed = moveUp(original);
+    changed.measures[0].key = { fifths: 3, mode: "major" };
+    changed.tracks[0].capo = 2;
+
+    const rewritten = rewriteOpenTab(source, original, changed);
+
+    expect(rewritten).toBe(
+      [
+        "format=\"opentab\"",
+        "version=\"0.2\"",
+        "",
+        "[[tracks]]",
+        "id=\"gtr1\"  # lead",
+        "capo=2",
+        "---",
+        "# Riff",
+        "@define riff | q (6:2)  (6:5) h (6:7) |",
+        "@track gtr1",
+        "@key A",
+        "m1: | w   (4:4) |   ",
+        "@use riff",
+        "m3: | % |",
+      ].join("\n")
+    );
+    expect(parseOpenTab(rewritten)).toEqual(
+      JSON.parse(JSON.stringify(changed, (key, value) =>
+        key === "position" ? undefined : value
+      ))
+    );
+    expect(rewriteOpenTab(source, original, original)).toBe(source);
+  });
+
+  it("changes only the version line when nothing else in the header does", () => {
+    const original = parse(source);
+    const changed = { ...original, version: "0.1" as const };
+
+    expect(rewriteOpenTab(source, original, changed)).toBe(
+      source.replace("version=\"0.2\"", "version=\"0.1\"")
+    );
+  });
+
+  it("keeps header comments when a field or a table changes", () => {
+    const tuned = source.replace(
+      "id=\"gtr1\"  # lead",
+      "id=\"gtr1\"\n" +
+        "tuning=[\"E2\", \"A2\", \"D3\", \"G3\", \"B3\", \"E4\"]  # standard"
+    );
+    const original = parse(tuned);
+    const dropped = structuredClone(original);
+    dropped.tracks[0].tuning = ["D2", "A2", "D3", "G3", "B3", "E4"];
+    dropped.tracks[0].name = "Lead";
+
+    expect(rewriteOpenTab(tuned, original, dropped).split("---")[0]).toBe(
+      [
+        "format=\"opentab\"",
+        "version=\"0.2\"",
+        "",
+        "[[tracks]]",
+        "id=\"gtr1\"",
+        "tuning=[\"D2\",\"A2\",\"D3\",\"G3\",\"B3\",\"E4\"] # standard",
+        "name=\"Lead\"",
+        "",
+      ].join("\n")
+    );
+
+    const chorded = structuredClone(original);
+    chorded.chords = [{ name: "E5", frets: [0, 2, 2, "x", "x", "x"] }];
+    expect(rewriteOpenTab(tuned, original, chorded)).toMatch(
+      /^# standard\nformat="opentab"\n[^]*\n\[\[chords\]\]\nname="E5"\n/
+    );
+  });
+
+  it("rejects changes the source has no single place for", () => {
+    const original = parse(source);
+    const changed = structuredClone(original);
+    const [event] = changed.measures[2].tracks.gtr1.voices.v1;
+    if (event.type === "note") {
+      event.note.fret = 9;
+    }
+
+    expect(() => rewriteOpenTab(source, original, changed)).toThrow(
+      "Line 8 is played in more than one place and would change " +
+        "differently in each"
+    );
+    const unpositioned = parseOpenTab(source);
+    expect(() =>
+      rewriteOpenTab(source, unpositioned, moveUp(unpositioned))
+    ).toThrow(OpenTabPrintError);
+  });
 });
@@ -1,13 +1,27 @@
+import type {
+  Annotations,
+  BendPoint,
+  ChordDefinition,
+  ChordEvent,
+  Duration,
+  Event,
+  ExtensionValue,
+  Extensions,
+  KeySignature,
+  Lyric,
+  Measure,
+  MeasureShorthand,
+  NoteEvent,
+  NoteRef,
+  OpenTabDocument,
+  Technique,
+  TimeSignature,
+} from "@opentab/ast";
+
 export const packageName = "@opentab/formatter";
 
 const HEADER_DELIMITER = "---";
 
-interface Duration {
-  base: "w" | "h" | "q" | "e" | "s" | "t";
-  dots?: number;
-  tuplet?: number;
-}
-
 function parseDuration(token: string): Duration | null {
   const match = token.match(/^([whqest])(\.)?(?:\/(\d+))?$/);
   if (!match) {
@@ -25,7 +39,7 @@ function parseDuration(token: string): Duration | null {
 }
 
 function formatDuration(duration: Duration): string {
-  const dot = duration.dots ? "." : "";
+  const dot = ".".repeat(duration.dots ?? 0);
   const tuplet = duration.tuplet ? `/${duration.tuplet}` : "";
   return `${duration.base}${dot}${tuplet}`;
 }
@@ -76,6 +90,12 @@ function normalizeMeasureTokens(content: string): string {
       continue;
     }
 
+    // Dynamic marks take no time, so they never get a duration of their own.
+    if (token.startsWith("!")) {
+      output.push(token);
+      continue;
+    }
+
     if (currentDuration) {
       output.push(formatDuration(currentDuration), token);
     } else {
@@ -87,14 +107,16 @@ function normalizeMeasureTokens(content: string): string {
 }
 
 function formatMeasureLine(line: string): string | null {
-  const match = line.match(/^\s*m(\d+):\s*\|\s*(.*?)\s*\|\s*$/);
+  const match = line.match(
+    /^\s*m(\d+(?:-m\d+)?|\+):\s*\|(:?)\s*(.*?)\s*(:?)\|(x\d+)?\s*$/
+  );
   if (!match) {
     return null;
   }
-  const [, index, content] = match;
+  const [, index, repeatStart, content, repeatEnd, repeatTimes] = match;
   const normalized = normalizeMeasureTokens(content ?? "");
   const tokens = normalized ? ` ${normalized} ` : " ";
-  return `m${index}: |${tokens}|`;
+  return `m${index}: |${repeatStart}${tokens}${repeatEnd}|${repeatTimes ?? ""}`;
 }
 
 function splitInlineComment(line: string): { content: string; comment: string | null } {
@@ -170,3 +192,1160 @@ export function formatOtab(input: string): string {
     .map((line) => line.trimEnd())
     .join("\n");
 }
+
+export interface PrintOptions {
+  /** Comment lines, without the leading `#`, written above the header. */
+  headerComments?: string[];
+  /**
+   * Comment lines written before the first measure line that starts at the
+   * given measure index, ahead of its directives.
+   */
+  measureComments?: Record<number, string[]>;
+}
+
+export class OpenTabPrintError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OpenTabPrintError";
+  }
+}
+
+const formatComment = (text: string): string => (text ? `# ${text}` : "#");
+
+// JSON escapes are valid in TOML basic strings, which also escape DEL.
+const tomlString = (value: string): string =>
+  JSON.stringify(value).replace(/\u007f/g, "\\u007F");
+
+const tomlKey = (key: string): string =>
+  /^[A-Za-z0-9_-]+$/.test(key) ? key : tomlString(key);
+
+function tomlValue(value: ExtensionValue): string {
+  if (typeof value === "string") {
+    return tomlString(value);
+  }
+  if (typeof value === "number") {
+    if (Number.isNaN(value)) {
+      return "nan";
+    }
+    if (!Number.isFinite(value)) {
+      return value > 0 ? "inf" : "-inf";
+    }
+    return String(value);
+  }
+  if (typeof value === "boolean") {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(tomlValue).join(",")}]`;
+  }
+  const entries = Object.entries(value).map(
+    ([key, item]) => `${tomlKey(key)}=${tomlValue(item)}`
+  );
+  return entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+}
+
+const tomlField = (key: string, value: ExtensionValue | undefined): string[] =>
+  value === undefined ? [] : [`${tomlKey(key)}=${tomlValue(value)}`];
+
+const tomlExtensions = (extensions: Extensions | undefined): string[] =>
+  Object.entries(extensions ?? {}).flatMap(([key, value]) =>
+    tomlField(key, value)
+  );
+
+const formatTimeSignature = ({
+  numerator,
+  denominator,
+}: TimeSignature): string => `${numerator}/${denominator}`;
+
+/** Key names from seven flats to seven sharps. */
+const MAJOR_KEYS = [
+  "Cb", "Gb", "Db", "Ab", "Eb", "Bb", "F", "C",
+  "G", "D", "A", "E", "B", "F#", "C#",
+];
+const MINOR_KEYS = [
+  "Ab", "Eb", "Bb", "F", "C", "G", "D", "A",
+  "E", "B", "F#", "C#", "G#", "D#", "A#",
+];
+
+function formatKey(key: KeySignature): string {
+  const names = key.mode === "minor" ? MINOR_KEYS : MAJOR_KEYS;
+  const name = names[key.fifths + 7];
+  if (name === undefined) {
+    throw new OpenTabPrintError(`Invalid key signature: ${key.fifths} fifths`);
+  }
+  return key.mode === "minor" ? `${name}m` : name;
+}
+
+const HEADER_TEXT_FIELDS = [
+  "title",
+  "artist",
+  "album",
+  "composer",
+  "source",
+  "copyright",
+] as const;
+
+function printHeader(document: OpenTabDocument): string[] {
+  const { header } = document;
+  const lines = [
+    ...tomlField("format", document.format),
+    ...tomlField("version", document.version),
+    ...HEADER_TEXT_FIELDS.flatMap((field) => tomlField(field, header[field])),
+    ...tomlField("tempo_bpm", header.tempo_bpm),
+    ...tomlField(
+      "time_signature",
+      header.time_signature && formatTimeSignature(header.time_signature)
+    ),
+    ...tomlField("key", header.key && formatKey(header.key)),
+    ...tomlField("swing", header.swing),
+    ...tomlExtensions(header.extensions),
+  ];
+  for (const track of document.tracks) {
+    lines.push(
+      "",
+      "[[tracks]]",
+      ...tomlField("id", track.id),
+      ...tomlField("name", track.name),
+      ...tomlField("instrument", track.instrument),
+      ...tomlField("kind", track.kind),
+      ...tomlField("tuning", track.tuning),
+      ...tomlField("capo", track.capo),
+      ...tomlField("kit", track.kit),
+      ...tomlExtensions(track.extensions)
+    );
+  }
+  for (const chord of document.chords ?? []) {
+    const barre = chord.barre && {
+      fret: chord.barre.fret,
+      from: chord.barre.from,
+      to: chord.barre.to,
+    };
+    lines.push(
+      "",
+      "[[chords]]",
+      ...tomlField("name", chord.name),
+      ...tomlField("frets", chord.frets),
+      ...tomlField("fingers", chord.fingers),
+      ...tomlField("barre", barre),
+      ...tomlExtensions(chord.extensions)
+    );
+  }
+  return lines;
+}
+
+const NOTE_MODIFIERS = {
+  palm_mute: "pm",
+  let_ring: "lr",
+  ghost_note: "gh",
+  accent: "ac",
+  staccato: "st",
+  tap: "tap",
+  slap: "slap",
+  pop: "pop",
+} as const;
+
+/** The curve the parser gives a bend written without `[...]`. */
+function writtenBendCurve(
+  prebend: boolean,
+  fromFret: number,
+  toFret: number,
+  releaseFret: number | undefined
+): BendPoint[] {
+  const amount = (toFret - fromFret) * 2;
+  const release = ((releaseFret ?? fromFret) - fromFret) * 2;
+  if (prebend) {
+    return releaseFret === undefined
+      ? [{ position: 0, value: amount }]
+      : [
+          { position: 0, value: amount },
+          { position: 50, value: release },
+        ];
+  }
+  return releaseFret === undefined
+    ? [
+        { position: 0, value: 0 },
+        { position: 50, value: amount },
+      ]
+    : [
+        { position: 0, value: 0 },
+        { position: 25, value: amount },
+        { position: 50, value: amount },
+        { position: 75, value: release },
+      ];
+}
+
+function printBend(technique: Technique, fret: number): string {
+  const prebend =
+    technique.bendType === "prebend" ||
+    technique.bendType === "prebend_release";
+  const { toFret, releaseFret, points } = technique;
+  const text = `${prebend ? "pb" : "b"}${toFret ?? ""}`;
+  const written =
+    toFret === undefined
+      ? undefined
+      : writtenBendCurve(
+          prebend,
+          technique.fromFret ?? fret,
+          toFret,
+          releaseFret
+        );
+  if (points && JSON.stringify(points) !== JSON.stringify(written)) {
+    if (releaseFret !== undefined) {
+      throw new OpenTabPrintError(
+        "A bend with its own curve cannot also have a release fret"
+      );
+    }
+    const curve = points.map(({ position, value }) => `${position}:${value}`);
+    return `${text}[${curve.join(",")}]`;
+  }
+  if (toFret === undefined) {
+    throw new OpenTabPrintError("A bend needs a target fret or a curve");
+  }
+  return releaseFret === undefined ? text : `${text}r${releaseFret}`;
+}
+
+function printTechnique(technique: Technique, fret: number): string {
+  switch (technique.type) {
+    case "hammer_on":
+      return `h${technique.toFret}`;
+    case "pull_off":
+      return `p${technique.toFret}`;
+    case "slide":
+      return `${technique.direction === "down" ? "\\" : "/"}${technique.toFret}`;
+    case "vibrato":
+      return "~";
+    case "bend":
+      return printBend(technique, fret);
+    case "harmonic":
+      switch (technique.harmonicType) {
+        case "artificial":
+          return `.ah${technique.toFret}`;
+        case "tap":
+          return `.th${technique.toFret}`;
+        case "pinch":
+          return ".ph";
+        default:
+          return ".nh";
+      }
+    case "tremolo_picking":
+      return technique.marks === undefined || technique.marks === 3
+        ? ".tp"
+        : `.tp${technique.marks}`;
+    case "trill":
+      return `.tr${technique.toFret}`;
+    case "dead_note":
+      throw new OpenTabPrintError(
+        "A dead note must be the first technique of a note on fret 0"
+      );
+    default:
+      return `.${NOTE_MODIFIERS[technique.type]}`;
+  }
+}
+
+function printNoteRef(note: NoteRef): string {
+  if (note.annotations) {
+    throw new OpenTabPrintError(
+      `Note ${note.string}:${note.fret} has annotations; only events can ` +
+        "carry them in source"
+    );
+  }
+  const techniques = note.inlineTechniques ?? [];
+  const dead = techniques[0]?.type === "dead_note" && note.fret === 0;
+  let text = `${note.string}:${dead ? "x" : note.fret}`;
+  let fret = note.fret;
+  for (const technique of dead ? techniques.slice(1) : techniques) {
+    const written = printTechnique(technique, fret);
+    // `.pm` followed by `h7` would read as a modifier named `pmh`.
+    if (/^[a-z]/.test(written) && /\.[a-z]+$/.test(text)) {
+      if (!text.endsWith(".tp")) {
+        throw new OpenTabPrintError(
+          `Cannot write ${written} right after a modifier in note ${text}`
+        );
+      }
+      text += "3";
+    }
+    text += written;
+    if (
+      technique.type === "hammer_on" ||
+      technique.type === "pull_off" ||
+      technique.type === "slide"
+    ) {
+      fret = technique.toFret ?? fret;
+    }
+  }
+  if (note.tie === "start" || note.tie === "continue") {
+    text += "_";
+  }
+  return text;
+}
+
+/** Whether `[Name]` expands to exactly these notes. */
+function matchesChordDefinition(
+  notes: NoteRef[],
+  definition: ChordDefinition
+): boolean {
+  const stringCount = definition.frets.length;
+  const expected = definition.frets.flatMap((fret, index) =>
+    fret === "x" ? [] : [{ string: stringCount - index, fret }]
+  );
+  return (
+    notes.length === expected.length &&
+    notes.every(
+      (note, index) =>
+        note.string === expected[index].string &&
+        note.fret === expected[index].fret &&
+        !note.inlineTechniques &&
+        !note.annotations &&
+        (note.tie === undefined || note.tie === "stop")
+    )
+  );
+}
+
+function printChordNotes(
+  event: ChordEvent,
+  chords: Map<string, ChordDefinition>
+): string {
+  if (event.name === undefined) {
+    const notes = event.chord.map((note) => `(${printNoteRef(note)})`);
+    return `[ ${notes.join(" ")} ]`;
+  }
+  const definition = chords.get(event.name);
+  if (!definition || !matchesChordDefinition(event.chord, definition)) {
+    throw new OpenTabPrintError(
+      `Chord ${event.name} does not match its [[chords]] definition`
+    );
+  }
+  return `[${event.name}]`;
+}
+
+function printAnnotations(annotations: Annotations | undefined): string {
+  const entries = Object.entries(annotations ?? {}).map(([key, value]) =>
+    typeof value === "string" ? `${key}="${value}"` : `${key}=${value}`
+  );
+  return entries.length > 0 ? `{${entries.join(", ")}}` : "";
+}
+
+function printEventToken(
+  event: Event,
+  chords: Map<string, ChordDefinition>
+): string {
+  if (event.type === "rest") {
+    return `r${printAnnotations(event.annotations)}`;
+  }
+  const grace =
+    event.grace === "appoggiatura" ? "ga" : event.grace ? "g" : "";
+  let body: string;
+  if (event.type === "note") {
+    body = `(${printNoteRef(event.note)})`;
+  } else if (event.type === "hit") {
+    const hits = event.hits.map((hit) => {
+      const articulation =
+        hit.articulation === "accent"
+          ? ".ac"
+          : hit.articulation === "ghost"
+            ? ".gh"
+            : "";
+      return `(${hit.lane}${articulation})`;
+    });
+    body = hits.length === 1 ? hits[0] : `[ ${hits.join(" ")} ]`;
+  } else {
+    const direction = event.stroke?.direction ? `.${event.stroke.direction}` : "";
+    const stroke =
+      event.stroke?.type === "arpeggio" ? `.arp${direction}` : direction;
+    body = `${printChordNotes(event, chords)}${stroke}`;
+  }
+  return `${grace}${body}${printAnnotations(event.annotations)}`;
+}
+
+interface VoiceState {
+  chords: Map<string, ChordDefinition>;
+  /** A hairpin has started and not ended, as the parser tracks it. */
+  hairpin: boolean;
+}
+
+function printDynamicMarks(event: Event, voice: VoiceState): string[] {
+  const marks: string[] = [];
+  // A dynamic or a new hairpin ends the open hairpin by itself.
+  if (
+    event.hairpin_end &&
+    !(voice.hairpin && (event.dynamic || event.hairpin))
+  ) {
+    marks.push("!");
+  }
+  if (event.dynamic) {
+    marks.push(`!${event.dynamic}`);
+  }
+  if (event.hairpin) {
+    marks.push(event.hairpin === "crescendo" ? "!<" : "!>");
+  }
+  voice.hairpin =
+    event.hairpin !== undefined ||
+    (voice.hairpin && !event.hairpin_end && !event.dynamic);
+  return marks;
+}
+
+function printEvents(events: Event[], voice: VoiceState): string {
+  return events
+    .map((event) =>
+      [
+        ...printDynamicMarks(event, voice),
+        formatDuration(event.duration),
+        printEventToken(event, voice.chords),
+      ].join(" ")
+    )
+    .join(" ");
+}
+
+interface VoiceMeasure {
+  measure: Measure;
+  events: Event[];
+  shorthand?: MeasureShorthand;
+}
+
+interface VoiceBlock {
+  track: string;
+  voice: string;
+  measures: VoiceMeasure[];
+}
+
+/** One `mN:` line, covering `first` to `last`. */
+interface MeasureLine {
+  first: VoiceMeasure;
+  last: VoiceMeasure;
+  /** Written as `%N`; otherwise the events of `first` are written. */
+  repeat?: number;
+}
+
+/** Voices in header track order, each with its measures in index order. */
+function collectVoices(document: OpenTabDocument): VoiceBlock[] {
+  const blocks = new Map<string, VoiceBlock>();
+  const measures = [...document.measures].sort((a, b) => a.index - b.index);
+  for (const measure of measures) {
+    for (const [track, trackMeasure] of Object.entries(measure.tracks)) {
+      for (const [voice, events] of Object.entries(trackMeasure.voices)) {
+        const key = `${track}/${voice}`;
+        const block = blocks.get(key) ?? { track, voice, measures: [] };
+        blocks.set(key, block);
+        block.measures.push({
+          measure,
+          events,
+          shorthand: trackMeasure.shorthand?.[voice],
+        });
+      }
+    }
+  }
+  const trackIds = document.tracks.map((track) => track.id);
+  const rank = (id: string): number =>
+    trackIds.includes(id) ? trackIds.indexOf(id) : trackIds.length;
+  return [...blocks.values()].sort((a, b) => rank(a.track) - rank(b.track));
+}
+
+/**
+ * Events as `%` and measure ranges copy them: positions and lyrics are not
+ * copied, and ties are linked again after copying.
+ */
+const copyKey = (events: Event[]): string =>
+  JSON.stringify(events, (key, value: unknown) => {
+    if (key === "lyric" || (key === "position" && typeof value === "object")) {
+      return undefined;
+    }
+    if (key === "tie") {
+      return value === "stop" ? undefined : "start";
+    }
+    return value;
+  });
+
+const MEASURE_DIRECTIVE_FIELDS = [
+  "time_signature",
+  "tempo_bpm",
+  "key",
+  "ending",
+  "markers",
+  "jump",
+] as const;
+
+const hasDirectives = (measure: Measure): boolean =>
+  MEASURE_DIRECTIVE_FIELDS.some((field) => measure[field] !== undefined);
+
+/**
+ * Groups a voice's measures into lines, keeping `%`, `%N` and multi-measure
+ * rests, and writing repeated content as an `mA-mB:` range where nothing
+ * needs to start inside it.
+ */
+function splitMeasureLines(block: VoiceBlock): MeasureLine[] {
+  const { measures } = block;
+  const byIndex = new Map(
+    measures.map((entry) => [entry.measure.index, entry])
+  );
+  const lines: MeasureLine[] = [];
+  let position = 0;
+  while (position < measures.length) {
+    const first = measures[position];
+    const { shorthand } = first;
+    if (shorthand) {
+      const span = shorthand.measures;
+      const covered = measures.slice(position, position + span);
+      const isSpan =
+        span >= 1 &&
+        covered.length === span &&
+        covered.every(
+          (entry, offset) =>
+            entry.measure.index === first.measure.index + offset &&
+            (offset === 0 || !entry.shorthand)
+        );
+      const isRest =
+        shorthand.type === "rest" &&
+        span > 1 &&
+        covered.every((entry) => copyKey(entry.events) === copyKey(first.events));
+      const isRepeat =
+        shorthand.type === "repeat" &&
+        covered.every((entry) => {
+          const source = byIndex.get(entry.measure.index - span);
+          return source && copyKey(source.events) === copyKey(entry.events);
+        });
+      if (isSpan && (isRest || isRepeat)) {
+        lines.push({
+          first,
+          last: covered[span - 1],
+          repeat: isRepeat ? span : undefined,
+        });
+        position += span;
+        continue;
+      }
+    }
+
+    // A range of rests would read back as a multi-measure rest.
+    const repeatable = first.events.some((event) => event.type !== "rest");
+    let end = position;
+    while (repeatable && end + 1 < measures.length) {
+      const previous = measures[end].measure;
+      const next = measures[end + 1];
+      if (
+        next.measure.index !== previous.index + 1 ||
+        next.shorthand?.type !== "repeat" ||
+        next.shorthand.measures !== 1 ||
+        previous.repeat_end ||
+        next.measure.repeat_start ||
+        hasDirectives(next.measure) ||
+        copyKey(next.events) !== copyKey(first.events)
+      ) {
+        break;
+      }
+      end += 1;
+    }
+    lines.push({ first, last: measures[end] });
+    position = end + 1;
+  }
+  return lines;
+}
+
+function printMeasureDirectives(measure: Measure): string[] {
+  const lines: string[] = [];
+  if (measure.time_signature) {
+    lines.push(`@time ${formatTimeSignature(measure.time_signature)}`);
+  }
+  if (measure.tempo_bpm !== undefined) {
+    lines.push(`@tempo ${measure.tempo_bpm}`);
+  }
+  if (measure.key) {
+    lines.push(`@key ${formatKey(measure.key)}`);
+  }
+  if (measure.ending) {
+    lines.push(`@ending ${measure.ending.join(",")}`);
+  }
+  for (const marker of measure.markers ?? []) {
+    lines.push(`@${marker === "to_coda" ? "tocoda" : marker}`);
+  }
+  if (measure.jump) {
+    const until = measure.jump.until ? ` al ${measure.jump.until}` : "";
+    lines.push(`@${measure.jump.to === "start" ? "dc" : "ds"}${until}`);
+  }
+  return lines;
+}
+
+function printMeasureLine(line: MeasureLine, voice: VoiceState): string {
+  const first = line.first.measure;
+  const last = line.last.measure;
+  const label =
+    first === last || line.repeat !== undefined
+      ? `m${first.index}`
+      : `m${first.index}-m${last.index}`;
+  const open = first.repeat_start ? "|:" : "|";
+  const times = last.repeat_times === undefined ? "" : `x${last.repeat_times}`;
+  const close = last.repeat_end ? `:|${times}` : "|";
+  const content =
+    line.repeat === undefined
+      ? printEvents(line.first.events, voice)
+      : `%${line.repeat > 1 ? line.repeat : ""}`;
+  return `${label}: ${open} ${content ? `${content} ` : ""}${close}`;
+}
+
+/** Notes and chords that take a syllable, as the parser assigns lyrics. */
+function takesSyllable(event: Event): event is NoteEvent | ChordEvent {
+  if (event.type === "rest" || event.type === "hit" || event.grace) {
+    return false;
+  }
+  const notes = event.type === "note" ? [event.note] : event.chord;
+  return !notes.every((note) => note.tie === "stop" || note.tie === "continue");
+}
+
+/**
+ * Writes a voice's lyrics as `@lyrics` lines. A line runs on while every
+ * note has a syllable or holds the previous one with `_`; after a gap the
+ * next line starts at the measure of the next syllable.
+ */
+function printLyrics(block: VoiceBlock): string[] {
+  const targets: Array<{ measure: number; lyric?: Lyric }> = [];
+  for (const { measure, events } of block.measures) {
+    for (const event of events) {
+      if (takesSyllable(event)) {
+        targets.push({ measure: measure.index, lyric: event.lyric });
+      } else if ("lyric" in event && event.lyric) {
+        throw new OpenTabPrintError(
+          `A lyric in measure ${measure.index} of track ${block.track} ` +
+            `voice ${block.voice} is on an event that cannot take one`
+        );
+      }
+    }
+  }
+  const nextSyllable = (from: number): number =>
+    targets.findIndex((target, index) => index >= from && target.lyric);
+
+  const lines: string[] = [];
+  let words: string[] = [];
+  let anchor: number | undefined;
+  let joinNext = false;
+  const flush = (): void => {
+    if (words.length > 0) {
+      const measure = anchor === undefined ? "" : ` m${anchor}`;
+      lines.push(
+        `@lyrics ${block.track} ${block.voice}${measure}: ${words.join(" ")}`
+      );
+    }
+    words = [];
+    joinNext = false;
+  };
+
+  let cursor = 0;
+  let previous: Lyric | undefined;
+  let held = false;
+  while (cursor < targets.length) {
+    const { lyric } = targets[cursor];
+    if (lyric) {
+      if (joinNext) {
+        words[words.length - 1] += `-${lyric.text}`;
+      } else {
+        words.push(lyric.text);
+      }
+      joinNext = lyric.syllabic === "begin" || lyric.syllabic === "middle";
+      previous = lyric;
+      held = false;
+      cursor += 1;
+      continue;
+    }
+    const following = nextSyllable(cursor);
+    if (previous?.extend && !(held && following === -1)) {
+      words.push("_");
+      joinNext = false;
+      held = true;
+      cursor += 1;
+      continue;
+    }
+    if (following === -1) {
+      break;
+    }
+    const measure = targets[following].measure;
+    const start = targets.findIndex((target) => target.measure === measure);
+    const before = targets[start - 1]?.lyric;
+    if (start < cursor || (start < following && !before?.extend)) {
+      throw new OpenTabPrintError(
+        `Lyrics of track ${block.track} voice ${block.voice} skip a note ` +
+          `in measure ${measure}`
+      );
+    }
+    flush();
+    anchor = measure;
+    cursor = start;
+    previous = before;
+    held = false;
+  }
+  flush();
+  return lines;
+}
+
+function printBody(document: OpenTabDocument, options: PrintOptions): string[] {
+  const chords = new Map(
+    (document.chords ?? []).map((chord) => [chord.name, chord])
+  );
+  const written = new Set<number>();
+  const starts = new Set<number>();
+  const ends = new Set<number>();
+  const lines: string[] = [];
+  for (const block of collectVoices(document)) {
+    if (lines.length > 0) {
+      lines.push("");
+    }
+    lines.push(`@track ${block.track} voice ${block.voice}`);
+    const voice: VoiceState = { chords, hairpin: false };
+    for (const line of splitMeasureLines(block)) {
+      const { measure } = line.first;
+      if (!written.has(measure.index)) {
+        written.add(measure.index);
+        const comments = options.measureComments?.[measure.index] ?? [];
+        lines.push(
+          ...comments.map(formatComment),
+          ...printMeasureDirectives(measure)
+        );
+      }
+      starts.add(measure.index);
+      ends.add(line.last.measure.index);
+      lines.push(printMeasureLine(line, voice));
+    }
+    lines.push(...printLyrics(block));
+  }
+
+  for (const measure of document.measures) {
+    if (
+      (hasDirectives(measure) && !written.has(measure.index)) ||
+      (measure.repeat_start && !starts.has(measure.index)) ||
+      (measure.repeat_end && !ends.has(measure.index))
+    ) {
+      throw new OpenTabPrintError(
+        `Measure ${measure.index} falls inside a measure range in every ` +
+          "voice, so its directives and barlines cannot be written"
+      );
+    }
+  }
+  return lines;
+}
+
+/**
+ * Writes a document as formatted OpenTab source. Parsing the result gives
+ * back the same document, apart from source positions, and keeps `%` signs
+ * and multi-measure rests. Content with no source form, such as annotations
+ * on one note of a chord, throws an `OpenTabPrintError`.
+ */
+export function printOpenTab(
+  document: OpenTabDocument,
+  options: PrintOptions = {}
+): string {
+  const header = [
+    ...(options.headerComments ?? []).map(formatComment),
+    ...printHeader(document),
+  ];
+  const body = printBody(document, options);
+  const lines = [...header, "", HEADER_DELIMITER, ""];
+  // An empty body ends at the delimiter, as formatOtab leaves it.
+  return (body.length > 0 ? [...lines, ...body, ""] : lines).join("\n");
+}
+
+/** JSON without source spans; bend points keep their numeric `position`. */
+const withoutSpans = (value: unknown): string =>
+  JSON.stringify(value, (key, entry) =>
+    key === "position" && typeof entry === "object" ? undefined : entry
+  );
+
+/** Event fields written outside the event's own token. */
+const OUTSIDE_TOKEN = [
+  "duration",
+  "dynamic",
+  "hairpin",
+  "hairpin_end",
+  "lyric",
+] as const;
+
+function splitEvent(event: Event): { token: string; outside: string } {
+  const fields = Object.entries(event);
+  const outside = (key: string) =>
+    (OUTSIDE_TOKEN as readonly string[]).includes(key);
+  return {
+    token: withoutSpans(fields.filter(([key]) => !outside(key))),
+    outside: withoutSpans(fields.filter(([key]) => outside(key))),
+  };
+}
+
+const directiveName = (line: string): string | undefined =>
+  line.trim().match(/^@(\S+)/)?.[1];
+
+const MEASURE_DIRECTIVES = new Set([
+  "time",
+  "tempo",
+  "key",
+  "ending",
+  "segno",
+  "coda",
+  "fine",
+  "tocoda",
+  "dc",
+  "ds",
+]);
+
+/**
+ * Replaces the 0-based `line` from `column` up to `end` with `text`, or keeps
+ * it when `text` is undefined.
+ */
+interface TokenEdit {
+  line: number;
+  column: number;
+  end: number;
+  text?: string;
+}
+
+interface MeasureSource {
+  /** Line of the first `mN:` line that starts the measure. */
+  line: number;
+  /** Lines of the measure directives written in front of its lines. */
+  directives: number[];
+}
+
+/**
+ * Finds the measure lines of the body and the directives ahead of each.
+ * Directives ahead of `m+:` or a `@use` without a measure number are left
+ * out, as the measure they apply to is not written down.
+ */
+function locateMeasures(
+  lines: string[],
+  bodyStart: number
+): Map<number, MeasureSource> {
+  const measures = new Map<number, MeasureSource>();
+  let pending: number[] = [];
+  for (let line = bodyStart; line < lines.length; line += 1) {
+    const text = lines[line].trim();
+    const name = directiveName(text);
+    if (name !== undefined && MEASURE_DIRECTIVES.has(name)) {
+      pending.push(line);
+      continue;
+    }
+    const start =
+      text.match(/^m(\d+)(?:-m\d+)?:/)?.[1] ??
+      text.match(/^@use\s+\S+\s+m(\d+)$/)?.[1];
+    if (start !== undefined) {
+      const measure = measures.get(Number(start)) ?? { line, directives: [] };
+      measure.directives.push(...pending);
+      measures.set(Number(start), measure);
+      pending = [];
+    } else if (text.startsWith("m+") || name === "use") {
+      pending = [];
+    }
+  }
+  return measures;
+}
+
+/** Text after `#` outside TOML strings, one entry per commented line. */
+function tomlComments(lines: string[]): string[] {
+  return lines.flatMap((line) => {
+    let quote: string | null = null;
+    for (let index = 0; index < line.length; index += 1) {
+      const char = line[index];
+      if (quote === "\"" && char === "\\") {
+        index += 1;
+      } else if (quote !== null) {
+        quote = char === quote ? null : quote;
+      } else if (char === "\"" || char === "'") {
+        quote = char;
+      } else if (char === "#") {
+        return [line.slice(index + 1).trim()];
+      }
+    }
+    return [];
+  });
+}
+
+const headerOf = (document: OpenTabDocument): string =>
+  withoutSpans({
+    format: document.format,
+    version: document.version,
+    header: document.header,
+    tracks: document.tracks,
+    chords: document.chords,
+  });
+
+/** Splits header lines before each `[[table]]`; the first part is top level. */
+function headerSections(lines: string[]): string[][] {
+  const sections: string[][] = [[]];
+  for (const line of lines) {
+    if (line.trim().startsWith("[")) {
+      sections.push([]);
+    }
+    sections[sections.length - 1].push(line);
+  }
+  return sections;
+}
+
+/** The key a TOML line sets, without quotes. */
+const tomlLineKey = (line: string): string | undefined =>
+  line
+    .match(/^\s*("[^"]*"|'[^']*'|[\w-]+)\s*=/)?.[1]
+    .replace(/^(["'])(.*)\1$/, "$2");
+
+/** Whether a TOML value ends on its own line. */
+function endsOnLine(line: string): boolean {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quote === "\"" && char === "\\") {
+      index += 1;
+    } else if (quote !== null) {
+      quote = char === quote ? null : quote;
+    } else if (char === "\"" || char === "'") {
+      quote = line.startsWith(char.repeat(3), index) ? "" : char;
+    } else if (char === "#") {
+      break;
+    } else if (char === "[" || char === "{") {
+      depth += 1;
+    } else if (char === "]" || char === "}") {
+      depth -= 1;
+    }
+  }
+  return depth === 0 && quote === null;
+}
+
+/**
+ * Edits the header lines of the fields that differ between the two
+ * documents, keeping their comments. Returns undefined when the tables
+ * differ or a field spans several lines.
+ */
+function editHeader(
+  lines: string[],
+  original: OpenTabDocument,
+  changed: OpenTabDocument
+): string[] | undefined {
+  const source = headerSections(lines);
+  const before = headerSections(printHeader(original));
+  const after = headerSections(printHeader(changed));
+  const tables = (sections: string[][]) =>
+    sections.map((section) => section[0]?.trim()).slice(1);
+  if (
+    source.length !== after.length ||
+    tables(source).join() !== tables(before).join() ||
+    tables(before).join() !== tables(after).join()
+  ) {
+    return undefined;
+  }
+  const fields = (section: string[]) =>
+    new Map(
+      section.flatMap((line) => {
+        const key = tomlLineKey(line);
+        return key === undefined ? [] : [[key, line] as const];
+      })
+    );
+  const edited: string[] = [];
+  for (const [index, section] of source.entries()) {
+    const from = fields(before[index]);
+    const to = fields(after[index]);
+    const rewritten: Array<string | undefined> = [...section];
+    const added: string[] = [];
+    for (const key of new Set([...from.keys(), ...to.keys()])) {
+      const text = to.get(key);
+      if (from.get(key) === text) {
+        continue;
+      }
+      const at = section.findIndex((line) => tomlLineKey(line) === key);
+      if (at === -1) {
+        added.push(...(text === undefined ? [] : [text]));
+        continue;
+      }
+      if (!endsOnLine(section[at])) {
+        return undefined;
+      }
+      const indent = section[at].match(/^\s*/)?.[0] ?? "";
+      const [comment] = tomlComments([section[at]]);
+      rewritten[at] =
+        text && `${indent}${text}${comment === undefined ? "" : ` # ${comment}`}`;
+    }
+    let last = rewritten.length;
+    while (last > 0 && !rewritten[last - 1]?.trim()) {
+      last -= 1;
+    }
+    rewritten.splice(last, 0, ...added);
+    edited.push(
+      ...rewritten.filter((line): line is string => line !== undefined)
+    );
+  }
+  return edited;
+}
+
+/**
+ * The header lines of `changed`: the fields that differ are edited in place,
+ * or the whole header is printed again, with its comments first, when its
+ * tables change.
+ */
+function rewriteHeader(
+  lines: string[],
+  original: OpenTabDocument,
+  changed: OpenTabDocument
+): string[] {
+  if (headerOf(original) === headerOf(changed)) {
+    return lines;
+  }
+  const edited = editHeader(lines, original, changed);
+  if (edited) {
+    return edited;
+  }
+  let end = lines.length;
+  while (end > 0 && lines[end - 1].trim() === "") {
+    end -= 1;
+  }
+  return [
+    ...tomlComments(lines.slice(0, end)).map(formatComment),
+    ...printHeader(changed),
+    ...lines.slice(end),
+  ];
+}
+
+/**
+ * Writes the changes from `original` to `changed` into `source`, which
+ * `original` was parsed from with `positions`. Only the event tokens,
+ * measure directives and header that differ are rewritten, so comments,
+ * layout and macros stay as they are; an event written once in a macro or
+ * repeated with `%` is edited once. The documents must hold the same
+ * measures and events, as after a transform or migration. Changes the
+ * source has no single place for throw an `OpenTabPrintError`.
+ */
+export function rewriteOpenTab(
+  source: string,
+  original: OpenTabDocument,
+  changed: OpenTabDocument
+): string {
+  const eol = source.includes("\r\n") ? "\r\n" : "\n";
+  const lines = source.split(/\r?\n/);
+  const delimiter = lines.findIndex(
+    (line) => line.trim() === HEADER_DELIMITER
+  );
+  const bodyStart = delimiter + 1;
+  const includes = lines
+    .slice(bodyStart)
+    .some((line) => directiveName(line) === "include");
+  if (includes && withoutSpans(original) !== withoutSpans(changed)) {
+    throw new OpenTabPrintError(
+      "Cannot rewrite source with @include in place, as some of its events " +
+        "are written in other files"
+    );
+  }
+  if (original.measures.length !== changed.measures.length) {
+    throw new OpenTabPrintError("The documents have different measures");
+  }
+
+  const chords = (document: OpenTabDocument) =>
+    new Map((document.chords ?? []).map((chord) => [chord.name, chord]));
+  const changedChords = chords(changed);
+  const tokenEdits = new Map<string, TokenEdit>();
+  /** Directive lines to rewrite, or to drop when undefined. */
+  const replaced = new Map<number, string | undefined>();
+  const inserted = new Map<number, string[]>();
+  const located = locateMeasures(lines, bodyStart);
+
+  original.measures.forEach((measure, position) => {
+    const next = changed.measures[position];
+    const where = `measure ${measure.index}`;
+    const repeats = ({ repeat_start, repeat_end, repeat_times }: Measure) =>
+      withoutSpans({ repeat_start, repeat_end, repeat_times });
+    if (next.index !== measure.index || repeats(measure) !== repeats(next)) {
+      throw new OpenTabPrintError(`The documents differ in ${where}`);
+    }
+
+    const before = printMeasureDirectives(measure);
+    const after = printMeasureDirectives(next);
+    if (before.join("\n") !== after.join("\n")) {
+      const measureSource = located.get(measure.index);
+      if (!measureSource) {
+        throw new OpenTabPrintError(
+          `The directives of ${where} cannot be found in the source`
+        );
+      }
+      const named = (directives: string[], name?: string) =>
+        directives.find((text) => directiveName(text) === name);
+      const written = new Set<string | undefined>();
+      for (const line of measureSource.directives) {
+        const name = directiveName(lines[line]);
+        const rewritten = named(after, name);
+        written.add(name);
+        if (rewritten !== named(before, name)) {
+          const indent = lines[line].match(/^\s*/)?.[0] ?? "";
+          replaced.set(line, rewritten && indent + rewritten);
+        }
+      }
+      const indent = lines[measureSource.line].match(/^\s*/)?.[0] ?? "";
+      inserted.set(
+        measureSource.line,
+        after
+          .filter((text) => !written.has(directiveName(text)))
+          .map((text) => indent + text)
+      );
+    }
+
+    for (const [track, trackMeasure] of Object.entries(measure.tracks)) {
+      for (const [voice, events] of Object.entries(trackMeasure.voices)) {
+        const nextEvents = next.tracks[track]?.voices[voice] ?? [];
+        if (nextEvents.length !== events.length) {
+          throw new OpenTabPrintError(
+            `The documents differ in ${where} of track ${track} voice ${voice}`
+          );
+        }
+        events.forEach((event, index) => {
+          const from = splitEvent(event);
+          const to = splitEvent(nextEvents[index]);
+          const span = event.position;
+          const unchanged = from.token === to.token;
+          if (from.outside !== to.outside || (!span && !unchanged)) {
+            throw new OpenTabPrintError(
+              `Event ${index + 1} of track ${track} voice ${voice} in ` +
+                `${where} cannot be rewritten in place`
+            );
+          }
+          if (!span) {
+            return;
+          }
+          // Unchanged events hold their token, so a macro or `%` repeat
+          // changed in only some of its uses is caught.
+          const text = unchanged
+            ? undefined
+            : printEventToken(nextEvents[index], changedChords);
+          const key = `${span.start.line}:${span.start.column}`;
+          const edit = tokenEdits.get(key);
+          if (edit && edit.text !== text) {
+            throw new OpenTabPrintError(
+              `Line ${span.start.line} is played in more than one place and ` +
+                "would change differently in each"
+            );
+          }
+          tokenEdits.set(key, {
+            line: span.start.line - 1,
+            column: span.start.column - 1,
+            end: span.end.column - 1,
+            text,
+          });
+        });
+      }
+    }
+  });
+
+  const edited = [...lines];
+  const byLine = [...tokenEdits.values()].sort(
+    (a, b) => a.line - b.line || b.column - a.column
+  );
+  for (const { line, column, end, text } of byLine) {
+    if (text === undefined) {
+      continue;
+    }
+    edited[line] =
+      edited[line].slice(0, column) + text + edited[line].slice(end);
+  }
+  const body = edited.slice(bodyStart).flatMap((text, offset) => {
+    const line = bodyStart + offset;
+    const rewritten = replaced.has(line) ? replaced.get(line) : text;
+    return [
+      ...(inserted.get(line) ?? []),
+      ...(rewritten === undefined ? [] : [rewritten]),
+    ];
+  });
+  if (delimiter === -1) {
+    return body.join(eol);
+  }
+  return [
+    ...rewriteHeader(edited.slice(0, delimiter), original, changed),
+    edited[delimiter],
+    ...body,
+  ].join(eol);
+}
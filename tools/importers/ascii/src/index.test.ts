@@ -21,7 +21,28 @@ describe("importAsciiTab", () => {
     expect(result.warnings.length).toBeGreaterThanOrEqual(1);
     expect(() => parseOpenTab(result.otab)).not.toThrow();
     expect(result.otab).toMatchInlineSnapshot(`
-      "format=\"opentab\"\nversion=\"0.1\"\ntitle=\"Sweet Child O' Mine (Intro)\"\ntempo_bpm=120\ntime_signature=\"4/4\"\nimported_from=\"ascii\"\nimport_warnings=6\n\n[[tracks]]\nid=\"gtr1\"\nname=\"Guitar\"\ninstrument=\"guitar\"\ntuning=[\"Eb2\",\"Ab2\",\"Db3\",\"Gb3\",\"Bb3\",\"Eb4\"]\n\n---\n\n@track gtr1 voice v1\n# Title: Sweet Child O' Mine (Intro)\n# [Intro]\nm1: | e (6:0){rhythm=\"unknown\"} e (6:0){rhythm=\"unknown\"} e (5:2){rhythm=\"unknown\"} e (5:4){rhythm=\"unknown\"} e (4:2){rhythm=\"unknown\"} e (5:4){rhythm=\"unknown\"} e (5:2){rhythm=\"unknown\"} |\nm2: | e (6:0){rhythm=\"unknown\"} e (6:0){rhythm=\"unknown\"} e (5:2){rhythm=\"unknown\"} e (5:4){rhythm=\"unknown\"} e (4:2){rhythm=\"unknown\"} e (5:4){rhythm=\"unknown\"} e (5:2){rhythm=\"unknown\"} |"
+      "format="opentab"
+      version="0.2"
+      title="Sweet Child O' Mine (Intro)"
+      tempo_bpm=120
+      time_signature="4/4"
+      imported_from="ascii"
+      import_warnings=6
+
+      [[tracks]]
+      id="gtr1"
+      name="Guitar"
+      instrument="guitar"
+      tuning=["Eb2","Ab2","Db3","Gb3","Bb3","Eb4"]
+
+      ---
+
+      @track gtr1 voice v1
+      # Title: Sweet Child O' Mine (Intro)
+      # [Intro]
+      m1: | e (6:0){rhythm="unknown"} e (6:0){rhythm="unknown"} e (5:2){rhythm="unknown"} e (5:4){rhythm="unknown"} e (4:2){rhythm="unknown"} e (5:4){rhythm="unknown"} e (5:2){rhythm="unknown"} |
+      m2: | e (6:0){rhythm="unknown"} e (6:0){rhythm="unknown"} e (5:2){rhythm="unknown"} e (5:4){rhythm="unknown"} e (4:2){rhythm="unknown"} e (5:4){rhythm="unknown"} e (5:2){rhythm="unknown"} |
+      "
     `);
   });
 
@@ -31,17 +52,106 @@ describe("importAsciiTab", () => {
     expect(result.warnings.length).toBeGreaterThanOrEqual(1);
     expect(() => parseOpenTab(result.otab)).not.toThrow();
     expect(result.otab).toMatchInlineSnapshot(`
-      "format=\"opentab\"\nversion=\"0.1\"\ntitle=\"Single Note Riff\"\ntempo_bpm=120\ntime_signature=\"4/4\"\nimported_from=\"ascii\"\nimport_warnings=3\n\n[[tracks]]\nid=\"gtr1\"\nname=\"Guitar\"\ninstrument=\"guitar\"\ntuning=[\"E2\",\"A2\",\"D3\",\"G3\",\"B3\",\"E4\"]\ncapo=2\n\n---\n\n@track gtr1 voice v1\n# Title: Single Note Riff\nm1: | e (5:0){rhythm=\"unknown\"} e (5:0){rhythm=\"unknown\"} e (4:2){rhythm=\"unknown\"} e (4:2){rhythm=\"unknown\"} e (4:2){rhythm=\"unknown\"} |"
+      "format="opentab"
+      version="0.2"
+      title="Single Note Riff"
+      tempo_bpm=120
+      time_signature="4/4"
+      imported_from="ascii"
+      import_warnings=3
+
+      [[tracks]]
+      id="gtr1"
+      name="Guitar"
+      instrument="guitar"
+      tuning=["E2","A2","D3","G3","B3","E4"]
+      capo=2
+
+      ---
+
+      @track gtr1 voice v1
+      # Title: Single Note Riff
+      m1: | e (5:0){rhythm="unknown"} e (5:0){rhythm="unknown"} e (4:2){rhythm="unknown"} e (4:2){rhythm="unknown"} e (4:2){rhythm="unknown"} |
+      "
     `);
   });
 
+  it("imports bends, ghost notes and dead notes as techniques", () => {
+    const result = importAsciiTab(
+      [
+        "e|-----------------|",
+        "B|--7b9r7--(5)-----|",
+        "G|---------------x-|",
+        "D|-----------------|",
+        "A|-----------------|",
+        "E|-----------------|",
+      ].join("\n")
+    );
+
+    expect(() => parseOpenTab(result.otab)).not.toThrow();
+    expect(result.otab).toContain(
+      "m1: | e (2:7b9r7){rhythm=\"unknown\"} e (2:5.gh){rhythm=\"unknown\"} " +
+        "e (3:x){rhythm=\"unknown\"} |"
+    );
+  });
+
+  it("picks an instrument preset from the number of tab lines", () => {
+    const bass = importAsciiTab(
+      ["G|-----|", "D|--2--|", "A|-----|", "E|--0--|"].join("\n")
+    );
+    expect(() => parseOpenTab(bass.otab)).not.toThrow();
+    expect(bass.otab).toContain('instrument="bass"');
+    expect(bass.otab).toContain('tuning=["E1","A1","D2","G2"]');
+
+    const ukulele = importAsciiTab(
+      ["|--0--|", "|--0--|", "|--0--|", "|--2--|"].join("\n"),
+      { instrument: "ukulele" }
+    );
+    expect(ukulele.otab).toContain('instrument="ukulele"');
+    expect(ukulele.otab).toContain('tuning=["G4","C4","E4","A4"]');
+  });
+
+  it("fills the header key from Key metadata", () => {
+    const tab = ["e|--1--|", "B|-----|", "G|-----|", "D|-----|", "A|-----|", "E|-----|"];
+    const result = importAsciiTab(["Key: Db", "", ...tab].join("\n"));
+    expect(parseOpenTab(result.otab).header.key).toEqual({
+      fifths: -5,
+      mode: "major",
+    });
+
+    const unknown = importAsciiTab(["Key: Dorian", "", ...tab].join("\n"));
+    expect(unknown.otab).not.toContain("key=");
+    expect(unknown.warnings).toContain(
+      'Unrecognized key "Dorian"; leaving it out of the header.'
+    );
+  });
+
   it("imports chord-heavy sections", () => {
     const result = importAsciiTab(loadSample("chords-section.txt"));
 
     expect(result.warnings.length).toBeGreaterThanOrEqual(1);
     expect(() => parseOpenTab(result.otab)).not.toThrow();
     expect(result.otab).toMatchInlineSnapshot(`
-      "format=\"opentab\"\nversion=\"0.1\"\ntempo_bpm=120\ntime_signature=\"4/4\"\nimported_from=\"ascii\"\nimport_warnings=4\n\n[[tracks]]\nid=\"gtr1\"\nname=\"Guitar\"\ninstrument=\"guitar\"\ntuning=[\"E2\",\"A2\",\"D3\",\"G3\",\"B3\",\"E4\"]\n\n---\n\n@track gtr1 voice v1\n# [Chorus]\n# Chords: G5     C5\nm1: | e [ (6:3) (5:2) (4:0) (3:0) ]{rhythm=\"unknown\"} e [ (5:3) (4:5) (3:5) ]{rhythm=\"unknown\"} |"
+      "format="opentab"
+      version="0.2"
+      tempo_bpm=120
+      time_signature="4/4"
+      imported_from="ascii"
+      import_warnings=4
+
+      [[tracks]]
+      id="gtr1"
+      name="Guitar"
+      instrument="guitar"
+      tuning=["E2","A2","D3","G3","B3","E4"]
+
+      ---
+
+      @track gtr1 voice v1
+      # [Chorus]
+      # Chords: G5     C5
+      m1: | e [ (6:3) (5:2) (4:0) (3:0) ]{rhythm="unknown"} e [ (5:3) (4:5) (3:5) ]{rhythm="unknown"} |
+      "
     `);
   });
 });
@@ -1,6 +1,23 @@
-import { formatOtab } from "@opentab/formatter";
+import type {
+  Annotations,
+  Event,
+  Header,
+  Measure,
+  NoteRef,
+  Technique,
+  TimeSignature,
+  Track,
+} from "@opentab/ast";
+import { printOpenTab } from "@opentab/formatter";
+import {
+  DEFAULT_INSTRUMENT_ID,
+  type InstrumentPreset,
+  getInstrument,
+} from "@opentab/instruments";
+import { parseKeySignature } from "@opentab/parser";
 
 export type ImportOptions = {
+  instrument?: string;
   defaultTuning?: string[];
   defaultTempoBpm?: number;
   rhythmStrategy?: "unknown" | "fixed-eighth" | "column-grid";
@@ -17,6 +34,11 @@ export type ImportResult = {
   };
 };
 
+type ResolvedOptions = Required<
+  Omit<ImportOptions, "instrument" | "defaultTuning">
+> &
+  Pick<ImportOptions, "instrument" | "defaultTuning">;
+
 type ParsedMetadata = {
   title?: string;
   tuning?: string[];
@@ -37,21 +59,23 @@ type TabBlock = {
 
 type DetectedNote = {
   column: number;
-  string: number;
-  ref: string;
-  annotations?: Record<string, string | number | boolean>;
+  note: NoteRef;
+  annotations?: Annotations;
 };
 
-type EventToken = {
+type DetectedEvent = {
   column: number;
-  token: string;
-  annotations?: Record<string, string | number | boolean>;
-  duration: "w" | "h" | "q" | "e" | "s" | "t";
+  event: Event;
 };
 
-const DEFAULT_TUNING = ["E2", "A2", "D3", "G3", "B3", "E4"];
+const INSTRUMENT_BY_STRING_COUNT: Record<number, string> = {
+  4: "bass",
+  5: "bass_5",
+  7: "guitar_7",
+  8: "guitar_8",
+};
 const DEFAULT_TEMPO_BPM = 120;
-const DEFAULT_TIME_SIGNATURE = "4/4";
+const DEFAULT_TIME_SIGNATURE: TimeSignature = { numerator: 4, denominator: 4 };
 const SUPPORTED_TECHNIQUES = ["h", "p", "/", "\\"] as const;
 
 const isTabRowLine = (line: string): boolean => {
@@ -347,40 +371,45 @@ const scanMeasure = (
           end += 1;
         }
         if (line[end] === ")") {
-          const { ref, annotations, nextIndex } = parseNoteRef(
+          const { note, annotations, nextIndex } = parseNoteRef(
             line,
+            stringNumber,
             start,
             end,
             true
           );
-          notes.push({
-            column: start,
-            string: stringNumber,
-            ref,
-            annotations,
-          });
+          notes.push({ column: start, note, annotations });
           column = nextIndex;
           continue;
         }
       }
 
+      if (char === "x" || char === "X") {
+        notes.push({
+          column,
+          note: {
+            string: stringNumber,
+            fret: 0,
+            inlineTechniques: [{ type: "dead_note" }],
+          },
+        });
+        column += 1;
+        continue;
+      }
+
       if (/\d/.test(char)) {
         let end = column + 1;
         while (end < line.length && /\d/.test(line[end])) {
           end += 1;
         }
-        const { ref, annotations, nextIndex } = parseNoteRef(
+        const { note, annotations, nextIndex } = parseNoteRef(
           line,
+          stringNumber,
           column,
           end,
           false
         );
-        notes.push({
-          column,
-          string: stringNumber,
-          ref,
-          annotations,
-        });
+        notes.push({ column, note, annotations });
         column = nextIndex;
         continue;
       }
@@ -395,21 +424,43 @@ const scanMeasure = (
   return notes;
 };
 
+const fretTechnique = (
+  symbol: (typeof SUPPORTED_TECHNIQUES)[number],
+  fromFret: number,
+  toFret: number
+): Technique => {
+  if (symbol === "h") {
+    return { type: "hammer_on", fromFret, toFret };
+  }
+  if (symbol === "p") {
+    return { type: "pull_off", fromFret, toFret };
+  }
+  return {
+    type: "slide",
+    fromFret,
+    toFret,
+    direction: symbol === "/" ? "up" : "down",
+  };
+};
+
 const parseNoteRef = (
   line: string,
+  string: number,
   start: number,
   end: number,
   ghost: boolean
-): { ref: string; annotations?: Record<string, string | number | boolean>; nextIndex: number } => {
-  let ref = line.slice(start, end);
-  const annotations: Record<string, string | number | boolean> = {};
+): { note: NoteRef; annotations?: Annotations; nextIndex: number } => {
+  const note: NoteRef = { string, fret: Number(line.slice(start, end)) };
+  const techniques: Technique[] = [];
+  const annotations: Annotations = {};
+  let fret = note.fret;
   let index = end;
 
   let searching = true;
   while (searching && index < line.length) {
     const char = line[index];
     if (char === "~") {
-      ref += "~";
+      techniques.push({ type: "vibrato" });
       index += 1;
       continue;
     }
@@ -419,14 +470,32 @@ const parseNoteRef = (
         searching = false;
         continue;
       }
-      ref += `${char}${nextMatch[1]}`;
+      const toFret = Number(nextMatch[1]);
+      techniques.push(
+        fretTechnique(
+          char as (typeof SUPPORTED_TECHNIQUES)[number],
+          fret,
+          toFret
+        )
+      );
+      fret = toFret;
       index += 1 + nextMatch[1].length;
       continue;
     }
     if (char === "b") {
-      const nextMatch = line.slice(index + 1).match(/^(\d+)/);
-      if (nextMatch) {
-        annotations.bend_to = Number(nextMatch[1]);
+      const nextMatch = line.slice(index + 1).match(/^(\d+)(?:r(\d+))?/);
+      const release = nextMatch?.[2] === undefined ? fret : Number(nextMatch[2]);
+      const target = Number(nextMatch?.[1]);
+      if (nextMatch && target > fret && release >= fret && release < target) {
+        const bend: Technique = { type: "bend", fromFret: fret, toFret: target };
+        if (nextMatch[2] !== undefined) {
+          bend.releaseFret = release;
+        }
+        bend.bendType = nextMatch[2] === undefined ? "bend" : "bend_release";
+        techniques.push(bend);
+        index += 1 + nextMatch[0].length;
+      } else if (nextMatch) {
+        annotations.bend_to = target;
         index += 1 + nextMatch[1].length;
       } else {
         annotations.bend = true;
@@ -438,14 +507,17 @@ const parseNoteRef = (
   }
 
   if (ghost) {
-    annotations.ghost = true;
+    techniques.push({ type: "ghost_note" });
     if (line[index] === ")") {
       index += 1;
     }
   }
+  if (techniques.length > 0) {
+    note.inlineTechniques = techniques;
+  }
 
   return {
-    ref,
+    note,
     annotations: Object.keys(annotations).length > 0 ? annotations : undefined,
     nextIndex: index,
   };
@@ -503,26 +575,11 @@ const stepsToDuration = (
   return "e";
 };
 
-const formatAnnotations = (
-  annotations?: Record<string, string | number | boolean>
-): string => {
-  if (!annotations || Object.keys(annotations).length === 0) {
-    return "";
-  }
-  const parts = Object.entries(annotations).map(([key, value]) => {
-    if (typeof value === "string") {
-      return `${key}="${value}"`;
-    }
-    return `${key}=${value}`;
-  });
-  return `{${parts.join(", ")}}`;
-};
-
-const buildEventTokens = (
+const buildEvents = (
   notes: DetectedNote[],
-  options: Required<ImportOptions>,
+  options: ResolvedOptions,
   warn: (message: string) => void
-): EventToken[] => {
+): DetectedEvent[] => {
   const groups = groupChordEvents(notes);
   const width = Math.max(...notes.map((note) => note.column), 0) + 1;
   const rhythm = options.rhythmStrategy;
@@ -540,20 +597,21 @@ const buildEventTokens = (
 
   const gridCount = rhythm === "column-grid" ? pickGridCount(width) : 16;
   const gridSize = width / gridCount;
-  const eventTokens: EventToken[] = [];
+  const events: DetectedEvent[] = [];
 
   groups.forEach((group, index) => {
-    const sortedNotes = [...group].sort((a, b) => b.string - a.string);
+    const sortedNotes = [...group].sort((a, b) => b.note.string - a.note.string);
     const column = group[0]?.column ?? 0;
     const nextGroup = groups[index + 1];
     const nextColumn = nextGroup ? nextGroup[0]?.column ?? width : width;
     const startStep = rhythm === "column-grid" ? Math.round(column / gridSize) : 0;
     const nextStep = rhythm === "column-grid" ? Math.max(startStep + 1, Math.round(nextColumn / gridSize)) : 0;
     const steps = rhythm === "column-grid" ? Math.max(1, nextStep - startStep) : 1;
-    const duration =
-      rhythm === "column-grid" ? stepsToDuration(steps, gridCount, warn) : "e";
+    const duration = {
+      base: rhythm === "column-grid" ? stepsToDuration(steps, gridCount, warn) : "e",
+    } as const;
 
-    const annotations: Record<string, string | number | boolean> = {};
+    const annotations: Annotations = {};
     if (rhythm === "unknown") {
       annotations.rhythm = "unknown";
     }
@@ -566,21 +624,21 @@ const buildEventTokens = (
       }
     }
 
-    const annotationText = formatAnnotations(annotations);
-
-    if (sortedNotes.length === 1) {
-      const note = sortedNotes[0];
-      const token = `(${note.string}:${note.ref})${annotationText}`;
-      eventTokens.push({ column, token, duration });
-      return;
+    const event: Event =
+      sortedNotes.length === 1
+        ? { type: "note", duration, note: sortedNotes[0].note }
+        : {
+            type: "chord",
+            duration,
+            chord: sortedNotes.map((detected) => detected.note),
+          };
+    if (Object.keys(annotations).length > 0) {
+      event.annotations = annotations;
     }
-
-    const noteTokens = sortedNotes.map((note) => `(${note.string}:${note.ref})`);
-    const token = `[ ${noteTokens.join(" ")} ]${annotationText}`;
-    eventTokens.push({ column, token, duration });
+    events.push({ column, event });
   });
 
-  return eventTokens;
+  return events;
 };
 
 const buildTuning = (
@@ -607,19 +665,42 @@ const buildTuning = (
   return fallback;
 };
 
+const selectInstrument = (
+  stringCount: number | undefined,
+  requested: string | undefined,
+  warn: (message: string) => void
+): InstrumentPreset => {
+  const fallback = getInstrument(DEFAULT_INSTRUMENT_ID) as InstrumentPreset;
+  if (requested !== undefined) {
+    const preset = getInstrument(requested);
+    if (!preset) {
+      warn(`Unknown instrument "${requested}"; importing as guitar.`);
+    }
+    return preset ?? fallback;
+  }
+  const detected =
+    stringCount === undefined ? undefined : INSTRUMENT_BY_STRING_COUNT[stringCount];
+  return (detected && getInstrument(detected)) || fallback;
+};
+
 const buildOtab = (
   blocks: TabBlock[],
   metadata: ParsedMetadata,
-  options: Required<ImportOptions>,
+  options: ResolvedOptions,
   warn: (message: string) => void,
   getWarningCount: () => number
 ): { otab: string; tuning: string[] } => {
-  const stringCount = blocks[0]?.rows.length ?? DEFAULT_TUNING.length;
+  const instrument = selectInstrument(
+    blocks[0]?.rows.length,
+    options.instrument,
+    warn
+  );
+  const stringCount = blocks[0]?.rows.length ?? instrument.strings;
   const tuning = buildTuning(
     metadata,
     stringCount,
     blocks,
-    options.defaultTuning,
+    options.defaultTuning ?? instrument.tuning,
     warn
   );
 
@@ -629,67 +710,72 @@ const buildOtab = (
 
   warn("Time signature not specified; defaulting to 4/4.");
 
-  const bodyLines: string[] = [];
-  bodyLines.push("@track gtr1 voice v1");
+  const key = metadata.key ? parseKeySignature(metadata.key) : undefined;
+  if (metadata.key && !key) {
+    warn(`Unrecognized key "${metadata.key}"; leaving it out of the header.`);
+  }
+
+  const measureComments: Record<number, string[]> = {};
+  const comment = (measure: number, text: string): void => {
+    (measureComments[measure] ??= []).push(text);
+  };
   if (metadata.title) {
-    bodyLines.push(`# Title: ${metadata.title}`);
+    comment(1, `Title: ${metadata.title}`);
   }
   if (metadata.key) {
-    bodyLines.push(`# Key: ${metadata.key}`);
+    comment(1, `Key: ${metadata.key}`);
   }
 
-  let measureIndex = 1;
+  const measures: Measure[] = [];
   for (const block of blocks) {
+    const first = measures.length + 1;
     if (block.section) {
-      bodyLines.push(`# [${block.section}]`);
+      comment(first, `[${block.section}]`);
     }
     if (block.chordLine) {
-      bodyLines.push(`# Chords: ${block.chordLine}`);
+      comment(first, `Chords: ${block.chordLine}`);
     }
 
-    const measures = splitMeasures(block.rows, warn);
-    for (const slices of measures) {
+    for (const slices of splitMeasures(block.rows, warn)) {
       const notes = scanMeasure(slices, stringCount, warn);
-      const tokens = buildEventTokens(notes, options, warn);
-      const eventTokens = tokens
+      const events = buildEvents(notes, options, warn)
         .sort((a, b) => a.column - b.column)
-        .map((token) => `${token.duration} ${token.token}`);
-      const content = eventTokens.join(" ");
-      bodyLines.push(`m${measureIndex}: | ${content} |`);
-      measureIndex += 1;
+        .map(({ event }) => event);
+      measures.push({
+        index: measures.length + 1,
+        tracks: { gtr1: { voices: { v1: events } } },
+      });
     }
   }
 
-  const headerLines = [
-    "format=\"opentab\"",
-    "version=\"0.1\"",
-  ];
-
+  const track: Track = {
+    id: "gtr1",
+    name: "Guitar",
+    instrument: instrument.id,
+    tuning,
+  };
+  if (metadata.capo !== undefined && metadata.capo !== null) {
+    track.capo = metadata.capo;
+  }
+  const header: Header = {};
   if (metadata.title) {
-    headerLines.push(`title=\"${metadata.title}\"`);
+    header.title = metadata.title;
   }
-
-  headerLines.push(`tempo_bpm=${options.defaultTempoBpm}`);
-  headerLines.push(`time_signature=\"${DEFAULT_TIME_SIGNATURE}\"`);
-  headerLines.push(`imported_from=\"ascii\"`);
-  headerLines.push(`import_warnings=${getWarningCount()}`);
-  if (metadata.key) {
-    headerLines.push(`key=\"${metadata.key}\"`);
+  header.tempo_bpm = options.defaultTempoBpm;
+  header.time_signature = DEFAULT_TIME_SIGNATURE;
+  if (key) {
+    header.key = key;
   }
+  header.extensions = {
+    imported_from: "ascii",
+    import_warnings: getWarningCount(),
+  };
 
-  headerLines.push("", "[[tracks]]");
-  headerLines.push("id=\"gtr1\"");
-  headerLines.push("name=\"Guitar\"");
-  headerLines.push("instrument=\"guitar\"");
-  headerLines.push(
-    `tuning=[${tuning.map((note) => `\"${note}\"`).join(",")}]`
+  const otab = printOpenTab(
+    { format: "opentab", version: "0.2", header, tracks: [track], measures },
+    { measureComments }
   );
-  if (metadata.capo !== undefined && metadata.capo !== null) {
-    headerLines.push(`capo=${metadata.capo}`);
-  }
-
-  const otab = [headerLines.join("\n"), "---", bodyLines.join("\n")].join("\n");
-  return { otab: formatOtab(otab), tuning };
+  return { otab, tuning };
 };
 
 export function importAsciiTab(
@@ -706,8 +792,9 @@ export function importAsciiTab(
     warnings.push(message);
   };
   const getWarningCount = (): number => warnings.length;
-  const options: Required<ImportOptions> = {
-    defaultTuning: opts.defaultTuning ?? DEFAULT_TUNING,
+  const options: ResolvedOptions = {
+    instrument: opts.instrument,
+    defaultTuning: opts.defaultTuning,
     defaultTempoBpm: opts.defaultTempoBpm ?? DEFAULT_TEMPO_BPM,
     rhythmStrategy: opts.rhythmStrategy ?? "unknown",
   };
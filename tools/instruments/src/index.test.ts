@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  INSTRUMENTS,
+  isPlayableFret,
+  parsePitch,
+  resolveInstrument,
+  stringPitch,
+} from "./index.js";
+
+describe("INSTRUMENTS", () => {
+  it("gives every preset a tuning that matches its string count", () => {
+    for (const preset of INSTRUMENTS) {
+      expect(preset.tuning).toHaveLength(preset.strings);
+      expect(preset.tuning.every((note) => parsePitch(note) !== null)).toBe(
+        true
+      );
+    }
+    expect(new Set(INSTRUMENTS.map((preset) => preset.id)).size).toBe(
+      INSTRUMENTS.length
+    );
+  });
+});
+
+describe("resolveInstrument", () => {
+  it("falls back to six-string guitar and lets tuning set the string count", () => {
+    expect(resolveInstrument({})).toMatchObject({
+      id: "guitar",
+      strings: 6,
+      known: true,
+    });
+    expect(resolveInstrument({ instrument: "lute" })).toMatchObject({
+      id: "guitar",
+      known: false,
+    });
+    const dropD = resolveInstrument({
+      instrument: "bass",
+      tuning: ["D1", "A1", "D2", "G2", "C3"],
+    });
+    expect(dropD).toMatchObject({ id: "bass", strings: 5, clef: "bass" });
+  });
+
+  it("numbers strings from the top line of the tab", () => {
+    const guitar = resolveInstrument({ instrument: "electric_guitar" });
+    expect(stringPitch(guitar, 6, 0)).toBe(40);
+    expect(stringPitch(guitar, 1, 3)).toBe(67);
+    expect(stringPitch(guitar, 7, 0)).toBeNull();
+
+    const ukulele = resolveInstrument({ instrument: "ukulele" });
+    expect([4, 3, 2, 1].map((string) => stringPitch(ukulele, string, 0))).toEqual(
+      [67, 60, 64, 69]
+    );
+  });
+
+  it("fingers the banjo's short 5th string from its own nut", () => {
+    const banjo = resolveInstrument({ instrument: "banjo" });
+    expect(stringPitch(banjo, 5, 0)).toBe(67);
+    expect(stringPitch(banjo, 5, 7)).toBe(69);
+    expect(stringPitch(banjo, 5, 3)).toBeNull();
+    expect(isPlayableFret(banjo, 5, 3)).toBe(false);
+    expect(isPlayableFret(banjo, 4, 3)).toBe(true);
+    expect(isPlayableFret(banjo, 4, 23)).toBe(false);
+  });
+});
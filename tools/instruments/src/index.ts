@@ -0,0 +1,253 @@
+export const packageName = "@opentab/instruments";
+
+export type InstrumentClef = "treble" | "bass";
+
+export interface InstrumentPreset {
+  id: string;
+  name: string;
+  /** Open-string pitches from the highest-numbered string down to string 1. */
+  tuning: string[];
+  strings: number;
+  /** Highest fret on the neck. */
+  frets: number;
+  /** General MIDI program, 0-based. */
+  midiProgram: number;
+  clef: InstrumentClef;
+  /** Semitones from written to sounding pitch; guitars sound an octave low. */
+  transpose: number;
+  /**
+   * Strings that start partway up the neck, mapped to the fret where their
+   * nut sits, like the banjo's 5th string. Fretted notes on such a string use
+   * the neck's fret numbers, so frets between 1 and the nut do not exist.
+   */
+  shortStrings?: Record<number, number>;
+}
+
+export interface ResolvedInstrument extends InstrumentPreset {
+  /** False when the track names an instrument missing from the registry. */
+  known: boolean;
+}
+
+const STANDARD_GUITAR = ["E2", "A2", "D3", "G3", "B3", "E4"];
+const STANDARD_BASS = ["E1", "A1", "D2", "G2"];
+
+export const INSTRUMENTS: readonly InstrumentPreset[] = [
+  {
+    id: "guitar",
+    name: "Guitar",
+    tuning: STANDARD_GUITAR,
+    strings: 6,
+    frets: 24,
+    midiProgram: 25,
+    clef: "treble",
+    transpose: -12,
+  },
+  {
+    id: "acoustic_guitar",
+    name: "Acoustic Guitar",
+    tuning: STANDARD_GUITAR,
+    strings: 6,
+    frets: 20,
+    midiProgram: 25,
+    clef: "treble",
+    transpose: -12,
+  },
+  {
+    id: "classical_guitar",
+    name: "Classical Guitar",
+    tuning: STANDARD_GUITAR,
+    strings: 6,
+    frets: 19,
+    midiProgram: 24,
+    clef: "treble",
+    transpose: -12,
+  },
+  {
+    id: "electric_guitar",
+    name: "Electric Guitar",
+    tuning: STANDARD_GUITAR,
+    strings: 6,
+    frets: 24,
+    midiProgram: 27,
+    clef: "treble",
+    transpose: -12,
+  },
+  {
+    id: "guitar_7",
+    name: "7-String Guitar",
+    tuning: ["B1", ...STANDARD_GUITAR],
+    strings: 7,
+    frets: 24,
+    midiProgram: 27,
+    clef: "treble",
+    transpose: -12,
+  },
+  {
+    id: "guitar_8",
+    name: "8-String Guitar",
+    tuning: ["F#1", "B1", ...STANDARD_GUITAR],
+    strings: 8,
+    frets: 24,
+    midiProgram: 27,
+    clef: "treble",
+    transpose: -12,
+  },
+  {
+    id: "bass",
+    name: "Bass",
+    tuning: STANDARD_BASS,
+    strings: 4,
+    frets: 24,
+    midiProgram: 33,
+    clef: "bass",
+    transpose: -12,
+  },
+  {
+    id: "bass_5",
+    name: "5-String Bass",
+    tuning: ["B0", ...STANDARD_BASS],
+    strings: 5,
+    frets: 24,
+    midiProgram: 33,
+    clef: "bass",
+    transpose: -12,
+  },
+  {
+    id: "bass_6",
+    name: "6-String Bass",
+    tuning: ["B0", ...STANDARD_BASS, "C3"],
+    strings: 6,
+    frets: 24,
+    midiProgram: 33,
+    clef: "bass",
+    transpose: -12,
+  },
+  {
+    id: "ukulele",
+    name: "Ukulele",
+    // Re-entrant: the 4th string is tuned above the 3rd.
+    tuning: ["G4", "C4", "E4", "A4"],
+    strings: 4,
+    frets: 15,
+    midiProgram: 24,
+    clef: "treble",
+    transpose: 0,
+  },
+  {
+    id: "banjo",
+    name: "Banjo",
+    tuning: ["G4", "D3", "G3", "B3", "D4"],
+    strings: 5,
+    frets: 22,
+    midiProgram: 105,
+    clef: "treble",
+    transpose: -12,
+    shortStrings: { 5: 5 },
+  },
+];
+
+export const DEFAULT_INSTRUMENT_ID = "guitar";
+
+const PRESETS = new Map(INSTRUMENTS.map((preset) => [preset.id, preset]));
+
+export function getInstrument(id: string): InstrumentPreset | undefined {
+  return PRESETS.get(id);
+}
+
+/**
+ * Resolves a track's `instrument` against the registry. An explicit `tuning`
+ * overrides the preset's and sets the string count; unknown or missing
+ * instruments fall back to six-string guitar.
+ */
+export function resolveInstrument(track: {
+  instrument?: string;
+  tuning?: string[];
+}): ResolvedInstrument {
+  const preset = track.instrument ? PRESETS.get(track.instrument) : undefined;
+  const base = preset ?? (PRESETS.get(DEFAULT_INSTRUMENT_ID) as InstrumentPreset);
+  const tuning =
+    track.tuning && track.tuning.length > 0 ? track.tuning : base.tuning;
+  const resolved: ResolvedInstrument = {
+    ...base,
+    tuning,
+    strings: tuning.length,
+    known: track.instrument === undefined || preset !== undefined,
+  };
+  const shortStrings = Object.entries(base.shortStrings ?? {}).filter(
+    ([string]) => Number(string) <= tuning.length
+  );
+  if (shortStrings.length > 0) {
+    resolved.shortStrings = Object.fromEntries(shortStrings);
+  } else {
+    delete resolved.shortStrings;
+  }
+  return resolved;
+}
+
+const NOTE_STEPS: Record<string, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+
+/** Converts a pitch name such as `E2`, `F#1` or `Bb3` to a MIDI note. */
+export function parsePitch(note: string): number | null {
+  const match = note.trim().match(/^([A-Ga-g])([#b]?)(-?\d+)$/);
+  if (!match) {
+    return null;
+  }
+  const [, letter, accidental, octaveText] = match;
+  const accidentalOffset = accidental === "#" ? 1 : accidental === "b" ? -1 : 0;
+  const midi =
+    (Number(octaveText) + 1) * 12 +
+    NOTE_STEPS[letter.toUpperCase()] +
+    accidentalOffset;
+  if (midi < 0 || midi > 127) {
+    return null;
+  }
+  return midi;
+}
+
+/** The open-string pitch name for a string number, 1 being the highest. */
+export function openString(
+  instrument: ResolvedInstrument,
+  string: number
+): string | undefined {
+  if (!Number.isInteger(string) || string < 1 || string > instrument.strings) {
+    return undefined;
+  }
+  return instrument.tuning[instrument.strings - string];
+}
+
+/** Whether a fret exists on a string; open strings are always playable. */
+export function isPlayableFret(
+  instrument: ResolvedInstrument,
+  string: number,
+  fret: number
+): boolean {
+  const nut = instrument.shortStrings?.[string] ?? 0;
+  return fret === 0 || (fret > nut && fret <= instrument.frets);
+}
+
+/** The sounding MIDI note of a fretted string, before any capo. */
+export function stringPitch(
+  instrument: ResolvedInstrument,
+  string: number,
+  fret: number
+): number | null {
+  const open = openString(instrument, string);
+  const base = open === undefined ? null : parsePitch(open);
+  if (base === null) {
+    return null;
+  }
+  const nut = instrument.shortStrings?.[string] ?? 0;
+  if (fret > 0 && fret <= nut) {
+    return null;
+  }
+  const pitch = base + (fret > 0 ? fret - nut : 0);
+  return pitch >= 0 && pitch <= 127 ? pitch : null;
+}
@@ -1,10 +1,29 @@
+import type { OpenTabParseResult, ParseOptions } from "@opentab/parser";
+
+export interface RelatedLocation {
+  message: string;
+  file?: string;
+  line: number;
+  startCol: number;
+  endCol: number;
+}
+
 export interface Diagnostic {
   message: string;
+  code: string;
   line: number;
   startCol: number;
   endCol: number;
   severity: "error" | "warning";
+  related?: RelatedLocation[];
 }
 
-export function validate(text: string): Diagnostic[];
+export function diagnosticsFor(result: OpenTabParseResult): Diagnostic[];
+export function validate(
+  text: string,
+  options?: Pick<
+    ParseOptions,
+    "file" | "resolveInclude" | "duplicateMeasures" | "autoNumber"
+  >
+): Diagnostic[];
 export function format(text: string): string;
@@ -1,150 +1,34 @@
-function validate(text) {
-  const diagnostics = [];
-  const lines = text.split(/\r?\n/);
-  const delimiterIndex = lines.findIndex((line) => line.trim() === '---');
-
-  if (delimiterIndex === -1) {
-    diagnostics.push({
-      message: 'Missing --- delimiter.',
-      line: 0,
-      startCol: 0,
-      endCol: Math.max(lines[0]?.length ?? 0, 1),
-      severity: 'error',
-    });
-  }
-
-  const headerLines = delimiterIndex >= 0 ? lines.slice(0, delimiterIndex) : [];
-  const headerKeys = new Set();
-  for (const line of headerLines) {
-    const match = line.match(/^\s*([A-Za-z0-9_-]+)\s*=/);
-    if (match) {
-      headerKeys.add(match[1]);
-    }
-  }
-
-  for (const key of ['format', 'version']) {
-    if (!headerKeys.has(key)) {
-      diagnostics.push({
-        message: `Missing required header key: ${key}.`,
-        line: 0,
-        startCol: 0,
-        endCol: Math.max(lines[0]?.length ?? 0, 1),
-        severity: 'error',
-      });
-    }
-  }
-
-  const bodyStartIndex = delimiterIndex >= 0 ? delimiterIndex + 1 : 0;
-  let sawTrackSelection = false;
-  let reportedMissingTrack = false;
-
-  for (let i = bodyStartIndex; i < lines.length; i += 1) {
-    const line = lines[i];
-    const trimmed = line.trim();
-
-    if (trimmed.startsWith('@track')) {
-      sawTrackSelection = true;
-    }
-
-    const measurePrefixMatch = trimmed.match(/^m\d+:/);
-    if (measurePrefixMatch) {
-      if (!sawTrackSelection && !reportedMissingTrack) {
-        diagnostics.push({
-          message: 'Track selection (@track ...) missing before first measure.',
-          line: i,
-          startCol: 0,
-          endCol: Math.max(line.length, 1),
-          severity: 'error',
-        });
-        reportedMissingTrack = true;
-      }
-
-      const measureMatch = line.match(/^m\d+:\s*\|(.*)\|\s*$/);
-      if (!measureMatch) {
-        diagnostics.push({
-          message: "Invalid measure line format. Expected 'mN: | ... |'.",
-          line: i,
-          startCol: 0,
-          endCol: Math.max(line.length, 1),
-          severity: 'error',
-        });
-        continue;
-      }
-
-      const content = measureMatch[1];
-      if (hasUnbalancedDelimiters(content)) {
-        diagnostics.push({
-          message: 'Unbalanced brackets/parens/braces in measure line.',
-          line: i,
-          startCol: 0,
-          endCol: Math.max(line.length, 1),
-          severity: 'error',
-        });
-      }
-
-      const tokens =
-        content.trim().length === 0 ? [] : content.trim().split(/\s+/);
-      let searchStart = line.indexOf('|') + 1;
-      for (const token of tokens) {
-        const tokenIndex = line.indexOf(token, searchStart);
-        const startCol = tokenIndex >= 0 ? tokenIndex : 0;
-        const endCol = tokenIndex >= 0 ? tokenIndex + token.length : line.length;
-        searchStart = tokenIndex >= 0 ? endCol : searchStart;
-
-        if (token.startsWith('(')) {
-          if (!/^\(\d+:\d+[^)]*\)(\{[^}]*\})*$/.test(token)) {
-            diagnostics.push({
-              message: `Invalid note token: ${token}`,
-              line: i,
-              startCol,
-              endCol,
-              severity: 'error',
-            });
-          }
-          continue;
-        }
-
-        if (/^[whqest]/.test(token)) {
-          if (!/^(w|h|q|e|s|t)(\.|\/\d+)?$/.test(token)) {
-            diagnostics.push({
-              message: `Invalid duration token: ${token}`,
-              line: i,
-              startCol,
-              endCol,
-              severity: 'error',
-            });
-          }
-        }
-      }
-    }
-  }
+const { checkParseResult } = require('@opentab/checker');
+const { parseOpenTabWithDiagnostics } = require('@opentab/parser');
+
+function toRelated(related) {
+  return {
+    message: related.message,
+    file: related.file,
+    line: related.line - 1,
+    startCol: related.column - 1,
+    endCol: related.endColumn - 1,
+  };
+}
 
-  return diagnostics;
+function diagnosticsFor(result) {
+  return checkParseResult(result).map((diagnostic) => ({
+    message: diagnostic.message,
+    code: diagnostic.code,
+    line: diagnostic.line - 1,
+    startCol: diagnostic.column - 1,
+    endCol: diagnostic.endColumn - 1,
+    severity: diagnostic.severity,
+    ...(diagnostic.related
+      ? { related: diagnostic.related.map(toRelated) }
+      : {}),
+  }));
 }
 
-function hasUnbalancedDelimiters(content) {
-  const stack = [];
-  const pairs = {
-    ')': '(',
-    ']': '[',
-    '}': '{',
-  };
-  for (const char of content) {
-    if (char === '(' || char === '[' || char === '{') {
-      stack.push(char);
-      continue;
-    }
-    if (char === ')' || char === ']' || char === '}') {
-      if (stack.length === 0) {
-        return true;
-      }
-      const last = stack.pop();
-      if (last !== pairs[char]) {
-        return true;
-      }
-    }
-  }
-  return stack.length > 0;
+function validate(text, options = {}) {
+  return diagnosticsFor(
+    parseOpenTabWithDiagnostics(text, { ...options, positions: true }),
+  );
 }
 
 function format(text) {
@@ -198,19 +82,24 @@ function formatLine(line) {
 }
 
 function formatMeasureLine(line) {
-  const match = line.match(/^\s*(m\d+)\s*:\s*\|\s*(.*?)\s*\|\s*$/);
+  const match = line.match(
+    /^\s*(m(?:\d+(?:-m\d+)?|\+))\s*:\s*\|(:?)\s*(.*?)\s*(:?)\|(x\d+)?\s*$/,
+  );
   if (!match) {
     return line.replace(/\s+$/, '');
   }
 
-  const tokens = match[2].trim().split(/\s+/).filter(Boolean);
+  const open = `|${match[2]}`;
+  const close = `${match[4]}|${match[5] ?? ''}`;
+  const tokens = match[3].trim().split(/\s+/).filter(Boolean);
   if (tokens.length === 0) {
-    return `${match[1]}: | |`;
+    return `${match[1]}: ${open} ${close}`;
   }
-  return `${match[1]}: | ${tokens.join(' ')} |`;
+  return `${match[1]}: ${open} ${tokens.join(' ')} ${close}`;
 }
 
 module.exports = {
+  diagnosticsFor,
   validate,
   format,
 };
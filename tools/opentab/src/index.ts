@@ -1,17 +1,40 @@
 #!/usr/bin/env node
 
+import { readFileSync } from "node:fs";
 import fs from "node:fs/promises";
 import path from "node:path";
+import { isDeepStrictEqual } from "node:util";
 
-import { Command } from "commander";
+import { Command, Option } from "commander";
 
+import {
+  isSpecVersion,
+  LATEST_SPEC_VERSION,
+  migrate,
+  SPEC_VERSIONS,
+  type OpenTabDocument,
+  type SpecVersion,
+} from "@opentab/ast";
+import { checkParseResult, type SourceDiagnostic } from "@opentab/checker";
 import { toAsciiTab } from "@opentab/converters-ascii";
 import { fromGpx } from "@opentab/converters-guitarpro";
 import { toMidi } from "@opentab/converters-midi";
 import { toMusicXml } from "@opentab/converters-musicxml";
 import { importAsciiTab } from "@opentab/importer-ascii";
-import { formatOtab } from "@opentab/formatter";
-import { parseOpenTab } from "@opentab/parser";
+import { formatOtab, rewriteOpenTab } from "@opentab/formatter";
+import {
+  parseOpenTab,
+  parseOpenTabWithDiagnostics,
+  type DuplicateMeasurePolicy,
+  type IncludeResolver,
+} from "@opentab/parser";
+import {
+  applyCapo,
+  refinger,
+  retune,
+  transpose,
+  type TransformResult,
+} from "@opentab/transforms";
 
 const program = new Command();
 
@@ -25,6 +48,36 @@ const formatError = (error: unknown): string => {
 const readSource = async (filePath: string): Promise<string> =>
   fs.readFile(filePath, "utf8");
 
+const resolveInclude: IncludeResolver = (includePath, from) => {
+  const file = path.resolve(from ? path.dirname(from) : ".", includePath);
+  try {
+    return { file, source: readFileSync(file, "utf8") };
+  } catch {
+    return undefined;
+  }
+};
+
+/** Parser options shared by every command, from the global CLI flags. */
+const sourceOptions = () => {
+  const options = program.opts<{
+    duplicateMeasures: DuplicateMeasurePolicy;
+    autoNumber?: boolean;
+  }>();
+  return {
+    resolveInclude,
+    duplicateMeasures: options.duplicateMeasures,
+    autoNumber: options.autoNumber ?? false,
+  };
+};
+
+const parseFile = async (filePath: string) => {
+  const source = await readSource(filePath);
+  return parseOpenTab(source, {
+    ...sourceOptions(),
+    file: path.resolve(filePath),
+  });
+};
+
 const writeStdout = (value: string): void => {
   process.stdout.write(value.endsWith("\n") ? value : `${value}\n`);
 };
@@ -37,7 +90,16 @@ const writeErrorAndExit = (message: string): never => {
 program
   .name("opentab")
   .description("OpenTab command line tools")
-  .version("0.0.1");
+  .version("0.0.1")
+  .addOption(
+    new Option(
+      "--duplicate-measures <policy>",
+      "How to treat a measure defined twice for the same track and voice"
+    )
+      .choices(["error", "warn", "append"])
+      .default("warn")
+  )
+  .option("--auto-number", "Allow m+: to number a measure after the last one");
 
 program
   .command("parse")
@@ -46,14 +108,59 @@ program
   .option("--json", "Output JSON (default)")
   .action(async (filePath: string) => {
     try {
-      const source = await readSource(filePath);
-      const document = parseOpenTab(source);
+      const document = await parseFile(filePath);
       writeStdout(JSON.stringify(document, null, 2));
     } catch (error) {
       writeErrorAndExit(`Parse failed: ${formatError(error)}`);
     }
   });
 
+const checkSource = (source: string, file: string): SourceDiagnostic[] =>
+  checkParseResult(
+    parseOpenTabWithDiagnostics(source, {
+      ...sourceOptions(),
+      file,
+      positions: true,
+    })
+  ).sort((a, b) => a.line - b.line || a.column - b.column);
+
+program
+  .command("check")
+  .description("Report parse errors and semantic problems in OpenTab files")
+  .argument("<files...>", "OpenTab files")
+  .action(async (filePaths: string[]) => {
+    let failed = false;
+    for (const filePath of filePaths) {
+      try {
+        const source = await readSource(filePath);
+        const issues = checkSource(source, path.resolve(filePath));
+        for (const issue of issues) {
+          writeStdout(
+            `${filePath}:${issue.line}:${issue.column}: ${issue.severity}: ` +
+              `${issue.message} [${issue.code}]`
+          );
+          for (const related of issue.related ?? []) {
+            const file = related.file
+              ? path.relative(process.cwd(), related.file)
+              : filePath;
+            writeStdout(
+              `  ${file}:${related.line}:${related.column}: ${related.message}`
+            );
+          }
+        }
+        failed ||= issues.some((issue) => issue.severity === "error");
+      } catch (error) {
+        failed = true;
+        process.stderr.write(
+          `${filePath}: check failed: ${formatError(error)}\n`
+        );
+      }
+    }
+    if (failed) {
+      process.exit(1);
+    }
+  });
+
 program
   .command("fmt")
   .description("Format an OpenTab file")
@@ -73,6 +180,229 @@ program
     }
   });
 
+/**
+ * Applies `change` to the document parsed from `source` and writes it back
+ * with `rewriteOpenTab`, editing only what changed so the layout, comments
+ * and macros stay. The new source must parse to the changed document.
+ */
+const rewriteSource = <T extends { document: OpenTabDocument }>(
+  source: string,
+  file: string,
+  change: (document: OpenTabDocument) => T
+): T & { source: string } => {
+  const parseOptions = { ...sourceOptions(), file };
+  const document = parseOpenTab(source, { ...parseOptions, positions: true });
+  const result = change(document);
+  const rewritten = rewriteOpenTab(source, document, result.document);
+  // Transforms copy the document through JSON, which drops the fields the
+  // parser leaves undefined, so both sides go through JSON.
+  const plain = (value: OpenTabDocument): unknown =>
+    JSON.parse(JSON.stringify(value));
+  const expected = change(parseOpenTab(source, parseOptions)).document;
+  const reparsed = parseOpenTab(rewritten, parseOptions);
+  if (!isDeepStrictEqual(plain(reparsed), plain(expected))) {
+    throw new Error(
+      "the rewritten source does not match the changed document; " +
+        "change it by hand"
+    );
+  }
+  return { ...result, source: rewritten };
+};
+
+/** Upgrades OpenTab source to `targetVersion` with `migrate`. */
+const migrateSource = (
+  source: string,
+  targetVersion: SpecVersion,
+  file: string
+): { source: string; from: SpecVersion } => {
+  const from = parseOpenTab(source, { ...sourceOptions(), file }).version;
+  if (from === targetVersion) {
+    return { source, from };
+  }
+  const migrated = rewriteSource(source, file, (document) => ({
+    document: migrate(document, targetVersion),
+  }));
+  return { source: migrated.source, from };
+};
+
+program
+  .command("migrate")
+  .description("Upgrade OpenTab files to a newer spec version in place")
+  .argument("<files...>", "OpenTab files")
+  .option(
+    "--to <version>",
+    `Target spec version (${SPEC_VERSIONS.join(", ")})`,
+    LATEST_SPEC_VERSION
+  )
+  .option("--check", "List files that need migrating without writing them")
+  .action(
+    async (filePaths: string[], options: { to: string; check?: boolean }) => {
+      const targetVersion = options.to;
+      if (!isSpecVersion(targetVersion)) {
+        writeErrorAndExit(`Unsupported target version: ${targetVersion}`);
+        return;
+      }
+      let failed = false;
+      let outdated = false;
+      for (const filePath of filePaths) {
+        try {
+          const source = await readSource(filePath);
+          const result = migrateSource(
+            source,
+            targetVersion,
+            path.resolve(filePath)
+          );
+          if (result.from === targetVersion) {
+            continue;
+          }
+          outdated = true;
+          if (!options.check) {
+            await fs.writeFile(filePath, result.source, "utf8");
+          }
+          const verb = options.check ? "needs migrating" : "migrated";
+          writeStdout(
+            `${filePath}: ${verb} from ${result.from} to ${targetVersion}`
+          );
+        } catch (error) {
+          failed = true;
+          process.stderr.write(
+            `${filePath}: migration failed: ${formatError(error)}\n`
+          );
+        }
+      }
+      if (failed || (options.check && outdated)) {
+        process.exit(1);
+      }
+    }
+  );
+
+/**
+ * Transforms a file and prints the new source, or writes it back with
+ * `--write`, warning about notes left as written.
+ */
+const runTransform = async (
+  filePath: string,
+  write: boolean | undefined,
+  transform: (document: OpenTabDocument) => TransformResult
+): Promise<void> => {
+  const source = await readSource(filePath);
+  const result = rewriteSource(source, path.resolve(filePath), transform);
+  for (const issue of result.issues) {
+    process.stderr.write(`${filePath}: warning: ${issue.message}\n`);
+  }
+  if (write) {
+    await fs.writeFile(filePath, result.source, "utf8");
+  } else {
+    writeStdout(result.source);
+  }
+};
+
+/** The `--track` option, or else the file's first track. */
+const trackFor = (document: OpenTabDocument, track?: string): string => {
+  const trackId = track ?? document.tracks[0]?.id;
+  if (trackId === undefined) {
+    throw new Error("the file declares no tracks");
+  }
+  return trackId;
+};
+
+program
+  .command("transpose")
+  .description("Transpose the fretted tracks of an OpenTab file")
+  .argument("<file>", "OpenTab file")
+  .requiredOption(
+    "--by <semitones>",
+    "Semitones up, or down if negative",
+    Number
+  )
+  .option("--write", "Overwrite the file with the transposed output")
+  .action(
+    async (filePath: string, options: { by: number; write?: boolean }) => {
+      try {
+        await runTransform(filePath, options.write, (document) =>
+          transpose(document, options.by)
+        );
+      } catch (error) {
+        writeErrorAndExit(`Transpose failed: ${formatError(error)}`);
+      }
+    }
+  );
+
+type RetuneCommandOptions = {
+  track?: string;
+  tuning?: string;
+  capo?: number;
+  write?: boolean;
+};
+
+program
+  .command("retune")
+  .description("Change a track's tuning or capo, keeping every pitch")
+  .argument("<file>", "OpenTab file")
+  .option("--track <id>", "Track to retune (default: the first track)")
+  .option("--tuning <notes>", "New tuning, lowest string first: D2,A2,D3,...")
+  .option("--capo <fret>", "New capo fret, 0 to remove it", Number)
+  .option("--write", "Overwrite the file with the retuned output")
+  .action(async (filePath: string, options: RetuneCommandOptions) => {
+    if (options.tuning === undefined && options.capo === undefined) {
+      writeErrorAndExit("Retune failed: give --tuning, --capo or both");
+    }
+    try {
+      await runTransform(filePath, options.write, (document) => {
+        const trackId = trackFor(document, options.track);
+        let result: TransformResult = { document, issues: [] };
+        if (options.tuning !== undefined) {
+          result = retune(result.document, trackId, options.tuning.split(","));
+        }
+        if (options.capo !== undefined) {
+          const capoed = applyCapo(result.document, trackId, options.capo);
+          result = {
+            document: capoed.document,
+            issues: [...result.issues, ...capoed.issues],
+          };
+        }
+        return result;
+      });
+    } catch (error) {
+      writeErrorAndExit(`Retune failed: ${formatError(error)}`);
+    }
+  });
+
+type RefingerCommandOptions = {
+  track?: string;
+  minFret?: number;
+  maxFret?: number;
+  maxStretch?: number;
+  write?: boolean;
+};
+
+program
+  .command("refinger")
+  .description("Choose strings and frets with the least stretch and travel")
+  .argument("<file>", "OpenTab file")
+  .option("--track <id>", "Track to refinger (default: the first track)")
+  .option(
+    "--min-fret <fret>",
+    "Lowest fret to use besides open strings",
+    Number
+  )
+  .option("--max-fret <fret>", "Highest fret to use", Number)
+  .option("--max-stretch <frets>", "Widest span of a chord shape", Number)
+  .option("--write", "Overwrite the file with the refingered output")
+  .action(async (filePath: string, options: RefingerCommandOptions) => {
+    try {
+      await runTransform(filePath, options.write, (document) =>
+        refinger(document, trackFor(document, options.track), {
+          minFret: options.minFret,
+          maxFret: options.maxFret,
+          maxStretch: options.maxStretch,
+        })
+      );
+    } catch (error) {
+      writeErrorAndExit(`Refinger failed: ${formatError(error)}`);
+    }
+  });
+
 const toCommand = program.command("to").description("Convert OpenTab files");
 const fromCommand = program.command("from").description("Import files into OpenTab");
 const importCommand = program.command("import").description("Import files into OpenTab");
@@ -83,8 +413,7 @@ toCommand
   .argument("<file>", "OpenTab file")
   .action(async (filePath: string) => {
     try {
-      const source = await readSource(filePath);
-      const document = parseOpenTab(source);
+      const document = await parseFile(filePath);
       writeStdout(toAsciiTab(document));
     } catch (error) {
       writeErrorAndExit(`ASCII conversion failed: ${formatError(error)}`);
@@ -97,24 +426,37 @@ program
   .argument("<file>", "OpenTab file")
   .action(async (filePath: string) => {
     try {
-      const source = await readSource(filePath);
-      const document = parseOpenTab(source);
+      const document = await parseFile(filePath);
       writeStdout(toAsciiTab(document));
     } catch (error) {
       writeErrorAndExit(`Print failed: ${formatError(error)}`);
     }
   });
 
+type MidiCommandOptions = {
+  output: string;
+  strumSpread?: number;
+  arpeggioSpread?: number;
+};
+
 toCommand
   .command("midi")
   .description("Render MIDI from an OpenTab file")
   .argument("<file>", "OpenTab file")
   .requiredOption("-o, --output <file>", "Output MIDI file path")
-  .action(async (filePath: string, options: { output: string }) => {
+  .option("--strum-spread <ticks>", "Ticks between strummed strings", Number)
+  .option(
+    "--arpeggio-spread <ticks>",
+    "Ticks between strings of a rolled chord",
+    Number
+  )
+  .action(async (filePath: string, options: MidiCommandOptions) => {
     try {
-      const source = await readSource(filePath);
-      const document = parseOpenTab(source);
-      const midiData = toMidi(document);
+      const document = await parseFile(filePath);
+      const midiData = toMidi(document, {
+        strumSpread: options.strumSpread,
+        arpeggioSpread: options.arpeggioSpread,
+      });
       const outputPath = path.resolve(options.output);
       await fs.writeFile(outputPath, Buffer.from(midiData));
     } catch (error) {
@@ -129,8 +471,7 @@ toCommand
   .option("-o, --output <file>", "Output MusicXML file path")
   .action(async (filePath: string, options: { output?: string }) => {
     try {
-      const source = await readSource(filePath);
-      const document = parseOpenTab(source);
+      const document = await parseFile(filePath);
       const musicXml = toMusicXml(document);
       if (options.output) {
         const outputPath = path.resolve(options.output);
@@ -193,14 +534,25 @@ importCommand
     "Rhythm strategy (unknown|fixed-eighth|column-grid)",
     "unknown"
   )
+  .option(
+    "--instrument <id>",
+    "Instrument preset (defaults from the number of tab lines)"
+  )
   .action(
     async (
       filePath: string,
-      options: { output?: string; rhythm: "unknown" | "fixed-eighth" | "column-grid" }
+      options: {
+        output?: string;
+        rhythm: "unknown" | "fixed-eighth" | "column-grid";
+        instrument?: string;
+      }
     ) => {
       try {
         const source = await readSource(filePath);
-        const result = importAsciiTab(source, { rhythmStrategy: options.rhythm });
+        const result = importAsciiTab(source, {
+          rhythmStrategy: options.rhythm,
+          instrument: options.instrument,
+        });
         if (result.warnings.length > 0) {
           result.warnings.forEach((warning) => {
             process.stderr.write(`Warning: ${warning}\n`);
@@ -0,0 +1,146 @@
+import assert from "node:assert";
+import { spawnSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = path.dirname(path.dirname(fileURLToPath(import.meta.url)));
+const cli = path.join(root, "dist/index.js");
+const samples = path.resolve(root, "../../samples");
+const temp = fs.mkdtempSync(path.join(os.tmpdir(), "opentab-smoke-"));
+
+/** Runs the built binary the way an installed `opentab` would be run. */
+const run = (...args) => {
+  const result = spawnSync(process.execPath, [cli, ...args], {
+    encoding: "utf8",
+  });
+  assert.strictEqual(
+    result.status,
+    0,
+    `opentab ${args.join(" ")} failed:\n${result.stderr}`
+  );
+  return result.stdout;
+};
+
+const sample = (name) => path.join(samples, name);
+
+try {
+  assert.match(run("--version"), /\d+\.\d+\.\d+/);
+  const parsed = JSON.parse(run("parse", sample("minimal.otab")));
+  assert.strictEqual(parsed.version, "0.2");
+  run("check", sample("techniques.otab"));
+  assert.match(run("fmt", sample("macros.otab")), /^@define riff /m);
+  assert.match(run("to", "ascii", sample("minimal.otab")), /E2 \|3/);
+  assert.match(
+    run("to", "musicxml", sample("minimal.otab")),
+    /<score-partwise/
+  );
+
+  const midi = path.join(temp, "minimal.mid");
+  run("to", "midi", sample("minimal.otab"), "--output", midi);
+  assert.strictEqual(fs.readFileSync(midi).subarray(0, 4).toString(), "MThd");
+
+  fs.writeFileSync(
+    path.join(temp, "b.otab"),
+    "@track gtr1\nm2: | w (6:0) q (6:3) |\n"
+  );
+  const main = path.join(temp, "main.otab");
+  fs.writeFileSync(
+    main,
+    [
+      'format="opentab"',
+      'version="0.2"',
+      "",
+      "[[tracks]]",
+      'id="gtr1"',
+      "---",
+      "@track gtr1",
+      "m1: | w (6:0) |",
+      "@include b.otab",
+      "",
+    ].join("\n")
+  );
+  const checked = spawnSync(process.execPath, [cli, "check", main], {
+    encoding: "utf8",
+  });
+  assert.strictEqual(checked.status, 1);
+  assert.match(
+    checked.stdout,
+    /main\.otab:9:1: error: Measure 2 .* overfull.*\n  .*b\.otab:2:9: Included file/
+  );
+
+  const legacy = path.join(temp, "legacy.otab");
+  fs.writeFileSync(
+    legacy,
+    [
+      'format="opentab"',
+      'version="0.1"',
+      "",
+      "[[tracks]]",
+      'id="gtr1"',
+      "---",
+      "@track gtr1",
+      "# Intro",
+      "m1: | h (6:3){pm=true}   [ (5:2) (4:2) ]{let_ring=true, text=\"A\"} |",
+      "",
+    ].join("\n")
+  );
+  run("migrate", legacy);
+  assert.strictEqual(
+    fs.readFileSync(legacy, "utf8").split("---")[1],
+    [
+      "",
+      "@track gtr1",
+      "# Intro",
+      "m1: | h (6:3.pm)   [ (5:2.lr) (4:2.lr) ]{text=\"A\"} |",
+      "",
+    ].join("\n")
+  );
+  assert.match(fs.readFileSync(legacy, "utf8"), /^version="0\.2"$/m);
+
+  const riffs = path.join(temp, "riffs.otab");
+  fs.writeFileSync(
+    riffs,
+    [
+      'format="opentab"',
+      'version="0.2"',
+      'key="G"',
+      "",
+      "[[tracks]]",
+      'id="gtr1"',
+      "---",
+      "# Verse riff",
+      "@define riff | q (6:3) (5:2h4)  h (4:0) |",
+      "@track gtr1",
+      "@use riff",
+      "@use riff",
+      "m3: | w (3:0) |   ",
+      "",
+    ].join("\n")
+  );
+  run("transpose", riffs, "--by", "2", "--write");
+  assert.strictEqual(
+    fs.readFileSync(riffs, "utf8"),
+    [
+      'format="opentab"',
+      'version="0.2"',
+      'key="A"',
+      "",
+      "[[tracks]]",
+      'id="gtr1"',
+      "---",
+      "# Verse riff",
+      "@define riff | q (6:5) (5:4h6)  h (4:2) |",
+      "@track gtr1",
+      "@use riff",
+      "@use riff",
+      "m3: | w (3:2) |   ",
+      "",
+    ].join("\n")
+  );
+} finally {
+  fs.rmSync(temp, { recursive: true, force: true });
+}
+
+console.log("smoke tests passed");
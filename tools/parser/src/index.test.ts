@@ -2,10 +2,14 @@ import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 
-import { validateAst } from "@opentab/ast";
+import { validateAst, type TrackMeasure } from "@opentab/ast";
 import { describe, expect, it } from "vitest";
 
-import { parseOpenTab } from "./index.js";
+import {
+  parseKeySignature,
+  parseOpenTab,
+  parseOpenTabWithDiagnostics,
+} from "./index.js";
 
 const currentDir = path.dirname(fileURLToPath(import.meta.url));
 const samplesDir = path.resolve(currentDir, "../../../samples");
@@ -176,8 +180,1441 @@ describe("parseOpenTab samples", () => {
             ],
           },
         ],
-        "version": "0.1",
+        "version": "0.2",
       }
     `);
   });
 });
+
+describe("parseOpenTab versions", () => {
+  const withVersion = (version: string) =>
+    [
+      "format=\"opentab\"",
+      `version="${version}"`,
+      "",
+      "[[tracks]]",
+      "id=\"gtr1\"",
+      "---",
+      "@track gtr1",
+      "m1: | w (6:0){pm=true} |",
+    ].join("\n");
+
+  it("keeps the version of older documents and validates them against it", () => {
+    const document = parseOpenTab(withVersion("0.1"));
+
+    expect(document.version).toBe("0.1");
+    expect(validateAst(document).ok).toBe(true);
+  });
+
+  it("warns about v0.2 syntax in a v0.1 document", () => {
+    const source = [
+      "format=\"opentab\"",
+      "version=\"0.1\"",
+      "",
+      "[[tracks]]",
+      "id=\"gtr1\"",
+      "---",
+      "@define lick | q (3:5b7) |",
+      "@track gtr1",
+      "m1: | q (6:0.pm) (6:0.pm) !f (5:2_) (5:2) |",
+      "@time 3/4",
+      "m2: | h. (4:2h4) |",
+    ].join("\n");
+
+    const positioned = parseOpenTabWithDiagnostics(source, { positions: true });
+
+    expect(
+      positioned.diagnostics.map(({ code, severity, message, line, column }) =>
+        [code, severity, message, line, column].join(" ")
+      )
+    ).toEqual([
+      "requires-version warning Using @define directives requires version " +
+        "0.2 7 1",
+      "requires-version warning Using the palm_mute technique requires " +
+        "version 0.2 9 9",
+      "requires-version warning Using dynamics requires version 0.2 9 30",
+      "requires-version warning Using ties requires version 0.2 9 30",
+      "requires-version warning Using @time directives requires version " +
+        "0.2 11 1",
+    ]);
+    expect(positioned.document.version).toBe("0.1");
+    expect(validateAst(positioned.document).ok).toBe(false);
+
+    const unpositioned = parseOpenTabWithDiagnostics(source);
+    expect(unpositioned.diagnostics[1]).toMatchObject({ line: 2, column: 1 });
+    expect(() => parseOpenTab(source)).not.toThrow();
+    expect(
+      parseOpenTabWithDiagnostics(source.replace("0.1", "0.2")).diagnostics
+    ).toEqual([]);
+  });
+
+  it("reports versions it cannot read", () => {
+    const result = parseOpenTabWithDiagnostics(withVersion("9.9"));
+
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        code: "unsupported-version",
+        message: "Unsupported version: 9.9 (expected 0.1 or 0.2)",
+        line: 2,
+      }),
+    ]);
+  });
+});
+
+describe("parseOpenTab measure directives", () => {
+  const header = [
+    "format=\"opentab\"",
+    "version=\"0.2\"",
+    "time_signature=\"4/4\"",
+    "",
+    "[[tracks]]",
+    "id=\"gtr1\"",
+    "---",
+    "@track gtr1",
+  ];
+
+  it("attaches @time and @tempo to the next measure", () => {
+    const document = parseOpenTab(
+      [
+        ...header,
+        "m1: | w (6:0) |",
+        "@time 6/8",
+        "@tempo 140",
+        "m2: | q. (6:0) q. (6:3) |",
+        "m3: | q. (6:0) q. (6:3) |",
+      ].join("\n")
+    );
+
+    expect(document.measures[0].time_signature).toBeUndefined();
+    expect(document.measures[1].time_signature).toEqual({
+      numerator: 6,
+      denominator: 8,
+    });
+    expect(document.measures[1].tempo_bpm).toBe(140);
+    expect(document.measures[2].time_signature).toBeUndefined();
+    expect(validateAst(document).ok).toBe(true);
+  });
+
+  it("rejects a change that is not followed by a measure", () => {
+    expect(() =>
+      parseOpenTab([...header, "m1: | w (6:0) |", "@tempo 90"].join("\n"))
+    ).toThrow(/not followed by a measure \(line 10, column 1\)/);
+  });
+
+  it("rejects invalid time signature directives", () => {
+    expect(() =>
+      parseOpenTab([...header, "@time 7/5", "m1: | w (6:0) |"].join("\n"))
+    ).toThrow(/Invalid time signature directive/);
+  });
+
+  it("reads the header key and @key changes", () => {
+    const document = parseOpenTab(
+      [
+        ...header.slice(0, 3),
+        "key=\"F\"",
+        ...header.slice(3),
+        "m1: | w (6:1) |",
+        "@key C# minor",
+        "m2: | w (6:0) |",
+        "@key Bbm",
+        "m3: | w (6:1) |",
+      ].join("\n")
+    );
+
+    expect(document.header.key).toEqual({ fifths: -1, mode: "major" });
+    expect(document.measures[1].key).toEqual({ fifths: 4, mode: "minor" });
+    expect(document.measures[2].key).toEqual({ fifths: -5, mode: "minor" });
+    expect(validateAst(document).ok).toBe(true);
+
+    expect(parseKeySignature("D#")).toBeUndefined();
+    expect(parseKeySignature("Cb")).toEqual({ fifths: -7, mode: "major" });
+    expect(() =>
+      parseOpenTab([...header, "@key H", "m1: | w (6:0) |"].join("\n"))
+    ).toThrow(/Invalid key directive/);
+  });
+
+  it("parses repeat barlines, endings and navigation", () => {
+    const document = parseOpenTab(
+      [
+        ...header,
+        "@segno",
+        "m1: |: w (6:0) |",
+        "@ending 1,2",
+        "m2: | w (6:3) :|x3",
+        "@ending 3",
+        "@ds al fine",
+        "m3: | w (6:5) |",
+      ].join("\n")
+    );
+
+    expect(document.measures[0]).toMatchObject({
+      repeat_start: true,
+      markers: ["segno"],
+    });
+    expect(document.measures[1]).toMatchObject({
+      repeat_end: true,
+      repeat_times: 3,
+      ending: [1, 2],
+    });
+    expect(document.measures[2]).toMatchObject({
+      ending: [3],
+      jump: { to: "segno", until: "fine" },
+    });
+    expect(validateAst(document).ok).toBe(true);
+  });
+
+  it("rejects a repeat count without an end repeat", () => {
+    expect(() =>
+      parseOpenTab([...header, "m1: | w (6:0) |x2"].join("\n"))
+    ).toThrow(/Invalid repeat count/);
+  });
+});
+
+describe("parseOpenTab techniques", () => {
+  const parseNote = (note: string) => {
+    const document = parseOpenTab(
+      [
+        "format=\"opentab\"",
+        "version=\"0.2\"",
+        "",
+        "[[tracks]]",
+        "id=\"gtr1\"",
+        "---",
+        "@track gtr1",
+        `m1: | w ${note} |`,
+      ].join("\n")
+    );
+    const event = document.measures[0].tracks.gtr1.voices.v1[0];
+    return event.type === "note" ? event.note : undefined;
+  };
+
+  it("expands bend spellings into quarter-tone curves", () => {
+    expect(parseNote("(3:7b9r7)")?.inlineTechniques).toEqual([
+      {
+        type: "bend",
+        fromFret: 7,
+        toFret: 9,
+        releaseFret: 7,
+        bendType: "bend_release",
+        points: [
+          { position: 0, value: 0 },
+          { position: 25, value: 4 },
+          { position: 50, value: 4 },
+          { position: 75, value: 0 },
+        ],
+      },
+    ]);
+    expect(parseNote("(2:8pb9)")?.inlineTechniques).toEqual([
+      {
+        type: "bend",
+        fromFret: 8,
+        toFret: 9,
+        bendType: "prebend",
+        points: [{ position: 0, value: 2 }],
+      },
+    ]);
+    expect(parseNote("(2:8b[0:0,40:3,100:1]~)")?.inlineTechniques).toEqual([
+      {
+        type: "bend",
+        fromFret: 8,
+        bendType: "bend",
+        points: [
+          { position: 0, value: 0 },
+          { position: 40, value: 3 },
+          { position: 100, value: 1 },
+        ],
+      },
+      { type: "vibrato" },
+    ]);
+  });
+
+  it("reads dead notes and dotted technique modifiers", () => {
+    expect(parseNote("(5:x.pm)")).toEqual({
+      string: 5,
+      fret: 0,
+      inlineTechniques: [{ type: "dead_note" }, { type: "palm_mute" }],
+    });
+    expect(parseNote("(3:5.ah17.lr)")?.inlineTechniques).toEqual([
+      { type: "harmonic", harmonicType: "artificial", toFret: 17 },
+      { type: "let_ring" },
+    ]);
+    expect(parseNote("(2:5h7.tr9)")?.inlineTechniques).toEqual([
+      { type: "hammer_on", fromFret: 5, toFret: 7 },
+      { type: "trill", toFret: 9 },
+    ]);
+    expect(parseNote("(6:0.tp)")?.inlineTechniques).toEqual([
+      { type: "tremolo_picking", marks: 3 },
+    ]);
+  });
+
+  it("rejects unknown or malformed modifiers", () => {
+    expect(() => parseNote("(3:5.zz)")).toThrow(/Unknown technique \.zz/);
+    expect(() => parseNote("(3:5.pm2)")).toThrow(/Unknown technique \.pm2/);
+    expect(() => parseNote("(3:5.ah)")).toThrow(/Unknown technique \.ah/);
+    expect(() => parseNote("(3:5.tp5)")).toThrow(/Unknown technique \.tp5/);
+    expect(() => parseNote("(3:5.)")).toThrow(/Technique missing name/);
+  });
+
+  it("links ties within and across measures", () => {
+    const document = parseOpenTab(
+      fs.readFileSync(path.join(samplesDir, "ties.otab"), "utf8")
+    );
+    const [m1, m2] = document.measures.map(
+      (measure) => measure.tracks.gtr1.voices.v1
+    );
+    const ties = (event: (typeof m1)[number]) =>
+      event.type === "note"
+        ? [event.note.tie]
+        : event.type === "chord"
+          ? event.chord.map((note) => note.tie)
+          : [];
+
+    expect(m1.map(ties)).toEqual([
+      [undefined],
+      ["start"],
+      ["stop"],
+      ["start", "start", undefined],
+    ]);
+    expect(m2.map(ties)).toEqual([
+      ["stop", "continue", undefined],
+      ["stop"],
+      [],
+    ]);
+  });
+
+  it("reports ties that are not followed by the same note", () => {
+    const { diagnostics } = parseOpenTabWithDiagnostics(
+      [
+        "format=\"opentab\"",
+        "version=\"0.2\"",
+        "",
+        "[[tracks]]",
+        "id=\"gtr1\"",
+        "---",
+        "@track gtr1",
+        "m1: | q (3:5_) (3:7) (2:5_) r |",
+      ].join("\n")
+    );
+
+    expect(diagnostics).toEqual([
+      {
+        code: "invalid-tie",
+        message:
+          "Tied note on string 3 is not followed by fret 5 on the same string",
+        severity: "error",
+        line: 8,
+        column: 9,
+        endColumn: 15,
+      },
+      {
+        code: "invalid-tie",
+        message:
+          "Tied note on string 2 is not followed by fret 5 on the same string",
+        severity: "error",
+        line: 8,
+        column: 22,
+        endColumn: 28,
+      },
+    ]);
+  });
+
+  it("marks grace notes and chords on the event", () => {
+    const document = parseOpenTab(
+      fs.readFileSync(path.join(samplesDir, "grace-notes.otab"), "utf8"),
+      { positions: true }
+    );
+    const [m1, m2] = document.measures.map(
+      (measure) => measure.tracks.gtr1.voices.v1
+    );
+
+    expect(m1.map((event) => event.type !== "rest" && event.grace)).toEqual([
+      "acciaccatura",
+      undefined,
+      undefined,
+      "appoggiatura",
+      undefined,
+      false,
+    ]);
+    expect(m1[0]).toMatchObject({
+      duration: { base: "s" },
+      note: {
+        string: 3,
+        fret: 5,
+        position: { start: { column: 10 }, end: { column: 15 } },
+      },
+      position: { start: { column: 9 }, end: { column: 15 } },
+    });
+    expect(m2[4]).toMatchObject({ type: "chord", grace: "appoggiatura" });
+  });
+
+  it("rejects malformed bends", () => {
+    expect(() => parseNote("(3:7b)")).toThrow(/Bend missing target fret/);
+    expect(() => parseNote("(3:7b5)")).toThrow(/above the fretted note/);
+    expect(() => parseNote("(3:7b9r10)")).toThrow(/Bend release/);
+    expect(() => parseNote("(3:7b[50:2,20:4])")).toThrow(/Invalid bend curve/);
+  });
+});
+
+describe("parseOpenTabWithDiagnostics", () => {
+  it("reports every error and keeps the valid measures", () => {
+    const source = [
+      "format=\"opentab\"",
+      "version=\"0.2\"",
+      "tempo_bpm=\"fast\"",
+      "",
+      "[[tracks]]",
+      "id=\"gtr1\"",
+      "---",
+      "@track gtr1",
+      "m1: | q (6:3) q (6:y) q. (5:5) h r |",
+      "m2: q (6:3)",
+      "@wat",
+      "m3: | q.. (6:3) w (5:0) |",
+    ].join("\n");
+
+    const { document, diagnostics } = parseOpenTabWithDiagnostics(source);
+
+    expect(diagnostics).toEqual([
+      {
+        code: "invalid-header",
+        message: "Invalid tempo_bpm",
+        severity: "error",
+        line: 3,
+        column: 1,
+        endColumn: 17,
+      },
+      {
+        code: "invalid-note",
+        message: "Invalid fret in note reference: 6:y",
+        severity: "error",
+        line: 9,
+        column: 17,
+        endColumn: 22,
+      },
+      {
+        code: "invalid-measure",
+        message: "Invalid measure line: m2: q (6:3)",
+        severity: "error",
+        line: 10,
+        column: 1,
+        endColumn: 12,
+      },
+      {
+        code: "unknown-directive",
+        message: "Unknown directive: @wat",
+        severity: "error",
+        line: 11,
+        column: 1,
+        endColumn: 5,
+      },
+      {
+        code: "invalid-duration",
+        message: "Invalid duration: q..",
+        severity: "error",
+        line: 12,
+        column: 7,
+        endColumn: 10,
+      },
+      {
+        code: "missing-duration",
+        message: "Missing duration before token \"(6:3)\" in measure 3",
+        severity: "error",
+        line: 12,
+        column: 11,
+        endColumn: 16,
+      },
+    ]);
+    expect(document.header.tempo_bpm).toBe(120);
+    expect(document.measures.map((measure) => measure.index)).toEqual([1, 3]);
+    expect(document.measures[0].tracks.gtr1.voices.v1).toHaveLength(3);
+    expect(document.measures[1].tracks.gtr1.voices.v1).toHaveLength(1);
+  });
+
+  it("recovers from a missing header delimiter", () => {
+    const { document, diagnostics } = parseOpenTabWithDiagnostics(
+      ["title=\"Example\"", "@track gtr1", "m1: | w (6:0) |"].join("\n")
+    );
+
+    expect(diagnostics.map((diagnostic) => diagnostic.code)).toEqual([
+      "missing-delimiter",
+      "missing-header-key",
+      "missing-header-key",
+    ]);
+    expect(document.header.title).toBe("Example");
+    expect(document.measures).toHaveLength(1);
+  });
+
+  it("returns no diagnostics for a valid sample", () => {
+    const source = fs.readFileSync(path.join(samplesDir, "minimal.otab"), "utf8");
+
+    const { document, diagnostics } = parseOpenTabWithDiagnostics(source);
+
+    expect(diagnostics).toEqual([]);
+    expect(document).toEqual(parseOpenTab(source));
+  });
+});
+
+describe("parseOpenTab positions", () => {
+  const source = [
+    "format=\"opentab\"",
+    "version=\"0.2\"",
+    "",
+    "[[tracks]]",
+    "id=\"gtr1\"",
+    "name=\"Guitar\"",
+    "---",
+    "@track gtr1",
+    "m1: | q (6:3){pm=true} [ (5:2) (4:2) ] h r |",
+  ].join("\n");
+
+  it("omits positions by default", () => {
+    const document = parseOpenTab(source);
+
+    expect(document.tracks[0].position).toBeUndefined();
+    expect(document.measures[0].position).toBeUndefined();
+  });
+
+  it("records line and column spans when requested", () => {
+    const document = parseOpenTab(source, { positions: true });
+    const [note, chord, rest] = document.measures[0].tracks.gtr1.voices.v1;
+
+    expect(document.tracks[0].position).toEqual({
+      start: { line: 4, column: 1 },
+      end: { line: 6, column: 14 },
+    });
+    expect(document.measures[0].position).toEqual({
+      start: { line: 9, column: 1 },
+      end: { line: 9, column: 45 },
+    });
+    expect(note.position).toEqual({
+      start: { line: 9, column: 9 },
+      end: { line: 9, column: 23 },
+    });
+    expect(note.type === "note" && note.note.position).toEqual({
+      start: { line: 9, column: 9 },
+      end: { line: 9, column: 14 },
+    });
+    expect(chord.type === "chord" && chord.chord[1].position).toEqual({
+      start: { line: 9, column: 32 },
+      end: { line: 9, column: 37 },
+    });
+    expect(rest.position).toEqual({
+      start: { line: 9, column: 42 },
+      end: { line: 9, column: 43 },
+    });
+    expect(validateAst(document).ok).toBe(true);
+  });
+});
+
+describe("parseOpenTab header", () => {
+  const body = ["---", "@track gtr1", "m1: | w (6:0) |"];
+
+  it("reads TOML 1.0 headers written by other tools", () => {
+    const document = parseOpenTab(
+      [
+        "# Exported header",
+        "format = \"opentab\" # required",
+        "version = '0.2'",
+        "generator = { name = \"tabber\", build = 0x1F }",
+        "",
+        "[header]",
+        "title = \"The \\\"Riff\\\"\"",
+        "time_signature = { numerator = 7, denominator = 8 }",
+        "",
+        "[[tracks]]",
+        "id = \"gtr1\"",
+        "tuning = [",
+        "  \"E2\", \"A2\", \"D3\", # low strings",
+        "  \"G3\", \"B3\", \"E4\",",
+        "]",
+        "pickup.position = \"bridge\"",
+        ...body,
+      ].join("\n")
+    );
+
+    expect(document.header).toEqual({
+      title: "The \"Riff\"",
+      tempo_bpm: 120,
+      time_signature: { numerator: 7, denominator: 8 },
+      extensions: { generator: { name: "tabber", build: 31 } },
+    });
+    expect(document.tracks[0].tuning).toEqual([
+      "E2",
+      "A2",
+      "D3",
+      "G3",
+      "B3",
+      "E4",
+    ]);
+    expect(document.tracks[0].extensions).toEqual({
+      pickup: { position: "bridge" },
+    });
+    expect(validateAst(document).ok).toBe(true);
+  });
+
+  it("reports TOML syntax errors with line and column", () => {
+    expect(() =>
+      parseOpenTab(
+        [
+          "format = \"opentab\"",
+          "version = \"0.2\"",
+          "title = \"Unterminated",
+          ...body,
+        ].join("\n")
+      )
+    ).toThrow(/Unterminated string \(line 3, column 9\)/);
+  });
+
+  it("rejects duplicate keys and redefined tables", () => {
+    const { diagnostics } = parseOpenTabWithDiagnostics(
+      [
+        "format = \"opentab\"",
+        "version = \"0.2\"",
+        "title = \"One\"",
+        "title = \"Two\"",
+        "[header]",
+        "artist = \"A\"",
+        "[header]",
+        ...body,
+      ].join("\n")
+    );
+
+    expect(
+      diagnostics.map(({ line, column, message }) => ({ line, column, message }))
+    ).toEqual([
+      { line: 4, column: 1, message: "Duplicate key: title" },
+      { line: 7, column: 1, message: "Table [header] is already defined" },
+    ]);
+  });
+
+  it("reports invalid track fields", () => {
+    const { document, diagnostics } = parseOpenTabWithDiagnostics(
+      [
+        "format = \"opentab\"",
+        "version = \"0.2\"",
+        "[[tracks]]",
+        "id = \"gtr1\"",
+        "capo = -2",
+        ...body,
+      ].join("\n")
+    );
+
+    expect(diagnostics).toEqual([
+      {
+        code: "invalid-track",
+        message: "Invalid track field: capo",
+        severity: "error",
+        line: 5,
+        column: 1,
+        endColumn: 10,
+      },
+    ]);
+    expect(document.tracks[0].capo).toBeUndefined();
+  });
+});
+
+describe("parseOpenTab chord definitions", () => {
+  const header = [
+    "format = \"opentab\"",
+    "version = \"0.2\"",
+    "[[tracks]]",
+    "id = \"gtr1\"",
+    "[[chords]]",
+    "name = \"Dsus2\"",
+    "frets = [\"x\", \"x\", 0, 2, 3, 0]",
+    "fingers = [0, 0, 0, 1, 3, 0]",
+    "[[chords]]",
+    "name = \"F\"",
+    "frets = [1, 3, 3, 2, 1, 1]",
+    "barre = { fret = 1, from = 6, to = 1 }",
+  ];
+
+  it("expands chord references into named chord events", () => {
+    const document = parseOpenTab(
+      [
+        ...header,
+        "---",
+        "@track gtr1",
+        "m1: | h [Dsus2] g[F]{strum=\"down\"} |",
+      ].join("\n")
+    );
+
+    expect(document.chords).toEqual([
+      {
+        name: "Dsus2",
+        frets: ["x", "x", 0, 2, 3, 0],
+        fingers: [0, 0, 0, 1, 3, 0],
+      },
+      {
+        name: "F",
+        frets: [1, 3, 3, 2, 1, 1],
+        barre: { fret: 1, from: 6, to: 1 },
+      },
+    ]);
+    const [dsus2, f] = document.measures[0].tracks.gtr1.voices.v1;
+    expect(dsus2).toEqual({
+      type: "chord",
+      duration: { base: "h" },
+      name: "Dsus2",
+      chord: [
+        { string: 4, fret: 0 },
+        { string: 3, fret: 2 },
+        { string: 2, fret: 3 },
+        { string: 1, fret: 0 },
+      ],
+    });
+    expect(f).toMatchObject({
+      name: "F",
+      grace: "acciaccatura",
+      annotations: { strum: "down" },
+    });
+    expect(validateAst(document).ok).toBe(true);
+  });
+
+  it("reports unknown chords and invalid definitions", () => {
+    const { document, diagnostics } = parseOpenTabWithDiagnostics(
+      [
+        ...header,
+        "[[chords]]",
+        "name = \"Dsus2\"",
+        "frets = [0, 2, 2]",
+        "[[chords]]",
+        "name = \"E5\"",
+        "frets = [0, 2, \"x\"]",
+        "barre = { fret = 2, from = 4, to = 1 }",
+        "---",
+        "@track gtr1",
+        "m1: | h [Gm] [E5] |",
+      ].join("\n")
+    );
+
+    expect(
+      diagnostics.map(({ code, line, message }) => ({ code, line, message }))
+    ).toEqual([
+      {
+        code: "invalid-chord",
+        line: 13,
+        message: "Duplicate chord definition: Dsus2",
+      },
+      { code: "invalid-chord", line: 19, message: "Invalid chord field: barre" },
+      { code: "unknown-chord", line: 22, message: "Unknown chord: Gm" },
+    ]);
+    expect(document.chords?.map((chord) => chord.name)).toEqual([
+      "Dsus2",
+      "F",
+      "E5",
+    ]);
+    expect(document.measures[0].tracks.gtr1.voices.v1).toHaveLength(1);
+  });
+});
+
+describe("parseOpenTab chord strokes", () => {
+  it("reads strum and arpeggio suffixes on chords", () => {
+    const { document, diagnostics } = parseOpenTabWithDiagnostics(
+      [
+        "format=\"opentab\"",
+        "version=\"0.2\"",
+        "[[tracks]]",
+        "id=\"gtr1\"",
+        "---",
+        "@track gtr1",
+        "m1: | q [ (6:0) (5:2) ].down [ (6:0) (5:2) ].up{text=\"x\"} " +
+          "[ (6:0) (5:2) ].arp g[ (6:0) (5:2) ].arp.up [ (6:0) (5:2) ] |",
+        "m2: | q [ (6:0) (5:2) ].up.down [ (6:0) (5:2) ].rake |",
+      ].join("\n")
+    );
+
+    const strokes = document.measures[0].tracks.gtr1.voices.v1.map((event) =>
+      event.type === "chord" ? event.stroke : undefined
+    );
+    expect(strokes).toEqual([
+      { type: "strum", direction: "down" },
+      { type: "strum", direction: "up" },
+      { type: "arpeggio" },
+      { type: "arpeggio", direction: "up" },
+      undefined,
+    ]);
+    expect(
+      diagnostics.map(({ column, message }) => ({ column, message }))
+    ).toEqual([
+      { column: 9, message: "Invalid chord stroke: .up.down" },
+      { column: 33, message: "Invalid chord stroke: .rake" },
+    ]);
+    expect(validateAst(document).ok).toBe(true);
+  });
+});
+
+describe("parseOpenTab dynamics", () => {
+  const header = [
+    "format=\"opentab\"",
+    "version=\"0.2\"",
+    "",
+    "[[tracks]]",
+    "id=\"gtr1\"",
+    "---",
+    "@track gtr1",
+  ];
+
+  it("attaches dynamics and hairpins to the following events", () => {
+    const document = parseOpenTab(
+      fs.readFileSync(path.join(samplesDir, "dynamics.otab"), "utf8")
+    );
+    const marks = document.measures.map((measure) =>
+      measure.tracks.gtr1.voices.v1.map(({ dynamic, hairpin, hairpin_end }) => ({
+        dynamic,
+        hairpin,
+        hairpin_end,
+      }))
+    );
+
+    expect(marks[0][0]).toEqual({ dynamic: "p" });
+    expect(marks[0][1]).toEqual({ hairpin: "crescendo" });
+    expect(marks[1][2]).toEqual({ dynamic: "f", hairpin_end: true });
+    expect(marks[1][3]).toEqual({ hairpin: "diminuendo" });
+    expect(marks[2][2]).toEqual({ hairpin_end: true });
+    expect(validateAst(document).ok).toBe(true);
+  });
+
+  it("reports unknown marks, stray hairpin ends and unfinished marks", () => {
+    const result = parseOpenTabWithDiagnostics(
+      [
+        ...header,
+        "m1: | q (1:0) !sfz q (1:0) ! q (1:0) !< q (1:0) |",
+        "@track gtr1 voice v2",
+        "m1: | w (1:0) !ff |",
+      ].join("\n")
+    );
+
+    expect(
+      result.diagnostics.map(({ message, line, column }) => ({
+        message,
+        line,
+        column,
+      }))
+    ).toEqual([
+      { message: "Unknown dynamic: !sfz", line: 8, column: 15 },
+      { message: "Hairpin end without an open hairpin", line: 8, column: 28 },
+      {
+        message: "Hairpin is not ended in track gtr1 voice v1",
+        line: 8,
+        column: 38,
+      },
+      {
+        message: "Dynamic mark is not followed by an event in track gtr1 voice v2",
+        line: 10,
+        column: 15,
+      },
+    ]);
+  });
+});
+
+describe("parseOpenTab lyrics", () => {
+  const parseLyrics = (...lines: string[]) =>
+    parseOpenTabWithDiagnostics(
+      [
+        "format=\"opentab\"",
+        "version=\"0.2\"",
+        "[[tracks]]",
+        "id=\"gtr1\"",
+        "---",
+        "@track gtr1",
+        "m1: | q (3:0) r (2:0_) (2:0) |",
+        "m2: | s g(3:5) q. (3:7) h (2:1) |",
+        ...lines,
+      ].join("\n")
+    );
+
+  it("maps syllables onto the notes of a voice", () => {
+    const { document, diagnostics } = parseLyrics(
+      "@lyrics gtr1 v1: Hel-lo",
+      "@lyrics gtr1: there _"
+    );
+
+    expect(diagnostics).toEqual([]);
+    const lyrics = document.measures.map((measure) =>
+      measure.tracks.gtr1.voices.v1.map((event) =>
+        event.type === "rest" || event.type === "hit" ? undefined : event.lyric
+      )
+    );
+    expect(lyrics).toEqual([
+      [
+        { text: "Hel", syllabic: "begin" },
+        undefined,
+        { text: "lo", syllabic: "end" },
+        undefined,
+      ],
+      [
+        undefined,
+        { text: "there", syllabic: "single", extend: true },
+        undefined,
+      ],
+    ]);
+    expect(validateAst(document).ok).toBe(true);
+  });
+
+  it("starts at a measure anchor and reports surplus syllables", () => {
+    const { document, diagnostics } = parseLyrics(
+      "@lyrics gtr1 v1 m2: oh no more",
+      "@lyrics gtr1 v1: a--b"
+    );
+
+    expect(
+      diagnostics.map(({ code, line, message }) => ({ code, line, message }))
+    ).toEqual([
+      {
+        code: "invalid-lyrics",
+        line: 10,
+        message: "Invalid lyrics: @lyrics gtr1 v1: a--b",
+      },
+      {
+        code: "invalid-lyrics",
+        line: 9,
+        message: "Lyrics have more syllables than notes in track gtr1 voice v1",
+      },
+    ]);
+    const [, first, second] = document.measures[1].tracks.gtr1.voices.v1;
+    expect(first.type === "note" && first.lyric?.text).toBe("oh");
+    expect(second.type === "note" && second.lyric?.text).toBe("no");
+  });
+});
+
+describe("parseOpenTab macros and includes", () => {
+  const header = [
+    "format=\"opentab\"",
+    "version=\"0.2\"",
+    "[[tracks]]",
+    "id=\"gtr1\"",
+    "---",
+  ];
+  const files: Record<string, string> = {
+    "riffs.otab": "@define intro | q (6:0) (6:3) h (6:5) |",
+    "verse.otab": [...header, "@track gtr1", "@use intro"].join("\n"),
+    "loop.otab": "@include loop.otab",
+  };
+  const resolveInclude = (file: string) =>
+    file in files ? { file, source: files[file] } : undefined;
+  const parseMacros = (...lines: string[]) =>
+    parseOpenTabWithDiagnostics([...header, ...lines].join("\n"), {
+      file: "song.otab",
+      resolveInclude,
+    });
+
+  it("expands macros into numbered measures", () => {
+    const { document, diagnostics } = parseMacros(
+      "@define riff | q (3:0) (3:2) h (3:3) | w (3:5) :|",
+      "@track gtr1",
+      "m1: | w (2:1) |",
+      "@use riff",
+      "@use riff m4"
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(document.measures.map((measure) => measure.index)).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+    expect(document.measures[1].tracks.gtr1.voices.v1).toEqual(
+      document.measures[3].tracks.gtr1.voices.v1
+    );
+    expect(document.measures[2].repeat_end).toBe(true);
+    expect(validateAst(document).ok).toBe(true);
+  });
+
+  it("points macro errors at the definition and the use site", () => {
+    const { diagnostics } = parseMacros(
+      "@define bad | q (3:y) |",
+      "@track gtr1",
+      "@use bad",
+      "@use bad m4",
+      "@use missing"
+    );
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: "invalid-note",
+        line: 6,
+        column: 17,
+        related: [
+          {
+            message: "Expanded from @use bad",
+            line: 8,
+            column: 1,
+            endColumn: 9,
+          },
+        ],
+      }),
+      expect.objectContaining({ code: "unknown-macro", line: 10 }),
+    ]);
+  });
+
+  it("records the use line on spans expanded from a macro", () => {
+    const { document } = parseOpenTabWithDiagnostics(
+      [...header, "@define riff | w (3:0) |", "@track gtr1", "@use riff"].join(
+        "\n"
+      ),
+      { positions: true }
+    );
+
+    expect(document.measures[0].tracks.gtr1.voices.v1[0].position).toEqual({
+      start: { line: 6, column: 18 },
+      end: { line: 6, column: 23 },
+      from: {
+        directive: "use",
+        macro: "riff",
+        span: { start: { line: 8, column: 1 }, end: { line: 8, column: 10 } },
+      },
+    });
+    expect(validateAst(document).ok).toBe(true);
+  });
+
+  it("reads included files through the resolver", () => {
+    const { document, diagnostics } = parseMacros(
+      "@include riffs.otab",
+      "@include \"verse.otab\"",
+      "@include loop.otab",
+      "@include lost.otab"
+    );
+
+    expect(document.measures).toHaveLength(1);
+    expect(document.measures[0].tracks.gtr1.voices.v1).toHaveLength(3);
+    expect(
+      diagnostics.map(({ code, line, message }) => ({ code, line, message }))
+    ).toEqual([
+      {
+        code: "invalid-include",
+        line: 8,
+        message: "Include cycle: song.otab -> loop.otab -> loop.otab",
+      },
+      {
+        code: "invalid-include",
+        line: 9,
+        message: "Cannot resolve include: lost.otab",
+      },
+    ]);
+    expect(() =>
+      parseOpenTab([...header, "@include riffs.otab"].join("\n"))
+    ).toThrow("Cannot resolve include: riffs.otab");
+  });
+
+  it("reports errors inside included files at the include line", () => {
+    files["broken.otab"] = "@track gtr1\nm1: | q (1:z) |";
+    const { diagnostics } = parseMacros("@include broken.otab");
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        line: 6,
+        message: "Invalid fret in note reference: 1:z",
+        related: [
+          {
+            message: "Included file",
+            file: "broken.otab",
+            line: 2,
+            column: 9,
+            endColumn: 14,
+          },
+        ],
+      }),
+    ]);
+  });
+
+  it("records the included file and the include line on spans", () => {
+    files["bar.otab"] = "@track gtr1\nm2: | w (1:0) |";
+    const { document } = parseOpenTabWithDiagnostics(
+      [...header, "@track gtr1", "m1: | w r |", "@include bar.otab"].join(
+        "\n"
+      ),
+      { file: "song.otab", resolveInclude, positions: true }
+    );
+
+    const include = {
+      directive: "include",
+      span: { start: { line: 8, column: 1 }, end: { line: 8, column: 18 } },
+    };
+    expect(document.measures[0].position).not.toHaveProperty("file");
+    expect(document.measures[1].position).toEqual({
+      start: { line: 2, column: 1 },
+      end: { line: 2, column: 16 },
+      file: "bar.otab",
+      from: include,
+    });
+    expect(document.measures[1].tracks.gtr1.voices.v1[0].position).toEqual({
+      start: { line: 2, column: 9 },
+      end: { line: 2, column: 14 },
+      file: "bar.otab",
+      from: include,
+    });
+    expect(validateAst(document).ok).toBe(true);
+  });
+});
+
+describe("parseOpenTab measure repeats and ranges", () => {
+  const parseRepeats = (...lines: string[]) =>
+    parseOpenTabWithDiagnostics(
+      [
+        "format=\"opentab\"",
+        "version=\"0.2\"",
+        "[[tracks]]",
+        "id=\"gtr1\"",
+        "---",
+        "@track gtr1",
+        ...lines,
+      ].join("\n")
+    );
+  const frets = (measure: { tracks: Record<string, TrackMeasure> }) =>
+    measure.tracks.gtr1.voices.v1.map((event) =>
+      event.type === "note" ? event.note.fret : event.type
+    );
+
+  it("expands % signs and ranges into measures", () => {
+    const { document, diagnostics } = parseRepeats(
+      "m1: | h (6:0) (6:3_) |",
+      "m2: | w (6:3) |",
+      "m3: | %2 |",
+      "m5-m7: | % |",
+      "m8-m10: | w r |",
+      "m11-m12: |: w (5:2) :|"
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(document.measures.map(frets)).toEqual([
+      [0, 3],
+      [3],
+      [0, 3],
+      [3],
+      [3],
+      [3],
+      [3],
+      ["rest"],
+      ["rest"],
+      ["rest"],
+      [2],
+      [2],
+    ]);
+    expect(
+      document.measures.map((measure) => measure.tracks.gtr1.shorthand?.v1)
+    ).toEqual([
+      undefined,
+      undefined,
+      { type: "repeat", measures: 2 },
+      undefined,
+      { type: "repeat", measures: 1 },
+      { type: "repeat", measures: 1 },
+      { type: "repeat", measures: 1 },
+      { type: "rest", measures: 3 },
+      undefined,
+      undefined,
+      undefined,
+      { type: "repeat", measures: 1 },
+    ]);
+    const [, tiedCopy] = document.measures[2].tracks.gtr1.voices.v1;
+    expect(tiedCopy.type === "note" && tiedCopy.note.tie).toBe("start");
+    expect(document.measures[10].repeat_start).toBe(true);
+    expect(document.measures[11].repeat_end).toBe(true);
+    expect(validateAst(document).ok).toBe(true);
+  });
+
+  it("rejects repeats without source measures and uneven ranges", () => {
+    const { diagnostics } = parseRepeats(
+      "m1: | % |",
+      "m2-m4: | %2 |",
+      "m6-m5: | w r |"
+    );
+
+    expect(diagnostics.map(({ line, message }) => ({ line, message }))).toEqual(
+      [
+        {
+          line: 7,
+          message: "Measure repeat needs measure 0 in track gtr1 voice v1",
+        },
+        { line: 8, message: "Invalid measure repeat: m2-m4: | %2 |" },
+        { line: 9, message: "Invalid measure range: m6-m5: | w r |" },
+      ]
+    );
+  });
+});
+
+describe("parseOpenTab duplicate measures", () => {
+  const source = (...lines: string[]) =>
+    [
+      "format=\"opentab\"",
+      "version=\"0.2\"",
+      "[[tracks]]",
+      "id=\"gtr1\"",
+      "---",
+      "@track gtr1",
+      ...lines,
+    ].join("\n");
+  const frets = (document: {
+    measures: { tracks: Record<string, TrackMeasure> }[];
+  }) =>
+    document.measures.map((measure) =>
+      measure.tracks.gtr1.voices.v1.map((event) =>
+        event.type === "note" ? event.note.fret : event.type
+      )
+    );
+  const duplicated = source(
+    "m1: | h (6:0) (6:1) |",
+    "m2: | w (6:2) |",
+    "@track gtr1 voice v2",
+    "m1: | w (5:0) |",
+    "@track gtr1",
+    "m1: | h (6:3) (6:4) |"
+  );
+
+  it("rejects a second definition and points at the first", () => {
+    const { document, diagnostics } = parseOpenTabWithDiagnostics(duplicated, {
+      duplicateMeasures: "error",
+    });
+
+    expect(diagnostics).toEqual([
+      {
+        code: "duplicate-measure",
+        message:
+          "Measure 1 is already defined for track gtr1 voice v1; " +
+          "this definition is ignored",
+        severity: "error",
+        line: 12,
+        column: 1,
+        endColumn: 22,
+        related: [
+          {
+            message: "Measure 1 is first defined here",
+            line: 7,
+            column: 1,
+            endColumn: 22,
+          },
+        ],
+      },
+    ]);
+    expect(frets(document)).toEqual([[0, 1], [2]]);
+    expect(() =>
+      parseOpenTab(duplicated, { duplicateMeasures: "error" })
+    ).toThrow("Measure 1 is already defined for track gtr1 voice v1");
+  });
+
+  it("keeps the last definition by default or appends it when asked", () => {
+    const warned = parseOpenTabWithDiagnostics(
+      `${duplicated}\nm1: | w (6:5) |`
+    );
+    expect(
+      warned.diagnostics.map(({ severity, line, related }) => ({
+        severity,
+        line,
+        related: related?.map(({ message, line }) => ({ message, line })),
+      }))
+    ).toEqual([
+      {
+        severity: "warning",
+        line: 12,
+        related: [{ message: "Measure 1 is first defined here", line: 7 }],
+      },
+      {
+        severity: "warning",
+        line: 13,
+        related: [{ message: "Measure 1 is redefined here", line: 12 }],
+      },
+    ]);
+    expect(frets(warned.document)).toEqual([[5], [2]]);
+    expect(frets(parseOpenTab(duplicated))).toEqual([[3, 4], [2]]);
+
+    const appended = parseOpenTabWithDiagnostics(duplicated, {
+      duplicateMeasures: "append",
+    });
+    expect(appended.diagnostics).toEqual([]);
+    expect(frets(appended.document)).toEqual([[0, 1, 3, 4], [2]]);
+  });
+
+  it("numbers m+ measures after the voice's previous measure", () => {
+    const autoNumbered = source(
+      "m+: | w (6:0) |",
+      "m+: | w (6:1) |",
+      "m5: | w (6:5) |",
+      "m+: | % |",
+      "@track gtr1 voice v2",
+      "m+: | w (5:0) |"
+    );
+
+    const document = parseOpenTab(autoNumbered, { autoNumber: true });
+    expect(document.measures.map((measure) => measure.index)).toEqual([
+      1, 2, 5, 6,
+    ]);
+    expect(frets(document)).toEqual([[0], [1], [5], [5]]);
+    expect(document.measures[0].tracks.gtr1.voices.v2).toHaveLength(1);
+    expect(() => parseOpenTab(autoNumbered)).toThrow(
+      "Measure number m+ needs the autoNumber option"
+    );
+  });
+});
+
+describe("parseOpenTab percussion tracks", () => {
+  const header = [
+    "format=\"opentab\"",
+    "version=\"0.2\"",
+    "[[tracks]]",
+    "id=\"drums\"",
+    "kind=\"percussion\"",
+    "kit={ snare=40, rim=37 }",
+  ];
+
+  it("reads drum hits against the General MIDI kit", () => {
+    const { document, diagnostics } = parseOpenTabWithDiagnostics(
+      [
+        ...header,
+        "---",
+        "@track drums",
+        "m1: | e [ (kick) (crash.ac) ] (hh_closed.gh) g(rim) (snare) q r |",
+      ].join("\n")
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(document.tracks[0]).toEqual({
+      id: "drums",
+      kind: "percussion",
+      kit: { snare: 40, rim: 37 },
+    });
+    expect(document.measures[0].tracks.drums.voices.v1).toEqual([
+      {
+        type: "hit",
+        duration: { base: "e" },
+        hits: [
+          { lane: "kick", note: 36 },
+          { lane: "crash", note: 49, articulation: "accent" },
+        ],
+      },
+      {
+        type: "hit",
+        duration: { base: "e" },
+        hits: [{ lane: "hh_closed", note: 42, articulation: "ghost" }],
+      },
+      {
+        type: "hit",
+        duration: { base: "e" },
+        hits: [{ lane: "rim", note: 37 }],
+        grace: "acciaccatura",
+      },
+      {
+        type: "hit",
+        duration: { base: "e" },
+        hits: [{ lane: "snare", note: 40 }],
+      },
+      { type: "rest", duration: { base: "q" } },
+    ]);
+    expect(validateAst(document).ok).toBe(true);
+  });
+
+  it("reports unknown lanes, malformed hits and kits on stringed tracks", () => {
+    const { diagnostics } = parseOpenTabWithDiagnostics(
+      [
+        ...header,
+        "[[tracks]]",
+        "id=\"gtr1\"",
+        "kit={ kick=36 }",
+        "---",
+        "@track drums",
+        "m1: | q (cowbel) (snare.xx) (1:3) r |",
+      ].join("\n")
+    );
+
+    expect(
+      diagnostics.map(({ code, line, message }) => ({ code, line, message }))
+    ).toEqual([
+      {
+        code: "invalid-track",
+        line: 9,
+        message: "Track gtr1 has a kit but is not a percussion track",
+      },
+      { code: "unknown-drum-lane", line: 12, message: "Unknown drum lane: cowbel" },
+      { code: "invalid-hit", line: 12, message: "Invalid hit: (snare.xx)" },
+      { code: "invalid-hit", line: 12, message: "Invalid hit: (1:3)" },
+    ]);
+  });
+});
+
+describe("parseOpenTab instruments", () => {
+  it("checks strings and frets against the track's instrument", () => {
+    const { diagnostics } = parseOpenTabWithDiagnostics(
+      [
+        "format=\"opentab\"",
+        "version=\"0.2\"",
+        "[[tracks]]",
+        "id=\"bass\"",
+        "instrument=\"bass_5\"",
+        "[[tracks]]",
+        "id=\"banjo\"",
+        "instrument=\"banjo\"",
+        "[[tracks]]",
+        "id=\"gtr1\"",
+        "instrument=\"lute\"",
+        "---",
+        "@track bass",
+        "m1: | q (5:0) (6:0) (4:25) [ (5:3) (1:2) ] |",
+        "@track banjo",
+        "m1: | q (5:0) (5:3) (5:7) (1:2) |",
+        "@track gtr1",
+        "m1: | q (7:0) (6:0) h r |",
+      ].join("\n")
+    );
+
+    expect(
+      diagnostics.map(({ code, severity, line, column, message }) => ({
+        code,
+        severity,
+        line,
+        column,
+        message,
+      }))
+    ).toEqual([
+      {
+        code: "unknown-instrument",
+        severity: "warning",
+        line: 11,
+        column: 1,
+        message: "Unknown instrument: lute; using guitar defaults",
+      },
+      {
+        code: "string-out-of-range",
+        severity: "error",
+        line: 14,
+        column: 15,
+        message: "String 6 does not exist on track bass (5 strings)",
+      },
+      {
+        code: "fret-out-of-range",
+        severity: "error",
+        line: 14,
+        column: 21,
+        message: "Fret 25 is not playable on string 4 of track bass",
+      },
+      {
+        code: "fret-out-of-range",
+        severity: "error",
+        line: 16,
+        column: 15,
+        message: "Fret 3 is not playable on string 5 of track banjo",
+      },
+      {
+        code: "string-out-of-range",
+        severity: "error",
+        line: 18,
+        column: 9,
+        message: "String 7 does not exist on track gtr1 (6 strings)",
+      },
+    ]);
+  });
+
+  it("does not throw for warnings", () => {
+    const document = parseOpenTab(
+      [
+        "format=\"opentab\"",
+        "version=\"0.2\"",
+        "[[tracks]]",
+        "id=\"gtr1\"",
+        "instrument=\"lute\"",
+        "---",
+        "@track gtr1",
+        "m1: | w (6:0) |",
+      ].join("\n")
+    );
+
+    expect(document.tracks[0].instrument).toBe("lute");
+  });
+});
@@ -1,17 +1,46 @@
 import type {
   AnnotationValue,
   Annotations,
+  BendPoint,
+  BendType,
+  ChordBarre,
+  ChordDefinition,
+  ChordEvent,
+  ChordStroke,
+  DrumArticulation,
+  DrumHit,
   Duration,
+  DynamicLevel,
+  DynamicMarks,
   Event,
+  ExtensionValue,
+  Extensions,
+  GraceType,
   Header,
+  KeySignature,
+  Lyric,
   Measure,
+  MeasureShorthand,
+  NavigationJump,
+  NavigationMarker,
+  NoteEvent,
   NoteRef,
   OpenTabDocument,
+  SourceOrigin,
+  SourcePosition,
+  SourceSpan,
+  SpecVersion,
   Technique,
+  TechniqueType,
   TimeSignature,
   Track,
   TrackMeasure,
 } from "@opentab/ast";
+import {
+  type ResolvedInstrument,
+  isPlayableFret,
+  resolveInstrument,
+} from "@opentab/instruments";
 
 export const packageName = "@opentab/parser";
 
@@ -22,28 +51,239 @@ const DEFAULT_TIME_SIGNATURE: TimeSignature = {
   denominator: 4,
 };
 
+export type OpenTabDiagnosticCode =
+  | "missing-delimiter"
+  | "missing-header-key"
+  | "invalid-toml"
+  | "unsupported-format"
+  | "unsupported-version"
+  | "invalid-header"
+  | "invalid-track"
+  | "unknown-line"
+  | "invalid-measure"
+  | "missing-track-selection"
+  | "missing-duration"
+  | "invalid-duration"
+  | "invalid-note"
+  | "invalid-chord"
+  | "unknown-chord"
+  | "invalid-rest"
+  | "invalid-token"
+  | "unknown-directive"
+  | "invalid-directive"
+  | "dangling-directive"
+  | "conflicting-measure-attribute"
+  | "invalid-tie"
+  | "invalid-dynamic"
+  | "invalid-lyrics"
+  | "invalid-macro"
+  | "unknown-macro"
+  | "invalid-include"
+  | "invalid-hit"
+  | "unknown-drum-lane"
+  | "unknown-instrument"
+  | "string-out-of-range"
+  | "fret-out-of-range"
+  | "duplicate-measure"
+  | "requires-version";
+
+export type OpenTabDiagnosticSeverity = "error" | "warning";
+
+/** A secondary location, such as the macro use site behind an error. */
+export interface OpenTabRelatedLocation {
+  message: string;
+  /** Included file the location is in; absent for the parsed source. */
+  file?: string;
+  line: number;
+  column: number;
+  endColumn: number;
+}
+
+export interface OpenTabDiagnostic {
+  code: OpenTabDiagnosticCode;
+  message: string;
+  severity: OpenTabDiagnosticSeverity;
+  /** 1-based line number. */
+  line: number;
+  /** 1-based start column. */
+  column: number;
+  /** 1-based column just past the end of the range. */
+  endColumn: number;
+  related?: OpenTabRelatedLocation[];
+}
+
+export interface OpenTabParseResult {
+  document: OpenTabDocument;
+  diagnostics: OpenTabDiagnostic[];
+}
+
+interface SourceRange {
+  line?: number;
+  column?: number;
+  endColumn?: number;
+}
+
 export class OpenTabParseError extends Error {
-  constructor(message: string) {
-    super(message);
+  readonly code: OpenTabDiagnosticCode;
+  readonly reason: string;
+  readonly line?: number;
+  readonly column?: number;
+  readonly endColumn?: number;
+  readonly related: OpenTabRelatedLocation[];
+  readonly severity: OpenTabDiagnosticSeverity;
+
+  constructor(
+    message: string,
+    code: OpenTabDiagnosticCode = "invalid-token",
+    range: SourceRange = {},
+    related: OpenTabRelatedLocation[] = [],
+    severity: OpenTabDiagnosticSeverity = "error"
+  ) {
+    super(
+      formatErrorLocation(message, range.line, range.column) +
+        related.map(formatRelatedLocation).join("")
+    );
     this.name = "OpenTabParseError";
+    this.code = code;
+    this.reason = message;
+    this.line = range.line;
+    this.column = range.column;
+    this.endColumn = range.endColumn;
+    this.related = related;
+    this.severity = severity;
   }
 }
 
+export interface IncludedSource {
+  /** Identifies the file in diagnostics and as `from` for nested includes. */
+  file: string;
+  source: string;
+}
+
+/**
+ * Loads the target of an `@include`. `from` is the including file, if known.
+ * Returning undefined reports the include as unresolved.
+ */
+export type IncludeResolver = (
+  path: string,
+  from: string | undefined
+) => IncludedSource | undefined;
+
+/**
+ * What to do when a track voice defines the same measure twice: warn and keep
+ * the last definition, report an error and keep the first, or append the later
+ * events to the measure as a continuation.
+ */
+export type DuplicateMeasurePolicy = "error" | "warn" | "append";
+
+export interface ParseOptions {
+  /** Attach source spans to tracks, measures, events and note references. */
+  positions?: boolean;
+  /** Name of the parsed source, passed to `resolveInclude` as `from`. */
+  file?: string;
+  resolveInclude?: IncludeResolver;
+  /** Defaults to "warn". */
+  duplicateMeasures?: DuplicateMeasurePolicy;
+  /** Accept `m+:`, which numbers a measure after the voice's previous one. */
+  autoNumber?: boolean;
+}
+
+interface ParseContext {
+  positions: boolean;
+  duplicateMeasures: DuplicateMeasurePolicy;
+  autoNumber: boolean;
+  /** Spec version the document declares, once its header is read. */
+  version?: SpecVersion;
+  /** Included file being parsed; undefined for the top-level source. */
+  file?: string;
+  /** The `@include` or `@use` line being expanded, recorded on spans. */
+  origin?: SourceOrigin;
+  includeStack: string[];
+  resolveInclude?: IncludeResolver;
+  report(error: OpenTabParseError): void;
+}
+
+type Locate = (offset: number, length: number) => SourceSpan;
+
 interface ParsedHeader {
   format?: string;
   version?: string;
   header: Record<string, unknown>;
+  locations: Map<string, SourceSpan | undefined>;
   tracks: Track[];
+  chords: ChordDefinition[];
+}
+
+type PendingMeasureAttributes = Pick<
+  Measure,
+  "time_signature" | "tempo_bpm" | "key" | "ending" | "markers" | "jump"
+>;
+
+interface LyricLine {
+  trackId: string;
+  voiceId: string;
+  measure?: number;
+  syllables: Array<Lyric | null>;
+  entry: LineEntry;
+  context: ParseContext;
+}
+
+/** Where a `_` tie started, and the context of the file it was read from. */
+interface TieStart {
+  span: SourceSpan;
+  context: ParseContext;
+}
+
+/** Where a mark was written, and the context of the file it was read from. */
+interface MarkLocation {
+  span: SourceSpan;
+  context: ParseContext;
+}
+
+/** Dynamic marks waiting for the next event of a voice, and its open hairpin. */
+interface VoiceDynamics {
+  pending: DynamicMarks;
+  pendingAt?: MarkLocation;
+  hairpin?: MarkLocation;
+}
+
+interface MacroMeasure {
+  text: string;
+  column: number;
+}
+
+interface MacroDefinition {
+  name: string;
+  entry: LineEntry;
+  file?: string;
+  measures: MacroMeasure[];
+  reported: Set<string>;
 }
 
 interface DirectiveState {
   trackId: string | null;
   voiceId: string | null;
+  pending: PendingMeasureAttributes;
+  pendingEntry: LineEntry | null;
+  tieStarts: Map<NoteRef, TieStart>;
+  chords: Map<string, ChordDefinition>;
+  /** Resolved lanes of each percussion track. */
+  kits: Map<string, Record<string, number>>;
+  /** Registry instrument of each stringed track, for range checks. */
+  instruments: Map<string, ResolvedInstrument>;
+  lyrics: LyricLine[];
+  /** Keyed by `track/voice`. */
+  dynamics: Map<string, VoiceDynamics>;
+  macros: Map<string, MacroDefinition>;
+  lastMeasure: Map<string, number>;
+  /** First definition of each measure, keyed by `track/voice/index`. */
+  measureSources: Map<string, OpenTabRelatedLocation>;
 }
 
 interface LineEntry {
   text: string;
   lineNumber: number;
+  column: number;
 }
 
 function stripComment(line: string): string {
@@ -54,37 +294,7 @@ function stripComment(line: string): string {
   return line;
 }
 
-function parseTomlValue(raw: string): unknown {
-  const trimmed = raw.trim();
-  if (trimmed.startsWith("\"") && trimmed.endsWith("\"")) {
-    return trimmed.slice(1, -1);
-  }
-  if (trimmed === "true") {
-    return true;
-  }
-  if (trimmed === "false") {
-    return false;
-  }
-  if (trimmed.startsWith("[") && trimmed.endsWith("]")) {
-    const inner = trimmed.slice(1, -1).trim();
-    if (!inner) {
-      return [];
-    }
-    return splitCommaSeparated(inner).map((value) =>
-      parseTomlValue(value.trim())
-    );
-  }
-  const asNumber = Number(trimmed);
-  if (!Number.isNaN(asNumber)) {
-    return asNumber;
-  }
-  return trimmed;
-}
-
-function buildTrack(candidate: Partial<Track>): Track {
-  if (!candidate.id) {
-    throw new OpenTabParseError("Track definition missing id");
-  }
+function buildTrack(candidate: Partial<Track> & { id: string }): Track {
   return {
     id: candidate.id,
     name: candidate.name,
@@ -108,67 +318,1140 @@ function formatErrorLocation(
   return `${message} (line ${lineNumber}, column ${column})`;
 }
 
-function parseHeader(lines: LineEntry[]): ParsedHeader {
+function formatRelatedLocation(related: OpenTabRelatedLocation): string {
+  const file = related.file ? `${related.file}, ` : "";
+  const location = `line ${related.line}, column ${related.column}`;
+  return `; ${related.message} (${file}${location})`;
+}
+
+function entryRange(entry: LineEntry): SourceRange {
+  return {
+    line: entry.lineNumber,
+    column: entry.column,
+    endColumn: entry.column + Math.max(entry.text.trimEnd().length, 1),
+  };
+}
+
+function lineError(
+  message: string,
+  code: OpenTabDiagnosticCode,
+  entry?: LineEntry
+): OpenTabParseError {
+  if (!entry) {
+    return new OpenTabParseError(message, code);
+  }
+  return new OpenTabParseError(message, code, entryRange(entry));
+}
+
+function relatedLocation(
+  message: string,
+  range: SourceRange,
+  file?: string
+): OpenTabRelatedLocation {
+  const column = range.column ?? 1;
+  const related: OpenTabRelatedLocation = {
+    message,
+    line: range.line ?? 1,
+    column,
+    endColumn: Math.max(range.endColumn ?? column + 1, column + 1),
+  };
+  if (file !== undefined) {
+    related.file = file;
+  }
+  return related;
+}
+
+function spanAt(line: number, column: number, length: number): SourceSpan {
+  return {
+    start: { line, column },
+    end: { line, column: column + length },
+  };
+}
+
+/** A span in the source being parsed, naming its file if it was included. */
+function contextSpan(
+  context: ParseContext,
+  line: number,
+  column: number,
+  length: number
+): SourceSpan {
+  const span = spanAt(line, column, length);
+  if (context.file !== undefined) {
+    span.file = context.file;
+  }
+  if (context.origin) {
+    span.from = context.origin;
+  }
+  return span;
+}
+
+function spanRange({ start, end }: SourceSpan): SourceRange {
+  return {
+    line: start.line,
+    column: start.column,
+    endColumn: end.line === start.line ? end.column : start.column + 1,
+  };
+}
+
+function spanError(
+  message: string,
+  code: OpenTabDiagnosticCode,
+  span?: SourceSpan
+): OpenTabParseError {
+  if (!span) {
+    return new OpenTabParseError(message, code);
+  }
+  return new OpenTabParseError(message, code, spanRange(span));
+}
+
+function toDiagnostic(error: OpenTabParseError): OpenTabDiagnostic {
+  const column = error.column ?? 1;
+  const diagnostic: OpenTabDiagnostic = {
+    code: error.code,
+    message: error.reason,
+    severity: error.severity,
+    line: error.line ?? 1,
+    column,
+    endColumn: Math.max(error.endColumn ?? column + 1, column + 1),
+  };
+  if (error.related.length > 0) {
+    diagnostic.related = error.related;
+  }
+  return diagnostic;
+}
+
+type TomlValue = ExtensionValue;
+type TomlTable = { [key: string]: TomlValue };
+
+interface TomlDocument {
+  root: TomlTable;
+  locations: Map<string, SourceSpan>;
+}
+
+const TOML_BARE_KEY = /[A-Za-z0-9_-]+/y;
+const TOML_DATE_TIME = new RegExp(
+  "(\\d{4})-(\\d{2})-(\\d{2})" +
+    "(?:[Tt ](\\d{2}):(\\d{2}):(\\d{2})(?:\\.\\d+)?" +
+    "(?:[Zz]|[+-]\\d{2}:\\d{2})?)?",
+  "y"
+);
+const TOML_LOCAL_TIME = /(\d{2}):(\d{2}):(\d{2})(?:\.\d+)?/y;
+const TOML_INTEGER = /^[+-]?(?:0|[1-9](?:_?\d)*)$/;
+const TOML_FLOAT =
+  /^[+-]?(?:0|[1-9](?:_?\d)*)(?:\.\d(?:_?\d)*)?(?:[eE][+-]?\d(?:_?\d)*)?$/;
+const TOML_RADIX_INTEGERS: Array<{ pattern: RegExp; radix: number }> = [
+  { pattern: /^0x[0-9A-Fa-f](?:_?[0-9A-Fa-f])*$/, radix: 16 },
+  { pattern: /^0o[0-7](?:_?[0-7])*$/, radix: 8 },
+  { pattern: /^0b[01](?:_?[01])*$/, radix: 2 },
+];
+const TOML_ESCAPES: Record<string, string> = {
+  b: "\b",
+  t: "\t",
+  n: "\n",
+  f: "\f",
+  r: "\r",
+  "\"": "\"",
+  "\\": "\\",
+};
+
+function tomlPath(path: Array<string | number>): string {
+  return JSON.stringify(path);
+}
+
+function isTomlTable(value: unknown): value is TomlTable {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasTomlKey(table: TomlTable, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(table, key);
+}
+
+function setTomlKey(table: TomlTable, key: string, value: TomlValue): void {
+  Object.defineProperty(table, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+function isTomlControlCharacter(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return (code < 0x20 && char !== "\t") || code === 0x7f;
+}
+
+/**
+ * Reads a TOML 1.0 document. Syntax errors are reported through the context
+ * and the reader resumes at the next line.
+ */
+function readToml(source: string, context: ParseContext): TomlDocument {
+  const root: TomlTable = {};
+  const locations = new Map<string, SourceSpan>();
+  const explicitTables = new Set<TomlTable>();
+  const dottedTables = new Set<TomlTable>();
+  const frozen = new Set<object>();
+  const tableArrays = new Set<TomlValue[]>();
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i += 1) {
+    if (source[i] === "\n") {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  let index = 0;
+  let currentTable = root;
+  let currentPath: Array<string | number> = [];
+
+  const positionAt = (offset: number): SourcePosition => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+
+  const fail = (message: string, offset = index): never => {
+    const { line, column } = positionAt(offset);
+    throw new OpenTabParseError(message, "invalid-toml", {
+      line,
+      column,
+      endColumn: column + 1,
+    });
+  };
+
+  const skipWhitespace = (): void => {
+    while (source[index] === " " || source[index] === "\t") {
+      index += 1;
+    }
+  };
+
+  const skipComment = (): void => {
+    if (source[index] !== "#") {
+      return;
+    }
+    while (index < source.length && source[index] !== "\n") {
+      if (
+        isTomlControlCharacter(source[index]) &&
+        !(source[index] === "\r" && source[index + 1] === "\n")
+      ) {
+        fail("Control character in comment");
+      }
+      index += 1;
+    }
+  };
+
+  const skipNewline = (): boolean => {
+    if (source[index] === "\n") {
+      index += 1;
+      return true;
+    }
+    if (source[index] === "\r" && source[index + 1] === "\n") {
+      index += 2;
+      return true;
+    }
+    return false;
+  };
+
+  const expectLineEnd = (): void => {
+    skipWhitespace();
+    skipComment();
+    if (index < source.length && !skipNewline()) {
+      fail(`Unexpected character: ${source[index]}`);
+    }
+  };
+
+  const skipBlank = (): void => {
+    while (index < source.length) {
+      skipWhitespace();
+      skipComment();
+      if (!skipNewline()) {
+        return;
+      }
+    }
+  };
+
+  const isValueEnd = (offset: number): boolean =>
+    offset >= source.length || " \t\r\n,]}#".includes(source[offset]);
+
+  const readEscape = (): string => {
+    const start = index;
+    const code = source[index + 1];
+    if (code in TOML_ESCAPES) {
+      index += 2;
+      return TOML_ESCAPES[code];
+    }
+    const length = code === "u" ? 4 : code === "U" ? 8 : 0;
+    const hex = source.slice(index + 2, index + 2 + length);
+    if (length === 0 || !new RegExp(`^[0-9A-Fa-f]{${length}}$`).test(hex)) {
+      return fail("Invalid escape sequence", start);
+    }
+    const codePoint = Number.parseInt(hex, 16);
+    if (codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)) {
+      return fail("Invalid Unicode escape", start);
+    }
+    index += 2 + length;
+    return String.fromCodePoint(codePoint);
+  };
+
+  const readBasicString = (): string => {
+    const start = index;
+    index += 1;
+    let value = "";
+    while (true) {
+      const char = source[index];
+      if (char === undefined || char === "\n" || char === "\r") {
+        return fail("Unterminated string", start);
+      }
+      if (char === "\"") {
+        index += 1;
+        return value;
+      }
+      if (char === "\\") {
+        value += readEscape();
+        continue;
+      }
+      if (isTomlControlCharacter(char)) {
+        fail("Control character in string");
+      }
+      value += char;
+      index += 1;
+    }
+  };
+
+  const readLiteralString = (): string => {
+    const start = index;
+    index += 1;
+    let value = "";
+    while (true) {
+      const char = source[index];
+      if (char === undefined || char === "\n" || char === "\r") {
+        return fail("Unterminated string", start);
+      }
+      if (char === "'") {
+        index += 1;
+        return value;
+      }
+      if (isTomlControlCharacter(char)) {
+        fail("Control character in string");
+      }
+      value += char;
+      index += 1;
+    }
+  };
+
+  const skipBlankLines = (): void => {
+    do {
+      skipWhitespace();
+    } while (skipNewline());
+  };
+
+  const readMultilineString = (quote: "\"" | "'"): string => {
+    const start = index;
+    const delimiter = quote.repeat(3);
+    index += 3;
+    skipNewline();
+    let value = "";
+    while (true) {
+      if (index >= source.length) {
+        return fail("Unterminated multi-line string", start);
+      }
+      if (source.startsWith(delimiter, index)) {
+        let quotes = 3;
+        while (quotes < 5 && source[index + quotes] === quote) {
+          quotes += 1;
+        }
+        value += quote.repeat(quotes - 3);
+        index += quotes;
+        return value;
+      }
+      const char = source[index];
+      if (skipNewline()) {
+        value += "\n";
+        continue;
+      }
+      if (quote === "\"" && char === "\\") {
+        const rest = source.slice(index + 1).match(/^[ \t]*\r?\n/);
+        if (rest) {
+          index += 1;
+          skipBlankLines();
+          continue;
+        }
+        value += readEscape();
+        continue;
+      }
+      if (isTomlControlCharacter(char)) {
+        fail("Control character in string");
+      }
+      value += char;
+      index += 1;
+    }
+  };
+
+  const readKey = (): string[] => {
+    const keys: string[] = [];
+    while (true) {
+      skipWhitespace();
+      const char = source[index];
+      if (char === "\"") {
+        if (source.startsWith("\"\"\"", index)) {
+          fail("Multi-line strings cannot be used as keys");
+        }
+        keys.push(readBasicString());
+      } else if (char === "'") {
+        if (source.startsWith("'''", index)) {
+          fail("Multi-line strings cannot be used as keys");
+        }
+        keys.push(readLiteralString());
+      } else {
+        TOML_BARE_KEY.lastIndex = index;
+        const match = TOML_BARE_KEY.exec(source);
+        if (!match) {
+          fail("Expected a key");
+        }
+        keys.push(match![0]);
+        index += match![0].length;
+      }
+      skipWhitespace();
+      if (source[index] !== ".") {
+        return keys;
+      }
+      index += 1;
+    }
+  };
+
+  const readDateTime = (): string | null => {
+    for (const pattern of [TOML_DATE_TIME, TOML_LOCAL_TIME]) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(source);
+      if (!match || !isValueEnd(index + match[0].length)) {
+        continue;
+      }
+      const parts = match.slice(1).map((part) => Number(part));
+      const [month, day, hour, minute, second] =
+        pattern === TOML_DATE_TIME ? parts.slice(1) : [1, 1, ...parts];
+      if (
+        month < 1 ||
+        month > 12 ||
+        day < 1 ||
+        day > 31 ||
+        hour > 23 ||
+        minute > 59 ||
+        second > 60
+      ) {
+        fail(`Invalid date or time: ${match[0]}`);
+      }
+      index += match[0].length;
+      return match[0];
+    }
+    return null;
+  };
+
+  const checkInteger = (value: number, start: number): number => {
+    if (!Number.isSafeInteger(value)) {
+      fail("Integer is out of range", start);
+    }
+    return value;
+  };
+
+  const readNumber = (): number => {
+    const start = index;
+    while (index < source.length && /[0-9A-Za-z_+.-]/.test(source[index])) {
+      index += 1;
+    }
+    const token = source.slice(start, index);
+    if (!token) {
+      return fail("Expected a value", start);
+    }
+    if (/^[+-]?(?:inf|nan)$/.test(token)) {
+      if (token.endsWith("nan")) {
+        return Number.NaN;
+      }
+      return token.startsWith("-") ? -Infinity : Infinity;
+    }
+    for (const { pattern, radix } of TOML_RADIX_INTEGERS) {
+      if (pattern.test(token)) {
+        return checkInteger(
+          Number.parseInt(token.slice(2).replace(/_/g, ""), radix),
+          start
+        );
+      }
+    }
+    if (TOML_INTEGER.test(token)) {
+      return checkInteger(Number(token.replace(/_/g, "")), start);
+    }
+    if (TOML_FLOAT.test(token)) {
+      return Number(token.replace(/_/g, ""));
+    }
+    return fail(`Invalid value: ${token}`, start);
+  };
+
+  const readArray = (): TomlValue[] => {
+    index += 1;
+    const values: TomlValue[] = [];
+    while (true) {
+      skipBlank();
+      if (source[index] === "]") {
+        index += 1;
+        break;
+      }
+      values.push(readValue());
+      skipBlank();
+      if (source[index] === ",") {
+        index += 1;
+        continue;
+      }
+      if (source[index] === "]") {
+        index += 1;
+        break;
+      }
+      fail("Expected , or ] in array");
+    }
+    frozen.add(values);
+    return values;
+  };
+
+  const readInlineTable = (): TomlTable => {
+    index += 1;
+    const table: TomlTable = {};
+    skipWhitespace();
+    if (source[index] === "}") {
+      index += 1;
+      frozen.add(table);
+      return table;
+    }
+    while (true) {
+      const start = index;
+      const keys = readKey();
+      if (source[index] !== "=") {
+        fail("Expected = after key");
+      }
+      index += 1;
+      skipWhitespace();
+      assignDottedKey(table, keys, readValue(), start);
+      skipWhitespace();
+      if (source[index] === ",") {
+        index += 1;
+        continue;
+      }
+      if (source[index] === "}") {
+        index += 1;
+        break;
+      }
+      fail("Expected , or } in inline table");
+    }
+    frozen.add(table);
+    return table;
+  };
+
+  const readValue = (): TomlValue => {
+    const char = source[index];
+    if (char === "\"") {
+      return source.startsWith("\"\"\"", index)
+        ? readMultilineString("\"")
+        : readBasicString();
+    }
+    if (char === "'") {
+      return source.startsWith("'''", index)
+        ? readMultilineString("'")
+        : readLiteralString();
+    }
+    if (char === "[") {
+      return readArray();
+    }
+    if (char === "{") {
+      return readInlineTable();
+    }
+    for (const [word, value] of [
+      ["true", true],
+      ["false", false],
+    ] as const) {
+      if (source.startsWith(word, index) && isValueEnd(index + word.length)) {
+        index += word.length;
+        return value;
+      }
+    }
+    return readDateTime() ?? readNumber();
+  };
+
+  const assignDottedKey = (
+    table: TomlTable,
+    keys: string[],
+    value: TomlValue,
+    start: number
+  ): void => {
+    let target = table;
+    for (const key of keys.slice(0, -1)) {
+      if (!hasTomlKey(target, key)) {
+        const next: TomlTable = {};
+        dottedTables.add(next);
+        setTomlKey(target, key, next);
+        target = next;
+        continue;
+      }
+      const existing = target[key];
+      if (!isTomlTable(existing) || !dottedTables.has(existing)) {
+        fail(`Cannot add keys to ${keys.join(".")}`, start);
+      }
+      target = existing as TomlTable;
+    }
+    const last = keys[keys.length - 1];
+    if (hasTomlKey(target, last)) {
+      fail(`Duplicate key: ${keys.join(".")}`, start);
+    }
+    setTomlKey(target, last, value);
+  };
+
+  const readKeyValue = (): void => {
+    const start = index;
+    const keys = readKey();
+    if (source[index] !== "=") {
+      fail("Expected = after key");
+    }
+    index += 1;
+    skipWhitespace();
+    const value = readValue();
+    assignDottedKey(currentTable, keys, value, start);
+    locations.set(tomlPath([...currentPath, ...keys]), {
+      start: positionAt(start),
+      end: positionAt(index),
+    });
+  };
+
+  const descendTable = (
+    table: TomlTable,
+    key: string,
+    path: Array<string | number>,
+    start: number
+  ): TomlTable => {
+    if (!hasTomlKey(table, key)) {
+      const next: TomlTable = {};
+      setTomlKey(table, key, next);
+      path.push(key);
+      return next;
+    }
+    const existing = table[key];
+    if (Array.isArray(existing) && tableArrays.has(existing)) {
+      path.push(key, existing.length - 1);
+      return existing[existing.length - 1] as TomlTable;
+    }
+    if (isTomlTable(existing) && !frozen.has(existing)) {
+      path.push(key);
+      return existing;
+    }
+    return fail(`Key ${key} is already defined as a value`, start);
+  };
+
+  const readTableHeader = (): void => {
+    const start = index;
+    const isArray = source.startsWith("[[", index);
+    index += isArray ? 2 : 1;
+    const keys = readKey();
+    const close = isArray ? "]]" : "]";
+    if (!source.startsWith(close, index)) {
+      fail(`Expected ${close} after table name`);
+    }
+    index += close.length;
+
+    const name = keys.join(".");
+    const path: Array<string | number> = [];
+    let table = root;
+    for (const key of keys.slice(0, -1)) {
+      table = descendTable(table, key, path, start);
+    }
+    const last = keys[keys.length - 1];
+    const existing = hasTomlKey(table, last) ? table[last] : undefined;
+    let next: TomlTable;
+    if (isArray) {
+      let array = existing;
+      if (array === undefined) {
+        array = [];
+        tableArrays.add(array);
+        setTomlKey(table, last, array);
+      } else if (!Array.isArray(array) || !tableArrays.has(array)) {
+        return fail(`Cannot redefine ${name} as an array of tables`, start);
+      }
+      next = {};
+      array.push(next);
+      path.push(last, array.length - 1);
+    } else {
+      if (existing === undefined) {
+        next = {};
+        setTomlKey(table, last, next);
+      } else if (
+        isTomlTable(existing) &&
+        !explicitTables.has(existing) &&
+        !dottedTables.has(existing) &&
+        !frozen.has(existing)
+      ) {
+        next = existing;
+      } else {
+        return fail(`Table [${name}] is already defined`, start);
+      }
+      path.push(last);
+    }
+    explicitTables.add(next);
+    locations.set(tomlPath(path), {
+      start: positionAt(start),
+      end: positionAt(index),
+    });
+    currentTable = next;
+    currentPath = path;
+  };
+
+  while (index < source.length) {
+    const lineStart = index;
+    let isTableHeader = false;
+    try {
+      skipWhitespace();
+      const char = source[index];
+      if (char === "[") {
+        isTableHeader = true;
+        readTableHeader();
+      } else if (
+        char !== undefined &&
+        char !== "#" &&
+        char !== "\n" &&
+        char !== "\r"
+      ) {
+        readKeyValue();
+      }
+      expectLineEnd();
+    } catch (error) {
+      reportError(error, context);
+      if (isTableHeader) {
+        // Keys under a rejected table header are read but discarded.
+        currentTable = {};
+        currentPath = [];
+      }
+      const next = source.indexOf("\n", Math.max(index, lineStart));
+      index = next === -1 ? source.length : next + 1;
+    }
+  }
+
+  return { root, locations };
+}
+
+const HEADER_TABLE = "header";
+const HEADER_FIELDS = new Set([
+  "title",
+  "artist",
+  "album",
+  "composer",
+  "source",
+  "copyright",
+  "tempo_bpm",
+  "time_signature",
+  "key",
+  "swing",
+]);
+const TRACK_FIELDS = new Set([
+  "id",
+  "name",
+  "instrument",
+  "kind",
+  "tuning",
+  "capo",
+  "kit",
+]);
+const DRUM_LANE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Lanes available on every percussion track, as General MIDI drum notes. */
+export const GM_DRUM_KIT: Readonly<Record<string, number>> = {
+  kick_acoustic: 35,
+  kick: 36,
+  side_stick: 37,
+  snare: 38,
+  clap: 39,
+  snare_electric: 40,
+  tom_floor_low: 41,
+  hh_closed: 42,
+  tom_floor: 43,
+  hh_pedal: 44,
+  tom_low: 45,
+  hh_open: 46,
+  tom_mid: 47,
+  tom_high_mid: 48,
+  crash: 49,
+  tom_high: 50,
+  ride: 51,
+  china: 52,
+  ride_bell: 53,
+  tambourine: 54,
+  splash: 55,
+  cowbell: 56,
+  crash2: 57,
+  ride2: 59,
+};
+
+function parseHeader(lines: LineEntry[], context: ParseContext): ParsedHeader {
+  const toml = readToml(lines.map((entry) => entry.text).join("\n"), context);
   const header: Record<string, unknown> = {};
-  const tracks: Track[] = [];
-  let currentTrack: Partial<Track> | null = null;
+  const extensions: Extensions = {};
+  const locations = new Map<string, SourceSpan | undefined>();
   let format: string | undefined;
   let version: string | undefined;
+  let tracks: Track[] = [];
+  let chords: ChordDefinition[] = [];
+
+  const addField = (
+    key: string,
+    value: TomlValue,
+    path: Array<string | number>
+  ): void => {
+    const span = toml.locations.get(tomlPath(path));
+    if (locations.has(key)) {
+      context.report(
+        spanError(`Duplicate header key: ${key}`, "invalid-header", span)
+      );
+      return;
+    }
+    locations.set(key, span);
+    if (key === "format" || key === "version") {
+      if (typeof value !== "string") {
+        context.report(
+          spanError(`Invalid header field: ${key}`, "invalid-header", span)
+        );
+      } else if (key === "format") {
+        format = value;
+      } else {
+        version = value;
+      }
+    } else if (HEADER_FIELDS.has(key)) {
+      header[key] = value;
+    } else {
+      setTomlKey(extensions, key, value);
+    }
+  };
 
-  for (const entry of lines) {
-    const line = stripComment(entry.text).trim();
-    if (!line) {
-      continue;
+  for (const [key, value] of Object.entries(toml.root)) {
+    if (key === "tracks") {
+      tracks = readTracks(value, toml, context);
+    } else if (key === "chords") {
+      chords = readChords(value, toml, context);
+    } else if (key === HEADER_TABLE && isTomlTable(value)) {
+      for (const [field, fieldValue] of Object.entries(value)) {
+        addField(field, fieldValue, [key, field]);
+      }
+    } else {
+      addField(key, value, [key]);
     }
+  }
+
+  if (Object.keys(extensions).length > 0) {
+    header.extensions = extensions;
+  }
 
-    if (line === "[[tracks]]") {
-      if (currentTrack) {
-        tracks.push(buildTrack(currentTrack));
+  return { format, version, header, locations, tracks, chords };
+}
+
+function readTrackField(
+  candidate: Partial<Track>,
+  key: string,
+  value: TomlValue
+): boolean {
+  if (key === "id" || key === "name" || key === "instrument") {
+    if (typeof value !== "string") {
+      return false;
+    }
+    candidate[key] = value;
+    return true;
+  }
+  if (key === "tuning") {
+    if (
+      !Array.isArray(value) ||
+      !value.every((item) => typeof item === "string")
+    ) {
+      return false;
+    }
+    candidate.tuning = value as string[];
+    return true;
+  }
+  if (key === "capo") {
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+      return false;
+    }
+    candidate.capo = value;
+    return true;
+  }
+  if (key === "kind") {
+    if (value !== "stringed" && value !== "percussion") {
+      return false;
+    }
+    candidate.kind = value;
+    return true;
+  }
+  if (key === "kit") {
+    if (!isTomlTable(value)) {
+      return false;
+    }
+    const kit: Record<string, number> = {};
+    for (const [lane, note] of Object.entries(value)) {
+      if (
+        !DRUM_LANE_PATTERN.test(lane) ||
+        typeof note !== "number" ||
+        !Number.isInteger(note) ||
+        note < 0 ||
+        note > 127
+      ) {
+        return false;
       }
-      currentTrack = {};
-      continue;
+      kit[lane] = note;
     }
+    candidate.kit = kit;
+    return true;
+  }
+  return false;
+}
 
-    const match = line.match(/^([A-Za-z0-9_]+)\s*=\s*(.+)$/);
-    if (!match) {
-      throw new OpenTabParseError(
-        formatErrorLocation(`Invalid header line: ${line}`, entry.lineNumber, 1)
+function readTracks(
+  value: TomlValue,
+  toml: TomlDocument,
+  context: ParseContext
+): Track[] {
+  const arraySpan = toml.locations.get(tomlPath(["tracks"]));
+  if (!Array.isArray(value) || !value.every(isTomlTable)) {
+    context.report(
+      spanError("tracks must be an array of tables", "invalid-track", arraySpan)
+    );
+    return [];
+  }
+
+  const tracks: Track[] = [];
+  value.forEach((table, index) => {
+    const path = ["tracks", index];
+    const span = toml.locations.get(tomlPath(path)) ?? arraySpan;
+    const candidate: Partial<Track> = {};
+    const extensions: Extensions = {};
+    for (const [key, fieldValue] of Object.entries(table as TomlTable)) {
+      const fieldSpan = toml.locations.get(tomlPath([...path, key])) ?? span;
+      if (!TRACK_FIELDS.has(key)) {
+        setTomlKey(extensions, key, fieldValue);
+      } else if (!readTrackField(candidate, key, fieldValue)) {
+        context.report(
+          spanError(`Invalid track field: ${key}`, "invalid-track", fieldSpan)
+        );
+      }
+    }
+    if (!candidate.id) {
+      context.report(
+        spanError("Track definition missing id", "invalid-track", span)
       );
+      return;
     }
-    const [, key, valueRaw] = match;
-    const value = parseTomlValue(valueRaw);
-
-    if (currentTrack) {
-      if (key === "id") {
-        currentTrack.id = String(value);
-      } else if (key === "name") {
-        currentTrack.name = String(value);
-      } else if (key === "instrument") {
-        currentTrack.instrument = String(value);
-      } else if (key === "tuning") {
-        currentTrack.tuning = Array.isArray(value)
-          ? value.map((item) => String(item))
-          : undefined;
-      } else if (key === "capo") {
-        currentTrack.capo = Number(value);
-      }
-      continue;
+    if (candidate.kit && candidate.kind !== "percussion") {
+      context.report(
+        spanError(
+          `Track ${candidate.id} has a kit but is not a percussion track`,
+          "invalid-track",
+          toml.locations.get(tomlPath([...path, "kit"])) ?? span
+        )
+      );
+      delete candidate.kit;
+    }
+    if (
+      candidate.instrument !== undefined &&
+      candidate.kind !== "percussion" &&
+      !resolveInstrument(candidate).known
+    ) {
+      const location = toml.locations.get(tomlPath([...path, "instrument"]));
+      context.report(
+        new OpenTabParseError(
+          `Unknown instrument: ${candidate.instrument}; using guitar defaults`,
+          "unknown-instrument",
+          location ? spanRange(location) : {},
+          [],
+          "warning"
+        )
+      );
+    }
+    const track = buildTrack({ ...candidate, id: candidate.id });
+    if (candidate.kind) {
+      track.kind = candidate.kind;
+    }
+    if (candidate.kit) {
+      track.kit = candidate.kit;
+    }
+    if (Object.keys(extensions).length > 0) {
+      track.extensions = extensions;
+    }
+    if (context.positions && span) {
+      track.position = { start: span.start, end: findTableEnd(toml, path) };
     }
+    tracks.push(track);
+  });
+  return tracks;
+}
 
-    if (key === "format") {
-      format = String(value);
-    } else if (key === "version") {
-      version = String(value);
-    } else {
-      header[key] = value;
+const CHORD_FIELDS = new Set(["name", "frets", "fingers", "barre"]);
+
+function isFret(value: TomlValue): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function readChordBarre(
+  value: TomlValue,
+  stringCount: number
+): ChordBarre | null {
+  if (!isTomlTable(value)) {
+    return null;
+  }
+  const { fret, from, to } = value;
+  const isString = (item: TomlValue): boolean =>
+    isFret(item) && (item as number) >= 1 && (item as number) <= stringCount;
+  if (!isFret(fret) || fret === 0 || !isString(from) || !isString(to)) {
+    return null;
+  }
+  if (Object.keys(value).some((key) => !["fret", "from", "to"].includes(key))) {
+    return null;
+  }
+  return { fret: fret as number, from: from as number, to: to as number };
+}
+
+function readChordField(
+  candidate: Partial<ChordDefinition>,
+  key: string,
+  value: TomlValue
+): boolean {
+  if (key === "name") {
+    if (typeof value !== "string" || !/^[A-Za-z][^\s()[\]{}]*$/.test(value)) {
+      return false;
     }
+    candidate.name = value;
+    return true;
   }
+  if (key === "frets") {
+    if (
+      !Array.isArray(value) ||
+      !value.every((item) => item === "x" || isFret(item)) ||
+      value.filter((item) => item !== "x").length < 2
+    ) {
+      return false;
+    }
+    candidate.frets = value as Array<number | "x">;
+    return true;
+  }
+  if (key === "fingers") {
+    if (
+      !Array.isArray(value) ||
+      !value.every((item) => isFret(item) && (item as number) <= 4)
+    ) {
+      return false;
+    }
+    candidate.fingers = value as number[];
+    return true;
+  }
+  return false;
+}
+
+function readChords(
+  value: TomlValue,
+  toml: TomlDocument,
+  context: ParseContext
+): ChordDefinition[] {
+  const arraySpan = toml.locations.get(tomlPath(["chords"]));
+  if (!Array.isArray(value) || !value.every(isTomlTable)) {
+    context.report(
+      spanError("chords must be an array of tables", "invalid-chord", arraySpan)
+    );
+    return [];
+  }
+
+  const chords: ChordDefinition[] = [];
+  const names = new Set<string>();
+  value.forEach((table, index) => {
+    const path = ["chords", index];
+    const span = toml.locations.get(tomlPath(path)) ?? arraySpan;
+    const fields = table as TomlTable;
+    const candidate: Partial<ChordDefinition> = {};
+    const extensions: Extensions = {};
+    const reportField = (key: string): void => {
+      const fieldSpan = toml.locations.get(tomlPath([...path, key])) ?? span;
+      context.report(
+        spanError(`Invalid chord field: ${key}`, "invalid-chord", fieldSpan)
+      );
+    };
+    for (const [key, fieldValue] of Object.entries(fields)) {
+      if (!CHORD_FIELDS.has(key)) {
+        setTomlKey(extensions, key, fieldValue);
+      } else if (key !== "barre" && !readChordField(candidate, key, fieldValue)) {
+        reportField(key);
+      }
+    }
+    if (!candidate.name || !candidate.frets) {
+      context.report(
+        spanError(
+          "Chord definition needs a name and at least two fretted strings",
+          "invalid-chord",
+          span
+        )
+      );
+      return;
+    }
+    if (names.has(candidate.name)) {
+      context.report(
+        spanError(
+          `Duplicate chord definition: ${candidate.name}`,
+          "invalid-chord",
+          span
+        )
+      );
+      return;
+    }
+    names.add(candidate.name);
+
+    const chord: ChordDefinition = {
+      name: candidate.name,
+      frets: candidate.frets,
+    };
+    if (candidate.fingers) {
+      if (candidate.fingers.length === candidate.frets.length) {
+        chord.fingers = candidate.fingers;
+      } else {
+        reportField("fingers");
+      }
+    }
+    if ("barre" in fields) {
+      const barre = readChordBarre(fields.barre, candidate.frets.length);
+      if (barre) {
+        chord.barre = barre;
+      } else {
+        reportField("barre");
+      }
+    }
+    if (Object.keys(extensions).length > 0) {
+      chord.extensions = extensions;
+    }
+    chords.push(chord);
+  });
+  return chords;
+}
 
-  if (currentTrack) {
-    tracks.push(buildTrack(currentTrack));
+function findTableEnd(
+  toml: TomlDocument,
+  path: Array<string | number>
+): SourcePosition {
+  const tablePath = tomlPath(path);
+  const prefix = `${tablePath.slice(0, -1)},`;
+  let end: SourcePosition = { line: 1, column: 1 };
+  for (const [key, span] of toml.locations) {
+    if (key !== tablePath && !key.startsWith(prefix)) {
+      continue;
+    }
+    const isLater =
+      span.end.line === end.line
+        ? span.end.column > end.column
+        : span.end.line > end.line;
+    if (isLater) {
+      end = span.end;
+    }
   }
-
-  return { format, version, header, tracks };
+  return end;
 }
 
 function parseTimeSignature(value: unknown): TimeSignature | undefined {
@@ -185,11 +1468,44 @@ function parseTimeSignature(value: unknown): TimeSignature | undefined {
   };
 }
 
+const KEY_LETTER_FIFTHS: Record<string, number> = {
+  F: -1,
+  C: 0,
+  G: 1,
+  D: 2,
+  A: 3,
+  E: 4,
+  B: 5,
+};
+
+/** Reads a key name such as `F`, `Bb`, `F#m`, `C# minor` or `Eb major`. */
+export function parseKeySignature(value: string): KeySignature | undefined {
+  const match = value
+    .trim()
+    .match(/^([A-G])([#b]?)\s*(m|min|minor|maj|major)?$/);
+  if (!match) {
+    return undefined;
+  }
+  const [, letter, accidental, modeText] = match;
+  const mode = modeText === "m" || modeText?.startsWith("min") ? "minor" : "major";
+  const fifths =
+    KEY_LETTER_FIFTHS[letter] +
+    (accidental === "#" ? 7 : accidental === "b" ? -7 : 0) -
+    (mode === "minor" ? 3 : 0);
+  if (fifths < -7 || fifths > 7) {
+    return undefined;
+  }
+  return { fifths, mode };
+}
+
 function normalizeTimeSignature(value: unknown): TimeSignature {
   if (typeof value === "string") {
     const parsed = parseTimeSignature(value);
     if (!parsed) {
-      throw new OpenTabParseError(`Invalid time signature: ${value}`);
+      throw new OpenTabParseError(
+        `Invalid time signature: ${value}`,
+        "invalid-header"
+      );
     }
     return parsed;
   }
@@ -213,11 +1529,18 @@ function normalizeTimeSignature(value: unknown): TimeSignature {
     }
   }
 
-  throw new OpenTabParseError("Invalid time signature value");
+  throw new OpenTabParseError("Invalid time signature value", "invalid-header");
 }
 
-function normalizeHeader(raw: Record<string, unknown>): Header {
+function normalizeHeader(parsed: ParsedHeader, context: ParseContext): Header {
+  const raw = parsed.header;
   const header: Record<string, unknown> = { ...raw };
+  const reportInvalid = (field: string, message: string): void => {
+    delete header[field];
+    context.report(
+      spanError(message, "invalid-header", parsed.locations.get(field))
+    );
+  };
 
   const stringFields = [
     "title",
@@ -230,36 +1553,240 @@ function normalizeHeader(raw: Record<string, unknown>): Header {
 
   for (const field of stringFields) {
     if (field in raw && typeof raw[field] !== "string") {
-      throw new OpenTabParseError(`Invalid header field: ${field}`);
+      reportInvalid(field, `Invalid header field: ${field}`);
     }
   }
 
+  header.tempo_bpm = DEFAULT_TEMPO_BPM;
   if ("tempo_bpm" in raw) {
     const tempo = raw.tempo_bpm;
     if (typeof tempo !== "number" || Number.isNaN(tempo) || tempo < 1) {
-      throw new OpenTabParseError("Invalid tempo_bpm");
+      reportInvalid("tempo_bpm", "Invalid tempo_bpm");
+      header.tempo_bpm = DEFAULT_TEMPO_BPM;
+    } else {
+      header.tempo_bpm = tempo;
     }
-    header.tempo_bpm = tempo;
-  } else {
-    header.tempo_bpm = DEFAULT_TEMPO_BPM;
   }
 
+  header.time_signature = DEFAULT_TIME_SIGNATURE;
   if ("time_signature" in raw) {
-    header.time_signature = normalizeTimeSignature(raw.time_signature);
-  } else {
-    header.time_signature = DEFAULT_TIME_SIGNATURE;
+    try {
+      header.time_signature = normalizeTimeSignature(raw.time_signature);
+    } catch (error) {
+      if (!(error instanceof OpenTabParseError)) {
+        throw error;
+      }
+      reportInvalid("time_signature", error.reason);
+      header.time_signature = DEFAULT_TIME_SIGNATURE;
+    }
   }
 
-  if ("swing" in raw) {
-    if (raw.swing !== "none" && raw.swing !== "eighth") {
-      throw new OpenTabParseError("Invalid swing value");
+  if ("key" in raw) {
+    const key =
+      typeof raw.key === "string" ? parseKeySignature(raw.key) : undefined;
+    if (key) {
+      header.key = key;
+    } else {
+      reportInvalid("key", `Invalid key: ${String(raw.key)}`);
     }
-    header.swing = raw.swing;
+  }
+
+  if ("swing" in raw && raw.swing !== "none" && raw.swing !== "eighth") {
+    reportInvalid("swing", "Invalid swing value");
   }
 
   return header as Header;
 }
 
+/**
+ * Spec versions the parser reads, mirroring `SPEC_VERSIONS` in @opentab/ast.
+ * Older documents keep their version; `migrate` upgrades them. Syntax from a
+ * later version is still read, with a warning.
+ */
+const SUPPORTED_VERSIONS: readonly SpecVersion[] = ["0.1", "0.2"];
+
+const isSupportedVersion = (value: string): value is SpecVersion =>
+  SUPPORTED_VERSIONS.includes(value as SpecVersion);
+
+function checkFormatAndVersion(
+  parsed: ParsedHeader,
+  context: ParseContext
+): void {
+  const checks = [
+    {
+      key: "format",
+      value: parsed.format,
+      supported: (value: string) => value === "opentab",
+    },
+    { key: "version", value: parsed.version, supported: isSupportedVersion },
+  ];
+  const expectedVersions = SUPPORTED_VERSIONS.join(" or ");
+  for (const { key, value, supported } of checks) {
+    if (value === undefined) {
+      context.report(
+        new OpenTabParseError(
+          `Missing required header key: ${key}`,
+          "missing-header-key",
+          { line: 1, column: 1 }
+        )
+      );
+    } else if (!supported(value)) {
+      context.report(
+        spanError(
+          key === "format"
+            ? "Unsupported format"
+            : `Unsupported version: ${value} (expected ${expectedVersions})`,
+          key === "format" ? "unsupported-format" : "unsupported-version",
+          parsed.locations.get(key)
+        )
+      );
+    }
+  }
+}
+
+const requiresVersionError = (
+  feature: string,
+  range: SourceRange
+): OpenTabParseError =>
+  new OpenTabParseError(
+    `Using ${feature} requires version 0.2`,
+    "requires-version",
+    range,
+    [],
+    "warning"
+  );
+
+const V0_1_TECHNIQUES = new Set<TechniqueType>([
+  "hammer_on",
+  "pull_off",
+  "slide",
+  "vibrato",
+]);
+
+/**
+ * What a document uses beyond spec v0.1, once per feature, with the first
+ * place it appears when the parse keeps positions.
+ */
+function findV0_2Features(
+  document: OpenTabDocument
+): Map<string, SourceSpan | undefined> {
+  const found = new Map<string, SourceSpan | undefined>();
+  const use = (feature: string, position?: SourceSpan) => {
+    if (!found.has(feature)) {
+      found.set(feature, position);
+    }
+  };
+
+  if (document.header.key) {
+    use("key signatures");
+  }
+  if (document.chords) {
+    use("[[chords]] definitions");
+  }
+  for (const track of document.tracks) {
+    if (track.kind || track.kit) {
+      use("percussion tracks", track.position);
+    }
+    if (track.extensions) {
+      use("custom track keys", track.position);
+    }
+  }
+  for (const measure of document.measures) {
+    const at = measure.position;
+    if (measure.time_signature) {
+      use("@time directives", at);
+    }
+    if (measure.tempo_bpm !== undefined) {
+      use("@tempo directives", at);
+    }
+    if (measure.key) {
+      use("key signatures", at);
+    }
+    if (measure.repeat_start || measure.repeat_end) {
+      use("repeat barlines", at);
+    }
+    if (measure.ending) {
+      use("@ending directives", at);
+    }
+    if (measure.markers || measure.jump) {
+      use("navigation directives", at);
+    }
+    for (const trackMeasure of Object.values(measure.tracks)) {
+      if (trackMeasure.shorthand) {
+        use("measure repeats and multi-measure rests", at);
+      }
+      for (const event of Object.values(trackMeasure.voices).flat()) {
+        const eventAt = event.position ?? at;
+        if (event.type === "hit") {
+          use("drum hits", eventAt);
+        }
+        if (event.type !== "rest" && event.grace) {
+          use("grace notes", eventAt);
+        }
+        if (event.dynamic || event.hairpin || event.hairpin_end) {
+          use("dynamics", eventAt);
+        }
+        if (event.type === "chord" && event.name !== undefined) {
+          use("chord names", eventAt);
+        }
+        if (event.type === "chord" && event.stroke) {
+          use("strums and arpeggios", eventAt);
+        }
+        if (event.type !== "hit" && event.type !== "rest" && event.lyric) {
+          use("lyrics", eventAt);
+        }
+        const notes =
+          event.type === "note"
+            ? [event.note]
+            : event.type === "chord"
+              ? event.chord
+              : [];
+        for (const note of notes) {
+          if (note.tie) {
+            use("ties", note.position ?? eventAt);
+          }
+          for (const technique of note.inlineTechniques ?? []) {
+            if (!V0_1_TECHNIQUES.has(technique.type)) {
+              use(`the ${technique.type} technique`, note.position ?? eventAt);
+            }
+          }
+        }
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Warns about v0.2 syntax in a document that declares v0.1, whose schema
+ * would reject the result. Without positions, the warning points at the
+ * version.
+ */
+function reportV0_2Features(
+  document: OpenTabDocument,
+  parsed: ParsedHeader,
+  context: ParseContext
+): void {
+  if (document.version !== "0.1") {
+    return;
+  }
+  const version = parsed.locations.get("version");
+  for (const [feature, position] of findV0_2Features(document)) {
+    const span = position ?? version;
+    context.report(requiresVersionError(feature, span ? spanRange(span) : {}));
+  }
+}
+
+/** Errors already thrown by `parseOpenTab`, passed up without re-reporting. */
+const thrownErrors = new WeakSet<OpenTabParseError>();
+
+function reportError(error: unknown, context: ParseContext): void {
+  if (!(error instanceof OpenTabParseError) || thrownErrors.has(error)) {
+    throw error;
+  }
+  context.report(error);
+}
+
 function parseDuration(token: string): Duration | null {
   const match = token.match(/^([whqest])(\.)?(?:\/(\d+))?$/);
   if (!match) {
@@ -389,19 +1916,209 @@ function parseAnnotationValue(raw: string): AnnotationValue {
   return trimmed;
 }
 
+const BEND_PATTERN = /^(\d+)?(?:\[([^\]]*)\])?(?:r(\d+))?/;
+
+function defaultBendCurve(
+  bendType: BendType,
+  amount: number,
+  release: number
+): BendPoint[] {
+  switch (bendType) {
+    case "bend":
+      return [
+        { position: 0, value: 0 },
+        { position: 50, value: amount },
+      ];
+    case "bend_release":
+      return [
+        { position: 0, value: 0 },
+        { position: 25, value: amount },
+        { position: 50, value: amount },
+        { position: 75, value: release },
+      ];
+    case "prebend":
+      return [{ position: 0, value: amount }];
+    case "prebend_release":
+      return [
+        { position: 0, value: amount },
+        { position: 50, value: release },
+      ];
+  }
+}
+
+function parseBendCurve(raw: string, curve: string): BendPoint[] {
+  const points: BendPoint[] = [];
+  for (const part of curve.split(",")) {
+    const match = part.trim().match(/^(\d+(?:\.\d+)?):(\d+)$/);
+    const position = match ? Number(match[1]) : Number.NaN;
+    const previous = points[points.length - 1];
+    if (
+      !match ||
+      position > 100 ||
+      (previous !== undefined && position <= previous.position)
+    ) {
+      throw new OpenTabParseError(
+        `Invalid bend curve in note: ${raw}`,
+        "invalid-note"
+      );
+    }
+    points.push({ position, value: Number(match[2]) });
+  }
+  return points;
+}
+
+/**
+ * Parses the part of a note after `b` or `pb`: an optional target fret, an
+ * optional `[position:value, ...]` curve and an optional `r` release fret.
+ */
+function parseBend(
+  raw: string,
+  text: string,
+  fromFret: number,
+  prebend: boolean
+): { technique: Technique; length: number } {
+  const [consumed, targetRaw, curveRaw, releaseRaw] = text.match(
+    BEND_PATTERN
+  ) as RegExpMatchArray;
+  if (targetRaw === undefined && curveRaw === undefined) {
+    throw new OpenTabParseError(
+      `Bend missing target fret or curve in note: ${raw}`,
+      "invalid-note"
+    );
+  }
+  if (curveRaw !== undefined && releaseRaw !== undefined) {
+    throw new OpenTabParseError(
+      `Bend curve cannot be combined with a release in note: ${raw}`,
+      "invalid-note"
+    );
+  }
+  const toFret = targetRaw === undefined ? undefined : Number(targetRaw);
+  const releaseFret =
+    releaseRaw === undefined ? undefined : Number(releaseRaw);
+  if (toFret !== undefined && toFret <= fromFret) {
+    throw new OpenTabParseError(
+      `Bend target must be above the fretted note in note: ${raw}`,
+      "invalid-note"
+    );
+  }
+  if (
+    releaseFret !== undefined &&
+    toFret !== undefined &&
+    (releaseFret < fromFret || releaseFret >= toFret)
+  ) {
+    throw new OpenTabParseError(
+      `Bend release must fall between the fretted note and the target in ` +
+        `note: ${raw}`,
+      "invalid-note"
+    );
+  }
+
+  const released = releaseFret !== undefined;
+  const bendType: BendType = prebend
+    ? released
+      ? "prebend_release"
+      : "prebend"
+    : released
+      ? "bend_release"
+      : "bend";
+  const technique: Technique = { type: "bend", fromFret };
+  if (toFret !== undefined) {
+    technique.toFret = toFret;
+  }
+  if (releaseFret !== undefined) {
+    technique.releaseFret = releaseFret;
+  }
+  technique.bendType = bendType;
+  technique.points =
+    curveRaw !== undefined
+      ? parseBendCurve(raw, curveRaw)
+      : defaultBendCurve(
+          bendType,
+          ((toFret as number) - fromFret) * 2,
+          ((releaseFret ?? fromFret) - fromFret) * 2
+        );
+  return { technique, length: consumed.length };
+}
+
+const NOTE_MODIFIERS = new Map<string, Technique>([
+  ["pm", { type: "palm_mute" }],
+  ["lr", { type: "let_ring" }],
+  ["gh", { type: "ghost_note" }],
+  ["ac", { type: "accent" }],
+  ["st", { type: "staccato" }],
+  ["tap", { type: "tap" }],
+  ["slap", { type: "slap" }],
+  ["pop", { type: "pop" }],
+  ["nh", { type: "harmonic", harmonicType: "natural" }],
+  ["ph", { type: "harmonic", harmonicType: "pinch" }],
+]);
+
+/**
+ * Parses a `.name` note modifier. `ah`, `th` and `tr` take the fret of the
+ * harmonic node or trill note; `tp` takes an optional number of tremolo marks.
+ */
+function parseNoteModifier(
+  raw: string,
+  name: string,
+  digits: string
+): Technique {
+  const invalid = () =>
+    new OpenTabParseError(
+      `Unknown technique .${name}${digits} in note: ${raw}`,
+      "invalid-note"
+    );
+  const known = NOTE_MODIFIERS.get(name);
+  if (known) {
+    if (digits) {
+      throw invalid();
+    }
+    return { ...known };
+  }
+  if (name === "tp") {
+    const marks = digits ? Number(digits) : 3;
+    if (marks < 1 || marks > 4) {
+      throw invalid();
+    }
+    return { type: "tremolo_picking", marks };
+  }
+  if (!digits) {
+    throw invalid();
+  }
+  const toFret = Number(digits);
+  switch (name) {
+    case "ah":
+      return { type: "harmonic", harmonicType: "artificial", toFret };
+    case "th":
+      return { type: "harmonic", harmonicType: "tap", toFret };
+    case "tr":
+      return { type: "trill", toFret };
+    default:
+      throw invalid();
+  }
+}
+
 function parseNoteRef(raw: string): NoteRef {
   const match = raw.match(/^(\d+):(.+)$/);
   if (!match) {
-    throw new OpenTabParseError(`Invalid note reference: ${raw}`);
+    throw new OpenTabParseError(
+      `Invalid note reference: ${raw}`,
+      "invalid-note"
+    );
   }
   const [, stringRaw, restRaw] = match;
-  let currentFretMatch = restRaw.match(/^(\d+)/);
+  const currentFretMatch = restRaw.match(/^(\d+|x)/);
   if (!currentFretMatch) {
-    throw new OpenTabParseError(`Invalid fret in note reference: ${raw}`);
+    throw new OpenTabParseError(
+      `Invalid fret in note reference: ${raw}`,
+      "invalid-note"
+    );
   }
-  let currentFret = Number(currentFretMatch[1]);
-  const techniques: Technique[] = [];
+  const dead = currentFretMatch[1] === "x";
+  const fret = dead ? 0 : Number(currentFretMatch[1]);
+  let currentFret = fret;
+  const techniques: Technique[] = dead ? [{ type: "dead_note" }] : [];
   let index = currentFretMatch[1].length;
+  let tied = false;
 
   while (index < restRaw.length) {
     const op = restRaw[index];
@@ -410,13 +2127,44 @@ function parseNoteRef(raw: string): NoteRef {
       index += 1;
       continue;
     }
+    if (op === "_") {
+      tied = true;
+      index += 1;
+      continue;
+    }
+    if (op === ".") {
+      const modifier = restRaw.slice(index).match(/^\.([a-z]+)(\d*)/);
+      if (!modifier) {
+        throw new OpenTabParseError(
+          `Technique missing name in note: ${raw}`,
+          "invalid-note"
+        );
+      }
+      techniques.push(parseNoteModifier(raw, modifier[1], modifier[2]));
+      index += modifier[0].length;
+      continue;
+    }
+    if (op === "b" || restRaw.startsWith("pb", index)) {
+      const prebend = op === "p";
+      index += prebend ? 2 : 1;
+      const bend = parseBend(raw, restRaw.slice(index), currentFret, prebend);
+      techniques.push(bend.technique);
+      index += bend.length;
+      continue;
+    }
     if (!["h", "p", "/", "\\"].includes(op)) {
-      throw new OpenTabParseError(`Unknown technique in note: ${raw}`);
+      throw new OpenTabParseError(
+        `Unknown technique in note: ${raw}`,
+        "invalid-note"
+      );
     }
     index += 1;
     const nextMatch = restRaw.slice(index).match(/^(\d+)/);
     if (!nextMatch) {
-      throw new OpenTabParseError(`Technique missing fret in note: ${raw}`);
+      throw new OpenTabParseError(
+        `Technique missing fret in note: ${raw}`,
+        "invalid-note"
+      );
     }
     const nextFret = Number(nextMatch[1]);
     if (op === "h") {
@@ -445,93 +2193,568 @@ function parseNoteRef(raw: string): NoteRef {
 
   const noteRef: NoteRef = {
     string: Number(stringRaw),
-    fret: Number(currentFretMatch[1]),
+    fret,
   };
   if (techniques.length > 0) {
     noteRef.inlineTechniques = techniques;
   }
+  if (tied) {
+    noteRef.tie = "start";
+  }
 
   return noteRef;
 }
 
-function parseChord(token: string): { notes: NoteRef[]; annotations?: Annotations } {
-  const { main, annotation } = splitAnnotations(token);
+const CHORD_REFERENCE_PATTERN = /^\[([A-Za-z][^\s()[\]{}]*)\]$/;
+
+function expandChordReference(
+  name: string,
+  chords: Map<string, ChordDefinition>,
+  position?: SourceSpan
+): NoteRef[] {
+  const definition = chords.get(name);
+  if (!definition) {
+    throw new OpenTabParseError(`Unknown chord: ${name}`, "unknown-chord");
+  }
+  const stringCount = definition.frets.length;
+  const notes: NoteRef[] = [];
+  definition.frets.forEach((fret, index) => {
+    if (fret === "x") {
+      return;
+    }
+    const note: NoteRef = { string: stringCount - index, fret };
+    if (position) {
+      note.position = position;
+    }
+    notes.push(note);
+  });
+  return notes;
+}
+
+function parseChord(
+  token: string,
+  chords: Map<string, ChordDefinition>,
+  locate?: Locate
+): {
+  notes: NoteRef[];
+  name?: string;
+  stroke?: ChordStroke;
+  annotations?: Annotations;
+} {
+  const { main: body, annotation } = splitAnnotations(token);
+  const strokeMatch = body.match(/^(.*\])((?:\.[a-z]+)+)$/);
+  const main = strokeMatch ? strokeMatch[1] : body;
   if (!main.startsWith("[") || !main.endsWith("]")) {
-    throw new OpenTabParseError(`Invalid chord token: ${token}`);
+    throw new OpenTabParseError(
+      `Invalid chord token: ${token}`,
+      "invalid-chord"
+    );
+  }
+  const stroke = strokeMatch ? parseChordStroke(strokeMatch[2]) : undefined;
+  const reference = main.match(CHORD_REFERENCE_PATTERN);
+  if (reference) {
+    const name = reference[1];
+    const position = locate?.(0, main.length);
+    return {
+      notes: expandChordReference(name, chords, position),
+      name,
+      stroke,
+      annotations: parseAnnotations(annotation),
+    };
   }
-  const inner = main.slice(1, -1).trim();
+  const inner = main.slice(1, -1);
   const notes: NoteRef[] = [];
   const noteMatches = inner.matchAll(/\(([^)]+)\)/g);
   for (const match of noteMatches) {
-    notes.push(parseNoteRef(match[1]));
+    const note = parseNoteRef(match[1]);
+    if (locate) {
+      note.position = locate(1 + (match.index ?? 0), match[0].length);
+    }
+    notes.push(note);
   }
   if (notes.length === 0) {
-    throw new OpenTabParseError(`Chord has no notes: ${token}`);
+    throw new OpenTabParseError(`Chord has no notes: ${token}`, "invalid-chord");
+  }
+  return { notes, stroke, annotations: parseAnnotations(annotation) };
+}
+
+/** Reads `.down`/`.up` strums and `.arp` rolls written after a chord. */
+function parseChordStroke(suffix: string): ChordStroke {
+  const modifiers = suffix.slice(1).split(".");
+  const directions = modifiers.filter(
+    (modifier) => modifier === "down" || modifier === "up"
+  );
+  const arpeggio = modifiers.filter((modifier) => modifier === "arp");
+  if (
+    directions.length > 1 ||
+    arpeggio.length > 1 ||
+    directions.length + arpeggio.length !== modifiers.length
+  ) {
+    throw new OpenTabParseError(
+      `Invalid chord stroke: ${suffix}`,
+      "invalid-chord"
+    );
+  }
+  const direction = directions[0] as ChordStroke["direction"];
+  if (arpeggio.length > 0) {
+    return direction ? { type: "arpeggio", direction } : { type: "arpeggio" };
+  }
+  return { type: "strum", direction };
+}
+
+const DRUM_ARTICULATIONS: Record<string, DrumArticulation> = {
+  ac: "accent",
+  gh: "ghost",
+};
+
+/**
+ * Reads `(lane)` or `[ (lane) (lane) ]` on a percussion track; `.ac` and
+ * `.gh` after a lane mark accented and ghost hits.
+ */
+function parseHits(
+  token: string,
+  kit: Record<string, number>,
+  locate?: Locate
+): { hits: DrumHit[]; annotations?: Annotations } {
+  const { main, annotation } = splitAnnotations(token);
+  const isGroup = main.startsWith("[") && main.endsWith("]");
+  if (!isGroup && !(main.startsWith("(") && main.endsWith(")"))) {
+    throw new OpenTabParseError(`Invalid hit token: ${token}`, "invalid-hit");
   }
-  return { notes, annotations: parseAnnotations(annotation) };
+  const offset = isGroup ? 1 : 0;
+  const matches = Array.from(
+    main.slice(offset, main.length - offset).matchAll(/\(([^)]*)\)/g)
+  );
+  if (!isGroup && matches[0]?.[0] !== main) {
+    throw new OpenTabParseError(`Invalid hit token: ${token}`, "invalid-hit");
+  }
+  const hits: DrumHit[] = [];
+  for (const match of matches) {
+    const [lane, modifier, ...rest] = match[1].trim().split(".");
+    const articulation =
+      modifier === undefined ? undefined : DRUM_ARTICULATIONS[modifier];
+    if (
+      !DRUM_LANE_PATTERN.test(lane) ||
+      rest.length > 0 ||
+      (modifier !== undefined && !articulation)
+    ) {
+      throw new OpenTabParseError(`Invalid hit: ${match[0]}`, "invalid-hit");
+    }
+    const note = kit[lane];
+    if (note === undefined) {
+      throw new OpenTabParseError(
+        `Unknown drum lane: ${lane}`,
+        "unknown-drum-lane"
+      );
+    }
+    const hit: DrumHit = { lane, note };
+    if (articulation) {
+      hit.articulation = articulation;
+    }
+    if (locate) {
+      hit.position = locate(offset + (match.index ?? 0), match[0].length);
+    }
+    hits.push(hit);
+  }
+  if (hits.length === 0) {
+    throw new OpenTabParseError(`Hit group is empty: ${token}`, "invalid-hit");
+  }
+  return { hits, annotations: parseAnnotations(annotation) };
 }
 
 function parseRest(token: string): { annotations?: Annotations } {
   const { main, annotation } = splitAnnotations(token);
   if (main !== "r") {
-    throw new OpenTabParseError(`Invalid rest token: ${token}`);
+    throw new OpenTabParseError(`Invalid rest token: ${token}`, "invalid-rest");
   }
   return { annotations: parseAnnotations(annotation) };
 }
 
-function parseNote(token: string): { note: NoteRef; annotations?: Annotations } {
+function parseNote(
+  token: string,
+  locate?: Locate
+): { note: NoteRef; annotations?: Annotations } {
   const { main, annotation } = splitAnnotations(token);
   if (!main.startsWith("(") || !main.endsWith(")")) {
-    throw new OpenTabParseError(`Invalid note token: ${token}`);
+    throw new OpenTabParseError(`Invalid note token: ${token}`, "invalid-note");
+  }
+  const note = parseNoteRef(main.slice(1, -1));
+  if (locate) {
+    note.position = locate(0, main.length);
+  }
+  return { note, annotations: parseAnnotations(annotation) };
+}
+
+function parseGrace(prefix: string): GraceType {
+  return prefix === "ga" ? "appoggiatura" : "acciaccatura";
+}
+
+function recordTieStarts(
+  notes: NoteRef[],
+  span: SourceSpan,
+  state: DirectiveState,
+  context: ParseContext
+): void {
+  for (const note of notes) {
+    if (note.tie === "start") {
+      state.tieStarts.set(note, { span: note.position ?? span, context });
+    }
+  }
+}
+
+/**
+ * Resolves `_` ties per track voice: a tied note must be followed, in the
+ * next event of the same voice, by the same fret on the same string. That
+ * note becomes "stop", or "continue" when it is tied onward as well.
+ */
+function linkTies(
+  measures: Measure[],
+  tieStarts: Map<NoteRef, TieStart>,
+  context: ParseContext
+): void {
+  const open = new Map<string, Map<number, NoteRef>>();
+  const unresolved = (note: NoteRef) => {
+    if (note.tie === "continue") {
+      note.tie = "stop";
+    } else {
+      delete note.tie;
+    }
+    const start = tieStarts.get(note);
+    (start?.context ?? context).report(
+      spanError(
+        `Tied note on string ${note.string} is not followed by fret ` +
+          `${note.fret} on the same string`,
+        "invalid-tie",
+        start?.span
+      )
+    );
+  };
+
+  for (const measure of measures) {
+    for (const [trackId, trackMeasure] of Object.entries(measure.tracks)) {
+      for (const [voiceId, events] of Object.entries(trackMeasure.voices)) {
+        const key = `${trackId}/${voiceId}`;
+        let pending = open.get(key) ?? new Map<number, NoteRef>();
+        for (const event of events) {
+          const notes =
+            event.type === "note"
+              ? [event.note]
+              : event.type === "chord"
+                ? event.chord
+                : [];
+          const next = new Map<number, NoteRef>();
+          for (const note of notes) {
+            const from = pending.get(note.string);
+            if (from && from.fret === note.fret) {
+              pending.delete(note.string);
+              note.tie = note.tie === "start" ? "continue" : "stop";
+            }
+            if (note.tie === "start" || note.tie === "continue") {
+              next.set(note.string, note);
+            }
+          }
+          pending.forEach(unresolved);
+          pending = next;
+        }
+        open.set(key, pending);
+      }
+    }
+  }
+  open.forEach((pending) => pending.forEach(unresolved));
+}
+
+function splitSyllables(text: string): Array<Lyric | null> | null {
+  const syllables: Array<Lyric | null> = [];
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (word === "_") {
+      syllables.push(null);
+      continue;
+    }
+    const parts = word.split("-");
+    if (parts.some((part) => part.length === 0)) {
+      return null;
+    }
+    parts.forEach((part, index) => {
+      const last = parts.length - 1;
+      syllables.push({
+        text: part,
+        syllabic:
+          last === 0
+            ? "single"
+            : index === 0
+              ? "begin"
+              : index === last
+                ? "end"
+                : "middle",
+      });
+    });
+  }
+  return syllables;
+}
+
+function isLyricTarget(event: Event): event is NoteEvent | ChordEvent {
+  if (event.type === "rest" || event.type === "hit" || event.grace) {
+    return false;
+  }
+  const notes = event.type === "note" ? [event.note] : event.chord;
+  return !notes.every((note) => note.tie === "stop" || note.tie === "continue");
+}
+
+function applyLyrics(
+  measures: Measure[],
+  lines: LyricLine[],
+  context: ParseContext
+): void {
+  const cursors = new Map<string, number>();
+  for (const line of lines) {
+    const key = `${line.trackId}/${line.voiceId}`;
+    const targets: Array<{ measure: number; event: NoteEvent | ChordEvent }> =
+      [];
+    for (const measure of measures) {
+      const events = measure.tracks[line.trackId]?.voices[line.voiceId] ?? [];
+      for (const event of events) {
+        if (isLyricTarget(event)) {
+          targets.push({ measure: measure.index, event });
+        }
+      }
+    }
+    let cursor = cursors.get(key) ?? 0;
+    if (line.measure !== undefined) {
+      const start = targets.findIndex(
+        (target) => target.measure >= (line.measure as number)
+      );
+      cursor = start === -1 ? targets.length : start;
+    }
+    let previous = cursor > 0 ? targets[cursor - 1].event.lyric : undefined;
+    for (const syllable of line.syllables) {
+      if (cursor >= targets.length) {
+        line.context.report(
+          lineError(
+            `Lyrics have more syllables than notes in track ` +
+              `${line.trackId} voice ${line.voiceId}`,
+            "invalid-lyrics",
+            line.entry
+          )
+        );
+        break;
+      }
+      if (syllable) {
+        targets[cursor].event.lyric = syllable;
+        previous = syllable;
+      } else if (previous) {
+        previous.extend = true;
+      }
+      cursor += 1;
+    }
+    cursors.set(key, cursor);
+  }
+}
+
+const DYNAMIC_LEVELS = new Set<string>([
+  "ppp",
+  "pp",
+  "p",
+  "mp",
+  "mf",
+  "f",
+  "ff",
+  "fff",
+]);
+
+/**
+ * Reads `!mf`, `!<`, `!>` and `!` marks. They apply to the next event of the
+ * voice, in this measure line or a later one. A dynamic, a new hairpin or a
+ * bare `!` ends the open hairpin.
+ */
+function parseDynamicMark(
+  token: string,
+  voice: VoiceDynamics,
+  location: MarkLocation
+): void {
+  const mark = token.slice(1);
+  const closeHairpin = () => {
+    if (voice.pending.hairpin) {
+      delete voice.pending.hairpin;
+    } else if (voice.hairpin) {
+      voice.pending.hairpin_end = true;
+    }
+    voice.hairpin = undefined;
+  };
+
+  if (mark === "<" || mark === ">") {
+    closeHairpin();
+    voice.pending.hairpin = mark === "<" ? "crescendo" : "diminuendo";
+    voice.hairpin = location;
+  } else if (DYNAMIC_LEVELS.has(mark)) {
+    closeHairpin();
+    voice.pending.dynamic = mark as DynamicLevel;
+  } else if (mark === "") {
+    if (!voice.hairpin) {
+      throw new OpenTabParseError(
+        "Hairpin end without an open hairpin",
+        "invalid-dynamic"
+      );
+    }
+    closeHairpin();
+  } else {
+    throw new OpenTabParseError(`Unknown dynamic: ${token}`, "invalid-dynamic");
+  }
+  voice.pendingAt = location;
+}
+
+function applyDynamicMarks(event: Event, voice: VoiceDynamics): void {
+  Object.assign(event, voice.pending);
+  voice.pending = {};
+  voice.pendingAt = undefined;
+}
+
+function reportOpenDynamics(state: DirectiveState): void {
+  for (const [key, voice] of state.dynamics) {
+    const [trackId, voiceId] = key.split("/");
+    if (voice.pendingAt) {
+      voice.pendingAt.context.report(
+        spanError(
+          `Dynamic mark is not followed by an event in track ${trackId} ` +
+            `voice ${voiceId}`,
+          "invalid-dynamic",
+          voice.pendingAt.span
+        )
+      );
+    } else if (voice.hairpin) {
+      voice.hairpin.context.report(
+        spanError(
+          `Hairpin is not ended in track ${trackId} voice ${voiceId}`,
+          "invalid-dynamic",
+          voice.hairpin.span
+        )
+      );
+    }
+  }
+}
+
+function checkNoteRange(notes: NoteRef[], state: DirectiveState): void {
+  const instrument = state.trackId
+    ? state.instruments.get(state.trackId)
+    : undefined;
+  if (!instrument) {
+    return;
+  }
+  for (const note of notes) {
+    if (note.string < 1 || note.string > instrument.strings) {
+      throw new OpenTabParseError(
+        `String ${note.string} does not exist on track ${state.trackId} ` +
+          `(${instrument.strings} strings)`,
+        "string-out-of-range"
+      );
+    }
+    if (!isPlayableFret(instrument, note.string, note.fret)) {
+      throw new OpenTabParseError(
+        `Fret ${note.fret} is not playable on string ${note.string} of ` +
+          `track ${state.trackId}`,
+        "fret-out-of-range"
+      );
+    }
   }
-  const inner = main.slice(1, -1);
-  return { note: parseNoteRef(inner), annotations: parseAnnotations(annotation) };
 }
 
 function parseMeasureLine(
-  line: string,
+  entry: LineEntry,
   state: DirectiveState,
   measureMap: Map<number, Measure>,
-  lineNumber: number
+  context: ParseContext
 ): void {
-  const match = line.match(/^m(\d+):\s*\|(.*)\|\s*$/);
-  if (!match) {
-    throw new OpenTabParseError(
-      formatErrorLocation(`Invalid measure line: ${line}`, lineNumber, 1)
-    );
+  const line = entry.text;
+  const match = line.match(
+    /^m(\d+|\+)(?:-m(\d+))?:\s*\|(:?)(.*?)(:?)\|(?:x(\d+))?\s*$/
+  );
+  if (!match || (match[1] === "+" && match[2])) {
+    throw lineError(`Invalid measure line: ${line}`, "invalid-measure", entry);
   }
   if (!state.trackId || !state.voiceId) {
-    throw new OpenTabParseError(
-      formatErrorLocation(
-        `Measure defined before selecting track/voice: ${line}`,
-        lineNumber,
-        1
-      )
+    throw lineError(
+      `Measure defined before selecting track/voice: ${line}`,
+      "missing-track-selection",
+      entry
+    );
+  }
+  if (match[1] === "+" && !context.autoNumber) {
+    throw lineError(
+      "Measure number m+ needs the autoNumber option",
+      "invalid-measure",
+      entry
     );
   }
 
-  const measureIndex = Number(match[1]);
-  const content = match[2].trim();
-  const tokens = content ? splitTokens(content) : [];
+  const measureIndex =
+    match[1] === "+"
+      ? (state.lastMeasure.get(`${state.trackId}/${state.voiceId}`) ?? 0) + 1
+      : Number(match[1]);
+  const lastIndex = match[2] ? Number(match[2]) : measureIndex;
+  if (lastIndex < measureIndex) {
+    throw lineError(`Invalid measure range: ${line}`, "invalid-measure", entry);
+  }
+  const content = match[4].trim();
+  const barlines = {
+    start: match[3] === ":",
+    end: match[5] === ":",
+    times: match[6] ? Number(match[6]) : undefined,
+  };
+  if (barlines.times !== undefined && (!barlines.end || barlines.times < 2)) {
+    context.report(
+      lineError(`Invalid repeat count: ${line}`, "invalid-measure", entry)
+    );
+    barlines.times = undefined;
+  }
+  const repeatMatch = content.match(/^%(\d*)$/);
+  const repeatSpan = repeatMatch ? Number(repeatMatch[1] || 1) : 1;
+  const count =
+    repeatMatch && !match[2] ? repeatSpan : lastIndex - measureIndex + 1;
+  if (repeatSpan < 1 || count % repeatSpan !== 0) {
+    throw lineError(`Invalid measure repeat: ${line}`, "invalid-measure", entry);
+  }
+  const tokens = content && !repeatMatch ? splitTokens(content) : [];
   let currentDuration: Duration | null = null;
   const events: Event[] = [];
-  const baseColumn = line.indexOf("|") + 2;
+  const voiceKey = `${state.trackId}/${state.voiceId}`;
+  const dynamics = state.dynamics.get(voiceKey) ?? { pending: {} };
+  state.dynamics.set(voiceKey, dynamics);
+  const pushEvent = (event: Event) => {
+    applyDynamicMarks(event, dynamics);
+    events.push(event);
+  };
+  const baseColumn = line.indexOf("|") + 2 + match[3].length;
   let searchStart = baseColumn - 1;
 
   for (const token of tokens) {
     const tokenIndex = line.indexOf(token, searchStart);
-    const column = tokenIndex === -1 ? 1 : tokenIndex + 1;
+    const column = entry.column + (tokenIndex === -1 ? 0 : tokenIndex);
     searchStart = tokenIndex === -1 ? searchStart : tokenIndex + token.length;
+    const locate: Locate | undefined = context.positions
+      ? (offset, length) =>
+          contextSpan(context, entry.lineNumber, column + offset, length)
+      : undefined;
+    const tokenSpan = spanAt(entry.lineNumber, column, token.length);
 
     try {
+      if (token.startsWith("!")) {
+        parseDynamicMark(token, dynamics, { span: tokenSpan, context });
+        continue;
+      }
       const duration = parseDuration(token);
       if (duration) {
         currentDuration = duration;
         continue;
       }
+      if (/^[whqest]/.test(token)) {
+        throw new OpenTabParseError(
+          `Invalid duration: ${token}`,
+          "invalid-duration"
+        );
+      }
       if (!currentDuration) {
         throw new OpenTabParseError(
-          `Missing duration before token "${token}" in measure ${measureIndex}`
+          `Missing duration before token "${token}" in measure ${measureIndex}`,
+          "missing-duration"
         );
       }
 
@@ -544,138 +2767,986 @@ function parseMeasureLine(
         if (rest.annotations) {
           restEvent.annotations = rest.annotations;
         }
-        events.push(restEvent);
+        if (locate) {
+          restEvent.position = locate(0, token.length);
+        }
+        pushEvent(restEvent);
+        continue;
+      }
+
+      const graceMatch = token.match(/^ga?(?=[[(])/);
+      const grace = graceMatch ? parseGrace(graceMatch[0]) : undefined;
+      const body = graceMatch ? token.slice(graceMatch[0].length) : token;
+      const bodyLocate: Locate | undefined =
+        locate && graceMatch
+          ? (offset, length) => locate(offset + graceMatch[0].length, length)
+          : locate;
+
+      const kit = state.kits.get(state.trackId);
+      if (kit && /^[[(]/.test(body)) {
+        const hit = parseHits(body, kit, bodyLocate);
+        const hitEvent: Event = {
+          type: "hit",
+          duration: currentDuration,
+          hits: hit.hits,
+        };
+        if (grace) {
+          hitEvent.grace = grace;
+        }
+        if (hit.annotations) {
+          hitEvent.annotations = hit.annotations;
+        }
+        if (locate) {
+          hitEvent.position = locate(0, token.length);
+        }
+        pushEvent(hitEvent);
         continue;
       }
 
-      if (token.startsWith("[")) {
-        const chord = parseChord(token);
+      if (body.startsWith("[")) {
+        const chord = parseChord(body, state.chords, bodyLocate);
         const chordEvent: Event = {
           type: "chord",
           duration: currentDuration,
           chord: chord.notes,
         };
+        if (chord.name) {
+          chordEvent.name = chord.name;
+        }
+        if (grace) {
+          chordEvent.grace = grace;
+        }
+        if (chord.stroke) {
+          chordEvent.stroke = chord.stroke;
+        }
         if (chord.annotations) {
           chordEvent.annotations = chord.annotations;
         }
-        events.push(chordEvent);
+        if (locate) {
+          chordEvent.position = locate(0, token.length);
+        }
+        checkNoteRange(chord.notes, state);
+        recordTieStarts(chord.notes, tokenSpan, state, context);
+        pushEvent(chordEvent);
         continue;
       }
 
-      if (token.startsWith("(")) {
-        const note = parseNote(token);
+      if (body.startsWith("(")) {
+        const note = parseNote(body, bodyLocate);
         const noteEvent: Event = {
           type: "note",
           duration: currentDuration,
           note: note.note,
         };
+        if (grace) {
+          noteEvent.grace = grace;
+        }
         if (note.annotations) {
           noteEvent.annotations = note.annotations;
         }
-        events.push(noteEvent);
+        if (locate) {
+          noteEvent.position = locate(0, token.length);
+        }
+        checkNoteRange([note.note], state);
+        recordTieStarts([note.note], tokenSpan, state, context);
+        pushEvent(noteEvent);
         continue;
       }
 
-      throw new OpenTabParseError(`Unknown token: ${token}`);
+      throw new OpenTabParseError(`Unknown token: ${token}`, "invalid-token");
     } catch (error) {
-      if (error instanceof OpenTabParseError) {
-        throw new OpenTabParseError(
-          formatErrorLocation(error.message, lineNumber, column)
+      if (!(error instanceof OpenTabParseError)) {
+        throw error;
+      }
+      context.report(
+        new OpenTabParseError(error.reason, error.code, {
+          line: entry.lineNumber,
+          column,
+          endColumn: column + token.length,
+        })
+      );
+    }
+  }
+
+  const { trackId, voiceId } = state;
+  const multiRest =
+    count > 1 && events.length > 0 && events.every((e) => e.type === "rest");
+
+  for (let offset = 0; offset < count; offset += 1) {
+    const index = measureIndex + offset;
+    let voiceEvents = events;
+    let shorthand: MeasureShorthand | undefined;
+    if (repeatMatch) {
+      const source = measureMap.get(index - repeatSpan)?.tracks[trackId]
+        ?.voices[voiceId];
+      if (!source) {
+        throw lineError(
+          `Measure repeat needs measure ${index - repeatSpan} in track ` +
+            `${trackId} voice ${voiceId}`,
+          "invalid-measure",
+          entry
         );
       }
-      throw error;
+      voiceEvents = cloneEvents(source, state);
+      if (offset % repeatSpan === 0) {
+        shorthand = { type: "repeat", measures: repeatSpan };
+      }
+    } else if (multiRest) {
+      voiceEvents = offset === 0 ? events : cloneEvents(events, state);
+      if (offset === 0) {
+        shorthand = { type: "rest", measures: count };
+      }
+    } else if (offset > 0) {
+      voiceEvents = cloneEvents(events, state);
+      if (events.length > 0) {
+        shorthand = { type: "repeat", measures: 1 };
+      }
+    }
+
+    let measure = measureMap.get(index);
+    if (!measure) {
+      measure = { index, tracks: {} };
+      if (context.positions) {
+        measure.position = contextSpan(
+          context,
+          entry.lineNumber,
+          entry.column,
+          line.length
+        );
+      }
+    }
+
+    const trackMeasure =
+      measure.tracks[trackId] ??
+      ({
+        voices: {},
+      } as TrackMeasure);
+
+    if (offset === 0) {
+      applyPendingMeasureChanges(measure, state, entry, context);
+    }
+    applyRepeatBarlines(
+      measure,
+      {
+        start: barlines.start && offset === 0,
+        end: barlines.end && offset === count - 1,
+        times: barlines.times,
+      },
+      entry,
+      context
+    );
+
+    const existing = trackMeasure.voices[voiceId];
+    if (existing) {
+      const policy = context.duplicateMeasures;
+      reportDuplicateMeasure(index, entry, state, context);
+      if (policy === "error") {
+        forgetTieStarts(voiceEvents, state);
+        continue;
+      }
+      if (policy === "append") {
+        voiceEvents = [...existing, ...voiceEvents];
+        shorthand = undefined;
+      } else {
+        forgetTieStarts(existing, state);
+        state.measureSources.set(
+          `${trackId}/${voiceId}/${index}`,
+          relatedLocation(
+            `Measure ${index} is redefined here`,
+            entryRange(entry),
+            context.file
+          )
+        );
+      }
+    } else {
+      state.measureSources.set(
+        `${trackId}/${voiceId}/${index}`,
+        relatedLocation(
+          `Measure ${index} is first defined here`,
+          entryRange(entry),
+          context.file
+        )
+      );
     }
+
+    trackMeasure.voices[voiceId] = voiceEvents;
+    setShorthand(trackMeasure, voiceId, shorthand);
+    measure.tracks[trackId] = trackMeasure;
+    measureMap.set(index, measure);
+  }
+  state.lastMeasure.set(`${trackId}/${voiceId}`, measureIndex + count - 1);
+}
+
+function reportDuplicateMeasure(
+  index: number,
+  entry: LineEntry,
+  state: DirectiveState,
+  context: ParseContext
+): void {
+  if (context.duplicateMeasures === "append") {
+    return;
   }
+  const previous = state.measureSources.get(
+    `${state.trackId}/${state.voiceId}/${index}`
+  );
+  const outcome =
+    context.duplicateMeasures === "error"
+      ? "this definition is ignored"
+      : "this definition replaces it";
+  context.report(
+    new OpenTabParseError(
+      `Measure ${index} is already defined for track ${state.trackId} ` +
+        `voice ${state.voiceId}; ${outcome}`,
+      "duplicate-measure",
+      entryRange(entry),
+      previous ? [previous] : [],
+      context.duplicateMeasures === "error" ? "error" : "warning"
+    )
+  );
+}
 
-  const measure =
-    measureMap.get(measureIndex) ??
-    ({
-      index: measureIndex,
-      tracks: {},
-    } as Measure);
+/** Drops tie starts of events that will not be in the document. */
+function forgetTieStarts(events: Event[], state: DirectiveState): void {
+  for (const event of events) {
+    const notes =
+      event.type === "note"
+        ? [event.note]
+        : event.type === "chord"
+          ? event.chord
+          : [];
+    notes.forEach((note) => state.tieStarts.delete(note));
+  }
+}
 
-  const trackMeasure =
-    measure.tracks[state.trackId] ??
-    ({
-      voices: {},
-    } as TrackMeasure);
+function setShorthand(
+  trackMeasure: TrackMeasure,
+  voiceId: string,
+  shorthand: MeasureShorthand | undefined
+): void {
+  if (shorthand) {
+    trackMeasure.shorthand = { ...trackMeasure.shorthand, [voiceId]: shorthand };
+    return;
+  }
+  if (trackMeasure.shorthand) {
+    delete trackMeasure.shorthand[voiceId];
+    if (Object.keys(trackMeasure.shorthand).length === 0) {
+      delete trackMeasure.shorthand;
+    }
+  }
+}
 
-  trackMeasure.voices[state.voiceId] = events;
-  measure.tracks[state.trackId] = trackMeasure;
-  measureMap.set(measureIndex, measure);
+/**
+ * Copies the events of a repeated measure. Copied tie starts keep the span
+ * of the written note so unresolved ties still point at the source.
+ */
+function cloneEvents(events: Event[], state: DirectiveState): Event[] {
+  const copies = JSON.parse(JSON.stringify(events)) as Event[];
+  const notesOf = (event: Event): NoteRef[] =>
+    event.type === "note"
+      ? [event.note]
+      : event.type === "chord"
+        ? event.chord
+        : [];
+  events.forEach((event, index) => {
+    const copiedNotes = notesOf(copies[index]);
+    notesOf(event).forEach((note, noteIndex) => {
+      const start = state.tieStarts.get(note);
+      if (start) {
+        state.tieStarts.set(copiedNotes[noteIndex], start);
+      }
+    });
+  });
+  return copies;
 }
 
-function parseDirective(
-  line: string,
+const MEASURE_ATTRIBUTE_LABELS: Record<
+  keyof PendingMeasureAttributes,
+  string
+> = {
+  time_signature: "time signature",
+  tempo_bpm: "tempo",
+  key: "key signature",
+  ending: "ending",
+  markers: "navigation markers",
+  jump: "jump",
+};
+
+function applyPendingMeasureChanges(
+  measure: Measure,
   state: DirectiveState,
-  lineNumber: number
+  entry: LineEntry,
+  context: ParseContext
+): void {
+  const pending = state.pending;
+  for (const key of Object.keys(pending) as (keyof PendingMeasureAttributes)[]) {
+    const value = pending[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (key === "markers") {
+      const markers = new Set([
+        ...(measure.markers ?? []),
+        ...(value as NavigationMarker[]),
+      ]);
+      measure.markers = Array.from(markers);
+      continue;
+    }
+    const existing = measure[key];
+    if (
+      existing !== undefined &&
+      JSON.stringify(existing) !== JSON.stringify(value)
+    ) {
+      context.report(
+        lineError(
+          `Conflicting ${MEASURE_ATTRIBUTE_LABELS[key]} for measure ${measure.index}`,
+          "conflicting-measure-attribute",
+          entry
+        )
+      );
+      continue;
+    }
+    Object.assign(measure, { [key]: value });
+  }
+
+  state.pending = {};
+  state.pendingEntry = null;
+}
+
+function applyRepeatBarlines(
+  measure: Measure,
+  barlines: { start: boolean; end: boolean; times?: number },
+  entry: LineEntry,
+  context: ParseContext
+): void {
+  if (barlines.start) {
+    measure.repeat_start = true;
+  }
+  if (!barlines.end) {
+    return;
+  }
+  measure.repeat_end = true;
+  if (barlines.times === undefined) {
+    return;
+  }
+  if (
+    measure.repeat_times !== undefined &&
+    measure.repeat_times !== barlines.times
+  ) {
+    context.report(
+      lineError(
+        `Conflicting repeat count for measure ${measure.index}`,
+        "conflicting-measure-attribute",
+        entry
+      )
+    );
+    return;
+  }
+  measure.repeat_times = barlines.times;
+}
+
+function parseTrackDirective(
+  entry: LineEntry,
+  state: DirectiveState
 ): void {
+  const line = entry.text;
   const match = line.match(/^@track\s+(\S+)(?:\s+voice\s+(\S+))?$/);
   if (!match) {
-    throw new OpenTabParseError(
-      formatErrorLocation(`Invalid directive: ${line}`, lineNumber, 1)
-    );
+    throw lineError(`Invalid directive: ${line}`, "invalid-directive", entry);
   }
   state.trackId = match[1];
   state.voiceId = match[2] ?? "v1";
 }
 
-export function parseOpenTab(source: string): OpenTabDocument {
+function parseTimeDirective(
+  entry: LineEntry,
+  state: DirectiveState
+): void {
+  const line = entry.text;
+  const match = line.match(/^@time\s+(\S+)$/);
+  const timeSignature = match ? parseTimeSignature(match[1]) : undefined;
+  if (
+    !timeSignature ||
+    timeSignature.numerator < 1 ||
+    ![1, 2, 4, 8, 16, 32].includes(timeSignature.denominator)
+  ) {
+    throw lineError(
+      `Invalid time signature directive: ${line}`,
+      "invalid-directive",
+      entry
+    );
+  }
+  state.pending.time_signature = timeSignature;
+  state.pendingEntry = entry;
+}
+
+function parseTempoDirective(
+  entry: LineEntry,
+  state: DirectiveState
+): void {
+  const line = entry.text;
+  const match = line.match(/^@tempo\s+(\d+(?:\.\d+)?)$/);
+  const tempo = match ? Number(match[1]) : Number.NaN;
+  if (Number.isNaN(tempo) || tempo < 1) {
+    throw lineError(
+      `Invalid tempo directive: ${line}`,
+      "invalid-directive",
+      entry
+    );
+  }
+  state.pending.tempo_bpm = tempo;
+  state.pendingEntry = entry;
+}
+
+function parseKeyDirective(
+  entry: LineEntry,
+  state: DirectiveState
+): void {
+  const line = entry.text;
+  const match = line.match(/^@key\s+(.+)$/);
+  const key = match ? parseKeySignature(match[1]) : undefined;
+  if (!key) {
+    throw lineError(`Invalid key directive: ${line}`, "invalid-directive", entry);
+  }
+  state.pending.key = key;
+  state.pendingEntry = entry;
+}
+
+function parseEndingDirective(
+  entry: LineEntry,
+  state: DirectiveState
+): void {
+  const line = entry.text;
+  const match = line.match(/^@ending\s+(\d+(?:\s*,\s*\d+)*)$/);
+  const endings = match
+    ? match[1].split(",").map((value) => Number(value.trim()))
+    : [];
+  if (endings.length === 0 || endings.some((value) => value < 1)) {
+    throw lineError(
+      `Invalid ending directive: ${line}`,
+      "invalid-directive",
+      entry
+    );
+  }
+  state.pending.ending = endings;
+  state.pendingEntry = entry;
+}
+
+const NAVIGATION_MARKERS: Record<string, NavigationMarker> = {
+  segno: "segno",
+  coda: "coda",
+  fine: "fine",
+  tocoda: "to_coda",
+};
+
+function parseMarkerDirective(
+  name: string,
+  entry: LineEntry,
+  state: DirectiveState
+): void {
+  const line = entry.text;
+  if (line !== `@${name}`) {
+    throw lineError(
+      `Invalid ${name} directive: ${line}`,
+      "invalid-directive",
+      entry
+    );
+  }
+  state.pending.markers = [
+    ...(state.pending.markers ?? []),
+    NAVIGATION_MARKERS[name],
+  ];
+  state.pendingEntry = entry;
+}
+
+function parseJumpDirective(
+  entry: LineEntry,
+  state: DirectiveState
+): void {
+  const line = entry.text;
+  const match = line.match(/^@(dc|ds)(?:\s+al\s+(fine|coda))?$/);
+  if (!match) {
+    throw lineError(
+      `Invalid jump directive: ${line}`,
+      "invalid-directive",
+      entry
+    );
+  }
+  const jump: NavigationJump = { to: match[1] === "dc" ? "start" : "segno" };
+  if (match[2]) {
+    jump.until = match[2] as NavigationJump["until"];
+  }
+  state.pending.jump = jump;
+  state.pendingEntry = entry;
+}
+
+function parseLyricsDirective(
+  entry: LineEntry,
+  state: DirectiveState,
+  context: ParseContext
+): void {
+  const line = entry.text;
+  const match = line.match(
+    /^@lyrics\s+([^\s:]+)(?:\s+(?!m\d+:)([^\s:]+))?(?:\s+m(\d+))?:(.*)$/
+  );
+  const syllables = match ? splitSyllables(match[4]) : null;
+  if (!match || !syllables) {
+    throw lineError(`Invalid lyrics: ${line}`, "invalid-lyrics", entry);
+  }
+  state.lyrics.push({
+    trackId: match[1],
+    voiceId: match[2] ?? "v1",
+    measure: match[3] ? Number(match[3]) : undefined,
+    syllables,
+    entry,
+    context,
+  });
+}
+
+function parseDefineDirective(
+  entry: LineEntry,
+  state: DirectiveState,
+  context: ParseContext
+): void {
+  const line = entry.text;
+  const match = line.match(/^@define\s+([A-Za-z_][\w-]*)\s+(\|.*\|)$/);
+  if (!match) {
+    throw lineError(`Invalid macro definition: ${line}`, "invalid-macro", entry);
+  }
+  const name = match[1];
+  if (state.macros.has(name)) {
+    throw lineError(
+      `Duplicate macro definition: ${name}`,
+      "invalid-macro",
+      entry
+    );
+  }
+  const measures: MacroMeasure[] = [];
+  let offset = line.length - match[2].length + 1;
+  for (const text of match[2].slice(1, -1).split("|")) {
+    if (!text.replace(/:/g, "").trim()) {
+      throw lineError(`Empty measure in macro ${name}`, "invalid-macro", entry);
+    }
+    measures.push({ text, column: entry.column + offset });
+    offset += text.length + 1;
+  }
+  state.macros.set(name, {
+    name,
+    entry,
+    file: context.file,
+    measures,
+    reported: new Set(),
+  });
+}
+
+function parseUseDirective(
+  entry: LineEntry,
+  state: DirectiveState,
+  measureMap: Map<number, Measure>,
+  context: ParseContext
+): void {
+  const line = entry.text;
+  const match = line.match(/^@use\s+([A-Za-z_][\w-]*)(?:\s+m(\d+))?$/);
+  if (!match) {
+    throw lineError(`Invalid directive: ${line}`, "invalid-directive", entry);
+  }
+  const macro = state.macros.get(match[1]);
+  if (!macro) {
+    throw lineError(`Unknown macro: ${match[1]}`, "unknown-macro", entry);
+  }
+  if (!state.trackId || !state.voiceId) {
+    throw lineError(
+      `Macro used before selecting track/voice: ${line}`,
+      "missing-track-selection",
+      entry
+    );
+  }
+
+  const start = match[2]
+    ? Number(match[2])
+    : (state.lastMeasure.get(`${state.trackId}/${state.voiceId}`) ?? 0) + 1;
+  const useSite = relatedLocation(
+    `Expanded from @use ${macro.name}`,
+    entryRange(entry),
+    context.file
+  );
+  const origin: SourceOrigin = {
+    directive: "use",
+    macro: macro.name,
+    span: contextSpan(context, entry.lineNumber, entry.column, line.length),
+  };
+
+  macro.measures.forEach((measure, index) => {
+    const prefix = `m${start + index}: |`;
+    const measureRange: SourceRange = {
+      line: macro.entry.lineNumber,
+      column: measure.column,
+      endColumn: measure.column + measure.text.length,
+    };
+    const macroContext: ParseContext = {
+      ...context,
+      file: macro.file,
+      origin,
+      report(error) {
+        // Whole-line errors would point into the synthesized `mN:` prefix.
+        const range =
+          (error.column ?? 0) < measure.column ? measureRange : error;
+        const key = `${range.line}:${range.column}:${error.reason}`;
+        if (macro.reported.has(key)) {
+          return;
+        }
+        macro.reported.add(key);
+        if (macro.file === context.file) {
+          context.report(
+            new OpenTabParseError(error.reason, error.code, range, [
+              useSite,
+              ...error.related,
+            ])
+          );
+          return;
+        }
+        context.report(
+          new OpenTabParseError(error.reason, error.code, entryRange(entry), [
+            relatedLocation(`In macro ${macro.name}`, range, macro.file),
+            ...error.related,
+          ])
+        );
+      },
+    };
+    try {
+      parseMeasureLine(
+        {
+          text: `${prefix}${measure.text}|`,
+          lineNumber: macro.entry.lineNumber,
+          column: measure.column - prefix.length,
+        },
+        state,
+        measureMap,
+        macroContext
+      );
+    } catch (error) {
+      reportError(error, macroContext);
+    }
+  });
+}
+
+function parseIncludeDirective(
+  entry: LineEntry,
+  state: DirectiveState,
+  measureMap: Map<number, Measure>,
+  context: ParseContext
+): void {
+  const line = entry.text;
+  const match = line.match(/^@include\s+(?:"([^"]+)"|(\S+))$/);
+  if (!match) {
+    throw lineError(`Invalid directive: ${line}`, "invalid-directive", entry);
+  }
+  const target = match[1] ?? match[2];
+  const from = context.includeStack[context.includeStack.length - 1];
+  let included: IncludedSource | undefined;
+  try {
+    included = context.resolveInclude?.(target, from);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw lineError(
+      `Cannot include ${target}: ${reason}`,
+      "invalid-include",
+      entry
+    );
+  }
+  if (!included) {
+    throw lineError(
+      `Cannot resolve include: ${target}`,
+      "invalid-include",
+      entry
+    );
+  }
+  if (context.includeStack.includes(included.file)) {
+    throw lineError(
+      `Include cycle: ${[...context.includeStack, included.file].join(" -> ")}`,
+      "invalid-include",
+      entry
+    );
+  }
+
+  const { file, source } = included;
+  const includeContext: ParseContext = {
+    ...context,
+    file,
+    origin: {
+      directive: "include",
+      span: contextSpan(context, entry.lineNumber, entry.column, line.length),
+    },
+    includeStack: [...context.includeStack, file],
+    report(error) {
+      context.report(
+        new OpenTabParseError(
+          error.reason,
+          error.code,
+          entryRange(entry),
+          [relatedLocation("Included file", error, file), ...error.related],
+          error.severity
+        )
+      );
+    },
+  };
+  const lines = source.split(/\r?\n/);
+  const delimiterIndex = lines.findIndex(
+    (text) => text.trim() === HEADER_DELIMITER
+  );
+  parseBody(
+    lines.slice(delimiterIndex + 1),
+    delimiterIndex + 2,
+    state,
+    measureMap,
+    includeContext
+  );
+}
+
+function parseDirective(
+  entry: LineEntry,
+  state: DirectiveState,
+  measureMap: Map<number, Measure>,
+  context: ParseContext
+): void {
+  const line = entry.text;
+  const name = line.match(/^@(\S+)/)?.[1];
+  if (
+    context.version === "0.1" &&
+    (name === "define" || name === "use" || name === "include")
+  ) {
+    context.report(
+      requiresVersionError(`@${name} directives`, entryRange(entry))
+    );
+  }
+  if (name === "define") {
+    parseDefineDirective(entry, state, context);
+    return;
+  }
+  if (name === "use") {
+    parseUseDirective(entry, state, measureMap, context);
+    return;
+  }
+  if (name === "include") {
+    parseIncludeDirective(entry, state, measureMap, context);
+    return;
+  }
+  if (name === "track") {
+    parseTrackDirective(entry, state);
+    return;
+  }
+  if (name === "time") {
+    parseTimeDirective(entry, state);
+    return;
+  }
+  if (name === "tempo") {
+    parseTempoDirective(entry, state);
+    return;
+  }
+  if (name === "key") {
+    parseKeyDirective(entry, state);
+    return;
+  }
+  if (name === "ending") {
+    parseEndingDirective(entry, state);
+    return;
+  }
+  if (name && name in NAVIGATION_MARKERS) {
+    parseMarkerDirective(name, entry, state);
+    return;
+  }
+  if (name === "dc" || name === "ds") {
+    parseJumpDirective(entry, state);
+    return;
+  }
+  if (name === "lyrics") {
+    parseLyricsDirective(entry, state, context);
+    return;
+  }
+  throw lineError(`Unknown directive: ${line}`, "unknown-directive", entry);
+}
+
+const BODY_LINE_PATTERN = /^\s*(@|m(?:\d+|\+):)/;
+
+function parseBody(
+  lines: string[],
+  firstLineNumber: number,
+  state: DirectiveState,
+  measureMap: Map<number, Measure>,
+  context: ParseContext
+): void {
+  for (const [index, rawLine] of lines.entries()) {
+    const stripped = stripComment(rawLine).trim();
+    if (!stripped) {
+      continue;
+    }
+    const entry: LineEntry = {
+      text: stripped,
+      lineNumber: firstLineNumber + index,
+      column: rawLine.length - rawLine.trimStart().length + 1,
+    };
+    try {
+      if (stripped.startsWith("@")) {
+        parseDirective(entry, state, measureMap, context);
+        continue;
+      }
+      if (stripped.startsWith("m")) {
+        parseMeasureLine(entry, state, measureMap, context);
+        continue;
+      }
+      throw lineError(
+        `Unknown line in body: ${stripped}`,
+        "unknown-line",
+        entry
+      );
+    } catch (error) {
+      reportError(error, context);
+    }
+  }
+}
+
+function parseDocument(source: string, context: ParseContext): OpenTabDocument {
   const lines = source.split(/\r?\n/);
-  const delimiterIndex = lines.findIndex((line) => line.trim() === HEADER_DELIMITER);
+  let delimiterIndex = lines.findIndex((line) => line.trim() === HEADER_DELIMITER);
+  let bodyStartIndex = delimiterIndex + 1;
   if (delimiterIndex === -1) {
-    throw new OpenTabParseError(`Missing header delimiter "${HEADER_DELIMITER}"`);
+    context.report(
+      new OpenTabParseError(
+        `Missing header delimiter "${HEADER_DELIMITER}"`,
+        "missing-delimiter",
+        { line: 1, column: 1, endColumn: Math.max(lines[0].length, 1) + 1 }
+      )
+    );
+    const firstBodyLine = lines.findIndex((line) =>
+      BODY_LINE_PATTERN.test(line)
+    );
+    delimiterIndex = firstBodyLine === -1 ? lines.length : firstBodyLine;
+    bodyStartIndex = delimiterIndex;
   }
 
   const headerLines = lines.slice(0, delimiterIndex);
-  const bodyLines = lines.slice(delimiterIndex + 1);
+  const bodyLines = lines.slice(bodyStartIndex);
 
   const parsedHeader = parseHeader(
     headerLines.map((text, index) => ({
       text,
       lineNumber: index + 1,
-    }))
+      column: 1,
+    })),
+    context
   );
-  if (parsedHeader.format !== "opentab") {
-    throw new OpenTabParseError("Unsupported format");
-  }
-  if (parsedHeader.version !== "0.1") {
-    throw new OpenTabParseError("Unsupported version");
+  checkFormatAndVersion(parsedHeader, context);
+  if (
+    parsedHeader.version !== undefined &&
+    isSupportedVersion(parsedHeader.version)
+  ) {
+    context.version = parsedHeader.version;
   }
 
-  const header = normalizeHeader(parsedHeader.header);
-
-  const state: DirectiveState = { trackId: null, voiceId: null };
+  const header = normalizeHeader(parsedHeader, context);
+
+  const state: DirectiveState = {
+    trackId: null,
+    voiceId: null,
+    pending: {},
+    pendingEntry: null,
+    tieStarts: new Map(),
+    chords: new Map(
+      parsedHeader.chords.map((chord) => [chord.name, chord])
+    ),
+    kits: new Map(
+      parsedHeader.tracks
+        .filter((track) => track.kind === "percussion")
+        .map((track) => [track.id, { ...GM_DRUM_KIT, ...track.kit }])
+    ),
+    instruments: new Map(
+      parsedHeader.tracks
+        .filter((track) => track.kind !== "percussion")
+        .map((track) => [track.id, resolveInstrument(track)])
+    ),
+    lyrics: [],
+    dynamics: new Map(),
+    macros: new Map(),
+    lastMeasure: new Map(),
+    measureSources: new Map(),
+  };
   const measureMap = new Map<number, Measure>();
 
-  for (const [index, rawLine] of bodyLines.entries()) {
-    const lineNumber = delimiterIndex + 2 + index;
-    const stripped = stripComment(rawLine).trim();
-    if (!stripped) {
-      continue;
-    }
-    if (stripped.startsWith("@track")) {
-      parseDirective(stripped, state, lineNumber);
-      continue;
-    }
-    if (stripped.startsWith("m")) {
-      parseMeasureLine(stripped, state, measureMap, lineNumber);
-      continue;
-    }
-    throw new OpenTabParseError(
-      formatErrorLocation(`Unknown line in body: ${stripped}`, lineNumber, 1)
+  parseBody(bodyLines, bodyStartIndex + 1, state, measureMap, context);
+
+  if (state.pendingEntry !== null) {
+    context.report(
+      lineError(
+        "Measure directive is not followed by a measure",
+        "dangling-directive",
+        state.pendingEntry
+      )
     );
   }
 
+  reportOpenDynamics(state);
+
   const measures = Array.from(measureMap.values()).sort(
     (a, b) => a.index - b.index
   );
+  linkTies(measures, state.tieStarts, context);
+  applyLyrics(measures, state.lyrics, context);
 
-  return {
+  const document: OpenTabDocument = {
     format: "opentab",
-    version: "0.1",
+    version:
+      parsedHeader.version !== undefined &&
+      isSupportedVersion(parsedHeader.version)
+        ? parsedHeader.version
+        : SUPPORTED_VERSIONS[SUPPORTED_VERSIONS.length - 1],
     header,
     tracks: parsedHeader.tracks,
     measures,
   };
+  if (parsedHeader.chords.length > 0) {
+    document.chords = parsedHeader.chords;
+  }
+  reportV0_2Features(document, parsedHeader, context);
+  return document;
+}
+
+export function parseOpenTab(
+  source: string,
+  options: ParseOptions = {}
+): OpenTabDocument {
+  return parseDocument(source, {
+    positions: options.positions ?? false,
+    duplicateMeasures: options.duplicateMeasures ?? "warn",
+    autoNumber: options.autoNumber ?? false,
+    includeStack: options.file ? [options.file] : [],
+    resolveInclude: options.resolveInclude,
+    report(error) {
+      if (error.severity === "warning") {
+        return;
+      }
+      thrownErrors.add(error);
+      throw error;
+    },
+  });
+}
+
+/**
+ * Parses without throwing: invalid lines and tokens are skipped and reported,
+ * and the document holds everything that could be recovered.
+ */
+export function parseOpenTabWithDiagnostics(
+  source: string,
+  options: ParseOptions = {}
+): OpenTabParseResult {
+  const diagnostics: OpenTabDiagnostic[] = [];
+  const document = parseDocument(source, {
+    positions: options.positions ?? false,
+    duplicateMeasures: options.duplicateMeasures ?? "warn",
+    autoNumber: options.autoNumber ?? false,
+    includeStack: options.file ? [options.file] : [],
+    resolveInclude: options.resolveInclude,
+    report(error) {
+      diagnostics.push(toDiagnostic(error));
+    },
+  });
+  return { document, diagnostics };
 }
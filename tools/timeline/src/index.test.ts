@@ -0,0 +1,173 @@
+import { parseOpenTab } from "@opentab/parser";
+import { describe, expect, it } from "vitest";
+
+import { buildTimeline, durationToTicks } from "./index.js";
+
+const parse = (body: string[], header: string[] = []) =>
+  parseOpenTab(
+    [
+      "format=\"opentab\"",
+      "version=\"0.2\"",
+      ...header,
+      "",
+      "[[tracks]]",
+      "id=\"gtr1\"",
+      "",
+      "[[tracks]]",
+      "id=\"bass\"",
+      "instrument=\"bass\"",
+      "---",
+      ...body,
+    ].join("\n")
+  );
+
+const timesOf = (timeline: ReturnType<typeof buildTimeline>) =>
+  timeline.events.map(
+    ({ tick, duration, track, voice, measure, beat }) =>
+      `${track}/${voice} m${measure} beat ${beat}: ${tick}+${duration}`
+  );
+
+describe("durationToTicks", () => {
+  it("handles dots and tuplets", () => {
+    expect(durationToTicks({ base: "q" })).toBe(480);
+    expect(durationToTicks({ base: "q", dots: 2 })).toBe(840);
+    expect(durationToTicks({ base: "e", tuplet: 3 })).toBe(160);
+    expect(durationToTicks({ base: "e", tuplet: 7 })).toBe(69);
+    expect(durationToTicks({ base: "w" }, 96)).toBe(384);
+  });
+});
+
+describe("buildTimeline", () => {
+  it("aligns voices and tracks on one clock", () => {
+    const document = parse([
+      "@track gtr1",
+      "m1: | e/7 (1:0) (1:1) (1:2) (1:3) (1:4) (1:5) (1:6) h. r q (1:0) |",
+      "@track gtr1 voice v2",
+      "m1: | q (6:0) g(6:2) h. (6:3) |",
+      "@track bass",
+      "m1: | w (4:0) |",
+      "m2: | h (4:3) |",
+    ]);
+
+    const timeline = buildTimeline(document);
+
+    expect(timeline.measures.map(({ tick, length }) => [tick, length])).toEqual(
+      [
+        [0, 2400],
+        [2400, 1920],
+      ]
+    );
+    expect(timeline.length).toBe(4320);
+    const sevenths = timeline.events.filter(
+      (timed) => timed.track === "gtr1" && timed.voice === "v1"
+    );
+    expect(sevenths.slice(0, 8).map((timed) => timed.tick)).toEqual([
+      0, 69, 137, 206, 274, 343, 411, 480,
+    ]);
+    expect(sevenths[7]).toMatchObject({ duration: 1440, beat: 1 });
+    expect(timesOf(timeline).slice(0, 4)).toEqual([
+      "gtr1/v1 m1 beat 0: 0+69",
+      "gtr1/v2 m1 beat 0: 0+480",
+      "bass/v1 m1 beat 0: 0+1920",
+      "gtr1/v1 m1 beat 0.14375: 69+68",
+    ]);
+    expect(
+      timesOf(timeline).filter((entry) => entry.startsWith("gtr1/v2"))
+    ).toEqual([
+      "gtr1/v2 m1 beat 0: 0+480",
+      "gtr1/v2 m1 beat 1: 480+0",
+      "gtr1/v2 m1 beat 1: 480+1440",
+    ]);
+  });
+
+  it("unrolls repeats unless asked for written order", () => {
+    const document = parse(
+      [
+        "@track gtr1",
+        "m1: | q. (6:0) (6:0) |",
+        "m2: |: q. (5:0) e (5:2) q (5:3) :|",
+      ],
+      ["time_signature=\"6/8\""]
+    );
+
+    const played = buildTimeline(document);
+    expect(played.measures.map(({ position, tick }) => [position, tick]))
+      .toEqual([
+        [0, 0],
+        [1, 1440],
+        [1, 2880],
+      ]);
+    expect(
+      played.events
+        .filter((timed) => timed.bar === 2)
+        .map(({ tick, beat, index }) => [tick, beat, index])
+    ).toEqual([
+      [2880, 0, 0],
+      [3600, 3, 1],
+      [3840, 4, 2],
+    ]);
+
+    const written = buildTimeline(document, { ppq: 96, order: "written" });
+    expect(written.measures.map(({ tick, length }) => [tick, length])).toEqual(
+      [
+        [0, 288],
+        [288, 288],
+      ]
+    );
+    expect(written.events).toHaveLength(5);
+  });
+
+  it("keeps each measure's time signature when a jump plays it again", () => {
+    const document = parse([
+      "@track gtr1",
+      "m1: | w (6:0) |",
+      "@time 3/4",
+      "@tempo 90",
+      "@dc",
+      "m2: | h. (6:3) |",
+    ]);
+
+    const timeline = buildTimeline(document);
+
+    expect(
+      timeline.measures.map(({ position, tick, length, tempoBpm }) => [
+        position,
+        tick,
+        length,
+        tempoBpm,
+      ])
+    ).toEqual([
+      [0, 0, 1920, 120],
+      [1, 1920, 1440, 90],
+      [0, 3360, 1920, 120],
+      [1, 5280, 1440, 90],
+    ]);
+    expect(timeline.measures[2].timeSignature).toEqual({
+      numerator: 4,
+      denominator: 4,
+    });
+  });
+
+  it("fills a measure of any meter with a whole rest", () => {
+    const document = parse(
+      ["@track gtr1", "m1: | w r |", "m2-m3: | w r |", "m4: | h. (6:0) |"],
+      ["time_signature=\"3/4\""]
+    );
+
+    const timeline = buildTimeline(document);
+
+    expect(timeline.measures.map(({ tick, length }) => [tick, length]))
+      .toEqual([
+        [0, 1440],
+        [1440, 1440],
+        [2880, 1440],
+        [4320, 1440],
+      ]);
+    expect(timesOf(timeline)).toEqual([
+      "gtr1/v1 m1 beat 0: 0+1440",
+      "gtr1/v1 m2 beat 0: 1440+1440",
+      "gtr1/v1 m3 beat 0: 2880+1440",
+      "gtr1/v1 m4 beat 0: 4320+1440",
+    ]);
+  });
+});
@@ -0,0 +1,345 @@
+import type {
+  Duration,
+  Event,
+  KeySignature,
+  Measure,
+  OpenTabDocument,
+  TimeSignature,
+} from "@opentab/ast";
+
+export const packageName = "@opentab/timeline";
+
+/** Ticks per quarter note unless a timeline asks for another resolution. */
+export const PPQ = 480;
+
+const DEFAULT_TEMPO_BPM = 120;
+const DEFAULT_TIME_SIGNATURE: TimeSignature = { numerator: 4, denominator: 4 };
+const DEFAULT_REPEAT_TIMES = 2;
+const MAX_PLAYBACK_PASSES = 64;
+
+export interface TimelineOptions {
+  /** Ticks per quarter note. Defaults to 480. */
+  ppq?: number;
+  /**
+   * "playback" (the default) unrolls repeats, endings and jumps, listing a
+   * measure once per pass. "written" keeps the measures in source order.
+   */
+  order?: "playback" | "written";
+}
+
+export interface TimelineMeasure {
+  measure: Measure;
+  /** Position in `document.measures`. */
+  position: number;
+  tick: number;
+  /** At least a full measure of the time signature, or the longest voice. */
+  length: number;
+  timeSignature: TimeSignature;
+  tempoBpm: number;
+  key?: KeySignature;
+}
+
+export interface TimedEvent {
+  event: Event;
+  tick: number;
+  /** Ticks until the next event of the voice; 0 for grace notes. */
+  duration: number;
+  track: string;
+  voice: string;
+  /** Position of the event in its voice within the measure. */
+  index: number;
+  /** Position in `Timeline.measures`, which lists a measure once per pass. */
+  bar: number;
+  /** The measure number, as in `mN:`. */
+  measure: number;
+  /** Beats from the start of the measure, in the time signature's beat unit. */
+  beat: number;
+}
+
+export interface Timeline {
+  ppq: number;
+  measures: TimelineMeasure[];
+  /** Every event of every track and voice, sorted by tick. */
+  events: TimedEvent[];
+  /** Total length in ticks. */
+  length: number;
+}
+
+const BASE_QUARTERS: Record<Duration["base"], number> = {
+  w: 4,
+  h: 2,
+  q: 1,
+  e: 1 / 2,
+  s: 1 / 4,
+  t: 1 / 8,
+};
+
+/** Unrounded length: each dot adds half the previous value, `/n` fits n in two. */
+function exactTicks(duration: Duration, ppq: number): number {
+  const dots = duration.dots ?? 0;
+  const ticks = ppq * BASE_QUARTERS[duration.base] * (2 - 0.5 ** dots);
+  return duration.tuplet ? (ticks * 2) / duration.tuplet : ticks;
+}
+
+export function durationToTicks(duration: Duration, ppq = PPQ): number {
+  return Math.max(1, Math.round(exactTicks(duration, ppq)));
+}
+
+/** Grace notes take no time in the measure. */
+const isGrace = (event: Event): boolean =>
+  event.type !== "rest" && Boolean(event.grace);
+
+/** A whole rest on its own fills the measure in any meter. */
+export function isWholeMeasureRest(events: Event[]): boolean {
+  return (
+    events.length === 1 &&
+    events[0].type === "rest" &&
+    events[0].duration.base === "w" &&
+    !events[0].duration.dots &&
+    !events[0].duration.tuplet
+  );
+}
+
+export function measureTicks(timeSignature: TimeSignature, ppq = PPQ): number {
+  return Math.max(
+    1,
+    Math.round((ppq * 4 * timeSignature.numerator) / timeSignature.denominator)
+  );
+}
+
+function findRepeatTimes(measures: Measure[], from: number): number {
+  for (let position = from; position < measures.length; position += 1) {
+    if (measures[position].repeat_end) {
+      return measures[position].repeat_times ?? DEFAULT_REPEAT_TIMES;
+    }
+  }
+  return DEFAULT_REPEAT_TIMES;
+}
+
+function findMarker(
+  measures: Measure[],
+  marker: "segno" | "coda",
+  from = 0
+): number {
+  return measures.findIndex(
+    (measure, position) =>
+      position >= from && (measure.markers ?? []).includes(marker)
+  );
+}
+
+/**
+ * Unrolls repeats, alternate endings and D.C./D.S. jumps into the order in
+ * which measures are played. Returns positions into `document.measures`.
+ */
+export function getPlaybackOrder(document: OpenTabDocument): number[] {
+  const measures = document.measures;
+  const order: number[] = [];
+  const takenJumps = new Set<number>();
+  const limit = Math.max(1, measures.length) * MAX_PLAYBACK_PASSES;
+
+  let position = 0;
+  let sectionStart = 0;
+  let sectionTimes = findRepeatTimes(measures, 0);
+  let pass = 1;
+  let leftSection = false;
+  let jumpUntil: "fine" | "coda" | null = null;
+
+  const startSection = (start: number) => {
+    sectionStart = start;
+    sectionTimes = findRepeatTimes(measures, start);
+    pass = 1;
+    leftSection = false;
+  };
+
+  while (position < measures.length && order.length < limit) {
+    const measure = measures[position];
+    if (
+      (measure.repeat_start && position !== sectionStart) ||
+      (leftSection && !measure.ending)
+    ) {
+      startSection(position);
+    }
+
+    if (measure.ending) {
+      const currentPass = jumpUntil !== null ? sectionTimes : pass;
+      if (!measure.ending.includes(currentPass)) {
+        position += 1;
+        continue;
+      }
+    }
+
+    order.push(position);
+    const markers = measure.markers ?? [];
+
+    if (measure.repeat_end) {
+      const times = measure.repeat_times ?? DEFAULT_REPEAT_TIMES;
+      if (jumpUntil === null && pass < times) {
+        pass += 1;
+        position = sectionStart;
+        continue;
+      }
+      leftSection = true;
+    }
+
+    if (jumpUntil === "fine" && markers.includes("fine")) {
+      break;
+    }
+
+    if (jumpUntil === "coda" && markers.includes("to_coda")) {
+      const coda = findMarker(measures, "coda", position + 1);
+      if (coda === -1) {
+        break;
+      }
+      position = coda;
+      startSection(coda);
+      continue;
+    }
+
+    if (measure.jump && !takenJumps.has(position)) {
+      takenJumps.add(position);
+      const target =
+        measure.jump.to === "segno" ? findMarker(measures, "segno") : 0;
+      jumpUntil = measure.jump.until ?? "fine";
+      position = Math.max(0, target);
+      startSection(position);
+      continue;
+    }
+
+    position += 1;
+  }
+
+  return order;
+}
+
+interface VoiceTiming {
+  track: string;
+  voice: string;
+  /** Offsets from the measure start, with the voice's total length. */
+  offsets: Array<{ start: number; end: number }>;
+  length: number;
+}
+
+/**
+ * Offsets are rounded from the exact running position rather than summed
+ * from rounded lengths, so tuplets such as `e/7` do not drift and voices of
+ * the same length end on the same tick. A whole-measure rest lasts exactly
+ * `fill`, the measure's length in its time signature.
+ */
+function timeVoice(
+  track: string,
+  voice: string,
+  events: Event[],
+  ppq: number,
+  fill: number
+): VoiceTiming {
+  if (isWholeMeasureRest(events)) {
+    return { track, voice, offsets: [{ start: 0, end: fill }], length: fill };
+  }
+  let cursor = 0;
+  const offsets = events.map((event) => {
+    const start = Math.round(cursor);
+    if (!isGrace(event)) {
+      cursor += exactTicks(event.duration, ppq);
+    }
+    const end = isGrace(event) ? start : Math.max(start + 1, Math.round(cursor));
+    return { start, end };
+  });
+  return { track, voice, offsets, length: Math.round(cursor) };
+}
+
+interface MeasureSettings {
+  timeSignature: TimeSignature;
+  tempoBpm: number;
+  key?: KeySignature;
+}
+
+/**
+ * The time signature, tempo and key in effect at each measure as written, so
+ * a measure played again after a repeat or jump keeps its own.
+ */
+function writtenSettings(document: OpenTabDocument): MeasureSettings[] {
+  let settings: MeasureSettings = {
+    timeSignature: document.header.time_signature ?? DEFAULT_TIME_SIGNATURE,
+    tempoBpm: document.header.tempo_bpm ?? DEFAULT_TEMPO_BPM,
+    key: document.header.key,
+  };
+  return document.measures.map((measure) => {
+    settings = {
+      timeSignature: measure.time_signature ?? settings.timeSignature,
+      tempoBpm: measure.tempo_bpm ?? settings.tempoBpm,
+      key: measure.key ?? settings.key,
+    };
+    return settings;
+  });
+}
+
+/**
+ * Lays every event of the document on one clock. Each measure starts where
+ * the previous one ends and lasts a full measure of its time signature, or
+ * as long as its longest voice across all tracks; every voice starts on the
+ * measure's first tick.
+ */
+export function buildTimeline(
+  document: OpenTabDocument,
+  options: TimelineOptions = {}
+): Timeline {
+  const ppq = options.ppq ?? PPQ;
+  const order =
+    options.order === "written"
+      ? document.measures.map((_, position) => position)
+      : getPlaybackOrder(document);
+
+  const measures: TimelineMeasure[] = [];
+  const events: TimedEvent[] = [];
+  const settings = writtenSettings(document);
+  let tick = 0;
+
+  order.forEach((position, bar) => {
+    const measure = document.measures[position];
+    const { timeSignature, tempoBpm, key } = settings[position];
+    const fill = measureTicks(timeSignature, ppq);
+
+    const voices = Object.entries(measure.tracks).flatMap(
+      ([track, trackMeasure]) =>
+        Object.entries(trackMeasure.voices).map(([voice, voiceEvents]) =>
+          timeVoice(track, voice, voiceEvents, ppq, fill)
+        )
+    );
+    const length = Math.max(
+      fill,
+      ...voices.map((voice) => voice.length)
+    );
+    const beatTicks = (ppq * 4) / timeSignature.denominator;
+
+    for (const { track, voice, offsets } of voices) {
+      const voiceEvents = measure.tracks[track].voices[voice];
+      offsets.forEach(({ start, end }, index) => {
+        events.push({
+          event: voiceEvents[index],
+          tick: tick + start,
+          duration: end - start,
+          track,
+          voice,
+          index,
+          bar,
+          measure: measure.index,
+          beat: start / beatTicks,
+        });
+      });
+    }
+    measures.push({
+      measure,
+      position,
+      tick,
+      length,
+      timeSignature,
+      tempoBpm,
+      key,
+    });
+    tick += length;
+  });
+
+  // The sort is stable, so grace notes stay ahead of the note they lead into.
+  events.sort((a, b) => a.tick - b.tick);
+  return { ppq, measures, events, length: tick };
+}
@@ -0,0 +1,311 @@
+import { parseOpenTab } from "@opentab/parser";
+import { describe, expect, it } from "vitest";
+
+import {
+  applyCapo,
+  OpenTabTransformError,
+  refinger,
+  removeCapo,
+  retune,
+  solveFingering,
+  transpose,
+} from "./index.js";
+
+const parse = (body: string[], header: string[] = [], track: string[] = []) =>
+  parseOpenTab(
+    [
+      "format=\"opentab\"",
+      "version=\"0.2\"",
+      ...header,
+      "",
+      "[[tracks]]",
+      "id=\"gtr1\"",
+      ...track,
+      "---",
+      "@track gtr1",
+      ...body,
+    ].join("\n")
+  );
+
+const notesOf = (document: ReturnType<typeof parse>, measure = 0) =>
+  document.measures[measure].tracks.gtr1.voices.v1.flatMap((event) =>
+    event.type === "note"
+      ? [`${event.note.string}:${event.note.fret}`]
+      : event.type === "chord"
+        ? [event.chord.map((note) => `${note.string}:${note.fret}`).join(" ")]
+        : []
+  );
+
+describe("transpose", () => {
+  it("moves notes, key signatures and chord definitions", () => {
+    const document = parse(
+      [
+        "m1: | q (6:3) (5:2h4) [G] [Am] |",
+        "@key Bb",
+        "m2: | w (1:0) |",
+      ],
+      [
+        "key=\"G\"",
+        "",
+        "[[chords]]",
+        "name=\"G\"",
+        "frets=[3, 2, 0, 0, 0, 3]",
+        "",
+        "[[chords]]",
+        "name=\"Am\"",
+        "frets=[\"x\", 0, 2, 2, 1, 0]",
+      ]
+    );
+
+    const { document: result, issues } = transpose(document, 2);
+
+    expect(issues).toEqual([]);
+    expect(notesOf(result)).toEqual([
+      "6:5",
+      "5:4",
+      "6:5 5:4 4:2 3:2 2:2 1:5",
+      "5:2 4:4 3:4 2:3 1:2",
+    ]);
+    expect(result.measures[0].tracks.gtr1.voices.v1[1]).toMatchObject({
+      note: { inlineTechniques: [{ type: "hammer_on", toFret: 6 }] },
+    });
+    expect(result.header.key).toEqual({ fifths: 3, mode: "major" });
+    expect(result.measures[1].key).toEqual({ fifths: 0, mode: "major" });
+    expect(result.chords?.map((chord) => chord.name)).toEqual(["A", "Bm"]);
+    expect(notesOf(document)[0]).toBe("6:3");
+  });
+
+  it("spells chord names in flats for flat keys", () => {
+    const document = parse(
+      ["m1: | w [C/E] |"],
+      ["key=\"F\"", "", "[[chords]]", "name=\"C/E\"", "frets=[0, 3, 2, 0, 1, 0]"]
+    );
+
+    const { document: result } = transpose(document, 1);
+
+    expect(result.header.key?.fifths).toBe(-6);
+    expect(result.chords?.[0]).toMatchObject({
+      name: "Db/F",
+      frets: [1, 4, 3, 1, 2, 1],
+    });
+    expect(result.measures[0].tracks.gtr1.voices.v1[0]).toMatchObject({
+      name: "Db/F",
+    });
+  });
+
+  it("drops a barre that moves onto the nut", () => {
+    const document = parse(
+      ["m1: | w [F] |"],
+      [
+        "",
+        "[[chords]]",
+        "name=\"F\"",
+        "frets=[1, 3, 3, 2, 1, 1]",
+        "barre={ fret=1, from=6, to=1 }",
+      ]
+    );
+
+    const [chord] = transpose(document, -1).document.chords ?? [];
+
+    expect(chord).toEqual({ name: "E", frets: [0, 2, 2, 1, 0, 0] });
+    expect(transpose(document, 2).document.chords?.[0].barre).toEqual({
+      fret: 3,
+      from: 6,
+      to: 1,
+    });
+  });
+
+  it("spells a slash bass from the transposed root", () => {
+    const document = parse(
+      ["m1: | w [Bb/D] |"],
+      [
+        "key=\"F\"",
+        "",
+        "[[chords]]",
+        "name=\"Bb/D\"",
+        "frets=[\"x\", 5, 3, 3, 3, \"x\"]",
+      ]
+    );
+
+    const { document: result } = transpose(document, -1);
+
+    expect(result.header.key?.fifths).toBe(4);
+    expect(result.chords?.[0]).toMatchObject({
+      name: "A/C#",
+      frets: ["x", 4, 2, 2, 2, "x"],
+    });
+  });
+
+  it("reports notes that fall off the fretboard and leaves them as written", () => {
+    const document = parse(["m1: | h (6:1) (5:0) |"]);
+
+    const { document: result, issues } = transpose(document, -2);
+
+    expect(notesOf(result)).toEqual(["6:1", "6:3"]);
+    expect(issues).toEqual([
+      {
+        code: "unplayable-note",
+        message:
+          "Note 6:1 in measure 1 of track gtr1 voice v1 does not fit the " +
+          "fretboard after transposing by -2; it is left as written",
+        measure: 1,
+        track: "gtr1",
+        voice: "v1",
+      },
+    ]);
+    expect(notesOf(transpose(document, -1).document)).toEqual(["6:0", "6:4"]);
+  });
+
+  it("leaves dead notes in place whatever their techniques", () => {
+    const document = parse(["m1: | w [ (6:x) (5:2) ] |"]);
+    const [chord] = document.measures[0].tracks.gtr1.voices.v1;
+    if (chord.type === "chord") {
+      chord.chord[0].inlineTechniques = [
+        { type: "palm_mute" },
+        ...(chord.chord[0].inlineTechniques ?? []),
+      ];
+    }
+
+    const { document: result, issues } = transpose(document, -1);
+
+    expect(issues).toEqual([]);
+    expect(notesOf(result)).toEqual(["6:0 5:1"]);
+  });
+
+  it("moves chords to shapes within a hand's stretch", () => {
+    const document = parse([
+      "m1: | h [ (4:0) (3:2) (2:3) (1:0) ] [ (4:2_) (3:0) ] |",
+      "m2: | w (4:2) |",
+    ]);
+
+    const { document: result, issues } = transpose(document, -1);
+
+    expect(notesOf(result)).toEqual(["5:4 4:6 3:6 2:4", "4:2 3:0"]);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "Chord 4:2 3:0 in measure 1 of track gtr1 voice v1 is wider than a " +
+        "4-fret stretch after transposing by -1; it is left as written",
+    ]);
+  });
+});
+
+describe("retune", () => {
+  it("keeps pitches and moves notes the new tuning cannot reach", () => {
+    const document = parse(["m1: | q (6:0) (1:0) (1:0_) (1:0) |"]);
+
+    const { document: result, issues } = retune(document, "gtr1", [
+      "D2", "A2", "D3", "G3", "B3", "F4",
+    ]);
+
+    expect(result.tracks[0].tuning).toEqual([
+      "D2", "A2", "D3", "G3", "B3", "F4",
+    ]);
+    expect(notesOf(result)).toEqual(["6:2", "2:5", "1:0", "1:0"]);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "Note 1:0 in measure 1 of track gtr1 voice v1 does not fit the " +
+        "fretboard in tuning D2 A2 D3 G3 B3 F4; it is left as written",
+      "Note 1:0 in measure 1 of track gtr1 voice v1 does not fit the " +
+        "fretboard in tuning D2 A2 D3 G3 B3 F4; it is left as written",
+    ]);
+  });
+
+  it("rejects unknown tracks and tunings", () => {
+    const document = parse(["m1: | w (6:0) |"]);
+
+    expect(() => retune(document, "bass", ["E1"])).toThrow(
+      OpenTabTransformError
+    );
+    expect(() => retune(document, "gtr1", ["E2", "H2"])).toThrow(
+      "Invalid tuning: H2"
+    );
+  });
+});
+
+describe("applyCapo", () => {
+  it("frets notes from the capo and drops chord names that no longer match", () => {
+    const document = parse(
+      ["m1: | h (3:2) [D] |"],
+      ["", "[[chords]]", "name=\"D\"", "frets=[\"x\", \"x\", 0, 2, 3, 2]"]
+    );
+
+    const capoed = applyCapo(document, "gtr1", 2);
+
+    expect(capoed.issues).toEqual([]);
+    expect(capoed.document.tracks[0].capo).toBe(2);
+    expect(notesOf(capoed.document)).toEqual(["3:0", "5:3 3:0 2:1 1:0"]);
+    expect(capoed.document.measures[0].tracks.gtr1.voices.v1[1]).not.toHaveProperty(
+      "name"
+    );
+
+    const restored = removeCapo(capoed.document, "gtr1");
+    expect(restored.document.tracks[0]).not.toHaveProperty("capo");
+    expect(notesOf(restored.document)).toEqual(["3:2", "5:5 3:2 2:3 1:2"]);
+  });
+});
+
+describe("solveFingering", () => {
+  it("keeps chords within the stretch and the position limits", () => {
+    expect(solveFingering([[40, 47, 52], [45, 52, 57], [30]], {})).toEqual([
+      [
+        { string: 6, fret: 0 },
+        { string: 5, fret: 2 },
+        { string: 4, fret: 2 },
+      ],
+      [
+        { string: 5, fret: 0 },
+        { string: 4, fret: 2 },
+        { string: 3, fret: 2 },
+      ],
+      null,
+    ]);
+    expect(solveFingering([[45, 52, 57]], {}, { minFret: 5 })).toEqual([
+      [
+        { string: 6, fret: 5 },
+        { string: 5, fret: 7 },
+        { string: 4, fret: 7 },
+      ],
+    ]);
+  });
+
+  it("counts frets from the capo", () => {
+    expect(solveFingering([[42], [47]], { capo: 2 })).toEqual([
+      [{ string: 6, fret: 0 }],
+      [{ string: 5, fret: 0 }],
+    ]);
+    expect(() => solveFingering([[40]], {}, { minFret: 7, maxFret: 5 }))
+      .toThrow("Invalid position limits: frets 7-5, stretch 4");
+  });
+});
+
+describe("refinger", () => {
+  it("moves notes to the lowest position with the least hand travel", () => {
+    const document = parse([
+      "m1: | q (2:5) (3:9_) (3:9) (2:8/10) |",
+      "m2: | h [ (4:14) (3:14) ] (5:x) (6:3) |",
+    ]);
+
+    const { document: result, issues } = refinger(document, "gtr1");
+
+    expect(issues).toEqual([]);
+    expect(notesOf(result)).toEqual(["1:0", "1:0", "1:0", "1:3"]);
+    expect(result.measures[0].tracks.gtr1.voices.v1[3]).toMatchObject({
+      note: { inlineTechniques: [{ type: "slide", toFret: 5 }] },
+    });
+    expect(notesOf(result, 1)).toEqual(["2:5 1:5", "5:0", "6:3"]);
+  });
+
+  it("reports notes outside the position limits", () => {
+    const document = parse(["m1: | h (6:3) (1:0) |"]);
+
+    const { document: result, issues } = refinger(document, "gtr1", {
+      minFret: 5,
+      maxFret: 12,
+    });
+
+    expect(notesOf(result)).toEqual(["6:3", "1:0"]);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "Note 6:3 in measure 1 of track gtr1 voice v1 cannot be fingered " +
+        "within the position limits; it is left as written",
+    ]);
+  });
+});
+
@@ -0,0 +1,872 @@
+import type {
+  ChordDefinition,
+  ChordEvent,
+  Event,
+  KeySignature,
+  NoteRef,
+  OpenTabDocument,
+  SourceSpan,
+  Technique,
+  Track,
+} from "@opentab/ast";
+import {
+  isPlayableFret,
+  parsePitch,
+  resolveInstrument,
+  stringPitch,
+  type ResolvedInstrument,
+} from "@opentab/instruments";
+
+export const packageName = "@opentab/transforms";
+
+export interface TransformIssue {
+  code: "unplayable-note";
+  message: string;
+  measure: number;
+  track: string;
+  voice: string;
+  /** Present when the document was parsed with `positions`. */
+  position?: SourceSpan;
+}
+
+export interface TransformResult {
+  /** A transformed copy; the input document is not changed. */
+  document: OpenTabDocument;
+  /** Notes with no place on the new fretboard, which are left as written. */
+  issues: TransformIssue[];
+}
+
+export class OpenTabTransformError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OpenTabTransformError";
+  }
+}
+
+/** A track's strings as the player frets them, with frets counted from the capo. */
+interface Fretboard {
+  instrument: ResolvedInstrument;
+  capo: number;
+}
+
+interface TrackChange {
+  from: Fretboard;
+  to: Fretboard;
+}
+
+interface Refret {
+  tracks: Map<string, TrackChange>;
+  semitones: number;
+  /** Ends the issue message, as in "after transposing by +2". */
+  reason: string;
+}
+
+const copyDocument = (document: OpenTabDocument): OpenTabDocument =>
+  JSON.parse(JSON.stringify(document)) as OpenTabDocument;
+
+const fretboardOf = (
+  track: Pick<Track, "instrument" | "tuning" | "capo">
+): Fretboard => ({
+  instrument: resolveInstrument(track),
+  capo: track.capo ?? 0,
+});
+
+function soundingPitch(
+  board: Fretboard,
+  string: number,
+  fret: number
+): number | null {
+  const pitch = stringPitch(board.instrument, string, fret);
+  return pitch === null ? null : pitch + board.capo;
+}
+
+const fits = (board: Fretboard, string: number, fret: number): boolean =>
+  Number.isInteger(fret) &&
+  fret >= 0 &&
+  (fret === 0 || isPlayableFret(board.instrument, string, fret + board.capo));
+
+function fretFor(
+  board: Fretboard,
+  string: number,
+  pitch: number
+): number | undefined {
+  for (let fret = 0; fret + board.capo <= board.instrument.frets; fret += 1) {
+    if (fits(board, string, fret) && soundingPitch(board, string, fret) === pitch) {
+      return fret;
+    }
+  }
+  return undefined;
+}
+
+const TECHNIQUE_FRETS = ["fromFret", "toFret", "releaseFret"] as const;
+
+/** Moves the frets a technique names along with its note. */
+function shiftTechnique(technique: Technique, offset: number): Technique {
+  const shifted = { ...technique };
+  for (const field of TECHNIQUE_FRETS) {
+    const fret = technique[field];
+    if (fret !== undefined) {
+      shifted[field] = fret + offset;
+    }
+  }
+  return shifted;
+}
+
+/** Puts each note at its position, moving its techniques' frets with it. */
+function placeNotes(notes: NoteRef[], positions: FretPosition[]): void {
+  notes.forEach((note, index) => {
+    const { string, fret } = positions[index];
+    if (note.inlineTechniques) {
+      note.inlineTechniques = note.inlineTechniques.map((technique) =>
+        shiftTechnique(technique, fret - note.fret)
+      );
+    }
+    note.string = string;
+    note.fret = fret;
+  });
+}
+
+const isDeadNote = (note: NoteRef): boolean =>
+  note.inlineTechniques?.some((technique) => technique.type === "dead_note") ??
+  false;
+
+interface Placement {
+  shape: Shape;
+  /** Notes that change string. */
+  moved: number;
+  /** Strings crossed by all the notes that change string. */
+  distance: number;
+}
+
+/**
+ * Ways to play an event's notes on the new fretboard within `maxStretch`,
+ * those keeping the most notes on their string first, then the nearest and
+ * the easiest. Tied notes never change string, so their ties still join.
+ */
+function placementsFor(
+  entry: FingeredEvent,
+  change: TrackChange,
+  semitones: number,
+  maxStretch: number
+): Placement[] {
+  const event: SolverEvent = {
+    ...entry.solver,
+    notes: entry.solver.notes.map((note) => ({
+      ...note,
+      pitch: note.pitch + semitones,
+    })),
+  };
+  const limits = {
+    minFret: 0,
+    maxFret: change.to.instrument.frets - change.to.capo,
+    maxStretch,
+  };
+  return shapesFor(event, change.to, limits)
+    .filter((shape) =>
+      shape.positions.every(
+        (position, index) =>
+          !entry.notes[index].tie ||
+          position.string === entry.notes[index].string
+      )
+    )
+    .map((shape) => {
+      const distances = shape.positions.map((position, index) =>
+        Math.abs(position.string - entry.notes[index].string)
+      );
+      return {
+        shape,
+        moved: distances.filter((distance) => distance > 0).length,
+        distance: distances.reduce((sum, distance) => sum + distance, 0),
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.moved - b.moved ||
+        a.distance - b.distance ||
+        a.shape.cost - b.shape.cost
+    );
+}
+
+/**
+ * Re-frets every note for the new fretboard, techniques included. A note
+ * keeps its string where it can; otherwise it moves to a string its event
+ * leaves free. A shape may be as wide as the written one or the default
+ * stretch, whichever is wider; an event that cannot be played within that is
+ * left as written. Notes without a pitch, such as dead notes, stay put.
+ */
+function refret(document: OpenTabDocument, change: Refret): TransformIssue[] {
+  const issues: TransformIssue[] = [];
+  for (const measure of document.measures) {
+    for (const [trackId, trackMeasure] of Object.entries(measure.tracks)) {
+      const trackChange = change.tracks.get(trackId);
+      if (!trackChange) {
+        continue;
+      }
+      for (const [voice, events] of Object.entries(trackMeasure.voices)) {
+        for (const event of events) {
+          const entry = fingeredEvent(measure.index, event, trackChange.from);
+          if (!entry || entry.notes.length === 0) {
+            continue;
+          }
+          const fretted = entry.notes
+            .map((note) => note.fret)
+            .filter((fret) => fret > 0);
+          const maxStretch = Math.max(
+            DEFAULT_MAX_STRETCH,
+            fretted.length > 0 ? Math.max(...fretted) - Math.min(...fretted) : 0
+          );
+          const [placement] = placementsFor(
+            entry,
+            trackChange,
+            change.semitones,
+            maxStretch
+          );
+          if (placement) {
+            placeNotes(entry.notes, placement.shape.positions);
+            continue;
+          }
+          const reachable =
+            placementsFor(entry, trackChange, change.semitones, Infinity)
+              .length > 0;
+          issues.push({
+            code: "unplayable-note",
+            message:
+              `${describeNotes(entry.notes)} in measure ${measure.index} of ` +
+              `track ${trackId} voice ${voice} ` +
+              (reachable
+                ? `is wider than a ${maxStretch}-fret stretch`
+                : "does not fit the fretboard") +
+              ` ${change.reason}; it is left as written`,
+            measure: measure.index,
+            track: trackId,
+            voice,
+            position: entry.notes[0].position ?? event.position,
+          });
+        }
+      }
+    }
+  }
+  return issues;
+}
+
+/** The notes `[Name]` expands to, as the parser reads a chord definition. */
+const chordShape = (definition: ChordDefinition): string =>
+  definition.frets
+    .flatMap((fret, index) =>
+      fret === "x" ? [] : [`${definition.frets.length - index}:${fret}`]
+    )
+    .join(" ");
+
+const eventShape = (event: ChordEvent): string =>
+  [...event.chord]
+    .sort((a, b) => b.string - a.string)
+    .map((note) => `${note.string}:${note.fret}`)
+    .join(" ");
+
+/** Drops chord names whose definition no longer matches the notes. */
+function unlinkChangedChords(document: OpenTabDocument): void {
+  const definitions = new Map(
+    (document.chords ?? []).map((definition) => [definition.name, definition])
+  );
+  for (const measure of document.measures) {
+    for (const trackMeasure of Object.values(measure.tracks)) {
+      for (const events of Object.values(trackMeasure.voices)) {
+        for (const event of events) {
+          if (event.type !== "chord" || event.name === undefined) {
+            continue;
+          }
+          const definition = definitions.get(event.name);
+          if (!definition || chordShape(definition) !== eventShape(event)) {
+            delete event.name;
+          }
+        }
+      }
+    }
+  }
+}
+
+function findTrack(document: OpenTabDocument, trackId: string): Track {
+  const track = document.tracks.find((candidate) => candidate.id === trackId);
+  if (!track) {
+    throw new OpenTabTransformError(`Unknown track: ${trackId}`);
+  }
+  if (track.kind === "percussion") {
+    throw new OpenTabTransformError(
+      `Track ${trackId} is a percussion track and has no frets`
+    );
+  }
+  return track;
+}
+
+/** Picks the spelling nearest the old key, so F major goes to Gb, not F#. */
+function transposeKey(key: KeySignature, semitones: number): KeySignature {
+  const sharps = (((key.fifths + 7 * semitones) % 12) + 12) % 12;
+  const fifths = [sharps, sharps - 12]
+    .filter((candidate) => Math.abs(candidate) <= 7)
+    .sort(
+      (a, b) =>
+        Math.abs(a - key.fifths) - Math.abs(b - key.fifths) ||
+        Math.abs(a) - Math.abs(b)
+    )[0];
+  return { ...key, fifths };
+}
+
+const NOTE_STEPS: Record<string, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+const SHARP_NAMES = [
+  "C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B",
+];
+const FLAT_NAMES = [
+  "C", "Db", "D", "Eb", "E", "F", "Gb", "G", "Ab", "A", "Bb", "B",
+];
+
+const LETTERS = ["C", "D", "E", "F", "G", "A", "B"];
+
+const wrapStep = (step: number): number => ((step % 12) + 12) % 12;
+
+const stepOf = (letter: string, accidental: string): number =>
+  NOTE_STEPS[letter] + (accidental === "#" ? 1 : accidental === "b" ? -1 : 0);
+
+/**
+ * Transposes the root and any slash bass of a chord name like `Bb/D`. The
+ * bass keeps its letter distance from the root, so Bb/D down a semitone is
+ * A/C#, not A/Db, unless that would take a double sharp or flat.
+ */
+function transposeChordName(
+  name: string,
+  semitones: number,
+  flats: boolean
+): string {
+  const match = /^([A-G])([#b]?)(.*?)(?:\/([A-G])([#b]?))?$/.exec(name);
+  if (!match) {
+    return name;
+  }
+  const [, letter, accidental, quality, bassLetter, bassAccidental] = match;
+  const names = flats ? FLAT_NAMES : SHARP_NAMES;
+  const root = names[wrapStep(stepOf(letter, accidental) + semitones)];
+  if (bassLetter === undefined) {
+    return `${root}${quality}`;
+  }
+  const bassStep = wrapStep(stepOf(bassLetter, bassAccidental) + semitones);
+  const letterShift = LETTERS.indexOf(root[0]) - LETTERS.indexOf(letter);
+  const spelled = LETTERS[(LETTERS.indexOf(bassLetter) + letterShift + 7) % 7];
+  const offset = wrapStep(bassStep - NOTE_STEPS[spelled] + 6) - 6;
+  const bass =
+    offset === 0
+      ? spelled
+      : Math.abs(offset) === 1
+        ? `${spelled}${offset > 0 ? "#" : "b"}`
+        : names[bassStep];
+  return `${root}${quality}/${bass}`;
+}
+
+/**
+ * Moves chord definitions up or down the neck and renames them. A definition
+ * that would run below the nut, or whose new name is taken, keeps its shape,
+ * and the chords using it are written out note by note.
+ */
+function transposeChords(
+  document: OpenTabDocument,
+  semitones: number,
+  flats: boolean
+): void {
+  if (!document.chords) {
+    return;
+  }
+  const renamed = new Map<string, string>();
+  const chords: ChordDefinition[] = [];
+  for (const definition of document.chords) {
+    const frets = definition.frets.map((fret) =>
+      fret === "x" ? fret : fret + semitones
+    );
+    const name = transposeChordName(definition.name, semitones, flats);
+    const taken = chords.some((chord) => chord.name === name);
+    if (frets.some((fret) => fret !== "x" && fret < 0) || taken) {
+      chords.push(definition);
+      continue;
+    }
+    const transposed: ChordDefinition = { ...definition, name, frets };
+    if (definition.barre) {
+      // A barre moved onto the nut is the open strings, so it is dropped.
+      const fret = definition.barre.fret + semitones;
+      if (fret > 0) {
+        transposed.barre = { ...definition.barre, fret };
+      } else {
+        delete transposed.barre;
+      }
+    }
+    chords.push(transposed);
+    renamed.set(definition.name, name);
+  }
+  document.chords = chords;
+
+  for (const measure of document.measures) {
+    for (const trackMeasure of Object.values(measure.tracks)) {
+      for (const events of Object.values(trackMeasure.voices)) {
+        for (const event of events) {
+          if (event.type === "chord" && event.name !== undefined) {
+            event.name = renamed.get(event.name) ?? event.name;
+          }
+        }
+      }
+    }
+  }
+}
+
+const formatSemitones = (semitones: number): string =>
+  semitones > 0 ? `+${semitones}` : String(semitones);
+
+/**
+ * Moves every note of every fretted track by `semitones`, along with the key
+ * signatures and chord definitions. Percussion tracks are left alone.
+ */
+export function transpose(
+  document: OpenTabDocument,
+  semitones: number
+): TransformResult {
+  if (!Number.isInteger(semitones)) {
+    throw new OpenTabTransformError(
+      `Transpose by a whole number of semitones, not ${semitones}`
+    );
+  }
+  const result = copyDocument(document);
+  if (result.header.key) {
+    result.header.key = transposeKey(result.header.key, semitones);
+  }
+  for (const measure of result.measures) {
+    if (measure.key) {
+      measure.key = transposeKey(measure.key, semitones);
+    }
+  }
+  const flats = result.header.key
+    ? result.header.key.fifths < 0
+    : semitones < 0;
+  transposeChords(result, semitones, flats);
+
+  const tracks = new Map<string, TrackChange>();
+  for (const track of result.tracks) {
+    if (track.kind !== "percussion") {
+      const board = fretboardOf(track);
+      tracks.set(track.id, { from: board, to: board });
+    }
+  }
+  const issues = refret(result, {
+    tracks,
+    semitones,
+    reason: `after transposing by ${formatSemitones(semitones)}`,
+  });
+  unlinkChangedChords(result);
+  return { document: result, issues };
+}
+
+/**
+ * Sets a track's tuning and re-frets its notes so they sound the same,
+ * moving a note to another string when its own cannot reach the pitch.
+ */
+export function retune(
+  document: OpenTabDocument,
+  trackId: string,
+  tuning: string[]
+): TransformResult {
+  const invalid = tuning.find((note) => parsePitch(note) === null);
+  if (tuning.length === 0 || invalid !== undefined) {
+    throw new OpenTabTransformError(
+      `Invalid tuning: ${invalid ?? "no strings given"}`
+    );
+  }
+  const result = copyDocument(document);
+  const track = findTrack(result, trackId);
+  const from = fretboardOf(track);
+  track.tuning = [...tuning];
+  const issues = refret(result, {
+    tracks: new Map([[trackId, { from, to: fretboardOf(track) }]]),
+    semitones: 0,
+    reason: `in tuning ${tuning.join(" ")}`,
+  });
+  unlinkChangedChords(result);
+  return { document: result, issues };
+}
+
+/**
+ * Puts a capo on a track, or moves it, and re-frets the notes relative to it
+ * so they sound the same. A capo of 0 removes it.
+ */
+export function applyCapo(
+  document: OpenTabDocument,
+  trackId: string,
+  capo: number
+): TransformResult {
+  if (!Number.isInteger(capo) || capo < 0) {
+    throw new OpenTabTransformError(`Invalid capo fret: ${capo}`);
+  }
+  const result = copyDocument(document);
+  const track = findTrack(result, trackId);
+  const from = fretboardOf(track);
+  if (capo === 0) {
+    delete track.capo;
+  } else {
+    track.capo = capo;
+  }
+  const issues = refret(result, {
+    tracks: new Map([[trackId, { from, to: fretboardOf(track) }]]),
+    semitones: 0,
+    reason: capo === 0 ? "without a capo" : `with a capo on fret ${capo}`,
+  });
+  unlinkChangedChords(result);
+  return { document: result, issues };
+}
+
+/** Takes the capo off a track, keeping every note's pitch. */
+export function removeCapo(
+  document: OpenTabDocument,
+  trackId: string
+): TransformResult {
+  return applyCapo(document, trackId, 0);
+}
+
+export interface FingeringOptions {
+  /** Lowest fret a fretted note may use; open strings are always allowed. */
+  minFret?: number;
+  /** Highest fret a note may use. Defaults to the last fret above the capo. */
+  maxFret?: number;
+  /** Widest span in frets between the fretted notes of a chord. Defaults to 4. */
+  maxStretch?: number;
+}
+
+export interface FretPosition {
+  string: number;
+  fret: number;
+}
+
+interface FingeringLimits {
+  minFret: number;
+  maxFret: number;
+  maxStretch: number;
+}
+
+interface SolverNote {
+  pitch: number;
+  /** Frets the note's techniques reach, relative to the note's own fret. */
+  reach: number[];
+  /** Tied into the next event, which must keep it on the same string. */
+  tied: boolean;
+}
+
+interface SolverEvent {
+  notes: SolverNote[];
+  /** Strings held by notes without a pitch, such as dead notes. */
+  blocked: number[];
+}
+
+interface Shape {
+  positions: FretPosition[];
+  /** Lowest fretted fret, or null when every note is an open string. */
+  hand: number | null;
+  cost: number;
+}
+
+const DEFAULT_MAX_STRETCH = 4;
+/** High enough that any fingering keeping the tie wins. */
+const TIE_PENALTY = 1000;
+/** Nudges the hand towards the nut when two fingerings are otherwise equal. */
+const POSITION_WEIGHT = 0.1;
+
+function resolveLimits(
+  board: Fretboard,
+  options: FingeringOptions
+): FingeringLimits {
+  const limits = {
+    minFret: options.minFret ?? 0,
+    maxFret: options.maxFret ?? board.instrument.frets - board.capo,
+    maxStretch: options.maxStretch ?? DEFAULT_MAX_STRETCH,
+  };
+  const valid = Object.values(limits).every(
+    (value) => Number.isInteger(value) && value >= 0
+  );
+  if (!valid || limits.minFret > limits.maxFret) {
+    throw new OpenTabTransformError(
+      `Invalid position limits: frets ${limits.minFret}-${limits.maxFret}, ` +
+        `stretch ${limits.maxStretch}`
+    );
+  }
+  return limits;
+}
+
+function positionsFor(
+  note: SolverNote,
+  board: Fretboard,
+  limits: FingeringLimits
+): FretPosition[] {
+  const positions: FretPosition[] = [];
+  for (let string = 1; string <= board.instrument.strings; string += 1) {
+    const fret = fretFor(board, string, note.pitch);
+    if (
+      fret === undefined ||
+      (fret > 0 && (fret < limits.minFret || fret > limits.maxFret))
+    ) {
+      continue;
+    }
+    if (note.reach.every((offset) => fits(board, string, fret + offset))) {
+      positions.push({ string, fret });
+    }
+  }
+  return positions;
+}
+
+/** Every way to put an event's notes on separate strings within the limits. */
+function shapesFor(
+  event: SolverEvent,
+  board: Fretboard,
+  limits: FingeringLimits
+): Shape[] {
+  const choices = event.notes.map((note) => positionsFor(note, board, limits));
+  const shapes: Shape[] = [];
+  const placed: FretPosition[] = [];
+  const used = new Set(event.blocked);
+  const place = (index: number): void => {
+    const fretted = placed
+      .filter((position) => position.fret > 0)
+      .map((position) => position.fret);
+    const hand = fretted.length > 0 ? Math.min(...fretted) : null;
+    const stretch = hand === null ? 0 : Math.max(...fretted) - hand;
+    if (stretch > limits.maxStretch) {
+      return;
+    }
+    if (index === choices.length) {
+      shapes.push({
+        positions: [...placed],
+        hand,
+        cost: stretch + (hand ?? 0) * POSITION_WEIGHT,
+      });
+      return;
+    }
+    for (const position of choices[index]) {
+      if (used.has(position.string)) {
+        continue;
+      }
+      used.add(position.string);
+      placed.push(position);
+      place(index + 1);
+      placed.pop();
+      used.delete(position.string);
+    }
+  };
+  place(0);
+  return shapes;
+}
+
+/** Hand travel between two shapes, plus a penalty for each broken tie. */
+function movement(
+  from: SolverEvent,
+  fromShape: Shape,
+  to: SolverEvent,
+  toShape: Shape
+): number {
+  let cost =
+    fromShape.hand === null || toShape.hand === null
+      ? 0
+      : Math.abs(fromShape.hand - toShape.hand);
+  from.notes.forEach((note, index) => {
+    const next = to.notes.findIndex((other) => other.pitch === note.pitch);
+    if (
+      note.tied &&
+      next >= 0 &&
+      toShape.positions[next].string !== fromShape.positions[index].string
+    ) {
+      cost += TIE_PENALTY;
+    }
+  });
+  return cost;
+}
+
+/**
+ * Picks one shape per event so that the stretch of every shape plus the hand
+ * travel between them is as small as possible over the whole sequence. An
+ * event with no playable shape gets null and is skipped by the path.
+ */
+function solve(
+  events: SolverEvent[],
+  board: Fretboard,
+  limits: FingeringLimits
+): Array<FretPosition[] | null> {
+  interface Step {
+    event: number;
+    shape: Shape;
+    cost: number;
+    previous?: Step;
+  }
+  const fingerings: Array<FretPosition[] | null> = events.map((event) =>
+    event.notes.length === 0 ? [] : null
+  );
+  let layer: Step[] = [];
+  events.forEach((event, index) => {
+    if (event.notes.length === 0) {
+      return;
+    }
+    const shapes = shapesFor(event, board, limits);
+    if (shapes.length === 0) {
+      return;
+    }
+    layer = shapes.map((shape) => {
+      let best: Step = { event: index, shape, cost: shape.cost };
+      for (const step of layer) {
+        const cost =
+          step.cost +
+          movement(events[step.event], step.shape, event, shape) +
+          shape.cost;
+        if (best.previous === undefined || cost < best.cost) {
+          best = { event: index, shape, cost, previous: step };
+        }
+      }
+      return best;
+    });
+  });
+  let step: Step | undefined = layer.reduce<Step | undefined>(
+    (best, candidate) =>
+      best === undefined || candidate.cost < best.cost ? candidate : best,
+    undefined
+  );
+  while (step) {
+    fingerings[step.event] = step.shape.positions;
+    step = step.previous;
+  }
+  return fingerings;
+}
+
+/**
+ * Assigns a string and fret to each pitch. `events` lists the MIDI pitches
+ * sounding together, in playing order; each result lists positions in the
+ * same order as its pitches, with frets counted from the track's capo, or is
+ * null when the pitches cannot be fingered within the limits.
+ */
+export function solveFingering(
+  events: number[][],
+  track: Pick<Track, "instrument" | "tuning" | "capo">,
+  options: FingeringOptions = {}
+): Array<FretPosition[] | null> {
+  const board = fretboardOf(track);
+  return solve(
+    events.map((pitches) => ({
+      notes: pitches.map((pitch) => ({ pitch, reach: [], tied: false })),
+      blocked: [],
+    })),
+    board,
+    resolveLimits(board, options)
+  );
+}
+
+interface FingeredEvent {
+  measure: number;
+  event: Event;
+  /** Notes with a pitch, in the order the solver places them. */
+  notes: NoteRef[];
+  solver: SolverEvent;
+}
+
+function fingeredEvent(
+  measure: number,
+  event: Event,
+  board: Fretboard
+): FingeredEvent | undefined {
+  const all =
+    event.type === "note"
+      ? [event.note]
+      : event.type === "chord"
+        ? event.chord
+        : [];
+  if (all.length === 0) {
+    return undefined;
+  }
+  const notes: NoteRef[] = [];
+  const solver: SolverEvent = { notes: [], blocked: [] };
+  for (const note of all) {
+    const pitch = soundingPitch(board, note.string, note.fret);
+    if (isDeadNote(note) || pitch === null) {
+      solver.blocked.push(note.string);
+      continue;
+    }
+    notes.push(note);
+    solver.notes.push({
+      pitch,
+      reach: (note.inlineTechniques ?? []).flatMap((technique) =>
+        TECHNIQUE_FRETS.flatMap((field) => {
+          const fret = technique[field];
+          return fret === undefined ? [] : [fret - note.fret];
+        })
+      ),
+      tied: note.tie === "start" || note.tie === "continue",
+    });
+  }
+  return { measure, event, notes, solver };
+}
+
+const describeNotes = (notes: NoteRef[]): string =>
+  `${notes.length === 1 ? "Note" : "Chord"} ` +
+  notes.map((note) => `${note.string}:${note.fret}`).join(" ");
+
+/**
+ * Re-assigns the string and fret of every note of a track, keeping its
+ * pitch, with the fewest stretches and position shifts along each voice.
+ */
+export function refinger(
+  document: OpenTabDocument,
+  trackId: string,
+  options: FingeringOptions = {}
+): TransformResult {
+  const result = copyDocument(document);
+  const board = fretboardOf(findTrack(result, trackId));
+  const limits = resolveLimits(board, options);
+
+  const voices = new Map<string, FingeredEvent[]>();
+  const measures = [...result.measures].sort((a, b) => a.index - b.index);
+  for (const measure of measures) {
+    const trackMeasure = measure.tracks[trackId];
+    for (const [voice, events] of Object.entries(trackMeasure?.voices ?? {})) {
+      const entries = voices.get(voice) ?? [];
+      voices.set(voice, entries);
+      for (const event of events) {
+        const entry = fingeredEvent(measure.index, event, board);
+        if (entry) {
+          entries.push(entry);
+        }
+      }
+    }
+  }
+
+  const issues: TransformIssue[] = [];
+  for (const [voice, entries] of voices) {
+    const fingerings = solve(
+      entries.map((entry) => entry.solver),
+      board,
+      limits
+    );
+    entries.forEach((entry, index) => {
+      const fingering = fingerings[index];
+      if (!fingering) {
+        issues.push({
+          code: "unplayable-note",
+          message:
+            `${describeNotes(entry.notes)} in measure ${entry.measure} of ` +
+            `track ${trackId} voice ${voice} cannot be fingered within the ` +
+            `position limits; it is left as written`,
+          measure: entry.measure,
+          track: trackId,
+          voice,
+          position: entry.notes[0].position ?? entry.event.position,
+        });
+        return;
+      }
+      placeNotes(entry.notes, fingering);
+    });
+  }
+  unlinkChangedChords(result);
+  return { document: result, issues };
+}
+